@@ -0,0 +1,112 @@
+/**
+ * Aging Tests
+ *
+ * Tests for the origin and aging details of a tea (harvest year, region, factory,
+ * pressing, storage location), its age and the vintage sort.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import request from 'supertest';
+import jwt from 'jsonwebtoken';
+
+import { compareVintage, getTeaAge } from '../../shared/aging';
+import { createApp } from '../app';
+import { createRepositories } from '../repositories';
+import type { StorageBackend } from '../repositories';
+
+const JWT_SECRET = 'test-secret';
+
+let tempDir: string;
+let token: string;
+
+beforeAll(() => {
+  process.env.ADMIN_USERNAME = 'admin';
+  process.env.ADMIN_PASSWORD_HASH = 'unused';
+  process.env.JWT_SECRET = JWT_SECRET;
+  token = jwt.sign({ username: 'admin' }, JWT_SECRET);
+});
+
+beforeEach(() => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tea-aging-'));
+});
+
+afterEach(() => {
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe('getTeaAge', () => {
+  const now = new Date(2026, 5, 1).getTime();
+
+  it('should count calendar years since the harvest', () => {
+    expect(getTeaAge({ harvestYear: 2019 }, now)).toBe(7);
+    expect(getTeaAge({ harvestYear: 2026 }, now)).toBe(0);
+  });
+
+  it('should return null without a harvest year', () => {
+    expect(getTeaAge({}, now)).toBeNull();
+    expect(getTeaAge({ harvestYear: null }, now)).toBeNull();
+  });
+});
+
+describe('compareVintage', () => {
+  const teas = [{ harvestYear: 2015 }, { harvestYear: null }, { harvestYear: 2008 }, { harvestYear: 2021 }];
+
+  it('should sort oldest or youngest first with unknown years last', () => {
+    expect([...teas].sort((a, b) => compareVintage(a, b, 'oldest')).map(tea => tea.harvestYear)).toEqual([2008, 2015, 2021, null]);
+    expect([...teas].sort((a, b) => compareVintage(a, b, 'youngest')).map(tea => tea.harvestYear)).toEqual([2021, 2015, 2008, null]);
+  });
+});
+
+describe.each<StorageBackend>(['yaml', 'sqlite'])('Aging details through the API (%s backend)', (backend) => {
+  const createTestApp = async () => {
+    const repositories = await createRepositories({
+      backend,
+      dataFile: path.join(tempDir, 'teas.yaml'),
+      sessionsFile: path.join(tempDir, 'sessions.yaml'),
+      purchasesFile: path.join(tempDir, 'purchases.yaml'),
+      vendorsFile: path.join(tempDir, 'vendors.yaml'),
+      tastingNotesFile: path.join(tempDir, 'tasting-notes.yaml'),
+      sqliteFile: path.join(tempDir, 'teas.db'),
+      backupDir: path.join(tempDir, 'backups'),
+      backupRetention: 0,
+      scrapeCacheDir: path.join(tempDir, 'scrape-cache'),
+      scrapeCacheTtlHours: 0,
+      imageDir: path.join(tempDir, 'images'),
+      downloadImages: false,
+    });
+    return createApp(repositories);
+  };
+
+  const postTea = (app: Awaited<ReturnType<typeof createTestApp>>, body: object) =>
+    request(app).post('/api/teas').set('Authorization', `Bearer ${token}`).send({
+      name: '2019 Bulang Gushu',
+      type: 'Sheng',
+      image: 'http://example.com/image.jpg',
+      steepTimes: [10, 15, 20],
+      ...body,
+    });
+
+  it('should store and update the aging details', async () => {
+    const app = await createTestApp();
+
+    const created = await postTea(app, { harvestYear: 2019, region: ' Bulang ', factory: 'Menghai Tea Factory', pressing: 'Cake', storageLocation: 'Pumidor' });
+    const updated = await request(app)
+      .patch(`/api/teas/${created.body.id}`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ storageLocation: 'Kunming', pressing: null });
+
+    expect(created.status).toBe(201);
+    expect(created.body).toMatchObject({ harvestYear: 2019, region: 'Bulang', factory: 'Menghai Tea Factory', pressing: 'Cake' });
+    expect(updated.status).toBe(200);
+    expect(updated.body).toMatchObject({ harvestYear: 2019, storageLocation: 'Kunming', pressing: null });
+  });
+
+  it('should reject an unknown pressing or a fractional year', async () => {
+    const app = await createTestApp();
+
+    expect((await postTea(app, { pressing: 'Coin' })).status).toBe(400);
+    expect((await postTea(app, { harvestYear: 2019.5 })).status).toBe(400);
+  });
+});
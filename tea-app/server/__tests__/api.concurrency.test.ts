@@ -0,0 +1,155 @@
+/**
+ * Concurrency Tests
+ *
+ * Fires overlapping requests at the real Express app (YAML backend) and checks that
+ * serialized, atomic writes do not lose updates or leave temp files behind.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import request from 'supertest';
+import jwt from 'jsonwebtoken';
+import yaml from 'js-yaml';
+
+import { createApp } from '../app';
+import { createRepositories } from '../repositories';
+import { createMutex } from '../repositories/mutex';
+
+const JWT_SECRET = 'test-secret';
+
+const createMockTea = (id: string) => ({
+  id,
+  name: `Tea ${id}`,
+  type: 'Green',
+  image: 'http://example.com/image.jpg',
+  steepTimes: [10, 15, 20],
+  caffeine: 'Low',
+  caffeineLevel: 'Low',
+  website: 'http://example.com',
+  temperatureCelsius: 79,
+  leafGrams: 5,
+  waterMl: null,
+  timesConsumed: 0,
+  lastConsumedDate: null,
+});
+
+let tempDir: string;
+let dataFile: string;
+let token: string;
+
+beforeAll(() => {
+  process.env.ADMIN_USERNAME = 'admin';
+  process.env.ADMIN_PASSWORD_HASH = 'unused';
+  process.env.JWT_SECRET = JWT_SECRET;
+  token = jwt.sign({ username: 'admin' }, JWT_SECRET);
+});
+
+beforeEach(() => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tea-concurrency-'));
+  dataFile = path.join(tempDir, 'teas.yaml');
+  fs.writeFileSync(dataFile, yaml.dump([createMockTea('1'), createMockTea('2')]));
+});
+
+afterEach(() => {
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+const createTestApp = async () => {
+  const repositories = await createRepositories({
+    backend: 'yaml',
+    dataFile,
+    sessionsFile: path.join(tempDir, 'sessions.yaml'),
+    purchasesFile: path.join(tempDir, 'purchases.yaml'),
+    vendorsFile: path.join(tempDir, 'vendors.yaml'),
+    tastingNotesFile: path.join(tempDir, 'tasting-notes.yaml'),
+    sqliteFile: path.join(tempDir, 'teas.db'),
+    backupDir: path.join(tempDir, 'backups'),
+    backupRetention: 0,
+    scrapeCacheDir: path.join(tempDir, 'scrape-cache'),
+    scrapeCacheTtlHours: 0,
+    imageDir: path.join(tempDir, 'images'),
+    downloadImages: false,
+  });
+  return createApp(repositories);
+};
+
+describe('Concurrent PUT /api/teas/:id/lastConsumed', () => {
+  it('should not lose increments when requests overlap', async () => {
+    const app = await createTestApp();
+    const count = 20;
+
+    const responses = await Promise.all(
+      Array.from({ length: count }, () =>
+        request(app).put('/api/teas/1/lastConsumed').set('Authorization', `Bearer ${token}`)
+      )
+    );
+
+    responses.forEach(response => expect(response.status).toBe(200));
+
+    const stored = yaml.load(fs.readFileSync(dataFile, 'utf8')) as { id: string; timesConsumed: number }[];
+    expect(stored.find(t => t.id === '1')?.timesConsumed).toBe(count);
+    expect(stored.find(t => t.id === '2')?.timesConsumed).toBe(0);
+  });
+
+  it('should keep every update when different teas are consumed at the same time', async () => {
+    const app = await createTestApp();
+
+    await Promise.all([
+      ...Array.from({ length: 5 }, () =>
+        request(app).put('/api/teas/1/lastConsumed').set('Authorization', `Bearer ${token}`)
+      ),
+      ...Array.from({ length: 5 }, () =>
+        request(app).put('/api/teas/2/lastConsumed').set('Authorization', `Bearer ${token}`)
+      ),
+      request(app).patch('/api/teas/2').set('Authorization', `Bearer ${token}`).send({ rating: 8 }),
+    ]);
+
+    const stored = yaml.load(fs.readFileSync(dataFile, 'utf8')) as { id: string; timesConsumed: number; rating?: number }[];
+    expect(stored.find(t => t.id === '1')?.timesConsumed).toBe(5);
+    expect(stored.find(t => t.id === '2')?.timesConsumed).toBe(5);
+    expect(stored.find(t => t.id === '2')?.rating).toBe(8);
+  });
+
+  it('should not leave temp files next to the data file', async () => {
+    const app = await createTestApp();
+
+    await Promise.all(
+      Array.from({ length: 5 }, () =>
+        request(app).put('/api/teas/1/lastConsumed').set('Authorization', `Bearer ${token}`)
+      )
+    );
+
+    expect(fs.readdirSync(tempDir).filter(file => file.endsWith('.tmp'))).toEqual([]);
+  });
+});
+
+describe('createMutex', () => {
+  it('should run overlapping async tasks one at a time', async () => {
+    const mutex = createMutex();
+    let counter = 0;
+
+    // Each task reads, yields to the event loop, then writes - a classic lost-update race
+    const increment = () => mutex.runExclusive(async () => {
+      const value = counter;
+      await new Promise(resolve => setTimeout(resolve, 1));
+      counter = value + 1;
+    });
+
+    await Promise.all(Array.from({ length: 10 }, increment));
+
+    expect(counter).toBe(10);
+  });
+
+  it('should keep running queued tasks after one fails', async () => {
+    const mutex = createMutex();
+
+    const failing = mutex.runExclusive(() => {
+      throw new Error('boom');
+    });
+    const next = mutex.runExclusive(() => 'ok');
+
+    await expect(failing).rejects.toThrow('boom');
+    await expect(next).resolves.toBe('ok');
+  });
+});
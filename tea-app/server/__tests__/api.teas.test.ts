@@ -5,15 +5,22 @@
  * - GET /api/teas (retrieve all teas)
  * - POST /api/teas (create new tea)
  * - DELETE /api/teas/:id (delete tea)
+ * - PATCH /api/teas/:id (partial update, against the real app)
  */
 
 import request from 'supertest';
 import express from 'express';
 import fs from 'fs';
+import os from 'os';
 import path from 'path';
 import yaml from 'js-yaml';
+import jwt from 'jsonwebtoken';
 import { z } from 'zod';
 
+import type { Tea as StoredTea } from '../../shared/types';
+import { createApp } from '../app';
+import { createRepositories } from '../repositories';
+
 // Define types and schemas locally for testing
 const TeaTypeSchema = z.enum(['Green', 'Black', 'PuEr', 'Yellow', 'White', 'Oolong']);
 const CaffeineLevelSchema = z.enum(['None', 'Low', 'Medium', 'High']);
@@ -759,3 +766,113 @@ describe('DELETE /api/teas/:id', () => {
     expect(response.body).toHaveProperty('error', 'Tea not found');
   });
 });
+
+describe('PATCH /api/teas/:id', () => {
+  const JWT_SECRET = 'test-secret';
+  let tempDir: string;
+  let token: string;
+
+  const storedTea: StoredTea = {
+    id: '1',
+    name: 'Consumed Tea',
+    type: 'Green',
+    image: 'http://example.com/image.jpg',
+    steepTimes: [10, 15],
+    caffeine: 'Low',
+    caffeineLevel: 'Low',
+    website: 'http://example.com',
+    temperatureCelsius: 80,
+    leafGrams: 5,
+    waterMl: null,
+    timesConsumed: 4,
+    lastConsumedDate: 1700000000000,
+  };
+
+  const createRealApp = async () => {
+    const dataFile = path.join(tempDir, 'teas.yaml');
+    fs.writeFileSync(dataFile, yaml.dump([storedTea]));
+
+    const repositories = await createRepositories({
+      backend: 'yaml',
+      dataFile,
+      sessionsFile: path.join(tempDir, 'sessions.yaml'),
+      purchasesFile: path.join(tempDir, 'purchases.yaml'),
+      vendorsFile: path.join(tempDir, 'vendors.yaml'),
+      tastingNotesFile: path.join(tempDir, 'tasting-notes.yaml'),
+      sqliteFile: path.join(tempDir, 'teas.db'),
+      backupDir: path.join(tempDir, 'backups'),
+      backupRetention: 0,
+      scrapeCacheDir: path.join(tempDir, 'scrape-cache'),
+      scrapeCacheTtlHours: 0,
+      imageDir: path.join(tempDir, 'images'),
+      downloadImages: false,
+    });
+    return createApp(repositories);
+  };
+
+  beforeAll(() => {
+    process.env.ADMIN_USERNAME = 'admin';
+    process.env.ADMIN_PASSWORD_HASH = 'unused';
+    process.env.JWT_SECRET = JWT_SECRET;
+    token = jwt.sign({ username: 'admin' }, JWT_SECRET);
+  });
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tea-patch-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should keep the consumption history on a partial update', async () => {
+    const app = await createRealApp();
+
+    const response = await request(app)
+      .patch('/api/teas/1')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ name: 'Renamed Tea', steepTimes: [20, 30] });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({
+      name: 'Renamed Tea',
+      steepTimes: [20, 30],
+      timesConsumed: 4,
+      lastConsumedDate: 1700000000000,
+    });
+
+    const list = await request(app).get('/api/teas').set('Authorization', `Bearer ${token}`);
+    expect(list.body[0]).toMatchObject({ timesConsumed: 4, lastConsumedDate: 1700000000000 });
+  });
+
+  it('should reject unknown fields and the id with 400', async () => {
+    const app = await createRealApp();
+
+    const unknown = await request(app)
+      .patch('/api/teas/1')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ name: 'Renamed Tea', color: 'green' });
+    const withId = await request(app)
+      .patch('/api/teas/1')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ id: '2' });
+
+    expect(unknown.status).toBe(400);
+    expect(withId.status).toBe(400);
+
+    const list = await request(app).get('/api/teas').set('Authorization', `Bearer ${token}`);
+    expect(list.body).toHaveLength(1);
+    expect(list.body[0]).toMatchObject({ id: '1', name: 'Consumed Tea' });
+  });
+
+  it('should return 404 for an unknown tea', async () => {
+    const app = await createRealApp();
+
+    const response = await request(app)
+      .patch('/api/teas/missing')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ name: 'Renamed Tea' });
+
+    expect(response.status).toBe(404);
+  });
+});
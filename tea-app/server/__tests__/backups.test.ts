@@ -0,0 +1,203 @@
+/**
+ * Backup Tests
+ *
+ * Tests for automatic snapshots taken before each write and the
+ * GET /api/backups and POST /api/backups/:id/restore endpoints.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import request from 'supertest';
+import jwt from 'jsonwebtoken';
+import yaml from 'js-yaml';
+
+import type { Tea } from '../../shared/types';
+import { createApp } from '../app';
+import { createBackupStore, createRepositories, isValidBackupId } from '../repositories';
+import type { StorageBackend } from '../repositories';
+
+const JWT_SECRET = 'test-secret';
+
+const createMockTea = (overrides?: Partial<Tea>): Tea => ({
+  id: '1',
+  name: 'Test Green Tea',
+  type: 'Green',
+  image: 'http://example.com/image.jpg',
+  steepTimes: [10, 15, 20],
+  caffeine: 'Low',
+  caffeineLevel: 'Low',
+  website: 'http://example.com',
+  temperatureCelsius: 79,
+  leafGrams: 5,
+  waterMl: null,
+  timesConsumed: 0,
+  lastConsumedDate: null,
+  ...overrides,
+});
+
+let tempDir: string;
+let backupDir: string;
+let token: string;
+
+beforeAll(() => {
+  process.env.ADMIN_USERNAME = 'admin';
+  process.env.ADMIN_PASSWORD_HASH = 'unused';
+  process.env.JWT_SECRET = JWT_SECRET;
+  token = jwt.sign({ username: 'admin' }, JWT_SECRET);
+});
+
+beforeEach(() => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tea-backups-'));
+  backupDir = path.join(tempDir, 'backups');
+});
+
+afterEach(() => {
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe('createBackupStore', () => {
+  it('should write a snapshot and list it', async () => {
+    const store = createBackupStore(backupDir, 5);
+
+    store.snapshot([createMockTea()]);
+
+    const backups = await store.list();
+    expect(backups).toHaveLength(1);
+    expect(isValidBackupId(backups[0].id)).toBe(true);
+    expect(backups[0].teaCount).toBe(1);
+    expect(backups[0].createdAt).toBeGreaterThan(0);
+  });
+
+  it('should skip a snapshot identical to the latest one', async () => {
+    const store = createBackupStore(backupDir, 5);
+
+    store.snapshot([createMockTea()]);
+    store.snapshot([createMockTea()]);
+
+    expect(await store.list()).toHaveLength(1);
+  });
+
+  it('should keep only the configured number of snapshots, newest first', async () => {
+    const store = createBackupStore(backupDir, 3);
+
+    for (let i = 1; i <= 5; i++) {
+      store.snapshot([createMockTea({ timesConsumed: i })]);
+    }
+
+    const backups = await store.list();
+    expect(backups).toHaveLength(3);
+    const restored = await Promise.all(backups.map(b => store.read(b.id)));
+    expect(restored.map(teas => teas?.[0].timesConsumed)).toEqual([5, 4, 3]);
+  });
+
+  it('should not write anything when retention is 0', async () => {
+    const store = createBackupStore(backupDir, 0);
+
+    store.snapshot([createMockTea()]);
+
+    expect(fs.existsSync(backupDir)).toBe(false);
+  });
+
+  it('should reject ids that are not snapshot timestamps', async () => {
+    const store = createBackupStore(backupDir, 5);
+
+    expect(isValidBackupId('../teas')).toBe(false);
+    expect(await store.read('../teas')).toBeUndefined();
+  });
+});
+
+describe.each<StorageBackend>(['yaml', 'sqlite'])('Backups API (%s backend)', (backend) => {
+  const createTestApp = async () => {
+    const dataFile = path.join(tempDir, 'teas.yaml');
+    fs.writeFileSync(dataFile, yaml.dump([createMockTea({ id: '1', name: 'Original' })]));
+
+    const repositories = await createRepositories({
+      backend,
+      dataFile,
+      sessionsFile: path.join(tempDir, 'sessions.yaml'),
+      purchasesFile: path.join(tempDir, 'purchases.yaml'),
+      vendorsFile: path.join(tempDir, 'vendors.yaml'),
+      tastingNotesFile: path.join(tempDir, 'tasting-notes.yaml'),
+      sqliteFile: path.join(tempDir, 'teas.db'),
+      backupDir,
+      backupRetention: 10,
+      scrapeCacheDir: path.join(tempDir, 'scrape-cache'),
+      scrapeCacheTtlHours: 0,
+      imageDir: path.join(tempDir, 'images'),
+      downloadImages: false,
+    });
+    return createApp(repositories);
+  };
+
+  it('should snapshot the collection before each write', async () => {
+    const app = await createTestApp();
+
+    await request(app).patch('/api/teas/1').set('Authorization', `Bearer ${token}`).send({ name: 'Renamed' });
+
+    const response = await request(app).get('/api/backups').set('Authorization', `Bearer ${token}`);
+    expect(response.status).toBe(200);
+    expect(response.body).toHaveLength(1);
+    expect(response.body[0].teaCount).toBe(1);
+  });
+
+  it('should restore a snapshot after a mistaken delete', async () => {
+    const app = await createTestApp();
+
+    await request(app).delete('/api/teas/1').set('Authorization', `Bearer ${token}`);
+    const teasAfterDelete = await request(app).get('/api/teas').set('Authorization', `Bearer ${token}`);
+    expect(teasAfterDelete.body).toHaveLength(0);
+
+    const backups = await request(app).get('/api/backups').set('Authorization', `Bearer ${token}`);
+    const restore = await request(app)
+      .post(`/api/backups/${backups.body[0].id}/restore`)
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(restore.status).toBe(200);
+    const teas = await request(app).get('/api/teas').set('Authorization', `Bearer ${token}`);
+    expect(teas.body.map((t: Tea) => t.name)).toEqual(['Original']);
+  });
+
+  it('should derive consumption from the session log when restoring', async () => {
+    const app = await createTestApp();
+
+    await request(app).patch('/api/teas/1').set('Authorization', `Bearer ${token}`).send({ name: 'Renamed' });
+    await request(app)
+      .post('/api/sessions')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ teaId: '1', startedAt: 1000, endedAt: 2000 });
+
+    // The oldest snapshot predates the session
+    const backups = await request(app).get('/api/backups').set('Authorization', `Bearer ${token}`);
+    const oldest = backups.body[backups.body.length - 1];
+    const restore = await request(app)
+      .post(`/api/backups/${oldest.id}/restore`)
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(restore.status).toBe(200);
+    const teas = await request(app).get('/api/teas').set('Authorization', `Bearer ${token}`);
+    expect(teas.body).toEqual([
+      expect.objectContaining({ name: 'Original', timesConsumed: 1, lastConsumedDate: 2000 }),
+    ]);
+  });
+
+  it('should return 404 for an unknown snapshot', async () => {
+    const app = await createTestApp();
+
+    const response = await request(app)
+      .post('/api/backups/20200101T000000000Z/restore')
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should return 400 for a malformed snapshot id', async () => {
+    const app = await createTestApp();
+
+    const response = await request(app)
+      .post('/api/backups/not-a-backup/restore')
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(response.status).toBe(400);
+  });
+});
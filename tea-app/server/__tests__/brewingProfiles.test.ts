@@ -0,0 +1,154 @@
+/**
+ * Brewing Profile Tests
+ *
+ * Tests for per-method brewing profiles and for keeping the top-level
+ * steepTimes, temperatureCelsius, leafGrams and waterMl in step with the first profile.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import request from 'supertest';
+import jwt from 'jsonwebtoken';
+import yaml from 'js-yaml';
+
+import type { BrewingProfile, Tea } from '../../shared/types';
+import { getBrewingProfiles } from '../../shared/brewing';
+import { createApp } from '../app';
+import { createRepositories } from '../repositories';
+
+const JWT_SECRET = 'test-secret';
+
+const gongfu: BrewingProfile = { method: 'Chinese Gongfu', steepTimes: [10, 15, 20], temperatureCelsius: 85, leafGrams: 5, waterMl: 100 };
+const western: BrewingProfile = { method: 'Western', steepTimes: [180, 240], temperatureCelsius: 85, leafGrams: 3, waterMl: 350 };
+
+const createMockTea = (overrides?: Partial<Tea>): Tea => ({
+  id: '1',
+  name: 'Test Green Tea',
+  type: 'Green',
+  image: 'http://example.com/image.jpg',
+  steepTimes: [10, 15, 20],
+  caffeine: 'Low',
+  caffeineLevel: 'Low',
+  website: 'http://example.com',
+  temperatureCelsius: 85,
+  leafGrams: 5,
+  waterMl: 100,
+  timesConsumed: 0,
+  lastConsumedDate: null,
+  ...overrides,
+});
+
+let tempDir: string;
+let token: string;
+
+beforeAll(() => {
+  process.env.ADMIN_USERNAME = 'admin';
+  process.env.ADMIN_PASSWORD_HASH = 'unused';
+  process.env.JWT_SECRET = JWT_SECRET;
+  token = jwt.sign({ username: 'admin' }, JWT_SECRET);
+});
+
+beforeEach(() => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tea-profiles-'));
+});
+
+afterEach(() => {
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+const createTestApp = async (teas: Tea[] = [createMockTea()]) => {
+  const dataFile = path.join(tempDir, 'teas.yaml');
+  fs.writeFileSync(dataFile, yaml.dump(teas));
+
+  const repositories = await createRepositories({
+    backend: 'yaml',
+    dataFile,
+    sessionsFile: path.join(tempDir, 'sessions.yaml'),
+    purchasesFile: path.join(tempDir, 'purchases.yaml'),
+    vendorsFile: path.join(tempDir, 'vendors.yaml'),
+    tastingNotesFile: path.join(tempDir, 'tasting-notes.yaml'),
+    sqliteFile: path.join(tempDir, 'teas.db'),
+    backupDir: path.join(tempDir, 'backups'),
+    backupRetention: 0,
+    scrapeCacheDir: path.join(tempDir, 'scrape-cache'),
+    scrapeCacheTtlHours: 0,
+    imageDir: path.join(tempDir, 'images'),
+    downloadImages: false,
+  });
+  return createApp(repositories);
+};
+
+describe('getBrewingProfiles', () => {
+  it('should build a Gongfu profile for teas without profiles', () => {
+    expect(getBrewingProfiles(createMockTea())).toEqual([gongfu]);
+  });
+
+  it('should return the stored profiles', () => {
+    expect(getBrewingProfiles(createMockTea({ brewingProfiles: [gongfu, western] }))).toEqual([gongfu, western]);
+  });
+});
+
+describe('Brewing profiles API', () => {
+  it('should mirror the first profile into the top-level fields on create', async () => {
+    const app = await createTestApp([]);
+
+    const response = await request(app)
+      .post('/api/teas')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ name: 'Dian Hong', type: 'Black', image: '', steepTimes: [], brewingProfiles: [western, gongfu] });
+
+    expect(response.status).toBe(201);
+    expect(response.body.steepTimes).toEqual([180, 240]);
+    expect(response.body.leafGrams).toBe(3);
+  });
+
+  it('should reject two profiles for the same method', async () => {
+    const app = await createTestApp();
+
+    const response = await request(app)
+      .patch('/api/teas/1')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ brewingProfiles: [gongfu, { ...gongfu, steepTimes: [30] }] });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should update the top-level fields when the profiles are replaced', async () => {
+    const app = await createTestApp();
+
+    const response = await request(app)
+      .patch('/api/teas/1')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ brewingProfiles: [{ ...gongfu, steepTimes: [20, 30] }, western] });
+
+    expect(response.status).toBe(200);
+    expect(response.body.steepTimes).toEqual([20, 30]);
+    expect(response.body.brewingProfiles).toHaveLength(2);
+  });
+
+  it('should update the first profile when only the top-level fields change', async () => {
+    const app = await createTestApp([createMockTea({ brewingProfiles: [gongfu, western] })]);
+
+    const response = await request(app)
+      .patch('/api/teas/1')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ steepTimes: [12, 18] });
+
+    expect(response.status).toBe(200);
+    expect(response.body.brewingProfiles[0].steepTimes).toEqual([12, 18]);
+    expect(response.body.brewingProfiles[1]).toEqual(western);
+  });
+
+  it('should leave teas without profiles without profiles', async () => {
+    const app = await createTestApp();
+
+    const response = await request(app)
+      .patch('/api/teas/1')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ steepTimes: [12, 18] });
+
+    expect(response.status).toBe(200);
+    expect(response.body.brewingProfiles).toBeUndefined();
+  });
+});
@@ -0,0 +1,264 @@
+/**
+ * Image Tests
+ *
+ * Tests for the image store (resizing, thumbnails, content ids), GET and POST /api/images,
+ * and downloading vendor images when a tea is created or its image changes.
+ * Downloads go through a fake fetcher so the tests work offline.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import request from 'supertest';
+import jwt from 'jsonwebtoken';
+import sharp from 'sharp';
+
+import type { Tea } from '../../shared/types';
+import { createApp } from '../app';
+import { createImageStore, createRepositories, isInvalidImageError } from '../repositories';
+import type { ImageFetcher, Repositories } from '../repositories';
+
+const JWT_SECRET = 'test-secret';
+const VENDOR_IMAGE_URL = 'https://cdn.vendor.example/products/dragon-well.jpg';
+
+let tempDir: string;
+let token: string;
+
+const createImage = (width: number, height: number): Promise<Buffer> =>
+  sharp({ create: { width, height, channels: 3, background: { r: 90, g: 140, b: 60 } } }).jpeg().toBuffer();
+
+beforeAll(() => {
+  process.env.ADMIN_USERNAME = 'admin';
+  process.env.ADMIN_PASSWORD_HASH = 'unused';
+  process.env.JWT_SECRET = JWT_SECRET;
+  token = jwt.sign({ username: 'admin' }, JWT_SECRET);
+});
+
+beforeEach(() => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tea-images-'));
+});
+
+afterEach(() => {
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe('image store', () => {
+  it('should store a WebP copy no larger than 1600px and a 400px thumbnail', async () => {
+    const images = createImageStore(path.join(tempDir, 'images'));
+
+    const id = await images.save(await createImage(2400, 1200));
+
+    const full = await sharp(images.getPath(id, 'full')).metadata();
+    const thumb = await sharp(images.getPath(id, 'thumb')).metadata();
+    expect(full).toMatchObject({ format: 'webp', width: 1600, height: 800 });
+    expect(thumb).toMatchObject({ format: 'webp', width: 400, height: 200 });
+  });
+
+  it('should not enlarge small images', async () => {
+    const images = createImageStore(path.join(tempDir, 'images'));
+
+    const id = await images.save(await createImage(300, 200));
+
+    expect(await sharp(images.getPath(id, 'full')).metadata()).toMatchObject({ width: 300, height: 200 });
+  });
+
+  it('should give the same image the same id', async () => {
+    const images = createImageStore(path.join(tempDir, 'images'));
+    const data = await createImage(100, 100);
+
+    expect(await images.save(data)).toBe(await images.save(data));
+    expect(fs.readdirSync(path.join(tempDir, 'images'))).toHaveLength(2);
+  });
+
+  it('should reject data that is not an image', async () => {
+    const images = createImageStore(path.join(tempDir, 'images'));
+
+    const error = await images.save(Buffer.from('<html>Not found</html>')).catch((e: unknown) => e);
+
+    expect(isInvalidImageError(error)).toBe(true);
+  });
+
+  it('should not resolve paths for unknown or malformed ids', () => {
+    const images = createImageStore(path.join(tempDir, 'images'));
+
+    expect(images.getPath('0123456789abcdef0123456789abcdef', 'full')).toBeUndefined();
+    expect(images.getPath('../teas', 'full')).toBeUndefined();
+  });
+
+  it('should reject downloads when they are disabled', async () => {
+    const images = createImageStore(path.join(tempDir, 'images'));
+
+    await expect(images.download(VENDOR_IMAGE_URL)).rejects.toThrow('Image downloads are disabled');
+  });
+});
+
+describe('image routes', () => {
+  let repositories: Repositories;
+  const fetchedUrls: string[] = [];
+
+  // Serves a generated image for vendor URLs and fails for anything else
+  const fakeFetcher: ImageFetcher = async (url) => {
+    fetchedUrls.push(url);
+    if (!url.startsWith('https://cdn.vendor.example/')) {
+      throw new Error('getaddrinfo ENOTFOUND');
+    }
+    return createImage(800, 600);
+  };
+
+  const createNewTea = (overrides?: Partial<Tea>): Omit<Tea, 'id'> => ({
+    name: 'Dragon Well',
+    type: 'Green',
+    image: VENDOR_IMAGE_URL,
+    steepTimes: [30, 45],
+    caffeine: 'Low',
+    caffeineLevel: 'Low',
+    website: 'https://vendor.example/dragon-well',
+    temperatureCelsius: 80,
+    leafGrams: 5,
+    waterMl: 100,
+    timesConsumed: 0,
+    lastConsumedDate: null,
+    ...overrides,
+  });
+
+  const createMockTea = (overrides?: Partial<Tea>): Tea => ({ id: '1', ...createNewTea(overrides) });
+
+  beforeEach(async () => {
+    fetchedUrls.length = 0;
+    repositories = await createRepositories({
+      backend: 'yaml',
+      dataFile: path.join(tempDir, 'teas.yaml'),
+      sessionsFile: path.join(tempDir, 'sessions.yaml'),
+      purchasesFile: path.join(tempDir, 'purchases.yaml'),
+      vendorsFile: path.join(tempDir, 'vendors.yaml'),
+      tastingNotesFile: path.join(tempDir, 'tasting-notes.yaml'),
+      sqliteFile: path.join(tempDir, 'teas.db'),
+      backupDir: path.join(tempDir, 'backups'),
+      backupRetention: 0,
+      scrapeCacheDir: path.join(tempDir, 'scrape-cache'),
+      scrapeCacheTtlHours: 0,
+      imageDir: path.join(tempDir, 'images'),
+      downloadImages: false,
+    });
+    repositories.images = createImageStore(path.join(tempDir, 'images'), fakeFetcher);
+  });
+
+  describe('GET /api/images/:id', () => {
+    it('should serve a stored image and its thumbnail without a token', async () => {
+      const id = await repositories.images.save(await createImage(800, 600));
+      const app = createApp(repositories);
+
+      const full = await request(app).get(`/api/images/${id}`);
+      const thumb = await request(app).get(`/api/images/${id}?size=thumb`);
+
+      expect(full.status).toBe(200);
+      expect(full.headers['content-type']).toBe('image/webp');
+      expect((await sharp(full.body).metadata()).width).toBe(800);
+      expect((await sharp(thumb.body).metadata()).width).toBe(400);
+    });
+
+    it('should return 404 for an unknown image', async () => {
+      const response = await request(createApp(repositories)).get('/api/images/0123456789abcdef0123456789abcdef');
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('POST /api/images', () => {
+    it('should store an uploaded photo', async () => {
+      const response = await request(createApp(repositories))
+        .post('/api/images')
+        .set('Authorization', `Bearer ${token}`)
+        .set('Content-Type', 'image/jpeg')
+        .send(await createImage(640, 480));
+
+      expect(response.status).toBe(201);
+      expect(response.body.url).toBe(`/api/images/${response.body.id}`);
+      expect(repositories.images.getPath(response.body.id, 'thumb')).toBeDefined();
+    });
+
+    it('should require a token', async () => {
+      const response = await request(createApp(repositories))
+        .post('/api/images')
+        .set('Content-Type', 'image/jpeg')
+        .send(await createImage(10, 10));
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should reject a file that is not an image', async () => {
+      const response = await request(createApp(repositories))
+        .post('/api/images')
+        .set('Authorization', `Bearer ${token}`)
+        .set('Content-Type', 'image/png')
+        .send(Buffer.from('not a png'));
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('File is not a supported image');
+    });
+
+    it('should reject a body without an image content type', async () => {
+      const response = await request(createApp(repositories))
+        .post('/api/images')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ url: VENDOR_IMAGE_URL });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('tea images', () => {
+    it('should download the image of a new tea and keep the URL as its source', async () => {
+      const response = await request(createApp(repositories))
+        .post('/api/teas')
+        .set('Authorization', `Bearer ${token}`)
+        .send(createNewTea());
+
+      expect(response.status).toBe(201);
+      expect(response.body.image).toMatch(/^\/api\/images\/[0-9a-f]{32}$/);
+      expect(response.body.imageSourceUrl).toBe(VENDOR_IMAGE_URL);
+      expect(fetchedUrls).toEqual([VENDOR_IMAGE_URL]);
+    });
+
+    it('should keep the URL when the image cannot be downloaded', async () => {
+      const response = await request(createApp(repositories))
+        .post('/api/teas')
+        .set('Authorization', `Bearer ${token}`)
+        .send(createNewTea({ image: 'https://gone.example/tea.jpg' }));
+
+      expect(response.status).toBe(201);
+      expect(response.body.image).toBe('https://gone.example/tea.jpg');
+      expect(response.body).not.toHaveProperty('imageSourceUrl');
+    });
+
+    it('should download a changed image URL and drop the source for an uploaded photo', async () => {
+      await repositories.teas.create(createMockTea({ image: 'https://old.example/tea.jpg' }));
+      const app = createApp(repositories);
+
+      const changed = await request(app)
+        .patch('/api/teas/1')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ image: VENDOR_IMAGE_URL });
+      expect(changed.body).toMatchObject({ imageSourceUrl: VENDOR_IMAGE_URL });
+
+      const uploadedId = await repositories.images.save(await createImage(50, 50));
+      const uploaded = await request(app)
+        .patch('/api/teas/1')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ image: `/api/images/${uploadedId}` });
+      expect(uploaded.body.image).toBe(`/api/images/${uploadedId}`);
+      expect(uploaded.body).not.toHaveProperty('imageSourceUrl');
+    });
+
+    it('should not download anything when other fields change', async () => {
+      await repositories.teas.create(createMockTea());
+
+      await request(createApp(repositories))
+        .patch('/api/teas/1')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ name: 'Longjing' });
+
+      expect(fetchedUrls).toEqual([]);
+    });
+  });
+});
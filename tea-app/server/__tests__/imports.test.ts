@@ -0,0 +1,150 @@
+/**
+ * URL Import Route Tests
+ *
+ * Tests for POST /api/teas/import and the streaming POST /api/teas/import/batch.
+ * Product pages are served from a pre-filled scrape cache so the tests work offline.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import request from 'supertest';
+import jwt from 'jsonwebtoken';
+
+import { BatchImportEventSchema } from '../../shared/types';
+import type { BatchImportEvent } from '../../shared/types';
+import { createApp } from '../app';
+import { createRepositories, createScrapeCache } from '../repositories';
+
+const JWT_SECRET = 'test-secret';
+const ALISHAN_URL = 'https://mountainleaf.example/teas/alishan';
+const JIN_JUN_MEI_URL = 'https://leafandkettle.example/products/jin-jun-mei';
+
+let tempDir: string;
+let token: string;
+
+const loadFixture = (name: string): string =>
+  fs.readFileSync(path.join(__dirname, 'fixtures', 'scrapers', name), 'utf8');
+
+beforeAll(() => {
+  process.env.ADMIN_USERNAME = 'admin';
+  process.env.ADMIN_PASSWORD_HASH = 'unused';
+  process.env.JWT_SECRET = JWT_SECRET;
+  token = jwt.sign({ username: 'admin' }, JWT_SECRET);
+});
+
+beforeEach(() => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tea-imports-'));
+});
+
+afterEach(() => {
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+const createTestApp = async () => {
+  const scrapeCacheDir = path.join(tempDir, 'scrape-cache');
+  const cache = createScrapeCache(scrapeCacheDir, 60 * 60 * 1000);
+  await cache.set(ALISHAN_URL, { url: ALISHAN_URL, html: loadFixture('generic.html'), contentType: 'text/html', fetchedAt: Date.now() });
+  await cache.set(JIN_JUN_MEI_URL, { url: JIN_JUN_MEI_URL, html: loadFixture('jsonld.html'), contentType: 'text/html', fetchedAt: Date.now() });
+
+  const repositories = await createRepositories({
+    backend: 'yaml',
+    dataFile: path.join(tempDir, 'teas.yaml'),
+    sessionsFile: path.join(tempDir, 'sessions.yaml'),
+    purchasesFile: path.join(tempDir, 'purchases.yaml'),
+    vendorsFile: path.join(tempDir, 'vendors.yaml'),
+    tastingNotesFile: path.join(tempDir, 'tasting-notes.yaml'),
+    sqliteFile: path.join(tempDir, 'teas.db'),
+    backupDir: path.join(tempDir, 'backups'),
+    backupRetention: 0,
+    scrapeCacheDir,
+    scrapeCacheTtlHours: 1,
+    imageDir: path.join(tempDir, 'images'),
+    downloadImages: false,
+  });
+  return createApp(repositories);
+};
+
+// Collects the NDJSON body as text so every line can be parsed
+const postBatch = async (body: object) =>
+  request(await createTestApp())
+    .post('/api/teas/import/batch')
+    .set('Authorization', `Bearer ${token}`)
+    .send(body)
+    .buffer(true)
+    .parse((res, callback) => {
+      let text = '';
+      res.on('data', (chunk: Buffer) => {
+        text += chunk.toString();
+      });
+      res.on('end', () => callback(null, text));
+    });
+
+const parseEvents = (text: string): BatchImportEvent[] =>
+  text.split('\n').filter(Boolean).map(line => BatchImportEventSchema.parse(JSON.parse(line)));
+
+describe('POST /api/teas/import', () => {
+  it('should import a tea from the cached page', async () => {
+    const response = await request(await createTestApp())
+      .post('/api/teas/import')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ url: `${ALISHAN_URL}?utm_source=newsletter` });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({ name: 'Alishan High Mountain Oolong', type: 'Oolong', fromCache: true });
+    expect(response.headers['server-timing']).toMatch(/cache;dur=\d+, parse;dur=\d+, scrape;dur=\d+/);
+  });
+
+  it('should reject private URLs with 400', async () => {
+    const response = await request(await createTestApp())
+      .post('/api/teas/import')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ url: 'http://192.168.1.20/' });
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe('Cannot scrape private/local URLs');
+  });
+});
+
+describe('POST /api/teas/import/batch', () => {
+  it('should stream a started and a finished event for every URL', async () => {
+    const response = await postBatch({ urls: [ALISHAN_URL, 'http://localhost:3001/', JIN_JUN_MEI_URL] });
+
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toMatch(/application\/x-ndjson/);
+
+    const events = parseEvents(response.body as string);
+    expect(events.filter(event => event.status === 'started').map(event => event.index).sort()).toEqual([0, 1, 2]);
+
+    const finished = events.filter(event => event.status !== 'started').sort((a, b) => a.index - b.index);
+    expect(finished).toEqual([
+      expect.objectContaining({ status: 'imported', index: 0, url: ALISHAN_URL, tea: expect.objectContaining({ name: 'Alishan High Mountain Oolong' }) }),
+      expect.objectContaining({ status: 'failed', index: 1, error: 'Cannot scrape private/local URLs' }),
+      expect.objectContaining({ status: 'imported', index: 2, tea: expect.objectContaining({ name: 'Jin Jun Mei', type: 'Black' }) }),
+    ]);
+  });
+
+  it('should send each URL\'s started event before its result', async () => {
+    const events = parseEvents((await postBatch({ urls: [ALISHAN_URL, JIN_JUN_MEI_URL] })).body as string);
+
+    [0, 1].forEach(index => {
+      const statuses = events.filter(event => event.index === index).map(event => event.status);
+      expect(statuses).toEqual(['started', 'imported']);
+    });
+  });
+
+  it.each([
+    ['without URLs', {}],
+    ['with an empty URL list', { urls: [] }],
+    ['with a single URL string', { urls: 'https://tea.example/' }],
+    ['with more than 50 URLs', { urls: Array.from({ length: 51 }, (_, i) => `https://tea.example/${i}`) }],
+  ])('should reject a request %s with 400', async (_, body) => {
+    const response = await request(await createTestApp())
+      .post('/api/teas/import/batch')
+      .set('Authorization', `Bearer ${token}`)
+      .send(body);
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe('Invalid batch import request');
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Migration Tests
+ *
+ * Tests for converting the legacy free-text brewingTemperature and teaWeight
+ * fields to numeric temperatureCelsius, leafGrams and waterMl, and tea types
+ * given by an alias to their taxonomy name.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import yaml from 'js-yaml';
+import Database from 'better-sqlite3';
+
+import { createBackupStore, createRepositories, migrateLegacyTea } from '../repositories';
+
+const legacyTea = {
+  id: '1',
+  name: 'Test Green Tea',
+  type: 'Green',
+  image: 'http://example.com/image.jpg',
+  steepTimes: [10, 15, 20],
+  caffeine: 'Low',
+  caffeineLevel: 'Low',
+  website: 'http://example.com',
+  brewingTemperature: '185℉ / 85℃',
+  teaWeight: '5g Tea / 100ml Water',
+  timesConsumed: 0,
+  lastConsumedDate: null,
+};
+
+// A tea without the legacy brewing fields, of the given type
+const teaOfType = (type: string) => ({ ...(migrateLegacyTea(legacyTea) as object), type });
+
+let tempDir: string;
+
+beforeEach(() => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tea-migrations-'));
+});
+
+afterEach(() => {
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+const createConfig = (backend: 'yaml' | 'sqlite') => ({
+  backend,
+  dataFile: path.join(tempDir, 'teas.yaml'),
+  sessionsFile: path.join(tempDir, 'sessions.yaml'),
+  purchasesFile: path.join(tempDir, 'purchases.yaml'),
+  vendorsFile: path.join(tempDir, 'vendors.yaml'),
+  tastingNotesFile: path.join(tempDir, 'tasting-notes.yaml'),
+  sqliteFile: path.join(tempDir, 'teas.db'),
+  backupDir: path.join(tempDir, 'backups'),
+  backupRetention: 0,
+  scrapeCacheDir: path.join(tempDir, 'scrape-cache'),
+  scrapeCacheTtlHours: 0,
+  imageDir: path.join(tempDir, 'images'),
+  downloadImages: false,
+});
+
+describe('migrateLegacyTea', () => {
+  it('should convert the free-text fields to numbers', () => {
+    const migrated = migrateLegacyTea(legacyTea);
+
+    expect(migrated).toMatchObject({ temperatureCelsius: 85, leafGrams: 5, waterMl: 100 });
+    expect(migrated).not.toHaveProperty('brewingTemperature');
+    expect(migrated).not.toHaveProperty('teaWeight');
+  });
+
+  it('should convert Fahrenheit-only temperatures and leave unparseable text empty', () => {
+    const migrated = migrateLegacyTea({ ...legacyTea, brewingTemperature: '195F', teaWeight: 'a spoonful' });
+
+    expect(migrated).toMatchObject({ temperatureCelsius: 91, leafGrams: null, waterMl: null });
+  });
+
+  it('should convert brewing profiles too', () => {
+    const migrated = migrateLegacyTea({
+      ...legacyTea,
+      brewingProfiles: [{ method: 'Western', steepTimes: [180], brewingTemperature: '90℃', teaWeight: '3g' }],
+    });
+
+    expect(migrated).toMatchObject({
+      brewingProfiles: [{ method: 'Western', temperatureCelsius: 90, leafGrams: 3, waterMl: null }],
+    });
+  });
+
+  it('should replace a type alias with its taxonomy name', () => {
+    expect(migrateLegacyTea(teaOfType('Hei Cha'))).toMatchObject({ type: 'Dark' });
+    expect(migrateLegacyTea(teaOfType('pu-erh'))).toMatchObject({ type: 'PuEr' });
+  });
+
+  it('should keep types it does not recognize for validation to reject', () => {
+    const unknown = teaOfType('Coffee');
+
+    expect(migrateLegacyTea(unknown)).toBe(unknown);
+  });
+
+  it('should return already migrated teas unchanged', () => {
+    const tea = { ...migrateLegacyTea(legacyTea) as object };
+
+    expect(migrateLegacyTea(tea)).toBe(tea);
+  });
+});
+
+describe('Startup migration', () => {
+  it('should rewrite a legacy YAML file and keep the original', async () => {
+    const config = createConfig('yaml');
+    fs.writeFileSync(config.dataFile, yaml.dump([legacyTea]));
+
+    const repositories = await createRepositories(config);
+
+    expect(await repositories.teas.list()).toEqual([
+      expect.objectContaining({ temperatureCelsius: 85, leafGrams: 5, waterMl: 100 }),
+    ]);
+    expect(fs.readFileSync(config.dataFile, 'utf8')).not.toContain('brewingTemperature');
+    expect(fs.readFileSync(`${config.dataFile}.pre-migration`, 'utf8')).toContain('brewingTemperature');
+  });
+
+  it('should rename aliased types in a YAML file', async () => {
+    const config = createConfig('yaml');
+    fs.writeFileSync(config.dataFile, yaml.dump([
+      teaOfType('Liu Bao'),
+      { ...teaOfType('tisane'), id: '2' },
+      { ...teaOfType('Oolong'), id: '3' },
+    ]));
+
+    const repositories = await createRepositories(config);
+
+    expect((await repositories.teas.list()).map(t => t.type)).toEqual(['Dark', 'Herbal', 'Oolong']);
+    expect(yaml.load(fs.readFileSync(config.dataFile, 'utf8'))).toEqual(expect.arrayContaining([expect.objectContaining({ type: 'Dark' })]));
+  });
+
+  it('should convert the bundled sample collection', async () => {
+    const config = createConfig('yaml');
+    fs.copyFileSync(path.join(__dirname, '..', 'teas.yaml'), config.dataFile);
+
+    const teas = await (await createRepositories(config)).teas.list();
+
+    expect(teas.length).toBeGreaterThan(0);
+    expect(teas.every(t => typeof t.temperatureCelsius === 'number')).toBe(true);
+    expect(fs.readFileSync(config.dataFile, 'utf8')).not.toContain('brewingTemperature');
+  });
+
+  it('should leave a migrated YAML file alone', async () => {
+    const config = createConfig('yaml');
+    fs.writeFileSync(config.dataFile, yaml.dump([legacyTea]));
+    await createRepositories(config);
+    fs.rmSync(`${config.dataFile}.pre-migration`);
+
+    await createRepositories(config);
+
+    expect(fs.existsSync(`${config.dataFile}.pre-migration`)).toBe(false);
+  });
+
+  it('should convert legacy rows in an existing SQLite database', async () => {
+    const config = createConfig('sqlite');
+    const db = new Database(config.sqliteFile);
+    db.exec('CREATE TABLE teas (id TEXT PRIMARY KEY, data TEXT NOT NULL)');
+    db.prepare('INSERT INTO teas (id, data) VALUES (?, ?)').run('1', JSON.stringify(legacyTea));
+    db.close();
+
+    const repositories = await createRepositories(config);
+
+    expect(await repositories.teas.get('1')).toMatchObject({ temperatureCelsius: 85, leafGrams: 5, waterMl: 100 });
+  });
+
+  it('should convert legacy backups when they are read', async () => {
+    const backupDir = path.join(tempDir, 'backups');
+    fs.mkdirSync(backupDir);
+    fs.writeFileSync(path.join(backupDir, 'teas-20200101T000000000Z.yaml'), yaml.dump([legacyTea]));
+
+    const teas = await createBackupStore(backupDir, 5).read('20200101T000000000Z');
+
+    expect(teas?.[0]).toMatchObject({ temperatureCelsius: 85, leafGrams: 5, waterMl: 100 });
+  });
+});
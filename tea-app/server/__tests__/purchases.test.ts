@@ -0,0 +1,191 @@
+/**
+ * Purchase Tests
+ *
+ * Tests for the /api/purchases CRUD routes and the cost per gram and per session
+ * worked out from a tea's purchases.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import request from 'supertest';
+import jwt from 'jsonwebtoken';
+import yaml from 'js-yaml';
+
+import { getTeaCost } from '../../shared/purchases';
+import type { Purchase, Tea } from '../../shared/types';
+import { createApp } from '../app';
+import { createRepositories } from '../repositories';
+import type { StorageBackend } from '../repositories';
+
+const JWT_SECRET = 'test-secret';
+
+const createMockTea = (overrides?: Partial<Tea>): Tea => ({
+  id: '1',
+  name: 'Test Green Tea',
+  type: 'Green',
+  image: 'http://example.com/image.jpg',
+  steepTimes: [10, 15, 20],
+  caffeine: 'Low',
+  caffeineLevel: 'Low',
+  website: 'http://example.com',
+  temperatureCelsius: 79,
+  leafGrams: 5,
+  waterMl: null,
+  timesConsumed: 0,
+  lastConsumedDate: null,
+  ...overrides,
+});
+
+const createPurchase = (overrides?: Partial<Purchase>): Purchase => ({
+  id: 'p1',
+  teaId: '1',
+  vendor: 'Yunnan Sourcing',
+  purchasedAt: 1700000000000,
+  grams: 100,
+  price: 20,
+  currency: 'USD',
+  ...overrides,
+});
+
+let tempDir: string;
+let token: string;
+
+beforeAll(() => {
+  process.env.ADMIN_USERNAME = 'admin';
+  process.env.ADMIN_PASSWORD_HASH = 'unused';
+  process.env.JWT_SECRET = JWT_SECRET;
+  token = jwt.sign({ username: 'admin' }, JWT_SECRET);
+});
+
+beforeEach(() => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tea-purchases-'));
+});
+
+afterEach(() => {
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe('getTeaCost', () => {
+  it('should return nothing for a tea without purchases', () => {
+    expect(getTeaCost([], 5)).toBeNull();
+  });
+
+  it('should average the price per gram over all purchases', () => {
+    const cost = getTeaCost([createPurchase(), createPurchase({ id: 'p2', grams: 25, price: 10 })], 5);
+
+    expect(cost?.currency).toBe('USD');
+    expect(cost?.perGram).toBeCloseTo(0.24);
+    expect(cost?.perSession).toBeCloseTo(1.2);
+  });
+
+  it('should only count purchases in the currency of the latest one', () => {
+    const cost = getTeaCost([
+      createPurchase({ currency: 'EUR', price: 90 }),
+      createPurchase({ id: 'p2', purchasedAt: 1710000000000, grams: 50, price: 15 }),
+    ], 5);
+
+    expect(cost).toMatchObject({ currency: 'USD', perGram: 0.3 });
+  });
+
+  it('should leave out the cost per session without a leaf amount', () => {
+    expect(getTeaCost([createPurchase()], null)).toEqual({ currency: 'USD', perGram: 0.2, perSession: null });
+  });
+});
+
+describe.each<StorageBackend>(['yaml', 'sqlite'])('Purchases API (%s backend)', (backend) => {
+  const createTestApp = async (teas: Tea[] = [createMockTea()]) => {
+    const dataFile = path.join(tempDir, 'teas.yaml');
+    fs.writeFileSync(dataFile, yaml.dump(teas));
+
+    const repositories = await createRepositories({
+      backend,
+      dataFile,
+      sessionsFile: path.join(tempDir, 'sessions.yaml'),
+      purchasesFile: path.join(tempDir, 'purchases.yaml'),
+      vendorsFile: path.join(tempDir, 'vendors.yaml'),
+      tastingNotesFile: path.join(tempDir, 'tasting-notes.yaml'),
+      sqliteFile: path.join(tempDir, 'teas.db'),
+      backupDir: path.join(tempDir, 'backups'),
+      backupRetention: 0,
+      scrapeCacheDir: path.join(tempDir, 'scrape-cache'),
+      scrapeCacheTtlHours: 0,
+      imageDir: path.join(tempDir, 'images'),
+      downloadImages: false,
+    });
+    return createApp(repositories);
+  };
+
+  const postPurchase = (app: Awaited<ReturnType<typeof createTestApp>>, body: object) =>
+    request(app).post('/api/purchases').set('Authorization', `Bearer ${token}`).send(body);
+
+  it('should create a purchase and list a tea\'s purchases newest first', async () => {
+    const app = await createTestApp([createMockTea(), createMockTea({ id: '2', name: 'Other Tea' })]);
+
+    const created = await postPurchase(app, { teaId: '1', vendor: 'Teavivre', purchasedAt: 1000, grams: 50, price: 12.5, currency: 'USD' });
+    await postPurchase(app, { teaId: '1', purchasedAt: 2000, grams: 100, price: 20, currency: 'USD' });
+    await postPurchase(app, { teaId: '2', purchasedAt: 3000, grams: 25, price: 5, currency: 'USD' });
+
+    expect(created.status).toBe(201);
+    expect(created.body).toMatchObject({ id: expect.any(String), teaId: '1', vendor: 'Teavivre', grams: 50, price: 12.5 });
+
+    const list = await request(app).get('/api/purchases?teaId=1').set('Authorization', `Bearer ${token}`);
+    expect(list.status).toBe(200);
+    expect(list.body.map((purchase: Purchase) => purchase.purchasedAt)).toEqual([2000, 1000]);
+    expect(list.body[0].vendor).toBe('');
+  });
+
+  it('should return 404 when creating a purchase for an unknown tea', async () => {
+    const app = await createTestApp();
+
+    const response = await postPurchase(app, { teaId: 'missing', purchasedAt: 1000, grams: 50, price: 10, currency: 'USD' });
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should return 400 for invalid purchase data', async () => {
+    const app = await createTestApp();
+
+    const response = await postPurchase(app, { teaId: '1', purchasedAt: 1000, grams: 0, price: -1, currency: '' });
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe('Invalid purchase data');
+  });
+
+  it('should update a purchase and reject unknown fields', async () => {
+    const app = await createTestApp();
+    const created = await postPurchase(app, { teaId: '1', purchasedAt: 1000, grams: 50, price: 10, currency: 'USD' });
+
+    const updated = await request(app)
+      .patch(`/api/purchases/${created.body.id}`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ price: 11, currency: 'EUR' });
+    const rejected = await request(app)
+      .patch(`/api/purchases/${created.body.id}`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ teaId: '2' });
+
+    expect(updated.status).toBe(200);
+    expect(updated.body).toMatchObject({ price: 11, currency: 'EUR', grams: 50 });
+    expect(rejected.status).toBe(400);
+  });
+
+  it('should delete a purchase', async () => {
+    const app = await createTestApp();
+    const created = await postPurchase(app, { teaId: '1', purchasedAt: 1000, grams: 50, price: 10, currency: 'USD' });
+
+    const deleted = await request(app).delete(`/api/purchases/${created.body.id}`).set('Authorization', `Bearer ${token}`);
+    const missing = await request(app).get(`/api/purchases/${created.body.id}`).set('Authorization', `Bearer ${token}`);
+
+    expect(deleted.status).toBe(204);
+    expect(missing.status).toBe(404);
+  });
+
+  it('should return 404 when deleting an unknown purchase', async () => {
+    const app = await createTestApp();
+
+    const response = await request(app).delete('/api/purchases/missing').set('Authorization', `Bearer ${token}`);
+
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * Repository Tests
+ *
+ * Runs the same behaviour checks against both storage backends:
+ * - YAML file repository
+ * - SQLite repository
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import yaml from 'js-yaml';
+import Database from 'better-sqlite3';
+
+import { TeaSchema } from '../../shared/types';
+import type { Tea } from '../../shared/types';
+import {
+  createRepositories,
+  createSqliteRepository,
+  createYamlRepository,
+  parseStorageBackend,
+} from '../repositories';
+import type { TeaRepository } from '../repositories';
+
+const createMockTea = (overrides?: Partial<Tea>): Tea => ({
+  id: '1',
+  name: 'Test Green Tea',
+  type: 'Green',
+  image: 'http://example.com/image.jpg',
+  steepTimes: [10, 15, 20],
+  caffeine: 'Low',
+  caffeineLevel: 'Low',
+  website: 'http://example.com',
+  temperatureCelsius: 79,
+  leafGrams: 5,
+  waterMl: null,
+  timesConsumed: 0,
+  lastConsumedDate: null,
+  ...overrides,
+});
+
+let tempDir: string;
+const openDatabases: Database.Database[] = [];
+
+beforeEach(() => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tea-repo-'));
+});
+
+afterEach(() => {
+  openDatabases.splice(0).forEach(db => db.close());
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+const backends: [string, () => TeaRepository][] = [
+  ['YAML', () => createYamlRepository(path.join(tempDir, 'teas.yaml'), TeaSchema, 'tea collection')],
+  ['SQLite', () => {
+    const db = new Database(path.join(tempDir, 'teas.db'));
+    openDatabases.push(db);
+    return createSqliteRepository(db, 'teas', TeaSchema, 'tea collection');
+  }],
+];
+
+describe.each(backends)('%s repository', (_name, createRepository) => {
+  it('should return an empty list for a new store', async () => {
+    const repository = createRepository();
+
+    expect(await repository.list()).toEqual([]);
+  });
+
+  it('should create and list teas in insertion order', async () => {
+    const repository = createRepository();
+
+    await repository.create(createMockTea({ id: '2', name: 'Second' }));
+    await repository.create(createMockTea({ id: '1', name: 'First' }));
+
+    const teas = await repository.list();
+    expect(teas.map(t => t.name)).toEqual(['Second', 'First']);
+  });
+
+  it('should get a tea by id', async () => {
+    const repository = createRepository();
+    await repository.create(createMockTea({ id: 'abc', name: 'Oolong' }));
+
+    expect((await repository.get('abc'))?.name).toBe('Oolong');
+    expect(await repository.get('missing')).toBeUndefined();
+  });
+
+  it('should update a tea with the updater result', async () => {
+    const repository = createRepository();
+    await repository.create(createMockTea({ id: '1', timesConsumed: 2 }));
+
+    const updated = await repository.update('1', tea => ({ ...tea, timesConsumed: tea.timesConsumed + 1 }));
+
+    expect(updated?.timesConsumed).toBe(3);
+    expect((await repository.get('1'))?.timesConsumed).toBe(3);
+  });
+
+  it('should return undefined when updating a missing tea', async () => {
+    const repository = createRepository();
+
+    expect(await repository.update('missing', tea => tea)).toBeUndefined();
+  });
+
+  it('should not persist anything when the updater throws', async () => {
+    const repository = createRepository();
+    await repository.create(createMockTea({ id: '1', name: 'Original' }));
+
+    await expect(repository.update('1', () => {
+      throw new Error('invalid');
+    })).rejects.toThrow('invalid');
+
+    expect((await repository.get('1'))?.name).toBe('Original');
+  });
+
+  it('should update the whole collection in one write', async () => {
+    const repository = createRepository();
+    await repository.create(createMockTea({ id: '1', name: 'First' }));
+    await repository.create(createMockTea({ id: '2', name: 'Second' }));
+
+    const updated = await repository.updateAll(teas => teas.map(tea => ({ ...tea, name: tea.name.toUpperCase() })));
+
+    expect(updated.map(t => t.name)).toEqual(['FIRST', 'SECOND']);
+    expect((await repository.list()).map(t => t.name)).toEqual(['FIRST', 'SECOND']);
+    await expect(repository.updateAll(() => {
+      throw new Error('invalid');
+    })).rejects.toThrow('invalid');
+    expect((await repository.list()).map(t => t.name)).toEqual(['FIRST', 'SECOND']);
+  });
+
+  it('should delete a tea and report whether it existed', async () => {
+    const repository = createRepository();
+    await repository.create(createMockTea({ id: '1' }));
+    await repository.create(createMockTea({ id: '2' }));
+
+    expect(await repository.delete('1')).toBe(true);
+    expect(await repository.delete('1')).toBe(false);
+    expect((await repository.list()).map(t => t.id)).toEqual(['2']);
+  });
+
+  it('should replace the whole collection', async () => {
+    const repository = createRepository();
+    await repository.create(createMockTea({ id: '1' }));
+
+    await repository.replaceAll([createMockTea({ id: '2' }), createMockTea({ id: '3' })]);
+
+    expect((await repository.list()).map(t => t.id)).toEqual(['2', '3']);
+  });
+});
+
+describe('createRepositories', () => {
+  it('should seed a new SQLite database from the YAML data file', async () => {
+    const dataFile = path.join(tempDir, 'teas.yaml');
+    fs.writeFileSync(dataFile, yaml.dump([createMockTea({ id: '1' }), createMockTea({ id: '2' })]));
+
+    const repositories = await createRepositories({
+      backend: 'sqlite',
+      dataFile,
+      sessionsFile: path.join(tempDir, 'sessions.yaml'),
+      purchasesFile: path.join(tempDir, 'purchases.yaml'),
+      vendorsFile: path.join(tempDir, 'vendors.yaml'),
+      tastingNotesFile: path.join(tempDir, 'tasting-notes.yaml'),
+      sqliteFile: path.join(tempDir, 'data', 'teas.db'),
+      backupDir: path.join(tempDir, 'backups'),
+      backupRetention: 0,
+      scrapeCacheDir: path.join(tempDir, 'scrape-cache'),
+      scrapeCacheTtlHours: 0,
+      imageDir: path.join(tempDir, 'images'),
+      downloadImages: false,
+    });
+
+    expect((await repositories.teas.list()).map(t => t.id)).toEqual(['1', '2']);
+  });
+
+  it('should use the YAML data file for the yaml backend', async () => {
+    const dataFile = path.join(tempDir, 'teas.yaml');
+    const repositories = await createRepositories({
+      backend: 'yaml',
+      dataFile,
+      sessionsFile: path.join(tempDir, 'sessions.yaml'),
+      purchasesFile: path.join(tempDir, 'purchases.yaml'),
+      vendorsFile: path.join(tempDir, 'vendors.yaml'),
+      tastingNotesFile: path.join(tempDir, 'tasting-notes.yaml'),
+      sqliteFile: path.join(tempDir, 'teas.db'),
+      backupDir: path.join(tempDir, 'backups'),
+      backupRetention: 0,
+      scrapeCacheDir: path.join(tempDir, 'scrape-cache'),
+      scrapeCacheTtlHours: 0,
+      imageDir: path.join(tempDir, 'images'),
+      downloadImages: false,
+    });
+
+    await repositories.teas.create(createMockTea({ id: '1' }));
+
+    expect(yaml.load(fs.readFileSync(dataFile, 'utf8'))).toHaveLength(1);
+  });
+});
+
+describe('parseStorageBackend', () => {
+  it('should default to yaml', () => {
+    expect(parseStorageBackend(undefined)).toBe('yaml');
+    expect(parseStorageBackend('')).toBe('yaml');
+  });
+
+  it('should accept known backends case-insensitively', () => {
+    expect(parseStorageBackend('SQLite')).toBe('sqlite');
+  });
+
+  it('should reject unknown backends', () => {
+    expect(() => parseStorageBackend('postgres')).toThrow('Invalid STORAGE_BACKEND');
+  });
+});
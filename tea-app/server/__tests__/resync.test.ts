@@ -0,0 +1,277 @@
+/**
+ * Re-sync Tests
+ *
+ * Tests for comparing a tea with its re-scraped product page, POST /api/teas/:id/resync
+ * and the streaming POST /api/teas/resync. Product pages come from a pre-filled scrape cache.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import request from 'supertest';
+import jwt from 'jsonwebtoken';
+
+import { getTeaSyncChanges } from '../../shared/resync';
+import type { ScrapedTeaFields } from '../../shared/resync';
+import { TeaSyncEventSchema } from '../../shared/types';
+import type { Tea, TeaSyncEvent } from '../../shared/types';
+import { createApp } from '../app';
+import { createRepositories, createScrapeCache } from '../repositories';
+import type { Repositories } from '../repositories';
+
+const JWT_SECRET = 'test-secret';
+const ALISHAN_URL = 'https://mountainleaf.example/teas/alishan';
+
+let tempDir: string;
+let token: string;
+
+const loadFixture = (name: string): string =>
+  fs.readFileSync(path.join(__dirname, 'fixtures', 'scrapers', name), 'utf8');
+
+const createTea = (overrides: Partial<Tea> = {}): Tea => ({
+  id: 'alishan',
+  name: 'Alishan High Mountain Oolong',
+  type: 'Oolong',
+  image: 'https://mountainleaf.example/images/alishan-old.jpg',
+  steepTimes: [30, 45, 60],
+  caffeine: '',
+  caffeineLevel: 'Medium',
+  website: ALISHAN_URL,
+  temperatureCelsius: 90,
+  leafGrams: 6,
+  waterMl: 150,
+  rating: 8,
+  timesConsumed: 3,
+  lastConsumedDate: 1700000000000,
+  ...overrides,
+});
+
+const scraped = (overrides: Partial<ScrapedTeaFields> = {}): ScrapedTeaFields => ({
+  name: 'Alishan High Mountain Oolong',
+  type: 'Oolong',
+  image: 'https://mountainleaf.example/images/alishan-old.jpg',
+  steepTimes: [30, 45, 60],
+  caffeine: '',
+  caffeineLevel: 'Low',
+  temperatureCelsius: 90,
+  leafGrams: 6,
+  waterMl: 150,
+  harvestYear: null,
+  region: null,
+  factory: null,
+  pressing: null,
+  ...overrides,
+});
+
+describe('getTeaSyncChanges', () => {
+  it('should return nothing for an unchanged page', () => {
+    expect(getTeaSyncChanges(createTea(), scraped())).toEqual({});
+  });
+
+  it('should return only the fields that differ', () => {
+    const changes = getTeaSyncChanges(createTea(), scraped({
+      image: 'https://mountainleaf.example/images/alishan.jpg',
+      steepTimes: [30, 45, 45, 60],
+    }));
+
+    expect(changes).toEqual({
+      image: 'https://mountainleaf.example/images/alishan.jpg',
+      steepTimes: [30, 45, 45, 60],
+    });
+  });
+
+  it('should keep stored values the page does not provide', () => {
+    const changes = getTeaSyncChanges(createTea(), scraped({
+      name: ' ',
+      type: '',
+      image: '',
+      steepTimes: [],
+      temperatureCelsius: null,
+      leafGrams: null,
+      waterMl: null,
+    }));
+
+    expect(changes).toEqual({});
+  });
+
+  it('should only suggest a caffeine level along with the caffeine text it comes from', () => {
+    expect(getTeaSyncChanges(createTea(), scraped({ caffeine: 'High caffeine', caffeineLevel: 'High' })))
+      .toEqual({ caffeine: 'High caffeine', caffeineLevel: 'High' });
+  });
+
+  it('should compare a stored image by the URL it was downloaded from', () => {
+    const tea = createTea({ image: '/api/images/0123456789abcdef0123456789abcdef', imageSourceUrl: 'https://mountainleaf.example/images/alishan-old.jpg' });
+
+    expect(getTeaSyncChanges(tea, scraped())).toEqual({});
+    expect(getTeaSyncChanges(tea, scraped({ image: 'https://mountainleaf.example/images/alishan.jpg' })))
+      .toEqual({ image: 'https://mountainleaf.example/images/alishan.jpg' });
+  });
+
+  it('should suggest brewing profiles for a tea saved without them', () => {
+    const profile = { method: 'Chinese Gongfu' as const, steepTimes: [30, 45, 60], temperatureCelsius: 90, leafGrams: 6, waterMl: 150 };
+
+    expect(getTeaSyncChanges(createTea(), scraped({ brewingProfiles: [profile] }))).toEqual({ brewingProfiles: [profile] });
+    expect(getTeaSyncChanges(createTea({ brewingProfiles: [profile] }), scraped({ brewingProfiles: [profile] }))).toEqual({});
+  });
+
+  it('should suggest the aging details the page lists', () => {
+    const tea = createTea({ harvestYear: 2019, storageLocation: 'Pumidor' });
+
+    expect(getTeaSyncChanges(tea, scraped({ harvestYear: 2019, region: 'Alishan, Chiayi', pressing: 'Loose' })))
+      .toEqual({ region: 'Alishan, Chiayi', pressing: 'Loose' });
+  });
+});
+
+describe('re-sync routes', () => {
+  let repositories: Repositories;
+
+  beforeAll(() => {
+    process.env.ADMIN_USERNAME = 'admin';
+    process.env.ADMIN_PASSWORD_HASH = 'unused';
+    process.env.JWT_SECRET = JWT_SECRET;
+    token = jwt.sign({ username: 'admin' }, JWT_SECRET);
+  });
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tea-resync-'));
+    const scrapeCacheDir = path.join(tempDir, 'scrape-cache');
+    const cache = createScrapeCache(scrapeCacheDir, 60 * 60 * 1000);
+    await cache.set(ALISHAN_URL, { url: ALISHAN_URL, html: loadFixture('generic.html'), contentType: 'text/html', fetchedAt: Date.now() });
+
+    repositories = await createRepositories({
+      backend: 'yaml',
+      dataFile: path.join(tempDir, 'teas.yaml'),
+      sessionsFile: path.join(tempDir, 'sessions.yaml'),
+      purchasesFile: path.join(tempDir, 'purchases.yaml'),
+      vendorsFile: path.join(tempDir, 'vendors.yaml'),
+      tastingNotesFile: path.join(tempDir, 'tasting-notes.yaml'),
+      sqliteFile: path.join(tempDir, 'teas.db'),
+      backupDir: path.join(tempDir, 'backups'),
+      backupRetention: 0,
+      scrapeCacheDir,
+      scrapeCacheTtlHours: 1,
+      imageDir: path.join(tempDir, 'images'),
+      downloadImages: false,
+    });
+    await repositories.teas.create(createTea());
+    await repositories.teas.create(createTea({ id: 'no-website', name: 'Homemade Blend', website: '' }));
+    await repositories.teas.create(createTea({ id: 'private', name: 'Intranet Tea', website: 'http://192.168.1.10/tea' }));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('POST /api/teas/:id/resync', () => {
+    it('should return the changed fields without touching user-owned ones', async () => {
+      const response = await request(createApp(repositories))
+        .post('/api/teas/alishan/resync')
+        .set('Authorization', `Bearer ${token}`)
+        .send({});
+
+      expect(response.status).toBe(200);
+      expect(response.body.teaId).toBe('alishan');
+      expect(response.body.changes).toMatchObject({
+        image: 'https://mountainleaf.example/images/alishan.jpg',
+        steepTimes: [30, 45, 45, 60, 90],
+        temperatureCelsius: 95,
+      });
+      expect(response.body.changes).not.toHaveProperty('name');
+      expect(response.body.changes).not.toHaveProperty('rating');
+      expect(response.body.changes).not.toHaveProperty('timesConsumed');
+    });
+
+    it('should not change the stored tea', async () => {
+      await request(createApp(repositories))
+        .post('/api/teas/alishan/resync')
+        .set('Authorization', `Bearer ${token}`)
+        .send({});
+
+      expect(await repositories.teas.get('alishan')).toMatchObject({ steepTimes: [30, 45, 60], temperatureCelsius: 90 });
+    });
+
+    it('should return 404 for an unknown tea', async () => {
+      const response = await request(createApp(repositories))
+        .post('/api/teas/missing/resync')
+        .set('Authorization', `Bearer ${token}`)
+        .send({});
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should reject a tea without a website', async () => {
+      const response = await request(createApp(repositories))
+        .post('/api/teas/no-website/resync')
+        .set('Authorization', `Bearer ${token}`)
+        .send({});
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Tea has no website to re-sync from');
+    });
+
+    it('should reject a website the scraper may not fetch', async () => {
+      const response = await request(createApp(repositories))
+        .post('/api/teas/private/resync')
+        .set('Authorization', `Bearer ${token}`)
+        .send({});
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Cannot scrape private/local URLs');
+    });
+  });
+
+  describe('POST /api/teas/resync', () => {
+    // Collects the NDJSON body as text so every line can be parsed
+    const postResync = (body: object) =>
+      request(createApp(repositories))
+        .post('/api/teas/resync')
+        .set('Authorization', `Bearer ${token}`)
+        .send(body)
+        .buffer(true)
+        .parse((res, callback) => {
+          let text = '';
+          res.on('data', (chunk: Buffer) => {
+            text += chunk.toString();
+          });
+          res.on('end', () => callback(null, text));
+        });
+
+    const parseEvents = (text: string): TeaSyncEvent[] =>
+      text.split('\n').filter(Boolean).map(line => TeaSyncEventSchema.parse(JSON.parse(line)));
+
+    it('should check every tea with a website', async () => {
+      const response = await postResync({});
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toMatch(/application\/x-ndjson/);
+
+      const finished = parseEvents(response.body).filter(event => event.status !== 'started');
+      expect(finished).toHaveLength(2);
+      expect(finished.find(event => event.teaId === 'alishan')).toMatchObject({
+        status: 'checked',
+        changes: { temperatureCelsius: 95 },
+      });
+      expect(finished.find(event => event.teaId === 'private')).toMatchObject({
+        status: 'failed',
+        error: 'Cannot scrape private/local URLs',
+      });
+    });
+
+    it('should only check the requested teas', async () => {
+      const response = await postResync({ teaIds: ['alishan', 'no-website'] });
+
+      expect(parseEvents(response.body).map(event => `${event.status}:${event.teaId}`))
+        .toEqual(['started:alishan', 'checked:alishan']);
+    });
+
+    it('should reject an invalid request', async () => {
+      const response = await request(createApp(repositories))
+        .post('/api/teas/resync')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ teaIds: [] });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Invalid re-sync request');
+    });
+  });
+});
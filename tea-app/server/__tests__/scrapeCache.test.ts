@@ -0,0 +1,112 @@
+/**
+ * Scrape Cache Tests
+ *
+ * Tests for the on-disk cache of product pages fetched by the import scraper:
+ * URL normalization, TTL expiry, pruning and unreadable entries.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { createScrapeCache, normalizeScrapeUrl } from '../repositories';
+import type { FetchedPage } from '../scrapers';
+
+const HOUR = 60 * 60 * 1000;
+
+let cacheDir: string;
+
+const createPage = (overrides: Partial<FetchedPage> = {}): FetchedPage => ({
+  url: 'https://tea.example/products/oolong',
+  html: '<html><body><h1>Oolong</h1></body></html>',
+  contentType: 'text/html; charset=utf-8',
+  fetchedAt: Date.now(),
+  ...overrides,
+});
+
+beforeEach(() => {
+  cacheDir = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'tea-scrape-cache-')), 'scrape-cache');
+});
+
+afterEach(() => {
+  fs.rmSync(path.dirname(cacheDir), { recursive: true, force: true });
+});
+
+describe('normalizeScrapeUrl', () => {
+  it('should drop fragments and tracking parameters', () => {
+    expect(normalizeScrapeUrl('https://tea.example/oolong?utm_source=mail&utm_medium=email&fbclid=abc#reviews')).toBe(
+      'https://tea.example/oolong'
+    );
+  });
+
+  it('should sort the remaining parameters', () => {
+    expect(normalizeScrapeUrl('https://tea.example/oolong?variant=2&size=100g')).toBe(
+      'https://tea.example/oolong?size=100g&variant=2'
+    );
+  });
+
+  it('should normalize hostname case and default ports', () => {
+    expect(normalizeScrapeUrl(' HTTPS://Tea.Example:443/Oolong ')).toBe('https://tea.example/Oolong');
+  });
+});
+
+describe('createScrapeCache', () => {
+  it('should return a cached page for the same normalized URL', async () => {
+    const cache = createScrapeCache(cacheDir, HOUR);
+    const page = createPage();
+
+    await cache.set('https://tea.example/products/oolong?utm_source=newsletter', page);
+
+    await expect(cache.get('https://tea.example/products/oolong#description')).resolves.toEqual(page);
+    await expect(cache.get('https://tea.example/products/sencha')).resolves.toBeUndefined();
+  });
+
+  it('should not return pages older than the TTL', async () => {
+    const cache = createScrapeCache(cacheDir, HOUR);
+
+    await cache.set('https://tea.example/products/oolong', createPage({ fetchedAt: Date.now() - 2 * HOUR }));
+
+    await expect(cache.get('https://tea.example/products/oolong')).resolves.toBeUndefined();
+  });
+
+  it('should keep at most maxEntries pages', async () => {
+    const cache = createScrapeCache(cacheDir, HOUR, 2);
+
+    for (const name of ['a', 'b', 'c']) {
+      await cache.set(`https://tea.example/${name}`, createPage());
+    }
+
+    expect(fs.readdirSync(cacheDir)).toHaveLength(2);
+  });
+
+  it('should drop the oldest pages beyond maxBytes', async () => {
+    const cache = createScrapeCache(cacheDir, HOUR, 200, 5000);
+    const html = `<html><body>${'x'.repeat(2000)}</body></html>`;
+
+    for (const name of ['a', 'b', 'c']) {
+      await cache.set(`https://tea.example/${name}`, createPage({ html }));
+    }
+
+    expect(fs.readdirSync(cacheDir)).toHaveLength(2);
+    await expect(cache.get('https://tea.example/c')).resolves.toBeDefined();
+  });
+
+  it('should store nothing when the TTL is 0', async () => {
+    const cache = createScrapeCache(cacheDir, 0);
+
+    await cache.set('https://tea.example/products/oolong', createPage());
+
+    expect(fs.existsSync(cacheDir)).toBe(false);
+    await expect(cache.get('https://tea.example/products/oolong')).resolves.toBeUndefined();
+  });
+
+  it('should ignore and remove unreadable entries', async () => {
+    const cache = createScrapeCache(cacheDir, HOUR);
+    await cache.set('https://tea.example/products/oolong', createPage());
+    const [file] = fs.readdirSync(cacheDir);
+    fs.writeFileSync(path.join(cacheDir, file), '{"key": "truncated');
+
+    await expect(cache.get('https://tea.example/products/oolong')).resolves.toBeUndefined();
+    expect(fs.readdirSync(cacheDir)).toHaveLength(0);
+  });
+});
@@ -0,0 +1,361 @@
+/**
+ * Scraper Adapter Tests
+ *
+ * Runs each vendor adapter against a saved product page in __tests__/fixtures/scrapers,
+ * so the tests work offline and catch markup assumptions breaking in a refactor.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import * as cheerio from 'cheerio';
+
+import {
+  createStageTimer,
+  extractAgingDetails,
+  formatServerTiming,
+  genericAdapter,
+  isHtmlContentType,
+  parsePackageGrams,
+  readProductListing,
+  scrapeTeaPage,
+  scraperRegistry,
+  teavivreAdapter,
+  white2teaAdapter,
+  yunnanSourcingAdapter,
+} from '../scrapers';
+import type { ScraperAdapter } from '../scrapers';
+
+const loadFixture = (name: string): string =>
+  fs.readFileSync(path.join(__dirname, 'fixtures', 'scrapers', name), 'utf8');
+
+const scrapeFixture = (adapter: ScraperAdapter, fixture: string, url: string) =>
+  scrapeTeaPage(adapter, loadFixture(fixture), url);
+
+// The fixture without its og:image tags, so the adapter falls back to the product photo
+const loadFixtureWithoutOgImage = (name: string): string =>
+  loadFixture(name).replace(/<meta property="og:image[^>]*>/g, '');
+
+describe('scraperRegistry', () => {
+  it.each([
+    ['https://www.teavivre.com/yu-luo-jasmine-green-tea.html', teavivreAdapter],
+    ['https://teavivre.com/yu-luo-jasmine-green-tea.html', teavivreAdapter],
+    ['https://yunnansourcing.com/products/impression', yunnanSourcingAdapter],
+    ['https://yunnansourcing.us/products/impression', yunnanSourcingAdapter],
+    ['https://white2tea.com/products/snoozefest', white2teaAdapter],
+    ['https://shop.example.com/products/oolong', genericAdapter],
+  ])('should pick the adapter for %s', (url, adapter) => {
+    expect(scraperRegistry.getAdapter(url)).toBe(adapter);
+  });
+
+  it('should not match hostnames that only end with a vendor name', () => {
+    expect(scraperRegistry.getAdapter('https://notteavivre.com/tea')).toBe(genericAdapter);
+  });
+});
+
+describe('teavivre adapter', () => {
+  const url = 'https://www.teavivre.com/yu-luo-jasmine-green-tea.html';
+
+  it('should read the name, image, type and caffeine', () => {
+    const tea = scrapeFixture(teavivreAdapter, 'teavivre.html', url);
+
+    expect(tea.name).toBe('Snail (Yu Luo) Jasmine Green Tea');
+    expect(tea.image).toBe('https://d27pcll2dx97vv.cloudfront.net/pub/media/catalog/product/j/a/jasmine_yu_luo_1_1.jpg');
+    expect(tea.type).toBe('Green');
+    expect(tea.caffeine).toBe('Low caffeine (less than 10% of a cup of coffee)');
+    expect(tea.caffeineLevel).toBe('Low');
+  });
+
+  it('should read one brewing profile per table column', () => {
+    const tea = scrapeFixture(teavivreAdapter, 'teavivre.html', url);
+
+    expect(tea.brewingProfiles).toEqual([
+      { method: 'Chinese Gongfu', steepTimes: [10, 15, 20, 30, 40, 60], temperatureCelsius: 85, leafGrams: 5, waterMl: 110 },
+      { method: 'Western', steepTimes: [120, 180, 240], temperatureCelsius: 85, leafGrams: 3, waterMl: 350 },
+    ]);
+    expect(tea).toMatchObject({ steepTimes: [10, 15, 20, 30, 40, 60], temperatureCelsius: 85, leafGrams: 5, waterMl: 110 });
+  });
+
+  it('should read the origin', () => {
+    const tea = scrapeFixture(teavivreAdapter, 'teavivre.html', url);
+
+    expect(tea).toMatchObject({ region: 'Fuding, Fujian, China', harvestYear: null, pressing: null });
+  });
+
+  it('should read the price for a purchase', () => {
+    const tea = scrapeFixture(teavivreAdapter, 'teavivre.html', url);
+
+    expect(tea.offer).toEqual({ vendor: 'Teavivre', price: 9.9, currency: 'USD', packageGrams: null });
+  });
+
+  it('should return an empty name for a page that is not a product page', () => {
+    const tea = scrapeTeaPage(teavivreAdapter, '<html><body><p>Not found</p></body></html>', url);
+
+    expect(tea.name).toBe('');
+    expect(tea.brewingProfiles).toBeUndefined();
+  });
+});
+
+describe('Yunnan Sourcing adapter', () => {
+  const url = 'https://yunnansourcing.com/products/2023-yunnan-sourcing-impression-raw-pu-erh-tea-cake';
+
+  it('should read the product fields', () => {
+    const tea = scrapeFixture(yunnanSourcingAdapter, 'yunnansourcing.html', url);
+
+    expect(tea.name).toBe('2023 Yunnan Sourcing "Impression" Raw Pu-erh Tea Cake');
+    expect(tea.image).toBe('http://yunnansourcing.com/cdn/shop/products/impression_2023_1.jpg?v=1700000000');
+    expect(tea.type).toBe('Sheng');
+  });
+
+  it('should read the brewing instructions but not the cake weight', () => {
+    const tea = scrapeFixture(yunnanSourcingAdapter, 'yunnansourcing.html', url);
+
+    expect(tea).toMatchObject({ steepTimes: [10, 10, 15, 20, 30, 45], temperatureCelsius: 95, leafGrams: 7, waterMl: 100 });
+  });
+
+  it('should read the year and pressing from the name', () => {
+    const tea = scrapeFixture(yunnanSourcingAdapter, 'yunnansourcing.html', url);
+
+    expect(tea).toMatchObject({ harvestYear: 2023, pressing: 'Cake' });
+  });
+
+  it('should read the price and size of the first variant', () => {
+    const tea = scrapeFixture(yunnanSourcingAdapter, 'yunnansourcing.html', url);
+
+    expect(tea.offer).toEqual({ vendor: 'Yunnan Sourcing', price: 42, currency: 'USD', packageGrams: 357 });
+  });
+
+  it('should resolve a protocol-relative product photo without an Open Graph image', () => {
+    const tea = scrapeTeaPage(yunnanSourcingAdapter, loadFixtureWithoutOgImage('yunnansourcing.html'), url);
+
+    expect(tea.image).toBe('https://yunnansourcing.com/cdn/shop/products/impression_2023_1_600x.jpg');
+  });
+});
+
+describe('white2tea adapter', () => {
+  const url = 'https://white2tea.com/products/2023-snoozefest';
+
+  it('should take the type from the product type', () => {
+    const tea = scrapeFixture(white2teaAdapter, 'white2tea.html', url);
+
+    expect(tea.name).toBe('2023 Snoozefest');
+    expect(tea.type).toBe('Shou');
+    expect(tea.image).toBe('https://white2tea.com/cdn/shop/products/snoozefest_2023_1024x1024.jpg?v=1690000000');
+  });
+
+  it('should read the brewing guidelines', () => {
+    const tea = scrapeFixture(white2teaAdapter, 'white2tea.html', url);
+
+    expect(tea).toMatchObject({ steepTimes: [10, 15, 20, 30, 60], temperatureCelsius: 100, leafGrams: 5, waterMl: 100 });
+  });
+
+  it('should read the price and the cake size from the description', () => {
+    const tea = scrapeFixture(white2teaAdapter, 'white2tea.html', url);
+
+    expect(tea.offer).toEqual({ vendor: 'white2tea', price: 30, currency: 'USD', packageGrams: 200 });
+  });
+
+  it('should resolve a protocol-relative product photo without an Open Graph image', () => {
+    const tea = scrapeTeaPage(white2teaAdapter, loadFixtureWithoutOgImage('white2tea.html'), url);
+
+    expect(tea.image).toBe('https://white2tea.com/cdn/shop/products/snoozefest_2023_600x.jpg');
+  });
+});
+
+describe('generic adapter', () => {
+  const url = 'https://mountainleaf.example/teas/alishan';
+
+  it('should read the name, Open Graph image and type', () => {
+    const tea = scrapeFixture(genericAdapter, 'generic.html', url);
+
+    expect(tea.name).toBe('Alishan High Mountain Oolong');
+    expect(tea.image).toBe('https://mountainleaf.example/images/alishan.jpg');
+    expect(tea.type).toBe('Oolong');
+  });
+
+  it('should resolve a root-relative page image without an Open Graph image', () => {
+    const tea = scrapeTeaPage(genericAdapter, loadFixtureWithoutOgImage('generic.html'), url);
+
+    expect(tea.image).toBe('https://mountainleaf.example/images/alishan-small.jpg');
+  });
+
+  it('should read brewing tips and caffeine from the page text, ignoring reviews', () => {
+    const tea = scrapeFixture(genericAdapter, 'generic.html', url);
+
+    expect(tea).toMatchObject({ steepTimes: [30, 45, 45, 60, 90], temperatureCelsius: 95, leafGrams: 6, waterMl: 150 });
+    expect(tea.caffeineLevel).toBe('Medium');
+  });
+
+  it('should take the first package size from the page text and the vendor from the hostname', () => {
+    const tea = scrapeFixture(genericAdapter, 'generic.html', url);
+
+    expect(tea.offer).toEqual({ vendor: 'mountainleaf.example', price: null, currency: '', packageGrams: 50 });
+  });
+
+  it('should leave brewing parameters empty without brewing instructions', () => {
+    const tea = scrapeTeaPage(genericAdapter, '<html><body><h1>Sencha</h1><p>Sold in 100g bags.</p></body></html>', url);
+
+    expect(tea).toMatchObject({ name: 'Sencha', type: '', steepTimes: [], temperatureCelsius: null, leafGrams: null, waterMl: null });
+  });
+});
+
+describe('readProductListing', () => {
+  it('should read a JSON-LD Product from a @graph, skipping malformed blocks and resolving a protocol-relative image', () => {
+    const listing = readProductListing(cheerio.load(loadFixture('jsonld.html')), 'https://leafandkettle.example/products/jin-jun-mei');
+
+    expect(listing).toEqual({
+      name: 'Jin Jun Mei',
+      image: 'https://leafandkettle.example/images/jin-jun-mei.jpg',
+      description: expect.stringContaining('Tippy Wuyi black tea'),
+      category: 'Black Tea',
+      price: 24.5,
+      currency: 'USD',
+      brand: 'Tongmu Guan Cooperative',
+      availability: 'InStock',
+      packageGrams: 50,
+    });
+  });
+
+  it('should read microdata without mixing up nested item names and resolve a root-relative image', () => {
+    const listing = readProductListing(cheerio.load(loadFixture('microdata.html')), 'https://oldtown.example/bai-mu-dan');
+
+    expect(listing).toMatchObject({
+      name: 'Bai Mu Dan 2022',
+      image: 'https://oldtown.example/img/bai-mu-dan.jpg',
+      price: 18,
+      currency: 'GBP',
+      brand: 'Fuding Heritage',
+      availability: 'LimitedAvailability',
+    });
+  });
+
+  it('should fall back to OpenGraph tags', () => {
+    const $ = cheerio.load(`<html><head>
+      <meta property="og:title" content="Sencha">
+      <meta property="og:image" content="https://example.com/sencha.jpg">
+      <meta property="product:price:amount" content="1,299.00">
+      <meta property="product:price:currency" content="JPY">
+      <meta property="product:weight:value" content="3.5">
+      <meta property="product:weight:units" content="oz">
+    </head><body></body></html>`);
+
+    expect(readProductListing($, 'https://example.com/sencha')).toEqual({
+      name: 'Sencha',
+      image: 'https://example.com/sencha.jpg',
+      description: '',
+      category: '',
+      price: 1299,
+      currency: 'JPY',
+      brand: '',
+      availability: '',
+      packageGrams: 99.2,
+    });
+  });
+});
+
+describe('parsePackageGrams', () => {
+  it.each([
+    ['A 200g cake of ripened puer', 200],
+    ['357 grams cake', 357],
+    ['pressed into 357 gram cakes', 357],
+    ['Sold in 50g and 100g bags.', 50],
+    ['1kg brick', 1000],
+    ['Net weight: 2 oz', 56.7],
+  ])('should read "%s" as %sg', (text, grams) => {
+    expect(parsePackageGrams(text)).toBe(grams);
+  });
+
+  it('should skip the leaf used for one brew', () => {
+    expect(parsePackageGrams('Use 7 grams of tea with 100ml of 95°C water.')).toBeNull();
+  });
+});
+
+describe('extractAgingDetails', () => {
+  it('should read labelled details from the description', () => {
+    const details = extractAgingDetails('Menghai 7542', 'Factory: Menghai Tea Factory\nHarvest area: Xishuangbanna\nProduction year: 2018\nA classic recipe tuocha.');
+
+    expect(details).toEqual({ harvestYear: 2018, region: 'Xishuangbanna', factory: 'Menghai Tea Factory', pressing: 'Tuo' });
+  });
+
+  it('should prefer the pressing named in the product name', () => {
+    expect(extractAgingDetails('2016 Xiaguan Tibetan Brick', 'Each cake is wrapped in paper.').pressing).toBe('Brick');
+  });
+
+  it('should find a factory mentioned in passing', () => {
+    expect(extractAgingDetails('Classic 8582', 'Pressed by the Menghai Tea Factory in 2015.')).toMatchObject({ factory: 'Menghai Tea Factory', harvestYear: 2015 });
+  });
+
+  it('should leave out years still to come and unlabelled numbers', () => {
+    expect(extractAgingDetails('2999 Future Cake', 'Harvested at 1,400m.').harvestYear).toBeNull();
+  });
+
+  it('should return nothing for a page without aging details', () => {
+    expect(extractAgingDetails('Dragon Well', 'A fresh spring green tea.')).toEqual({ harvestYear: null, region: null, factory: null, pressing: null });
+  });
+});
+
+describe('generic adapter with structured data', () => {
+  it('should prefer the JSON-LD product over page headings', () => {
+    const tea = scrapeFixture(genericAdapter, 'jsonld.html', 'https://leafandkettle.example/products/jin-jun-mei');
+
+    expect(tea).toMatchObject({
+      name: 'Jin Jun Mei',
+      type: 'Black',
+      image: 'https://leafandkettle.example/images/jin-jun-mei.jpg',
+      steepTimes: [10, 15, 20, 30],
+      caffeineLevel: 'Medium',
+    });
+    expect(tea.listing).toMatchObject({ price: 24.5, currency: 'USD', brand: 'Tongmu Guan Cooperative' });
+    expect(tea.offer).toEqual({ vendor: 'Leaf & Kettle', price: 24.5, currency: 'USD', packageGrams: 50 });
+  });
+
+  it('should apply the brewing heuristics to a microdata description', () => {
+    const tea = scrapeFixture(genericAdapter, 'microdata.html', 'https://oldtown.example/bai-mu-dan');
+
+    expect(tea).toMatchObject({
+      name: 'Bai Mu Dan 2022',
+      type: 'White',
+      steepTimes: [20, 30, 40],
+      temperatureCelsius: 90,
+      leafGrams: 5,
+      waterMl: 120,
+      caffeineLevel: 'Low',
+    });
+  });
+
+  it('should pass the listing through for vendor adapters too', () => {
+    const tea = scrapeFixture(white2teaAdapter, 'white2tea.html', 'https://white2tea.com/products/2023-snoozefest');
+
+    expect(tea.listing.name).toBe('2023 Snoozefest');
+    expect(tea.listing.description).toBe('Ripened puer blend for everyday drinking.');
+  });
+});
+
+describe('fetch limits and timing', () => {
+  it.each([
+    ['text/html; charset=utf-8', true],
+    ['application/xhtml+xml', true],
+    ['', true],
+    ['application/pdf', false],
+    ['image/jpeg', false],
+    ['application/json', false],
+  ])('should treat content type "%s" as HTML: %s', (contentType, expected) => {
+    expect(isHtmlContentType(contentType)).toBe(expected);
+  });
+
+  it('should record the parse and scrape stages of a page', () => {
+    const timer = createStageTimer();
+
+    scrapeTeaPage(genericAdapter, loadFixture('generic.html'), 'https://mountainleaf.example/teas/alishan', timer);
+
+    expect(Object.keys(timer.getTimings())).toEqual(['parse', 'scrape']);
+    expect(formatServerTiming(timer.getTimings())).toMatch(/^parse;dur=\d+, scrape;dur=\d+$/);
+  });
+
+  it('should record async stages once they settle', async () => {
+    const timer = createStageTimer();
+
+    await expect(timer.measure('fetch', async () => 'page')).resolves.toBe('page');
+
+    expect(timer.getTimings().fetch).toBeGreaterThanOrEqual(0);
+  });
+});
@@ -0,0 +1,309 @@
+/**
+ * Brewing Session Tests
+ *
+ * Tests for the /api/sessions CRUD routes and for deriving a tea's
+ * timesConsumed and lastConsumedDate from its ended sessions, and its stock from their grams.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import request from 'supertest';
+import jwt from 'jsonwebtoken';
+import yaml from 'js-yaml';
+
+import type { Tea } from '../../shared/types';
+import { createApp } from '../app';
+import { createRepositories } from '../repositories';
+import type { StorageBackend } from '../repositories';
+
+const JWT_SECRET = 'test-secret';
+
+const createMockTea = (overrides?: Partial<Tea>): Tea => ({
+  id: '1',
+  name: 'Test Green Tea',
+  type: 'Green',
+  image: 'http://example.com/image.jpg',
+  steepTimes: [10, 15, 20],
+  caffeine: 'Low',
+  caffeineLevel: 'Low',
+  website: 'http://example.com',
+  temperatureCelsius: 79,
+  leafGrams: 5,
+  waterMl: null,
+  timesConsumed: 0,
+  lastConsumedDate: null,
+  ...overrides,
+});
+
+let tempDir: string;
+let token: string;
+
+beforeAll(() => {
+  process.env.ADMIN_USERNAME = 'admin';
+  process.env.ADMIN_PASSWORD_HASH = 'unused';
+  process.env.JWT_SECRET = JWT_SECRET;
+  token = jwt.sign({ username: 'admin' }, JWT_SECRET);
+});
+
+beforeEach(() => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tea-sessions-'));
+});
+
+afterEach(() => {
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe.each<StorageBackend>(['yaml', 'sqlite'])('Sessions API (%s backend)', (backend) => {
+  const createTestApp = async (teas: Tea[] = [createMockTea()]) => {
+    const dataFile = path.join(tempDir, 'teas.yaml');
+    fs.writeFileSync(dataFile, yaml.dump(teas));
+
+    const repositories = await createRepositories({
+      backend,
+      dataFile,
+      sessionsFile: path.join(tempDir, 'sessions.yaml'),
+      purchasesFile: path.join(tempDir, 'purchases.yaml'),
+      vendorsFile: path.join(tempDir, 'vendors.yaml'),
+      tastingNotesFile: path.join(tempDir, 'tasting-notes.yaml'),
+      sqliteFile: path.join(tempDir, 'teas.db'),
+      backupDir: path.join(tempDir, 'backups'),
+      backupRetention: 0,
+      scrapeCacheDir: path.join(tempDir, 'scrape-cache'),
+      scrapeCacheTtlHours: 0,
+      imageDir: path.join(tempDir, 'images'),
+      downloadImages: false,
+    });
+    return createApp(repositories);
+  };
+
+  const getTea = async (app: Awaited<ReturnType<typeof createTestApp>>, id = '1'): Promise<Tea> => {
+    const response = await request(app).get('/api/teas').set('Authorization', `Bearer ${token}`);
+    return response.body.find((t: Tea) => t.id === id);
+  };
+
+  it('should create and list a session with its steeps', async () => {
+    const app = await createTestApp();
+
+    const created = await request(app)
+      .post('/api/sessions')
+      .set('Authorization', `Bearer ${token}`)
+      .send({
+        teaId: '1',
+        startedAt: 1000,
+        steeps: [{ index: 0, plannedSeconds: 10, actualSeconds: 12, startedAt: 1000 }],
+        gramsUsed: 5,
+        waterTemperature: 80,
+        notes: 'Grassy',
+      });
+
+    expect(created.status).toBe(201);
+    expect(created.body.id).toEqual(expect.any(String));
+    expect(created.body.endedAt).toBeNull();
+
+    const list = await request(app).get('/api/sessions?teaId=1').set('Authorization', `Bearer ${token}`);
+    expect(list.status).toBe(200);
+    expect(list.body).toHaveLength(1);
+    expect(list.body[0].steeps[0].actualSeconds).toBe(12);
+    expect(list.body[0].notes).toBe('Grassy');
+  });
+
+  it('should return 404 when creating a session for an unknown tea', async () => {
+    const app = await createTestApp();
+
+    const response = await request(app)
+      .post('/api/sessions')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ teaId: 'missing', startedAt: 1000 });
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should return 400 for invalid session data', async () => {
+    const app = await createTestApp();
+
+    const response = await request(app)
+      .post('/api/sessions')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ teaId: '1', startedAt: 'yesterday' });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should count a consumption when an open session is ended', async () => {
+    const app = await createTestApp();
+
+    const created = await request(app)
+      .post('/api/sessions')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ teaId: '1', startedAt: 1000 });
+    expect((await getTea(app)).timesConsumed).toBe(0);
+
+    const ended = await request(app)
+      .patch(`/api/sessions/${created.body.id}`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ endedAt: 2000 });
+
+    expect(ended.status).toBe(200);
+    const tea = await getTea(app);
+    expect(tea.timesConsumed).toBe(1);
+    expect(tea.lastConsumedDate).toBe(2000);
+  });
+
+  it('should count a session ended by overlapping requests once', async () => {
+    const app = await createTestApp([createMockTea({ stockGrams: 50 })]);
+    const created = await request(app).post('/api/sessions').set('Authorization', `Bearer ${token}`)
+      .send({ teaId: '1', startedAt: 1000, gramsUsed: 5 });
+
+    const responses = await Promise.all([2000, 2000, 2000].map(endedAt =>
+      request(app).patch(`/api/sessions/${created.body.id}`).set('Authorization', `Bearer ${token}`).send({ endedAt })));
+
+    expect(responses.map(response => response.status)).toEqual([200, 200, 200]);
+    const tea = await getTea(app);
+    expect(tea.timesConsumed).toBe(1);
+    expect(tea.stockGrams).toBe(45);
+  });
+
+  it('should undo the consumption when an ended session is re-opened', async () => {
+    const app = await createTestApp([createMockTea({ stockGrams: 50 })]);
+    const created = await request(app).post('/api/sessions').set('Authorization', `Bearer ${token}`)
+      .send({ teaId: '1', startedAt: 1000, endedAt: 2000, gramsUsed: 5 });
+    expect((await getTea(app)).timesConsumed).toBe(1);
+
+    await request(app).patch(`/api/sessions/${created.body.id}`).set('Authorization', `Bearer ${token}`).send({ endedAt: null });
+
+    const tea = await getTea(app);
+    expect(tea.timesConsumed).toBe(0);
+    expect(tea.lastConsumedDate).toBeNull();
+    expect(tea.stockGrams).toBe(50);
+  });
+
+  it('should keep the consumption counted before the session log', async () => {
+    const app = await createTestApp([createMockTea({ timesConsumed: 4, lastConsumedDate: 1500 })]);
+    expect((await getTea(app)).consumedBeforeSessions).toEqual({ count: 4, lastConsumedDate: 1500 });
+
+    const created = await request(app).post('/api/sessions').set('Authorization', `Bearer ${token}`)
+      .send({ teaId: '1', startedAt: 1000, endedAt: 3000 });
+    expect(await getTea(app)).toMatchObject({ timesConsumed: 5, lastConsumedDate: 3000 });
+
+    await request(app).delete(`/api/sessions/${created.body.id}`).set('Authorization', `Bearer ${token}`);
+    expect(await getTea(app)).toMatchObject({ timesConsumed: 4, lastConsumedDate: 1500 });
+  });
+
+  it('should reject unknown fields when updating a session', async () => {
+    const app = await createTestApp();
+    const created = await request(app)
+      .post('/api/sessions')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ teaId: '1', startedAt: 1000 });
+
+    const response = await request(app)
+      .patch(`/api/sessions/${created.body.id}`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ teaId: '2' });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should undo the consumption when an ended session is deleted', async () => {
+    const app = await createTestApp();
+
+    await request(app).post('/api/sessions').set('Authorization', `Bearer ${token}`)
+      .send({ teaId: '1', startedAt: 1000, endedAt: 2000 });
+    const latest = await request(app).post('/api/sessions').set('Authorization', `Bearer ${token}`)
+      .send({ teaId: '1', startedAt: 3000, endedAt: 4000 });
+    expect((await getTea(app)).timesConsumed).toBe(2);
+
+    const response = await request(app)
+      .delete(`/api/sessions/${latest.body.id}`)
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(response.status).toBe(204);
+    const tea = await getTea(app);
+    expect(tea.timesConsumed).toBe(1);
+    expect(tea.lastConsumedDate).toBe(2000);
+  });
+
+  it('should return 404 when deleting an unknown session', async () => {
+    const app = await createTestApp();
+
+    const response = await request(app)
+      .delete('/api/sessions/missing')
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should log a session when a tea is marked consumed', async () => {
+    const app = await createTestApp();
+
+    const response = await request(app)
+      .put('/api/teas/1/lastConsumed')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ startedAt: 1000, steeps: [{ index: 0, plannedSeconds: 10, actualSeconds: null, startedAt: 1000 }], gramsUsed: 4 });
+
+    expect(response.status).toBe(200);
+    expect(response.body.timesConsumed).toBe(1);
+
+    const sessions = await request(app).get('/api/sessions?teaId=1').set('Authorization', `Bearer ${token}`);
+    expect(sessions.body).toHaveLength(1);
+    expect(sessions.body[0]).toMatchObject({ teaId: '1', startedAt: 1000, gramsUsed: 4 });
+    expect(sessions.body[0].endedAt).toBe(response.body.lastConsumedDate);
+  });
+
+  it('should subtract the grams used from a tracked stock', async () => {
+    const app = await createTestApp([createMockTea({ stockGrams: 50, leafGrams: 5 })]);
+
+    await request(app).put('/api/teas/1/lastConsumed').set('Authorization', `Bearer ${token}`).send({ gramsUsed: 7 });
+    expect((await getTea(app)).stockGrams).toBe(43);
+
+    // Without grams entered at session end, the tea's leaf weight is used
+    await request(app).put('/api/teas/1/lastConsumed').set('Authorization', `Bearer ${token}`);
+    expect((await getTea(app)).stockGrams).toBe(38);
+
+    const sessions = await request(app).get('/api/sessions?teaId=1').set('Authorization', `Bearer ${token}`);
+    expect(sessions.body.map((s: { gramsUsed: number }) => s.gramsUsed).sort()).toEqual([5, 7]);
+  });
+
+  it('should never take the stock below zero', async () => {
+    const app = await createTestApp([createMockTea({ stockGrams: 3 })]);
+
+    await request(app).put('/api/teas/1/lastConsumed').set('Authorization', `Bearer ${token}`).send({ gramsUsed: 5 });
+
+    expect((await getTea(app)).stockGrams).toBe(0);
+  });
+
+  it('should leave an untracked stock untracked', async () => {
+    const app = await createTestApp();
+
+    await request(app).put('/api/teas/1/lastConsumed').set('Authorization', `Bearer ${token}`).send({ gramsUsed: 5 });
+
+    expect((await getTea(app)).stockGrams).toBeUndefined();
+  });
+
+  it('should return the grams of a deleted session to the stock', async () => {
+    const app = await createTestApp([createMockTea({ stockGrams: 50 })]);
+    const created = await request(app).post('/api/sessions').set('Authorization', `Bearer ${token}`)
+      .send({ teaId: '1', startedAt: 1000, endedAt: 2000, gramsUsed: 6 });
+    expect((await getTea(app)).stockGrams).toBe(44);
+
+    await request(app).patch(`/api/sessions/${created.body.id}`).set('Authorization', `Bearer ${token}`).send({ gramsUsed: 4 });
+    expect((await getTea(app)).stockGrams).toBe(46);
+
+    await request(app).delete(`/api/sessions/${created.body.id}`).set('Authorization', `Bearer ${token}`);
+    expect((await getTea(app)).stockGrams).toBe(50);
+  });
+
+  it('should still accept marking a tea consumed without a body', async () => {
+    const app = await createTestApp();
+
+    const response = await request(app)
+      .put('/api/teas/1/lastConsumed')
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(response.status).toBe(200);
+    const sessions = await request(app).get('/api/sessions').set('Authorization', `Bearer ${token}`);
+    expect(sessions.body).toHaveLength(1);
+    expect(sessions.body[0].steeps).toEqual([]);
+  });
+});
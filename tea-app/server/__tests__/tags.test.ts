@@ -0,0 +1,199 @@
+/**
+ * Tag Tests
+ *
+ * Tests for tags on teas, the tag helpers shared with the frontend filter and the
+ * /api/tags rename, merge and delete routes.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import request from 'supertest';
+import jwt from 'jsonwebtoken';
+import yaml from 'js-yaml';
+
+import { getTagCounts, matchesTags, normalizeTags, replaceTags } from '../../shared/tags';
+import type { Tea } from '../../shared/types';
+import { createApp } from '../app';
+import { createRepositories } from '../repositories';
+import type { StorageBackend } from '../repositories';
+
+const JWT_SECRET = 'test-secret';
+
+const createMockTea = (overrides?: Partial<Tea>): Tea => ({
+  id: '1',
+  name: 'Test Green Tea',
+  type: 'Green',
+  image: 'http://example.com/image.jpg',
+  steepTimes: [10, 15, 20],
+  caffeine: 'Low',
+  caffeineLevel: 'Low',
+  website: '',
+  temperatureCelsius: 79,
+  leafGrams: 5,
+  waterMl: null,
+  timesConsumed: 0,
+  lastConsumedDate: null,
+  ...overrides,
+});
+
+let tempDir: string;
+let token: string;
+
+beforeAll(() => {
+  process.env.ADMIN_USERNAME = 'admin';
+  process.env.ADMIN_PASSWORD_HASH = 'unused';
+  process.env.JWT_SECRET = JWT_SECRET;
+  token = jwt.sign({ username: 'admin' }, JWT_SECRET);
+});
+
+beforeEach(() => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tea-tags-'));
+});
+
+afterEach(() => {
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe('tag helpers', () => {
+  it('should trim tags and drop blanks and case-insensitive duplicates', () => {
+    expect(normalizeTags([' morning ', 'Smoky', '', 'smoky', 'late   night'])).toEqual(['morning', 'Smoky', 'late night']);
+  });
+
+  it('should count teas per tag', () => {
+    const teas = [createMockTea({ tags: ['smoky', 'aged'] }), createMockTea({ id: '2', tags: ['Aged'] }), createMockTea({ id: '3' })];
+
+    expect(getTagCounts(teas)).toEqual([{ name: 'aged', count: 2 }, { name: 'smoky', count: 1 }]);
+  });
+
+  it('should match all or any of the selected tags', () => {
+    const tea = createMockTea({ tags: ['morning', 'gift'] });
+
+    expect(matchesTags(tea, [], 'all')).toBe(true);
+    expect(matchesTags(tea, ['Morning', 'gift'], 'all')).toBe(true);
+    expect(matchesTags(tea, ['morning', 'aged'], 'all')).toBe(false);
+    expect(matchesTags(tea, ['morning', 'aged'], 'any')).toBe(true);
+    expect(matchesTags(createMockTea(), ['aged'], 'any')).toBe(false);
+  });
+
+  it('should rename, merge and remove tags in place', () => {
+    expect(replaceTags(['a', 'smokey', 'b'], ['Smokey'], 'smoky')).toEqual(['a', 'smoky', 'b']);
+    expect(replaceTags(['smoky', 'a', 'smokey'], ['smokey'], 'smoky')).toEqual(['smoky', 'a']);
+    expect(replaceTags(['a', 'b'], ['a'], null)).toEqual(['b']);
+  });
+});
+
+describe.each<StorageBackend>(['yaml', 'sqlite'])('Tags API (%s backend)', (backend) => {
+  const createTestApp = async (teas: Tea[]) => {
+    const dataFile = path.join(tempDir, 'teas.yaml');
+    fs.writeFileSync(dataFile, yaml.dump(teas));
+
+    const repositories = await createRepositories({
+      backend,
+      dataFile,
+      sessionsFile: path.join(tempDir, 'sessions.yaml'),
+      purchasesFile: path.join(tempDir, 'purchases.yaml'),
+      vendorsFile: path.join(tempDir, 'vendors.yaml'),
+      tastingNotesFile: path.join(tempDir, 'tasting-notes.yaml'),
+      sqliteFile: path.join(tempDir, 'teas.db'),
+      backupDir: path.join(tempDir, 'backups'),
+      backupRetention: 0,
+      scrapeCacheDir: path.join(tempDir, 'scrape-cache'),
+      scrapeCacheTtlHours: 0,
+      imageDir: path.join(tempDir, 'images'),
+      downloadImages: false,
+    });
+    return createApp(repositories);
+  };
+
+  const getTeaTags = async (app: Awaited<ReturnType<typeof createTestApp>>) => {
+    const response = await request(app).get('/api/teas').set('Authorization', `Bearer ${token}`);
+    return response.body.map((tea: Tea) => tea.tags);
+  };
+
+  const taggedTeas = () => [
+    createMockTea({ tags: ['morning', 'smokey'] }),
+    createMockTea({ id: '2', tags: ['Smoky', 'aged'] }),
+    createMockTea({ id: '3' }),
+  ];
+
+  it('should clean up the tags saved on a tea', async () => {
+    const app = await createTestApp([createMockTea()]);
+
+    const updated = await request(app)
+      .patch('/api/teas/1')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ tags: [' gift ', 'Gift', 'aged'] });
+    const rejected = await request(app)
+      .patch('/api/teas/1')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ tags: ['x'.repeat(41)] });
+
+    expect(updated.body.tags).toEqual(['gift', 'aged']);
+    expect(rejected.status).toBe(400);
+  });
+
+  it('should list tags with their tea counts', async () => {
+    const app = await createTestApp(taggedTeas());
+
+    const response = await request(app).get('/api/tags').set('Authorization', `Bearer ${token}`);
+
+    expect(response.body).toEqual([
+      { name: 'aged', count: 1 },
+      { name: 'morning', count: 1 },
+      { name: 'smokey', count: 1 },
+      { name: 'Smoky', count: 1 },
+    ]);
+  });
+
+  it('should rename a tag on every tea', async () => {
+    const app = await createTestApp(taggedTeas());
+
+    const response = await request(app)
+      .patch('/api/tags/morning')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ name: 'breakfast' });
+
+    expect(response.status).toBe(200);
+    expect(await getTeaTags(app)).toEqual([['breakfast', 'smokey'], ['Smoky', 'aged'], undefined]);
+  });
+
+  it('should merge tags into one', async () => {
+    const app = await createTestApp(taggedTeas());
+
+    const response = await request(app)
+      .post('/api/tags/merge')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ tags: ['smokey', 'Smoky'], into: 'smoky' });
+
+    expect(response.body).toContainEqual({ name: 'smoky', count: 2 });
+    expect(await getTeaTags(app)).toEqual([['morning', 'smoky'], ['smoky', 'aged'], undefined]);
+  });
+
+  it('should delete a tag from every tea', async () => {
+    const app = await createTestApp(taggedTeas());
+
+    const response = await request(app).delete('/api/tags/aged').set('Authorization', `Bearer ${token}`);
+
+    expect(response.status).toBe(204);
+    expect(await getTeaTags(app)).toEqual([['morning', 'smokey'], ['Smoky'], undefined]);
+  });
+
+  it('should return 404 for an unknown tag and 400 for an invalid name', async () => {
+    const app = await createTestApp(taggedTeas());
+
+    const missing = await request(app).delete('/api/tags/green').set('Authorization', `Bearer ${token}`);
+    const invalid = await request(app).patch('/api/tags/morning').set('Authorization', `Bearer ${token}`).send({ name: '  ' });
+
+    expect(missing.status).toBe(404);
+    expect(invalid.status).toBe(400);
+  });
+
+  it('should include tags in the YAML export', async () => {
+    const app = await createTestApp(taggedTeas());
+
+    const response = await request(app).get('/api/teas/export').set('Authorization', `Bearer ${token}`);
+
+    expect((yaml.load(response.text) as Tea[])[0].tags).toEqual(['morning', 'smokey']);
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * Tasting Note Tests
+ *
+ * Tests for the /api/tasting-notes routes and the flavor profile worked out from a tea's notes.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import request from 'supertest';
+import jwt from 'jsonwebtoken';
+import yaml from 'js-yaml';
+
+import { getFlavorCategory, getFlavorProfile, getFlavorSearchTerms } from '../../shared/tastingNotes';
+import type { BrewSession, TastingNote, Tea } from '../../shared/types';
+import { createApp } from '../app';
+import { createRepositories } from '../repositories';
+import type { StorageBackend } from '../repositories';
+
+const JWT_SECRET = 'test-secret';
+
+const createMockTea = (overrides?: Partial<Tea>): Tea => ({
+  id: '1',
+  name: 'Test Oolong',
+  type: 'Oolong',
+  image: 'http://example.com/image.jpg',
+  steepTimes: [10, 15, 20],
+  caffeine: 'Low',
+  caffeineLevel: 'Low',
+  website: '',
+  temperatureCelsius: 95,
+  leafGrams: 5,
+  waterMl: null,
+  timesConsumed: 0,
+  lastConsumedDate: null,
+  ...overrides,
+});
+
+const createNote = (overrides?: Partial<TastingNote>): TastingNote => ({
+  id: 'n1',
+  teaId: '1',
+  sessionId: null,
+  createdAt: 1700000000000,
+  text: '',
+  flavors: [],
+  intensities: { body: null, astringency: null, sweetness: null, aroma: null },
+  steepNotes: [],
+  ...overrides,
+});
+
+let tempDir: string;
+let token: string;
+
+beforeAll(() => {
+  process.env.ADMIN_USERNAME = 'admin';
+  process.env.ADMIN_PASSWORD_HASH = 'unused';
+  process.env.JWT_SECRET = JWT_SECRET;
+  token = jwt.sign({ username: 'admin' }, JWT_SECRET);
+});
+
+beforeEach(() => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tea-tasting-'));
+});
+
+afterEach(() => {
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe('getFlavorProfile', () => {
+  it('should return nothing for a tea without notes', () => {
+    expect(getFlavorProfile([])).toBeNull();
+  });
+
+  it('should count flavors and their families once per note', () => {
+    const profile = getFlavorProfile([
+      createNote({ flavors: ['orchid', 'honey'] }),
+      createNote({ id: 'n2', flavors: ['orchid', 'osmanthus'] }),
+    ]);
+
+    expect(profile?.noteCount).toBe(2);
+    expect(profile?.flavors).toEqual([
+      { name: 'orchid', count: 2 },
+      { name: 'honey', count: 1 },
+      { name: 'osmanthus', count: 1 },
+    ]);
+    expect(profile?.categories).toEqual([{ name: 'Floral', count: 2 }, { name: 'Sweet', count: 1 }]);
+  });
+
+  it('should average each intensity over the notes that score it', () => {
+    const profile = getFlavorProfile([
+      createNote({ intensities: { body: 4, astringency: null, sweetness: 2, aroma: null } }),
+      createNote({ id: 'n2', intensities: { body: 3, astringency: null, sweetness: null, aroma: null } }),
+    ]);
+
+    expect(profile?.intensities).toEqual({ body: 3.5, astringency: null, sweetness: 2, aroma: null });
+  });
+
+  it('should search by descriptors and flavor families', () => {
+    expect(getFlavorCategory('wet stone')).toBe('Mineral');
+    expect(getFlavorSearchTerms(getFlavorProfile([createNote({ flavors: ['pine smoke'] })]))).toEqual(['pine smoke', 'smoky']);
+    expect(getFlavorSearchTerms(null)).toEqual([]);
+  });
+});
+
+describe.each<StorageBackend>(['yaml', 'sqlite'])('Tasting Notes API (%s backend)', (backend) => {
+  const createTestApp = async (teas: Tea[] = [createMockTea()]) => {
+    const dataFile = path.join(tempDir, 'teas.yaml');
+    fs.writeFileSync(dataFile, yaml.dump(teas));
+
+    const repositories = await createRepositories({
+      backend,
+      dataFile,
+      sessionsFile: path.join(tempDir, 'sessions.yaml'),
+      purchasesFile: path.join(tempDir, 'purchases.yaml'),
+      vendorsFile: path.join(tempDir, 'vendors.yaml'),
+      tastingNotesFile: path.join(tempDir, 'tasting-notes.yaml'),
+      sqliteFile: path.join(tempDir, 'teas.db'),
+      backupDir: path.join(tempDir, 'backups'),
+      backupRetention: 0,
+      scrapeCacheDir: path.join(tempDir, 'scrape-cache'),
+      scrapeCacheTtlHours: 0,
+      imageDir: path.join(tempDir, 'images'),
+      downloadImages: false,
+    });
+    return createApp(repositories);
+  };
+
+  type TestApp = Awaited<ReturnType<typeof createTestApp>>;
+
+  const postNote = (app: TestApp, body: object) =>
+    request(app).post('/api/tasting-notes').set('Authorization', `Bearer ${token}`).send(body);
+
+  const postSession = async (app: TestApp, teaId: string): Promise<BrewSession> =>
+    (await request(app).post('/api/sessions').set('Authorization', `Bearer ${token}`).send({ teaId, startedAt: 1000 })).body;
+
+  it('should create a note with defaults for what it leaves out', async () => {
+    const app = await createTestApp();
+
+    const response = await postNote(app, { teaId: '1', flavors: ['orchid'], intensities: { body: 4 } });
+
+    expect(response.status).toBe(201);
+    expect(response.body).toMatchObject({
+      teaId: '1',
+      sessionId: null,
+      text: '',
+      flavors: ['orchid'],
+      intensities: { body: 4, astringency: null, sweetness: null, aroma: null },
+      steepNotes: [],
+    });
+  });
+
+  it('should reject flavors outside the wheel and intensities outside 1 to 5', async () => {
+    const app = await createTestApp();
+
+    const flavor = await postNote(app, { teaId: '1', flavors: ['bacon'] });
+    const intensity = await postNote(app, { teaId: '1', intensities: { aroma: 6 } });
+
+    expect(flavor.status).toBe(400);
+    expect(intensity.status).toBe(400);
+    expect(intensity.body.error).toBe('Invalid tasting note data');
+  });
+
+  it('should only attach notes to sessions of the same tea', async () => {
+    const app = await createTestApp([createMockTea(), createMockTea({ id: '2' })]);
+    const session = await postSession(app, '2');
+
+    const wrongTea = await postNote(app, { teaId: '1', sessionId: session.id });
+    const rightTea = await postNote(app, { teaId: '2', sessionId: session.id, steepNotes: [{ index: 0, note: 'Floral opening' }] });
+    const missingTea = await postNote(app, { teaId: 'missing' });
+
+    expect(wrongTea.status).toBe(404);
+    expect(wrongTea.body.error).toBe('Session not found');
+    expect(rightTea.status).toBe(201);
+    expect(missingTea.status).toBe(404);
+  });
+
+  it('should list notes by tea and by session', async () => {
+    const app = await createTestApp([createMockTea(), createMockTea({ id: '2' })]);
+    const session = await postSession(app, '1');
+    await postNote(app, { teaId: '1', sessionId: session.id, text: 'first' });
+    await postNote(app, { teaId: '1', text: 'second' });
+    await postNote(app, { teaId: '2', text: 'other tea' });
+
+    const byTea = await request(app).get('/api/tasting-notes?teaId=1').set('Authorization', `Bearer ${token}`);
+    const bySession = await request(app).get(`/api/tasting-notes?sessionId=${session.id}`).set('Authorization', `Bearer ${token}`);
+
+    expect(byTea.body.map((note: TastingNote) => note.text).sort()).toEqual(['first', 'second']);
+    expect(bySession.body.map((note: TastingNote) => note.text)).toEqual(['first']);
+  });
+
+  it('should merge intensities on update', async () => {
+    const app = await createTestApp();
+    const created = await postNote(app, { teaId: '1', intensities: { body: 4, aroma: 2 } });
+
+    const updated = await request(app)
+      .patch(`/api/tasting-notes/${created.body.id}`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ intensities: { aroma: 5 }, text: 'Better the second time' });
+
+    expect(updated.status).toBe(200);
+    expect(updated.body.intensities).toEqual({ body: 4, astringency: null, sweetness: null, aroma: 5 });
+    expect(updated.body.text).toBe('Better the second time');
+  });
+
+  it('should keep a session\'s notes on the tea when the session is deleted', async () => {
+    const app = await createTestApp();
+    const session = await postSession(app, '1');
+    const created = await postNote(app, { teaId: '1', sessionId: session.id });
+
+    await request(app).delete(`/api/sessions/${session.id}`).set('Authorization', `Bearer ${token}`);
+    const note = await request(app).get(`/api/tasting-notes/${created.body.id}`).set('Authorization', `Bearer ${token}`);
+
+    expect(note.body).toMatchObject({ teaId: '1', sessionId: null });
+  });
+
+  it('should delete a note', async () => {
+    const app = await createTestApp();
+    const created = await postNote(app, { teaId: '1' });
+
+    const deleted = await request(app).delete(`/api/tasting-notes/${created.body.id}`).set('Authorization', `Bearer ${token}`);
+    const missing = await request(app).delete(`/api/tasting-notes/${created.body.id}`).set('Authorization', `Bearer ${token}`);
+
+    expect(deleted.status).toBe(204);
+    expect(missing.status).toBe(404);
+  });
+});
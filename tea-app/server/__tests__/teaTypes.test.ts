@@ -0,0 +1,142 @@
+/**
+ * Tea Type Tests
+ *
+ * Tests for the tea type taxonomy: resolving aliases, categories with their kinds,
+ * detecting a type in product text and accepting aliased types through the API.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import request from 'supertest';
+import jwt from 'jsonwebtoken';
+
+import { findTeaType, getTeaTypeParent, getTypeFilterOptions, isTeaTypeWithin, resolveTeaType } from '../../shared/teaTypes';
+import { createApp } from '../app';
+import { createRepositories } from '../repositories';
+import type { StorageBackend } from '../repositories';
+
+const JWT_SECRET = 'test-secret';
+
+let tempDir: string;
+let token: string;
+
+beforeAll(() => {
+  process.env.ADMIN_USERNAME = 'admin';
+  process.env.ADMIN_PASSWORD_HASH = 'unused';
+  process.env.JWT_SECRET = JWT_SECRET;
+  token = jwt.sign({ username: 'admin' }, JWT_SECRET);
+});
+
+beforeEach(() => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tea-types-'));
+});
+
+afterEach(() => {
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe('resolveTeaType', () => {
+  it('should resolve names and aliases ignoring case and separators', () => {
+    expect(resolveTeaType('green')).toBe('Green');
+    expect(resolveTeaType('PU-ERH')).toBe('PuEr');
+    expect(resolveTeaType("Pu'er")).toBe('PuEr');
+    expect(resolveTeaType('Hei Cha')).toBe('Dark');
+    expect(resolveTeaType('liubao')).toBe('Dark');
+    expect(resolveTeaType('Ripe Pu-erh')).toBe('Shou');
+    expect(resolveTeaType('earl grey')).toBe('Earl Grey');
+  });
+
+  it('should return null for unknown or empty types', () => {
+    expect(resolveTeaType('Coffee')).toBeNull();
+    expect(resolveTeaType('  ')).toBeNull();
+  });
+});
+
+describe('type categories', () => {
+  it('should know the category of a kind of tea', () => {
+    expect(getTeaTypeParent('Sheng')).toBe('PuEr');
+    expect(getTeaTypeParent('Jasmine')).toBe('Blend');
+    expect(getTeaTypeParent('Green')).toBeNull();
+  });
+
+  it('should count a kind as within its category', () => {
+    expect(isTeaTypeWithin('Shou', 'PuEr')).toBe(true);
+    expect(isTeaTypeWithin('PuEr', 'PuEr')).toBe(true);
+    expect(isTeaTypeWithin('PuEr', 'Shou')).toBe(false);
+    expect(isTeaTypeWithin('Dark', 'PuEr')).toBe(false);
+  });
+
+  it('should list the used types with their categories in taxonomy order', () => {
+    expect(getTypeFilterOptions(['Oolong', 'Shou', 'Green', 'Earl Grey', 'Shou'])).toEqual(['Green', 'PuEr', 'Shou', 'Oolong', 'Blend', 'Earl Grey']);
+  });
+});
+
+describe('findTeaType', () => {
+  it('should find the type named in product text', () => {
+    expect(findTeaType('2019 Menghai Liu Bao Basket')).toBe('Dark');
+    expect(findTeaType('Organic Rooibos Vanilla')).toBe('Herbal');
+    expect(findTeaType('Da Hong Pao Oolong Tea')).toBe('Oolong');
+    expect(findTeaType('Assorted samples')).toBeNull();
+  });
+
+  it('should prefer the most specific type mentioned', () => {
+    expect(findTeaType('2023 Raw Pu-erh Tea Cake')).toBe('Sheng');
+    expect(findTeaType('Shou Puer')).toBe('Shou');
+    expect(findTeaType('Jasmine Green Tea')).toBe('Jasmine');
+    expect(findTeaType('Earl Grey Black Tea')).toBe('Earl Grey');
+  });
+
+  it('should not count a type name inside a longer one', () => {
+    expect(findTeaType('2015 Fuding Shou Mei')).toBe('White');
+    expect(findTeaType('Green Oolong')).toBe('Oolong');
+  });
+});
+
+describe.each<StorageBackend>(['yaml', 'sqlite'])('Tea types through the API (%s backend)', (backend) => {
+  const createTestApp = async () => {
+    const repositories = await createRepositories({
+      backend,
+      dataFile: path.join(tempDir, 'teas.yaml'),
+      sessionsFile: path.join(tempDir, 'sessions.yaml'),
+      purchasesFile: path.join(tempDir, 'purchases.yaml'),
+      vendorsFile: path.join(tempDir, 'vendors.yaml'),
+      tastingNotesFile: path.join(tempDir, 'tasting-notes.yaml'),
+      sqliteFile: path.join(tempDir, 'teas.db'),
+      backupDir: path.join(tempDir, 'backups'),
+      backupRetention: 0,
+      scrapeCacheDir: path.join(tempDir, 'scrape-cache'),
+      scrapeCacheTtlHours: 0,
+      imageDir: path.join(tempDir, 'images'),
+      downloadImages: false,
+    });
+    return createApp(repositories);
+  };
+
+  const postTea = (app: Awaited<ReturnType<typeof createTestApp>>, type: string) =>
+    request(app).post('/api/teas').set('Authorization', `Bearer ${token}`).send({
+      name: 'New Tea',
+      type,
+      image: 'http://example.com/image.jpg',
+      steepTimes: [30],
+    });
+
+  it('should store an aliased type by its taxonomy name', async () => {
+    const app = await createTestApp();
+
+    const dark = await postTea(app, 'hei cha');
+    const herbal = await postTea(app, 'Tisane');
+
+    expect(dark.status).toBe(201);
+    expect(dark.body.type).toBe('Dark');
+    expect(herbal.body.type).toBe('Herbal');
+  });
+
+  it('should still reject unknown types', async () => {
+    const app = await createTestApp();
+
+    const response = await postTea(app, 'Coffee');
+
+    expect(response.status).toBe(400);
+  });
+});
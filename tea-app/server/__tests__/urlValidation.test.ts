@@ -5,72 +5,22 @@
  * including IP address validation and URL security checks.
  */
 
-// These functions are defined in index.ts but not exported
-// We'll test them through the API endpoints that use them
-// For now, we'll import and test them directly by copying the logic
-
-// Helper function to check if a hostname is a private/local IP address
-const isPrivateIP = (hostname: string): boolean => {
-  // IPv4 private ranges
-  const ipv4Patterns = [
-    /^127\./,                        // 127.0.0.0/8 (localhost)
-    /^10\./,                         // 10.0.0.0/8
-    /^172\.(1[6-9]|2[0-9]|3[01])\./, // 172.16.0.0/12
-    /^192\.168\./,                   // 192.168.0.0/16
-    /^169\.254\./,                   // 169.254.0.0/16 (link-local)
-  ];
-
-  // Check for localhost and loopback aliases
-  if (hostname === 'localhost' || hostname === 'localhost.localdomain') {
-    return true;
-  }
-
-  // Check IPv4 patterns
-  for (const pattern of ipv4Patterns) {
-    if (pattern.test(hostname)) {
-      return true;
-    }
-  }
-
-  // IPv6 loopback and private ranges (may be wrapped in brackets from URL parsing)
-  const ipv6Hostname = hostname.replace(/^\[|\]$/g, ''); // Remove brackets if present
-  if (ipv6Hostname === '::1' || ipv6Hostname === '::' || ipv6Hostname.startsWith('fc') || ipv6Hostname.startsWith('fd')) {
-    return true;
-  }
-
-  return false;
-};
-
-// Helper function to validate the URL for SSRF attacks
-const validateURLForSSRF = (url: string): { valid: boolean; error?: string } => {
-  // Check for empty URL
-  if (!url || typeof url !== 'string' || url.trim() === '') {
-    return { valid: false, error: 'URL cannot be empty' };
-  }
-
-  try {
-    const parsed = new URL(url);
-
-    // Check protocol - only allow http and https
-    if (!['http:', 'https:'].includes(parsed.protocol)) {
-      return { valid: false, error: 'Only HTTP/HTTPS URLs are allowed' };
-    }
-
-    // Check for empty hostname
-    if (!parsed.hostname) {
-      return { valid: false, error: 'Invalid URL format: missing hostname' };
-    }
-
-    // Check for private/local IP addresses
-    if (isPrivateIP(parsed.hostname)) {
-      return { valid: false, error: 'Cannot scrape private/local URLs' };
-    }
-
-    return { valid: true };
-  } catch (error) {
-    return { valid: false, error: 'Invalid URL format' };
-  }
-};
+import type { LookupAddress } from 'dns';
+
+import {
+  createPinnedLookup,
+  fetchPublicPage,
+  getRedirectTarget,
+  isBlockedRequestError,
+  isPrivateIP,
+  resolvePublicAddresses,
+  validateURLForSSRF,
+} from '../ssrf';
+import type { HostResolver } from '../ssrf';
+
+// Resolves names from a fixed table instead of DNS
+const fakeResolver = (records: Record<string, string[]>): HostResolver => async hostname =>
+  (records[hostname] ?? []).map(address => ({ address, family: address.includes(':') ? 6 : 4 }));
 
 describe('URL Validation - isPrivateIP()', () => {
   describe('IPv4 Localhost and Loopback', () => {
@@ -139,6 +89,59 @@ describe('URL Validation - isPrivateIP()', () => {
       expect(isPrivateIP('fc00::1')).toBe(true);
       expect(isPrivateIP('fd00::1')).toBe(true);
     });
+
+    it('should return true for bracketed and link-local IPv6 addresses', () => {
+      expect(isPrivateIP('[::1]')).toBe(true);
+      expect(isPrivateIP('fe80::1')).toBe(true);
+    });
+
+    it('should return true for IPv4-mapped IPv6 addresses of private IPv4s', () => {
+      expect(isPrivateIP('::ffff:127.0.0.1')).toBe(true);
+      expect(isPrivateIP('[::ffff:7f00:1]')).toBe(true);
+      expect(isPrivateIP('::ffff:192.168.1.1')).toBe(true);
+      expect(isPrivateIP('::ffff:8.8.8.8')).toBe(false);
+    });
+
+    it('should return true for IPv6 forms that embed an IPv4 address', () => {
+      expect(isPrivateIP('::127.0.0.1')).toBe(true);
+      expect(isPrivateIP('64:ff9b::7f00:1')).toBe(true);
+      expect(isPrivateIP('64:ff9b:1::a00:1')).toBe(true);
+      expect(isPrivateIP('2002:7f00:1::')).toBe(true);
+      expect(isPrivateIP('2001:0:4136:e378::1')).toBe(true);
+    });
+
+    it('should return false for public IPv6 addresses', () => {
+      expect(isPrivateIP('2606:4700:4700::1111')).toBe(false);
+      expect(isPrivateIP('[2001:4860:4860::8888]')).toBe(false);
+    });
+  });
+
+  describe('Encoded IPv4 Addresses', () => {
+    it('should return true for decimal, hex and octal forms of 127.0.0.1', () => {
+      expect(isPrivateIP('2130706433')).toBe(true);
+      expect(isPrivateIP('0x7f000001')).toBe(true);
+      expect(isPrivateIP('0x7f.0.0.1')).toBe(true);
+      expect(isPrivateIP('0177.0.0.1')).toBe(true);
+      expect(isPrivateIP('127.1')).toBe(true);
+    });
+
+    it('should return true for encoded private ranges', () => {
+      expect(isPrivateIP('167772161')).toBe(true); // 10.0.0.1
+      expect(isPrivateIP('0xc0.0xa8.1.1')).toBe(true); // 192.168.1.1
+    });
+
+    it('should return false for encoded public addresses', () => {
+      expect(isPrivateIP('134744072')).toBe(false); // 8.8.8.8
+    });
+  });
+
+  describe('Reserved IPv4 Ranges', () => {
+    it('should return true for 0.0.0.0, carrier-grade NAT and multicast', () => {
+      expect(isPrivateIP('0.0.0.0')).toBe(true);
+      expect(isPrivateIP('100.64.0.1')).toBe(true);
+      expect(isPrivateIP('224.0.0.1')).toBe(true);
+      expect(isPrivateIP('255.255.255.255')).toBe(true);
+    });
   });
 
   describe('Public IP Addresses', () => {
@@ -166,6 +169,16 @@ describe('URL Validation - isPrivateIP()', () => {
       expect(isPrivateIP('example.com')).toBe(false);
       expect(isPrivateIP('google.com')).toBe(false);
     });
+
+    it('should not treat names with numeric labels as addresses', () => {
+      expect(isPrivateIP('127.0.0.1.nip.io')).toBe(false);
+      expect(isPrivateIP('0x7f.example.com')).toBe(false);
+    });
+
+    it('should return true for localhost subdomains and a trailing dot', () => {
+      expect(isPrivateIP('app.localhost')).toBe(true);
+      expect(isPrivateIP('localhost.')).toBe(true);
+    });
   });
 });
 
@@ -264,6 +277,20 @@ describe('URL Validation - validateURLForSSRF()', () => {
       expect(result.valid).toBe(false);
       expect(result.error).toBe('Cannot scrape private/local URLs');
     });
+
+    it.each([
+      'http://2130706433/',
+      'http://0x7f000001/',
+      'http://0177.0.0.1/',
+      'http://127.1/',
+      'http://[::ffff:127.0.0.1]/',
+      'http://[::ffff:10.0.0.1]:8080/',
+      'http://0.0.0.0:3001/',
+    ])('should reject the encoded private address %s', url => {
+      const result = validateURLForSSRF(url);
+      expect(result.valid).toBe(false);
+      expect(result.error).toBe('Cannot scrape private/local URLs');
+    });
   });
 
   describe('Valid Public URLs', () => {
@@ -315,3 +342,97 @@ describe('URL Validation - validateURLForSSRF()', () => {
     });
   });
 });
+
+describe('URL Validation - DNS resolution', () => {
+  const resolver = fakeResolver({
+    'tea.example': ['93.184.216.34'],
+    'rebind.example': ['10.0.0.5'],
+    'mixed.example': ['93.184.216.34', '192.168.1.10'],
+    'mapped.example': ['::ffff:127.0.0.1'],
+  });
+
+  it('should return the addresses of a public name', async () => {
+    await expect(resolvePublicAddresses('tea.example', resolver)).resolves.toEqual([{ address: '93.184.216.34', family: 4 }]);
+  });
+
+  it.each(['rebind.example', 'mixed.example', 'mapped.example'])(
+    'should reject %s, which resolves to a private address',
+    async hostname => {
+      const error = await resolvePublicAddresses(hostname, resolver).catch((e: unknown) => e);
+      expect(isBlockedRequestError(error)).toBe(true);
+      expect((error as Error).message).toContain('Cannot scrape private/local URLs');
+    }
+  );
+
+  it('should fail for names without addresses', async () => {
+    const error = await resolvePublicAddresses('missing.example', resolver).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(Error);
+    expect(isBlockedRequestError(error)).toBe(false);
+  });
+
+  // Calls the pinned lookup the way a socket does
+  const lookup = (hostname: string, all: boolean) =>
+    new Promise<{ error: Error | null; address: string | LookupAddress[]; family?: number }>(resolve => {
+      createPinnedLookup(resolver)(hostname, { all }, (error, address, family) => resolve({ error, address, family }));
+    });
+
+  it('should hand the checked address to the socket', async () => {
+    await expect(lookup('tea.example', false)).resolves.toEqual({ error: null, address: '93.184.216.34', family: 4 });
+  });
+
+  it('should refuse to connect to a name resolving to a private address', async () => {
+    const { error } = await lookup('rebind.example', true);
+    expect(isBlockedRequestError(error)).toBe(true);
+  });
+});
+
+describe('URL Validation - redirects', () => {
+  it('should resolve relative redirects against the current URL', () => {
+    expect(getRedirectTarget('https://tea.example/products/a', '/products/b')).toEqual({
+      valid: true,
+      url: 'https://tea.example/products/b',
+    });
+  });
+
+  it.each([
+    'http://192.168.1.1/admin',
+    'http://localhost:3001/api/teas',
+    'http://[::ffff:169.254.169.254]/latest/meta-data',
+    'http://2130706433/',
+  ])('should block a redirect to %s', location => {
+    const result = getRedirectTarget('https://tea.example/products/a', location);
+    expect(result.valid).toBe(false);
+    expect(result.error).toBe('Redirect blocked: Cannot scrape private/local URLs');
+  });
+
+  it('should block a redirect to another protocol', () => {
+    const result = getRedirectTarget('https://tea.example/', 'file:///etc/passwd');
+    expect(result.valid).toBe(false);
+    expect(result.error).toBe('Redirect blocked: Only HTTP/HTTPS URLs are allowed');
+  });
+
+  it('should block a redirect without a Location header', () => {
+    expect(getRedirectTarget('https://tea.example/', undefined).valid).toBe(false);
+  });
+});
+
+describe('URL Validation - fetchPublicPage()', () => {
+  it('should not connect to a public name that resolves to a private address', async () => {
+    const resolver = fakeResolver({ 'shop.example': ['127.0.0.1'] });
+
+    const error = await fetchPublicPage('http://shop.example:3001/api/teas', { headers: {}, resolve: resolver }).catch(
+      (e: unknown) => e
+    );
+    expect(isBlockedRequestError(error)).toBe(true);
+  });
+
+  it('should give up once the deadline passes, even while still connecting', async () => {
+    // A name that never resolves stands in for a server that stalls before answering
+    const stalledResolver: HostResolver = () => new Promise(() => undefined);
+
+    const error = await fetchPublicPage('http://shop.example/', { headers: {}, timeout: 50, resolve: stalledResolver }).catch(
+      (e: unknown) => e
+    );
+    expect(error).toEqual(new Error('Request timed out after 50 ms'));
+  });
+});
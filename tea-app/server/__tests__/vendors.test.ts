@@ -0,0 +1,258 @@
+/**
+ * Vendor Tests
+ *
+ * Tests for linking teas to vendors by their website's hostname, the /api/vendors routes
+ * and the summary shown on a vendor's page.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import request from 'supertest';
+import jwt from 'jsonwebtoken';
+import yaml from 'js-yaml';
+
+import { getVendorHostname, getVendorSummary } from '../../shared/vendors';
+import type { Purchase, Tea } from '../../shared/types';
+import { createApp } from '../app';
+import { createRepositories } from '../repositories';
+import type { StorageBackend } from '../repositories';
+import { linkTeaVendors } from '../vendors';
+
+const JWT_SECRET = 'test-secret';
+
+const createMockTea = (overrides?: Partial<Tea>): Tea => ({
+  id: '1',
+  name: 'Test Green Tea',
+  type: 'Green',
+  image: 'http://example.com/image.jpg',
+  steepTimes: [10, 15, 20],
+  caffeine: 'Low',
+  caffeineLevel: 'Low',
+  website: 'https://www.example.com/products/green',
+  temperatureCelsius: 79,
+  leafGrams: 5,
+  waterMl: null,
+  timesConsumed: 0,
+  lastConsumedDate: null,
+  ...overrides,
+});
+
+const createPurchase = (overrides?: Partial<Purchase>): Purchase => ({
+  id: 'p1',
+  teaId: '1',
+  vendor: '',
+  purchasedAt: 1700000000000,
+  grams: 100,
+  price: 20,
+  currency: 'USD',
+  ...overrides,
+});
+
+let tempDir: string;
+let token: string;
+
+beforeAll(() => {
+  process.env.ADMIN_USERNAME = 'admin';
+  process.env.ADMIN_PASSWORD_HASH = 'unused';
+  process.env.JWT_SECRET = JWT_SECRET;
+  token = jwt.sign({ username: 'admin' }, JWT_SECRET);
+});
+
+beforeEach(() => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tea-vendors-'));
+});
+
+afterEach(() => {
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe('getVendorHostname', () => {
+  it.each([
+    ['https://www.Teavivre.com/green-tea.html', 'teavivre.com'],
+    ['http://shop.example.co.uk/tea?id=1', 'shop.example.co.uk'],
+    ['', null],
+    ['not a url', null],
+    ['ftp://example.com/file', null],
+  ])('should read %j as %j', (url, hostname) => {
+    expect(getVendorHostname(url)).toBe(hostname);
+  });
+});
+
+describe('getVendorSummary', () => {
+  it('should average the rated teas and total the spend per currency', () => {
+    const teas = [createMockTea({ rating: 8 }), createMockTea({ id: '2', rating: 5 }), createMockTea({ id: '3', rating: null })];
+    const purchases = [
+      createPurchase(),
+      createPurchase({ id: 'p2', teaId: '2', price: 15 }),
+      createPurchase({ id: 'p3', teaId: '3', price: 12, currency: 'EUR' }),
+      createPurchase({ id: 'p4', teaId: 'other', price: 100 }),
+    ];
+
+    expect(getVendorSummary(teas, purchases)).toEqual({
+      teaCount: 3,
+      averageRating: 6.5,
+      totalSpend: [{ currency: 'USD', amount: 35 }, { currency: 'EUR', amount: 12 }],
+    });
+  });
+
+  it('should leave out the rating when no tea is rated', () => {
+    expect(getVendorSummary([createMockTea()], [])).toEqual({ teaCount: 1, averageRating: null, totalSpend: [] });
+  });
+});
+
+describe.each<StorageBackend>(['yaml', 'sqlite'])('Vendors (%s backend)', (backend) => {
+  const createTestRepositories = async (teas: Tea[] = []) => {
+    const dataFile = path.join(tempDir, 'teas.yaml');
+    fs.writeFileSync(dataFile, yaml.dump(teas));
+
+    return createRepositories({
+      backend,
+      dataFile,
+      sessionsFile: path.join(tempDir, 'sessions.yaml'),
+      purchasesFile: path.join(tempDir, 'purchases.yaml'),
+      vendorsFile: path.join(tempDir, 'vendors.yaml'),
+      tastingNotesFile: path.join(tempDir, 'tasting-notes.yaml'),
+      sqliteFile: path.join(tempDir, 'teas.db'),
+      backupDir: path.join(tempDir, 'backups'),
+      backupRetention: 0,
+      scrapeCacheDir: path.join(tempDir, 'scrape-cache'),
+      scrapeCacheTtlHours: 0,
+      imageDir: path.join(tempDir, 'images'),
+      downloadImages: false,
+    });
+  };
+
+  const postTea = (app: ReturnType<typeof createApp>, body: object) =>
+    request(app).post('/api/teas').set('Authorization', `Bearer ${token}`).send({
+      name: 'New Tea',
+      type: 'Green',
+      image: 'http://example.com/image.jpg',
+      steepTimes: [30],
+      ...body,
+    });
+
+  it('should link new teas from the same shop to one vendor', async () => {
+    const app = createApp(await createTestRepositories());
+
+    const [first, second] = await Promise.all([
+      postTea(app, { website: 'https://www.example.com/products/a' }),
+      postTea(app, { website: 'https://example.com/products/b' }),
+    ]);
+    const vendors = await request(app).get('/api/vendors').set('Authorization', `Bearer ${token}`);
+
+    expect(vendors.body).toEqual([
+      { id: expect.any(String), name: 'example.com', homepage: 'https://www.example.com/', country: '', notes: '' },
+    ]);
+    expect(first.body.vendorId).toBe(vendors.body[0].id);
+    expect(second.body.vendorId).toBe(vendors.body[0].id);
+  });
+
+  it('should name vendors with a scraper after the shop', async () => {
+    const app = createApp(await createTestRepositories());
+
+    const created = await postTea(app, { website: 'https://www.teavivre.com/green-tea.html' });
+    const vendor = await request(app).get(`/api/vendors/${created.body.vendorId}`).set('Authorization', `Bearer ${token}`);
+
+    expect(vendor.body.name).toBe('Teavivre');
+  });
+
+  it('should not link teas without a website', async () => {
+    const app = createApp(await createTestRepositories());
+
+    const created = await postTea(app, {});
+
+    expect(created.status).toBe(201);
+    expect(created.body).not.toHaveProperty('vendorId');
+  });
+
+  it('should relink a tea whose website changes, unless a vendor is given', async () => {
+    const repositories = await createTestRepositories([createMockTea({ vendorId: 'old' })]);
+    const app = createApp(repositories);
+
+    const unchanged = await request(app)
+      .patch('/api/teas/1')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ website: 'https://www.example.com/products/green', name: 'Renamed' });
+    const moved = await request(app)
+      .patch('/api/teas/1')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ website: 'https://white2tea.com/products/2020-bosch' });
+    const cleared = await request(app)
+      .patch('/api/teas/1')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ website: '' });
+
+    expect(unchanged.body.vendorId).toBe('old');
+    expect((await repositories.vendors.get(moved.body.vendorId))?.name).toBe('white2tea');
+    expect(cleared.body).not.toHaveProperty('vendorId');
+  });
+
+  it('should not create a vendor when the tea fails to save', async () => {
+    const repositories = await createTestRepositories([createMockTea()]);
+    const failingTeas = { ...repositories.teas, update: async () => { throw new Error('Disk full'); } };
+    const app = createApp({ ...repositories, teas: failingTeas });
+
+    const response = await request(app)
+      .patch('/api/teas/1')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ website: 'https://white2tea.com/products/2020-bosch' });
+
+    expect(response.status).toBe(500);
+    expect(await repositories.vendors.list()).toEqual([]);
+  });
+
+  it('should reject an unknown vendor', async () => {
+    const app = createApp(await createTestRepositories([createMockTea()]));
+
+    const response = await request(app).patch('/api/teas/1').set('Authorization', `Bearer ${token}`).send({ vendorId: 'missing' });
+
+    expect(response.status).toBe(404);
+    expect(response.body.error).toBe('Vendor not found');
+  });
+
+  it('should update a vendor\'s details and reject unknown fields', async () => {
+    const app = createApp(await createTestRepositories());
+    const created = await request(app).post('/api/vendors').set('Authorization', `Bearer ${token}`).send({ name: 'Leaf & Kettle' });
+
+    const updated = await request(app)
+      .patch(`/api/vendors/${created.body.id}`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ country: 'Taiwan', notes: 'Fast shipping' });
+    const rejected = await request(app)
+      .patch(`/api/vendors/${created.body.id}`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ id: 'other' });
+
+    expect(created.status).toBe(201);
+    expect(updated.body).toMatchObject({ name: 'Leaf & Kettle', homepage: '', country: 'Taiwan', notes: 'Fast shipping' });
+    expect(rejected.status).toBe(400);
+  });
+
+  it('should only delete vendors without teas', async () => {
+    const app = createApp(await createTestRepositories());
+    const tea = await postTea(app, { website: 'https://example.com/products/a' });
+
+    const refused = await request(app).delete(`/api/vendors/${tea.body.vendorId}`).set('Authorization', `Bearer ${token}`);
+    await request(app).delete(`/api/teas/${tea.body.id}`).set('Authorization', `Bearer ${token}`);
+    const deleted = await request(app).delete(`/api/vendors/${tea.body.vendorId}`).set('Authorization', `Bearer ${token}`);
+
+    expect(refused.status).toBe(409);
+    expect(deleted.status).toBe(204);
+  });
+
+  it('should link teas saved before vendors existed', async () => {
+    const repositories = await createTestRepositories([
+      createMockTea(),
+      createMockTea({ id: '2', website: 'https://example.com/products/oolong' }),
+      createMockTea({ id: '3', website: '' }),
+    ]);
+
+    expect(await linkTeaVendors(repositories)).toBe(2);
+    expect(await linkTeaVendors(repositories)).toBe(0);
+
+    const teas = await repositories.teas.list();
+    const [vendor] = await repositories.vendors.list();
+    expect(teas.map(tea => tea.vendorId)).toEqual([vendor.id, vendor.id, undefined]);
+  });
+});
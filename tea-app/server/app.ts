@@ -0,0 +1,470 @@
+import { randomUUID } from 'crypto';
+import path from 'path';
+
+import cors from 'cors';
+import express from 'express';
+import yaml from 'js-yaml';
+import { z } from 'zod';
+
+// Import logger and shared types
+import logger from './logger';
+import { TeaSchema, CreateTeaSchema, UpdateTeaSchema, BrewSessionSchema, CreateBrewSessionSchema, ConsumeTeaSchema } from '../shared/types';
+import type { Tea } from '../shared/types';
+import { login, requireAuth } from './auth';
+import { restoreTeas, syncConsumption } from './consumption';
+import { mirrorPrimaryProfile, updatePrimaryProfile } from '../shared/brewing';
+import { isValidBackupId } from './repositories';
+import type { Repositories } from './repositories';
+import { createSessionsRouter } from './routes/sessions';
+import { createPurchasesRouter } from './routes/purchases';
+import { createVendorsRouter } from './routes/vendors';
+import { createTagsRouter } from './routes/tags';
+import { createTastingNotesRouter } from './routes/tastingNotes';
+import { createImportRouter } from './routes/imports';
+import { createResyncRouter } from './routes/resync';
+import { createImagesRouter } from './routes/images';
+import { normalizeTeaType } from './teaType';
+import { storeTeaImage, withTeaImage } from './images';
+import { linkVendor, withVendorId, writeWithVendor } from './vendors';
+
+// Responds with 400 for tea data that failed schema validation
+const handleTeaValidationError = (res: express.Response, id: string, validationError: unknown): void => {
+  if (validationError instanceof z.ZodError) {
+    logger.warn(`Tea validation failed - id: ${id} - ${JSON.stringify(validationError.issues)}`);
+    res.status(400).json({ error: 'Invalid tea data', details: validationError.issues });
+  } else {
+    logger.error(`Tea validation failed - id: ${id} - ${validationError instanceof Error ? validationError.message : String(validationError)}`);
+    res.status(400).json({ error: 'Failed to validate tea data', details: validationError instanceof Error ? validationError.message : 'Unknown validation error' });
+  }
+};
+
+// Builds the Express app. All persistence goes through the given repositories,
+// so the same routes run against the YAML file or the SQLite database.
+export const createApp = (repositories: Repositories): express.Express => {
+  const app = express();
+
+  // Configure CORS with whitelisted origins
+  const allowedOrigins = process.env.ALLOWED_ORIGINS?.split(',').map(origin => origin.trim()) || ['http://localhost:5173'];
+  logger.info(`allowedOrigins: ${allowedOrigins}`)
+
+  app.use(cors({
+    origin: allowedOrigins,
+    credentials: true,
+    methods: ['GET', 'POST', 'DELETE', 'PATCH', 'PUT', 'OPTIONS'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'authorization']
+  }));
+  app.use(express.json());
+
+  // HTTP request logging middleware
+  app.use((req, res, next) => {
+    const startTime = Date.now();
+    const slowRequestThreshold = parseInt(process.env.SLOW_REQUEST_MS || '1000', 10);
+    let logged = false;
+
+    const logRequest = () => {
+      if (logged) return; // Prevent duplicate logs
+      logged = true;
+
+      const duration = Date.now() - startTime;
+      const logMessage = `${req.method} ${req.originalUrl} ${res.statusCode} ${duration}ms`;
+
+      try {
+        if (duration > slowRequestThreshold) {
+          logger.warn(`${logMessage} (slow request)`);
+        } else {
+          logger.info(logMessage);
+        }
+      } catch (logError) {
+        logger.error('Failed to write log entry', logError instanceof Error ? logError : new Error(String(logError)));
+      }
+    };
+
+    res.on('finish', logRequest);
+    res.on('close', logRequest);
+
+    next();
+  });
+
+  // Debug logging middleware - DETAILED
+  app.use((req, res, next) => {
+    logger.debug(`Incoming request: ${req.method} ${req.path}`, {
+      originalUrl: req.originalUrl,
+      params: req.params,
+      body: req.body
+    });
+    next();
+  });
+
+  // Auth routes (must be before requireAuth middleware)
+  app.post('/api/auth/login', login);
+  // Serves images without a token; uploads check it themselves
+  app.use('/api/images', createImagesRouter(repositories));
+
+  // Protect all other API routes
+  app.use('/api', requireAuth);
+
+  app.use('/api/teas/import', createImportRouter(repositories));
+  app.use('/api/teas', createResyncRouter(repositories));
+
+  app.get('/api/teas', async (req, res) => {
+    try {
+      const teas = await repositories.teas.list();
+      logger.info(`Retrieved ${teas.length} teas from collection`);
+      res.json(teas);
+    } catch (error) {
+      logger.error(`Failed to read tea collection - ${error instanceof Error ? error.message : String(error)}`);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      res.status(500).json({ error: 'Failed to read tea collection', details: errorMessage });
+    }
+  });
+
+  app.post('/api/teas', async (req, res) => {
+    try {
+      // Validate request body first
+      if (!req.body) {
+        res.status(400).json({ error: 'Request body is required' });
+        return;
+      }
+
+      // Normalize tea type before validation
+      const normalizedData = {
+        ...req.body,
+        type: normalizeTeaType(req.body.type)
+      };
+
+      // Validate request body
+      let newTeaData;
+      try {
+        const createTeaData = CreateTeaSchema.parse(normalizedData);
+        // Add required fields with their defaults
+        newTeaData = mirrorPrimaryProfile({
+          ...createTeaData,
+          timesConsumed: createTeaData.timesConsumed ?? 0,
+          lastConsumedDate: createTeaData.lastConsumedDate ?? null
+        });
+      } catch (validationError) {
+        if (validationError instanceof z.ZodError) {
+          logger.warn(`Tea validation failed - Tea data validation failed: ${JSON.stringify(validationError.issues)}`);
+          res.status(400).json({ error: 'Invalid tea data', details: validationError.issues });
+        } else {
+          logger.error(`Tea validation failed - ${validationError instanceof Error ? validationError.message : String(validationError)}`);
+          res.status(400).json({ error: 'Failed to validate tea data', details: validationError instanceof Error ? validationError.message : 'Unknown validation error' });
+        }
+        return;
+      }
+
+      if (newTeaData.vendorId !== undefined && !(await repositories.vendors.get(newTeaData.vendorId))) {
+        res.status(404).json({ error: 'Vendor not found' });
+        return;
+      }
+
+      const newTea: Tea = withTeaImage(
+        withVendorId(
+          { ...newTeaData, id: Date.now().toString() },
+          newTeaData.vendorId ?? await linkVendor(repositories, newTeaData.website)
+        ),
+        await storeTeaImage(repositories.images, newTeaData.image)
+      );
+
+      try {
+        await repositories.teas.create(newTea);
+        logger.info(`Tea created - id: ${newTea.id}, name: "${newTea.name}"`);
+        res.status(201).json(newTea);
+      } catch (writeError) {
+        logger.error(`Failed to save tea collection - ${writeError instanceof Error ? writeError.message : String(writeError)}`);
+        res.status(500).json({ error: 'Failed to save tea', details: writeError instanceof Error ? writeError.message : 'Unknown error' });
+      }
+    } catch (error) {
+      logger.error(`Unexpected error in POST /api/teas: ${error instanceof Error ? error.message : String(error)}`);
+      res.status(500).json({ error: 'An unexpected error occurred while saving tea', details: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  app.get('/api/teas/export', async (req, res) => {
+    try {
+      const teas = await repositories.teas.list();
+
+      res.setHeader('Content-Type', 'text/yaml');
+      res.setHeader('Content-Disposition', 'attachment; filename=teas.yaml');
+      res.send(yaml.dump(teas));
+      logger.info(`Exported ${teas.length} teas as teas.yaml`);
+    } catch (error) {
+      logger.error(`Export failed - ${error instanceof Error ? error.message : String(error)}`);
+      res.status(500).json({ error: 'Failed to export tea data' });
+    }
+  });
+
+  app.get('/api/backups', async (req, res) => {
+    try {
+      const backups = await repositories.backups.list();
+      res.json(backups);
+    } catch (error) {
+      logger.error(`Failed to list backups - ${error instanceof Error ? error.message : String(error)}`);
+      res.status(500).json({ error: 'Failed to list backups', details: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  app.post('/api/backups/:id/restore', async (req, res) => {
+    try {
+      const { id } = req.params;
+
+      if (!isValidBackupId(id)) {
+        res.status(400).json({ error: 'Invalid backup ID' });
+        return;
+      }
+
+      let teas;
+      try {
+        teas = await repositories.backups.read(id);
+      } catch (readError) {
+        logger.error(`Restore failed - backup ${id} is unreadable: ${readError instanceof Error ? readError.message : String(readError)}`);
+        res.status(422).json({ error: 'Backup file is invalid', details: readError instanceof Error ? readError.message : 'Unknown error' });
+        return;
+      }
+
+      if (!teas) {
+        logger.warn(`Restore failed - backup not found: id ${id}`);
+        res.status(404).json({ error: 'Backup not found' });
+        return;
+      }
+
+      // The current collection is itself snapshotted before being replaced, so a restore can be undone
+      const restored = await restoreTeas(repositories, teas);
+      logger.info(`Restored backup ${id} (${restored.length} teas)`);
+      res.json(restored);
+    } catch (error) {
+      logger.error(`Unexpected error in POST /api/backups/:id/restore: ${error instanceof Error ? error.message : String(error)}`);
+      res.status(500).json({ error: 'An unexpected error occurred while restoring backup', details: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  app.use('/api/sessions', createSessionsRouter(repositories));
+  app.use('/api/purchases', createPurchasesRouter(repositories));
+  app.use('/api/vendors', createVendorsRouter(repositories));
+  app.use('/api/tags', createTagsRouter(repositories));
+  app.use('/api/tasting-notes', createTastingNotesRouter(repositories));
+
+  app.delete('/api/teas/:id', async (req, res) => {
+    try {
+      const teaId = req.params.id;
+
+      if (!teaId) {
+        res.status(400).json({ error: 'Tea ID is required' });
+        return;
+      }
+
+      let deleted;
+      try {
+        deleted = await repositories.teas.delete(teaId);
+      } catch (writeError) {
+        logger.error(`Failed to delete tea - ${writeError instanceof Error ? writeError.message : String(writeError)}`);
+        res.status(500).json({ error: 'Failed to delete tea', details: writeError instanceof Error ? writeError.message : 'Unknown error' });
+        return;
+      }
+
+      if (!deleted) {
+        logger.warn(`Delete failed - tea not found: id ${teaId}`);
+        res.status(404).json({ error: 'Tea not found' });
+        return;
+      }
+
+      logger.info(`Tea deleted - id: ${teaId}`);
+      res.status(204).send();
+    } catch (error) {
+      logger.error(`Unexpected error in DELETE /api/teas/:id: ${error instanceof Error ? error.message : String(error)}`);
+      res.status(500).json({ error: 'An unexpected error occurred while deleting tea', details: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  // Simple PATCH test route
+  app.patch('/api/test-patch', (req, res) => {
+    logger.debug('TEST PATCH route hit');
+    res.json({ message: 'PATCH works', body: req.body });
+  });
+
+  app.patch('/api/teas/:id', async (req, res) => {
+    try {
+      const { id } = req.params;
+
+      if (!id) {
+        res.status(400).json({ error: 'Tea ID is required' });
+        return;
+      }
+
+      if (!req.body || Object.keys(req.body).length === 0) {
+        res.status(400).json({ error: 'Request body is required with at least one field to update' });
+        return;
+      }
+
+      // Validate rating if provided
+      if ('rating' in req.body) {
+        const rating = req.body.rating;
+        if (rating !== null && rating !== undefined) {
+          if (typeof rating !== 'number') {
+            res.status(400).json({ error: 'Invalid rating value', details: 'Rating must be a number or null' });
+            return;
+          }
+          if (rating < 1 || rating > 10) {
+            res.status(400).json({ error: 'Invalid rating value', details: 'Rating must be between 1 and 10' });
+            return;
+          }
+        }
+      }
+
+      // Normalize tea type before validation (only when it is being changed)
+      const normalizedUpdates = 'type' in req.body && typeof req.body.type === 'string'
+        ? { ...req.body, type: normalizeTeaType(req.body.type) }
+        : req.body;
+
+      let updates;
+      try {
+        updates = UpdateTeaSchema.parse(normalizedUpdates);
+      } catch (validationError) {
+        handleTeaValidationError(res, id, validationError);
+        return;
+      }
+
+      if (updates.vendorId !== undefined && !(await repositories.vendors.get(updates.vendorId))) {
+        res.status(404).json({ error: 'Vendor not found' });
+        return;
+      }
+
+      // A new image URL is downloaded before the tea is locked for the update
+      const currentTea = updates.image !== undefined || updates.website !== undefined ? await repositories.teas.get(id) : undefined;
+      const image = currentTea && updates.image !== undefined && updates.image !== currentTea.image
+        ? await storeTeaImage(repositories.images, updates.image)
+        : undefined;
+      // An explicitly chosen vendor wins over the one the website points at
+      const relinkVendor = currentTea !== undefined && updates.website !== undefined
+        && updates.website !== currentTea.website && updates.vendorId === undefined;
+
+      // Validate the updated tea against schema; keep the top-level brewing fields and the first brewing profile in step
+      const writeTea = (vendorId?: string) => repositories.teas.update(id, existingTea => {
+        const linkedTea = relinkVendor ? withVendorId({ ...existingTea, ...updates }, vendorId) : { ...existingTea, ...updates };
+        const updatedTea = image ? withTeaImage(linkedTea, image) : linkedTea;
+        return TeaSchema.parse(
+          updates.brewingProfiles !== undefined ? mirrorPrimaryProfile(updatedTea) : updatePrimaryProfile(updatedTea)
+        );
+      });
+
+      let validatedTea;
+      try {
+        // The vendor of a new website is only created once the tea is saved
+        validatedTea = relinkVendor ? await writeWithVendor(repositories, updates.website ?? '', writeTea) : await writeTea();
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          handleTeaValidationError(res, id, error);
+        } else {
+          logger.error(`Failed to save tea collection - ${error instanceof Error ? error.message : String(error)}`);
+          res.status(500).json({ error: 'Failed to save tea', details: error instanceof Error ? error.message : 'Unknown error' });
+        }
+        return;
+      }
+
+      if (!validatedTea) {
+        logger.warn(`Attempted to update non-existent tea with ID: ${id}`);
+        res.status(404).json({ error: 'Tea not found' });
+        return;
+      }
+
+      logger.info(`Tea updated - id: ${id}, name: "${validatedTea.name}"`);
+      res.status(200).json(validatedTea);
+    } catch (error) {
+      logger.error(`Unexpected error in PATCH /api/teas/:id: ${error instanceof Error ? error.message : String(error)}`);
+      res.status(500).json({ error: 'An unexpected error occurred while updating tea', details: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  app.put('/api/teas/:id/lastConsumed', async (req, res) => {
+    try {
+      const { id } = req.params;
+
+      if (!id) {
+        res.status(400).json({ error: 'Tea ID is required' });
+        return;
+      }
+
+      let sessionDetails;
+      try {
+        sessionDetails = ConsumeTeaSchema.parse(req.body ?? {});
+      } catch (validationError) {
+        handleTeaValidationError(res, id, validationError);
+        return;
+      }
+
+      const existingTea = await repositories.teas.get(id);
+      if (!existingTea) {
+        logger.warn(`Consumption failed - tea not found: id ${id}`);
+        res.status(404).json({ error: 'Tea not found' });
+        return;
+      }
+
+      // Without grams entered at session end, assume the tea's usual leaf weight was used
+      const gramsUsed = sessionDetails.gramsUsed ?? existingTea.leafGrams;
+      const endedAt = Date.now();
+
+      // Every consumption is logged as an ended brewing session, which the tea's count is derived from
+      let session;
+      try {
+        session = BrewSessionSchema.parse({
+          ...CreateBrewSessionSchema.parse({ ...sessionDetails, teaId: id, startedAt: sessionDetails.startedAt ?? endedAt, endedAt, gramsUsed }),
+          id: randomUUID()
+        });
+      } catch (validationError) {
+        handleTeaValidationError(res, id, validationError);
+        return;
+      }
+      await repositories.sessions.create(session);
+
+      let validatedTea;
+      try {
+        validatedTea = await syncConsumption(repositories, id, gramsUsed ?? 0);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          handleTeaValidationError(res, id, error);
+        } else {
+          logger.error(`Failed to save tea collection - ${error instanceof Error ? error.message : String(error)}`);
+          res.status(500).json({ error: 'Failed to save tea', details: error instanceof Error ? error.message : 'Unknown error' });
+        }
+        return;
+      }
+
+      if (!validatedTea) {
+        logger.warn(`Consumption failed - tea not found: id ${id}`);
+        res.status(404).json({ error: 'Tea not found' });
+        return;
+      }
+
+      logger.info(`Tea consumed - id: ${id} (count: ${validatedTea.timesConsumed}, stock: ${validatedTea.stockGrams ?? 'untracked'})`);
+      res.status(200).json(validatedTea);
+    } catch (error) {
+      logger.error(`Unexpected error in PUT /api/teas/:id/lastConsumed: ${error instanceof Error ? error.message : String(error)}`);
+      res.status(500).json({ error: 'An unexpected error occurred while updating tea consumption', details: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  // Serve static files from React build (for production)
+  if (process.env.NODE_ENV === 'production') {
+    const distPath = path.join(process.cwd(), 'dist');
+    app.use(express.static(distPath));
+
+    // React Router - serve index.html for all non-API routes
+    // Using app.use instead of app.get('*') for Express 5 compatibility
+    app.use((req, res) => {
+      res.sendFile(path.join(distPath, 'index.html'));
+    });
+  }
+
+  // Catch-all route for debugging unmatched requests (Express 5 syntax)
+  // Temporarily disabled due to path-to-regexp compatibility issue
+  // app.use('/api/{*splat}', (req, _res, next) => {
+  //   console.log('[DEBUG] !!! UNMATCHED ROUTE !!!');
+  //   console.log(`  Method: ${req.method}`);
+  //   console.log(`  Path: ${req.path}`);
+  //   console.log(`  URL: ${req.url}`);
+  //   console.log('  This request did NOT match any registered route.');
+  //   next();
+  // });
+
+  return app;
+};
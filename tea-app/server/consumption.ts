@@ -0,0 +1,97 @@
+import { TeaSchema } from '../shared/types';
+import type { BrewSession, Tea } from '../shared/types';
+import { deductStock } from '../shared/inventory';
+import { createMutex } from './repositories/mutex';
+import type { BrewSessionRepository, Repositories, TeaRepository } from './repositories';
+
+// timesConsumed and lastConsumedDate on a tea are derived from its ended brewing sessions, plus the
+// consumption recorded before the session log existed (consumedBeforeSessions). They are stored on
+// the tea so reads stay cheap, and derived again after every change to the tea's sessions.
+// The grams used by a session come out of the tea's stock, which is not derived: it is also set by hand.
+
+const endTimesOf = (teaId: string, sessions: BrewSession[]): number[] =>
+  sessions.filter(session => session.teaId === teaId && session.endedAt !== null).map(session => session.endedAt as number);
+
+// A tea seen for the first time keeps the part of its stored count that its sessions do not account for
+const withConsumptionBaseline = (tea: Tea, sessions: BrewSession[]): Tea => {
+  if (tea.consumedBeforeSessions) {
+    return tea;
+  }
+  const count = Math.max(0, tea.timesConsumed - endTimesOf(tea.id, sessions).length);
+  return { ...tea, consumedBeforeSessions: { count, lastConsumedDate: count > 0 ? tea.lastConsumedDate : null } };
+};
+
+// The tea with timesConsumed and lastConsumedDate derived from the session log
+export const deriveConsumption = (tea: Tea, sessions: BrewSession[]): Tea => {
+  const withBaseline = withConsumptionBaseline(tea, sessions);
+  const before = withBaseline.consumedBeforeSessions ?? { count: 0, lastConsumedDate: null };
+  const endTimes = endTimesOf(tea.id, sessions);
+  const dates = before.lastConsumedDate === null ? endTimes : [...endTimes, before.lastConsumedDate];
+  return {
+    ...withBaseline,
+    timesConsumed: before.count + endTimes.length,
+    lastConsumedDate: dates.length > 0 ? Math.max(...dates) : null
+  };
+};
+
+// Teas without a tracked stock are returned unchanged
+const withStockDeducted = (tea: Tea, grams: number): Tea =>
+  tea.stockGrams === null || tea.stockGrams === undefined
+    ? tea
+    : { ...tea, stockGrams: deductStock(tea.stockGrams, grams) };
+
+// Syncs run one at a time, each reading the session log after the change that queued it,
+// so the last one always writes what the latest log says
+const syncMutex = createMutex();
+
+// Call after the tea's sessions changed. Derives its consumption again and takes stockGramsUsed
+// out of its stock (a negative amount puts it back) in the same write.
+// Resolves to undefined if the tea does not exist.
+export const syncConsumption = (
+  repositories: Repositories,
+  teaId: string,
+  stockGramsUsed = 0
+): Promise<Tea | undefined> =>
+  syncMutex.runExclusive(async () => {
+    const sessions = await repositories.sessions.list();
+    return repositories.teas.update(teaId, tea =>
+      TeaSchema.parse(deriveConsumption(withStockDeducted(tea, stockGramsUsed), sessions)));
+  });
+
+// Replaces the collection with a backup's teas. Backups hold no session log, so each tea's
+// consumption is derived again from the current one. Resolves to the teas as written.
+export const restoreTeas = (repositories: Repositories, teas: Tea[]): Promise<Tea[]> =>
+  syncMutex.runExclusive(async () => {
+    const sessions = await repositories.sessions.list();
+    const restored = teas.map(tea => TeaSchema.parse(deriveConsumption(tea, sessions)));
+    await repositories.teas.replaceAll(restored);
+    return restored;
+  });
+
+// The stock a change to a session uses up: an ended session uses its grams, an open one none
+export const getStockGramsUsed = (previous: BrewSession | null, updated: BrewSession | null): number => {
+  const gramsOf = (session: BrewSession | null) =>
+    session !== null && session.endedAt !== null ? session.gramsUsed ?? 0 : 0;
+  return gramsOf(updated) - gramsOf(previous);
+};
+
+// Startup migration: records the consumption baseline of teas that have none yet, in one write.
+// Resolves to the number of teas migrated.
+export const migrateConsumptionBaselines = async (
+  teas: TeaRepository,
+  sessions: BrewSessionRepository
+): Promise<number> => {
+  if ((await teas.list()).every(tea => tea.consumedBeforeSessions)) {
+    return 0;
+  }
+  const sessionLog = await sessions.list();
+  let count = 0;
+  await teas.updateAll(current => current.map(tea => {
+    if (tea.consumedBeforeSessions) {
+      return tea;
+    }
+    count++;
+    return TeaSchema.parse(deriveConsumption(tea, sessionLog));
+  }));
+  return count;
+};
@@ -0,0 +1,63 @@
+import logger from './logger';
+import { getImageUrl } from '../shared/images';
+import type { ImageFetcher, ImageStore } from './repositories';
+import { DEFAULT_FETCH_LIMITS } from './scrapers';
+import { fetchPublicFile, validateURLForSSRF } from './ssrf';
+
+// Downloading vendor images into the image store, so teas keep their pictures when a vendor
+// moves them and the app works without reaching the vendors' CDNs
+
+export const IMAGE_MAX_BYTES = parseInt(process.env.IMAGE_MAX_BYTES || String(10 * 1024 * 1024), 10);
+
+const IMAGE_REQUEST_HEADERS: Record<string, string> = {
+  'User-Agent': 'Mozilla/5.0 (compatible; TeaTimer/1.0)',
+  'Accept': 'image/avif,image/webp,image/*,*/*;q=0.8'
+};
+
+// A tea's image, plus the URL it was downloaded from when it is a stored copy
+export interface TeaImageFields {
+  image: string;
+  imageSourceUrl?: string;
+}
+
+// Downloads a vendor image with the same SSRF checks and time limit as product pages
+export const fetchRemoteImage: ImageFetcher = async (url) => {
+  const validation = validateURLForSSRF(url);
+  if (!validation.valid) {
+    throw new Error(validation.error ?? 'Invalid URL');
+  }
+
+  const file = await fetchPublicFile(url, {
+    headers: IMAGE_REQUEST_HEADERS,
+    timeout: DEFAULT_FETCH_LIMITS.timeoutMs,
+    maxBytes: IMAGE_MAX_BYTES
+  });
+  return file.data;
+};
+
+// The image fields for a tea whose image is being set. An http(s) URL is downloaded and replaced by
+// the stored copy; if that fails the URL is kept, so a slow or broken CDN never blocks saving a tea.
+export const storeTeaImage = async (images: ImageStore, image: string): Promise<TeaImageFields> => {
+  if (!images.downloadsEnabled || !/^https?:\/\//i.test(image.trim())) {
+    return { image };
+  }
+
+  try {
+    const id = await images.download(image.trim());
+    logger.info(`Stored image ${id} from ${image}`);
+    return { image: getImageUrl(id), imageSourceUrl: image.trim() };
+  } catch (error) {
+    logger.warn(`Could not download image ${image}, keeping the URL - ${error instanceof Error ? error.message : String(error)}`);
+    return { image };
+  }
+};
+
+// The tea with its image fields replaced; the old source URL goes with the old image
+export const withTeaImage = <T extends { image: string; imageSourceUrl?: string | undefined }>(
+  tea: T,
+  { image, imageSourceUrl }: TeaImageFields
+): T => {
+  const updated = { ...tea, image };
+  delete updated.imageSourceUrl;
+  return imageSourceUrl === undefined ? updated : { ...updated, imageSourceUrl };
+};
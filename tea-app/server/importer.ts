@@ -0,0 +1,104 @@
+import logger from './logger';
+import type { Repositories } from './repositories';
+import {
+  createStageTimer,
+  fetchProductPage,
+  formatTimings,
+  getRequestHeaders,
+  isUnsupportedPageError,
+  scrapeTeaPage,
+  scraperRegistry
+} from './scrapers';
+import type { ScrapedTea } from './scrapers';
+import { isBlockedRequestError, validateURLForSSRF } from './ssrf';
+import { normalizeTeaType } from './teaType';
+
+// Runs the import scraper for the URL import routes and re-syncing teas from their websites
+
+// Batch jobs scrape this many pages at once, so a long list neither takes minutes
+// nor piles every page into the Pi's memory at the same time
+export const BATCH_IMPORT_CONCURRENCY = 3;
+
+export type ImportedTeaData = ScrapedTea & { website: string; fetchedAt: number; fromCache: boolean };
+
+// Outcome of importing one URL. Failures carry the status the single import answers with.
+export type ImportOutcome =
+  | { ok: true; tea: ImportedTeaData; timings: Record<string, number> }
+  | { ok: false; status: number; error: string; details?: string; timings: Record<string, number> };
+
+// Scrapes one product URL, from the scrape cache unless `force` is set
+export const importTea = async (repositories: Repositories, url: string, force: boolean): Promise<ImportOutcome> => {
+  const timer = createStageTimer();
+
+  // Validate URL for SSRF attacks
+  const urlValidation = validateURLForSSRF(url);
+  if (!urlValidation.valid) {
+    logger.warn(`Scraping failed - ${url}: SSRF validation failed - ${urlValidation.error}`);
+    return { ok: false, status: 400, error: urlValidation.error ?? 'Invalid URL', timings: {} };
+  }
+
+  try {
+    const adapter = scraperRegistry.getAdapter(url);
+    const cachedPage = force ? undefined : await timer.measure('cache', () => repositories.scrapeCache.get(url));
+    const page = cachedPage ?? await timer.measure('fetch', () => fetchProductPage(url, getRequestHeaders(adapter)));
+    if (!cachedPage) {
+      await repositories.scrapeCache.set(url, page);
+    }
+
+    const scraped = scrapeTeaPage(adapter, page.html, page.url, timer);
+    const { name } = scraped;
+    const timings = timer.getTimings();
+
+    if (!name || name === 'Error') {
+      logger.warn(`Scraping failed - ${url}: Scraping returned no valid name (${formatTimings(timings)})`);
+      return { ok: false, status: 400, error: 'Could not extract tea information. Please try entering it manually.', timings };
+    }
+
+    logger.info(`Successfully scraped tea data from ${url} with the ${adapter.name} adapter${cachedPage ? ' (cached page)' : ''}: ${name} (${formatTimings(timings)})`);
+    return {
+      ok: true,
+      tea: {
+        ...scraped,
+        type: normalizeTeaType(scraped.type),
+        website: url,
+        fetchedAt: page.fetchedAt,
+        fromCache: cachedPage !== undefined
+      },
+      timings
+    };
+  } catch (error) {
+    const timings = timer.getTimings();
+    if (isBlockedRequestError(error)) {
+      logger.warn(`Scraping failed - ${url}: SSRF validation failed - ${error.message}`);
+      return { ok: false, status: 400, error: error.message, timings };
+    }
+    if (isUnsupportedPageError(error)) {
+      logger.warn(`Scraping failed - ${url}: ${error.message}`);
+      return { ok: false, status: 400, error: error.message, timings };
+    }
+    logger.error(`Scraping failed - ${url}: ${error instanceof Error ? error.message : String(error)} (${formatTimings(timings)})`);
+    return {
+      ok: false,
+      status: 500,
+      error: 'Failed to scrape URL',
+      details: error instanceof Error ? error.message : 'Unknown error',
+      timings
+    };
+  }
+};
+
+// Runs `task` for every item with at most `limit` running at once
+export const forEachWithConcurrency = async <T>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<void>
+): Promise<void> => {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      await task(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+};
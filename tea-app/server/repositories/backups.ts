@@ -0,0 +1,116 @@
+import fs from 'fs';
+import path from 'path';
+
+import yaml from 'js-yaml';
+import { z } from 'zod';
+
+import logger from '../logger';
+import { TeaSchema } from '../../shared/types';
+import type { Backup, Tea } from '../../shared/types';
+import { migrateLegacyTeas } from './migrations';
+
+// Snapshot ids are UTC timestamps, e.g. 20260118T093012345Z (with a -N suffix on collisions)
+const BACKUP_ID_PATTERN = /^\d{8}T\d{9}Z(-\d+)?$/;
+const BACKUP_PREFIX = 'teas-';
+const BACKUP_EXTENSION = '.yaml';
+
+export interface BackupStore {
+  // Writes a snapshot of the collection as it is right before a write. Never throws:
+  // a failed backup is logged but must not block the write it protects.
+  snapshot(teas: Tea[]): void;
+  list(): Promise<Backup[]>;
+  // Resolves to undefined if the snapshot does not exist
+  read(id: string): Promise<Tea[] | undefined>;
+}
+
+export const isValidBackupId = (id: string): boolean => BACKUP_ID_PATTERN.test(id);
+
+const formatBackupId = (date: Date): string =>
+  date.toISOString().replace(/[-:]/g, '').replace('.', '');
+
+const parseBackupDate = (id: string): number => {
+  const match = id.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(\d{3})Z/);
+  if (!match) return 0;
+  const [, year, month, day, hour, minute, second, ms] = match;
+  return Date.UTC(+year, +month - 1, +day, +hour, +minute, +second, +ms);
+};
+
+// Keeps at most `retention` snapshots in `backupDir`; retention 0 disables backups.
+export const createBackupStore = (backupDir: string, retention: number): BackupStore => {
+  const backupPath = (id: string) => path.join(backupDir, `${BACKUP_PREFIX}${id}${BACKUP_EXTENSION}`);
+
+  // Newest first
+  const listIds = (): string[] => {
+    if (!fs.existsSync(backupDir)) {
+      return [];
+    }
+    return fs.readdirSync(backupDir)
+      .filter(file => file.startsWith(BACKUP_PREFIX) && file.endsWith(BACKUP_EXTENSION))
+      .map(file => file.slice(BACKUP_PREFIX.length, -BACKUP_EXTENSION.length))
+      .filter(isValidBackupId)
+      .sort((a, b) => b.localeCompare(a, 'en', { numeric: true }));
+  };
+
+  const prune = () => {
+    listIds().slice(retention).forEach(id => {
+      fs.rmSync(backupPath(id), { force: true });
+      logger.debug(`Pruned backup ${id}`);
+    });
+  };
+
+  return {
+    snapshot: (teas) => {
+      // An empty collection has nothing worth restoring
+      if (retention <= 0 || teas.length === 0) {
+        return;
+      }
+
+      try {
+        const contents = yaml.dump(teas);
+
+        // Skip if nothing changed since the latest snapshot
+        const [latestId] = listIds();
+        if (latestId && fs.readFileSync(backupPath(latestId), 'utf8') === contents) {
+          return;
+        }
+
+        if (!fs.existsSync(backupDir)) {
+          fs.mkdirSync(backupDir, { recursive: true });
+        }
+
+        const baseId = formatBackupId(new Date());
+        let id = baseId;
+        for (let suffix = 1; fs.existsSync(backupPath(id)); suffix++) {
+          id = `${baseId}-${suffix}`;
+        }
+
+        fs.writeFileSync(backupPath(id), contents, 'utf8');
+        logger.debug(`Created backup ${id} (${teas.length} teas)`);
+        prune();
+      } catch (error) {
+        logger.error(`Failed to create backup - ${error instanceof Error ? error.message : String(error)}`);
+      }
+    },
+
+    list: async () => listIds().map(id => {
+      const stats = fs.statSync(backupPath(id));
+      let teaCount: number | null = null;
+      try {
+        const data = yaml.load(fs.readFileSync(backupPath(id), 'utf8'));
+        teaCount = Array.isArray(data) ? data.length : null;
+      } catch {
+        logger.warn(`Backup ${id} could not be parsed`);
+      }
+      return { id, createdAt: parseBackupDate(id), size: stats.size, teaCount };
+    }),
+
+    read: async (id) => {
+      if (!isValidBackupId(id) || !fs.existsSync(backupPath(id))) {
+        return undefined;
+      }
+
+      const data = yaml.load(fs.readFileSync(backupPath(id), 'utf8'));
+      return z.array(TeaSchema).parse(migrateLegacyTeas(data ?? []));
+    }
+  };
+};
@@ -0,0 +1,94 @@
+import { createHash } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+import sharp from 'sharp';
+
+import type { ImageSize } from '../../shared/images';
+
+// Longest side in pixels of each stored size. Images are never enlarged.
+const IMAGE_SIZES: Record<ImageSize, number> = {
+  full: 1600,
+  thumb: 400
+};
+
+// Ids are a prefix of the SHA-256 of the original bytes, so storing the same image again is a no-op
+const IMAGE_ID_PATTERN = /^[0-9a-f]{32}$/;
+
+// Errors for data that is not a readable image carry this code, so routes can answer 400 rather than 500
+const INVALID_IMAGE_CODE = 'ERR_INVALID_IMAGE';
+
+export const isInvalidImageError = (error: unknown): error is Error =>
+  error instanceof Error && (error as NodeJS.ErrnoException).code === INVALID_IMAGE_CODE;
+
+export const isValidImageId = (id: string): boolean => IMAGE_ID_PATTERN.test(id);
+
+// Downloads an image URL, e.g. a vendor's product photo
+export type ImageFetcher = (url: string) => Promise<Buffer>;
+
+export interface ImageStore {
+  // Stores an image (JPEG, PNG, WebP, GIF, AVIF, ...) as WebP in every size and resolves to its id.
+  // Rejects with an invalid image error for data that cannot be decoded.
+  save(data: Buffer): Promise<string>;
+  // Downloads and saves an image. Rejects when downloads are disabled.
+  download(url: string): Promise<string>;
+  readonly downloadsEnabled: boolean;
+  // The stored file for that size, or undefined if there is no image with that id
+  getPath(id: string, size: ImageSize): string | undefined;
+}
+
+// Keeps tea images in `imageDir` as <id>.webp with a <id>-thumb.webp thumbnail.
+// Without `fetchImage` only uploaded images can be stored.
+export const createImageStore = (imageDir: string, fetchImage?: ImageFetcher): ImageStore => {
+  const filePath = (id: string, size: ImageSize) =>
+    path.join(imageDir, size === 'full' ? `${id}.webp` : `${id}-${size}.webp`);
+
+  const save = async (data: Buffer): Promise<string> => {
+    const id = createHash('sha256').update(data).digest('hex').substring(0, 32);
+    // The thumbnail is written last, so with it in place the image is complete
+    if (fs.existsSync(filePath(id, 'thumb'))) {
+      return id;
+    }
+
+    const format = await sharp(data).metadata().then(metadata => metadata.format, () => undefined);
+    if (!format) {
+      throw Object.assign(new Error('File is not a supported image'), { code: INVALID_IMAGE_CODE });
+    }
+
+    if (!fs.existsSync(imageDir)) {
+      fs.mkdirSync(imageDir, { recursive: true });
+    }
+    for (const size of ['full', 'thumb'] as const) {
+      const tempPath = `${filePath(id, size)}.tmp`;
+      // rotate() applies the EXIF orientation of phone photos before the metadata is dropped
+      await sharp(data)
+        .rotate()
+        .resize({ width: IMAGE_SIZES[size], height: IMAGE_SIZES[size], fit: 'inside', withoutEnlargement: true })
+        .webp()
+        .toFile(tempPath);
+      fs.renameSync(tempPath, filePath(id, size));
+    }
+    return id;
+  };
+
+  return {
+    save,
+
+    download: async (url) => {
+      if (!fetchImage) {
+        throw new Error('Image downloads are disabled');
+      }
+      return save(await fetchImage(url));
+    },
+
+    downloadsEnabled: fetchImage !== undefined,
+
+    getPath: (id, size) => {
+      if (!isValidImageId(id)) {
+        return undefined;
+      }
+      const file = filePath(id, size);
+      return fs.existsSync(file) ? file : undefined;
+    }
+  };
+};
@@ -0,0 +1,125 @@
+import fs from 'fs';
+import path from 'path';
+
+import Database from 'better-sqlite3';
+
+import logger from '../logger';
+import { fetchRemoteImage } from '../images';
+import { migrateConsumptionBaselines } from '../consumption';
+import { BrewSessionSchema, PurchaseSchema, TastingNoteSchema, TeaSchema, VendorSchema } from '../../shared/types';
+import { createYamlRepository } from './yamlRepository';
+import { createSqliteRepository } from './sqliteRepository';
+import { createBackupStore } from './backups';
+import { createScrapeCache } from './scrapeCache';
+import { createImageStore } from './images';
+import { migrateSqliteTeaTable, migrateYamlTeaFile } from './migrations';
+import { STORAGE_BACKENDS } from './types';
+import type { BrewSessionRepository, Repositories, StorageBackend, TeaRepository } from './types';
+
+export type { Repository, TeaRepository, BrewSessionRepository, PurchaseRepository, VendorRepository, TastingNoteRepository, Repositories, StorageBackend } from './types';
+export { STORAGE_BACKENDS } from './types';
+export { createYamlRepository } from './yamlRepository';
+export { createSqliteRepository } from './sqliteRepository';
+export { createBackupStore, isValidBackupId } from './backups';
+export type { BackupStore } from './backups';
+export { createScrapeCache, normalizeScrapeUrl } from './scrapeCache';
+export type { ScrapeCache } from './scrapeCache';
+export { createImageStore, isInvalidImageError, isValidImageId } from './images';
+export type { ImageFetcher, ImageStore } from './images';
+export { migrateLegacyTea, migrateLegacyTeas } from './migrations';
+
+export interface StorageConfig {
+  backend: StorageBackend;
+  // teas.yaml - the data file for the YAML backend, and the seed for a fresh SQLite database
+  dataFile: string;
+  // Brewing session log for the YAML backend
+  sessionsFile: string;
+  // Purchase history for the YAML backend
+  purchasesFile: string;
+  // Vendors for the YAML backend
+  vendorsFile: string;
+  // Tasting notes for the YAML backend
+  tastingNotesFile: string;
+  sqliteFile: string;
+  // Snapshots of the tea collection taken before every write
+  backupDir: string;
+  backupRetention: number;
+  // Product pages fetched by the import scraper, reused until they are older than the TTL
+  scrapeCacheDir: string;
+  scrapeCacheTtlHours: number;
+  // Downloaded and uploaded tea images with their thumbnails
+  imageDir: string;
+  // Whether image URLs are downloaded into imageDir when a tea is saved
+  downloadImages: boolean;
+}
+
+export const parseStorageBackend = (value: string | undefined): StorageBackend => {
+  const backend = (value || 'yaml').toLowerCase().trim();
+  if (!(STORAGE_BACKENDS as readonly string[]).includes(backend)) {
+    throw new Error(`Invalid STORAGE_BACKEND "${value}" - expected one of: ${STORAGE_BACKENDS.join(', ')}`);
+  }
+  return backend as StorageBackend;
+};
+
+// One-time split of each tea's stored consumption count into what its sessions account for and what
+// came before them. Like the other startup migrations it skips the backup hook.
+const migrateConsumption = async (teas: TeaRepository, sessions: BrewSessionRepository): Promise<void> => {
+  const count = await migrateConsumptionBaselines(teas, sessions);
+  if (count > 0) {
+    logger.info(`Recorded the consumption before the session log for ${count} teas`);
+  }
+};
+
+export const createRepositories = async (config: StorageConfig): Promise<Repositories> => {
+  const backups = createBackupStore(config.backupDir, config.backupRetention);
+  const options = { onBeforeWrite: backups.snapshot };
+  logger.info(`Backups: ${config.backupRetention > 0 ? `keeping ${config.backupRetention} in ${config.backupDir}` : 'disabled'}`);
+  const scrapeCache = createScrapeCache(config.scrapeCacheDir, config.scrapeCacheTtlHours * 60 * 60 * 1000);
+  const images = createImageStore(config.imageDir, config.downloadImages ? fetchRemoteImage : undefined);
+
+  // One-time conversion of free-text brewing temperature and tea weight (also needed before seeding SQLite)
+  await migrateYamlTeaFile(config.dataFile);
+
+  if (config.backend === 'yaml') {
+    logger.info(`Using YAML storage backend: ${config.dataFile}`);
+    const sessions = createYamlRepository(config.sessionsFile, BrewSessionSchema, 'brewing sessions');
+    await migrateConsumption(createYamlRepository(config.dataFile, TeaSchema, 'tea collection'), sessions);
+    return {
+      teas: createYamlRepository(config.dataFile, TeaSchema, 'tea collection', options),
+      sessions,
+      purchases: createYamlRepository(config.purchasesFile, PurchaseSchema, 'purchases'),
+      vendors: createYamlRepository(config.vendorsFile, VendorSchema, 'vendors'),
+      tastingNotes: createYamlRepository(config.tastingNotesFile, TastingNoteSchema, 'tasting notes'),
+      backups,
+      scrapeCache,
+      images
+    };
+  }
+
+  const dirPath = path.dirname(config.sqliteFile);
+  if (!fs.existsSync(dirPath)) {
+    fs.mkdirSync(dirPath, { recursive: true });
+  }
+
+  const db = new Database(config.sqliteFile);
+  db.pragma('journal_mode = WAL');
+  logger.info(`Using SQLite storage backend: ${config.sqliteFile}`);
+
+  const teas = createSqliteRepository(db, 'teas', TeaSchema, 'tea collection', options);
+  const sessions = createSqliteRepository(db, 'brew_sessions', BrewSessionSchema, 'brewing sessions');
+  const purchases = createSqliteRepository(db, 'purchases', PurchaseSchema, 'purchases');
+  const vendors = createSqliteRepository(db, 'vendors', VendorSchema, 'vendors');
+  const tastingNotes = createSqliteRepository(db, 'tasting_notes', TastingNoteSchema, 'tasting notes');
+  migrateSqliteTeaTable(db, 'teas');
+
+  // Seed a fresh database from the existing YAML file so switching backends keeps the collection
+  if ((await teas.list()).length === 0 && fs.existsSync(config.dataFile)) {
+    const seedTeas = await createYamlRepository(config.dataFile, TeaSchema, 'tea collection').list();
+    await teas.replaceAll(seedTeas);
+    logger.info(`Seeded SQLite database with ${seedTeas.length} teas from ${config.dataFile}`);
+  }
+
+  await migrateConsumption(createSqliteRepository(db, 'teas', TeaSchema, 'tea collection'), sessions);
+
+  return { teas, sessions, purchases, vendors, tastingNotes, backups, scrapeCache, images };
+};
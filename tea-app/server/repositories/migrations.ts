@@ -0,0 +1,127 @@
+import fs from 'fs';
+
+import type Database from 'better-sqlite3';
+import yaml from 'js-yaml';
+import { z } from 'zod';
+
+import logger from '../logger';
+import { TeaSchema } from '../../shared/types';
+import { parseTeaWeightGrams, parseTemperatureCelsius, parseWaterMl } from '../../shared/brewing';
+import { isTeaType, resolveTeaType } from '../../shared/teaTypes';
+import { createYamlRepository } from './yamlRepository';
+
+// Teas saved before the brewing parameters became numeric carry free-text `brewingTemperature`
+// ("185℉ / 85℃") and `teaWeight` ("5g Tea") fields, on the tea and on each brewing profile.
+// Hand-edited files may also name a type by one of its aliases ("pu-erh", "Hei Cha").
+// They are converted once at startup; old backups are converted when they are read.
+
+type Document = Record<string, unknown>;
+
+const isDocument = (value: unknown): value is Document =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const hasLegacyFields = (document: Document): boolean =>
+  'brewingTemperature' in document || 'teaWeight' in document;
+
+const migrateBrewingParameters = (document: Document): Document => {
+  if (!hasLegacyFields(document)) {
+    return document;
+  }
+
+  const { brewingTemperature, teaWeight, ...rest } = document;
+  const temperatureText = typeof brewingTemperature === 'string' ? brewingTemperature : '';
+  const weightText = typeof teaWeight === 'string' ? teaWeight : '';
+  const celsius = parseTemperatureCelsius(temperatureText);
+
+  return {
+    ...rest,
+    temperatureCelsius: rest.temperatureCelsius ?? (celsius !== null && celsius <= 100 ? celsius : null),
+    leafGrams: rest.leafGrams ?? parseTeaWeightGrams(weightText),
+    waterMl: rest.waterMl ?? parseWaterMl(weightText)
+  };
+};
+
+// The taxonomy name for a type given by one of its aliases; null when the type needs no change
+const migratedTeaType = (type: unknown): string | null =>
+  typeof type === 'string' && !isTeaType(type) ? resolveTeaType(type) : null;
+
+// Returns the same object when there is nothing to migrate
+export const migrateLegacyTea = (value: unknown): unknown => {
+  if (!isDocument(value)) {
+    return value;
+  }
+
+  const profiles = Array.isArray(value.brewingProfiles) ? value.brewingProfiles : undefined;
+  const type = migratedTeaType(value.type);
+  const needsMigration = hasLegacyFields(value) || type !== null ||
+    (profiles ?? []).some(profile => isDocument(profile) && hasLegacyFields(profile));
+  if (!needsMigration) {
+    return value;
+  }
+
+  return {
+    ...migrateBrewingParameters(value),
+    ...(type !== null && { type }),
+    ...(profiles && { brewingProfiles: profiles.map(profile => (isDocument(profile) ? migrateBrewingParameters(profile) : profile)) })
+  };
+};
+
+export const migrateLegacyTeas = (value: unknown): unknown =>
+  Array.isArray(value) ? value.map(migrateLegacyTea) : value;
+
+// Rewrites a legacy teas.yaml in place, keeping the original as <file>.pre-migration.
+// Resolves to the number of teas converted.
+export const migrateYamlTeaFile = async (filePath: string): Promise<number> => {
+  if (!fs.existsSync(filePath)) {
+    return 0;
+  }
+
+  const data = yaml.load(fs.readFileSync(filePath, 'utf8'));
+  if (!Array.isArray(data)) {
+    return 0;
+  }
+
+  const migrated = data.map(migrateLegacyTea);
+  const count = migrated.filter((tea, i) => tea !== data[i]).length;
+  if (count === 0) {
+    return 0;
+  }
+
+  const teas = z.array(TeaSchema).parse(migrated);
+  const originalPath = `${filePath}.pre-migration`;
+  // Moved aside first: the repository would otherwise fail to parse the legacy file it replaces
+  fs.renameSync(filePath, originalPath);
+  try {
+    await createYamlRepository(filePath, TeaSchema, 'tea collection').replaceAll(teas);
+  } catch (error) {
+    fs.copyFileSync(originalPath, filePath);
+    throw error;
+  }
+  logger.info(`Migrated ${count} legacy teas in ${filePath} (original kept as ${originalPath})`);
+  return count;
+};
+
+// Converts legacy rows of a SQLite tea table in one transaction. Returns the number of teas converted.
+export const migrateSqliteTeaTable = (db: Database.Database, table: string): number => {
+  const rows = db.prepare<[], { id: string; data: string }>(`SELECT id, data FROM ${table}`).all();
+  const update = db.prepare<[string, string]>(`UPDATE ${table} SET data = ? WHERE id = ?`);
+
+  const migrate = db.transaction(() => {
+    let count = 0;
+    for (const row of rows) {
+      const document = JSON.parse(row.data);
+      const migrated = migrateLegacyTea(document);
+      if (migrated !== document) {
+        update.run(JSON.stringify(TeaSchema.parse(migrated)), row.id);
+        count++;
+      }
+    }
+    return count;
+  });
+
+  const count = migrate();
+  if (count > 0) {
+    logger.info(`Migrated ${count} legacy teas in SQLite table ${table}`);
+  }
+  return count;
+};
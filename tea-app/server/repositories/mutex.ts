@@ -0,0 +1,29 @@
+// Minimal in-process mutex: tasks passed to runExclusive run one at a time, in call order.
+export interface Mutex {
+  runExclusive<T>(task: () => T | Promise<T>): Promise<T>;
+}
+
+export const createMutex = (): Mutex => {
+  let tail: Promise<unknown> = Promise.resolve();
+
+  return {
+    runExclusive: <T>(task: () => T | Promise<T>): Promise<T> => {
+      const result = tail.then(task);
+      // Keep the queue going even if this task fails
+      tail = result.catch(() => undefined);
+      return result;
+    }
+  };
+};
+
+// One mutex per data file, shared by every repository instance that points at it
+const fileMutexes = new Map<string, Mutex>();
+
+export const getFileMutex = (filePath: string): Mutex => {
+  let mutex = fileMutexes.get(filePath);
+  if (!mutex) {
+    mutex = createMutex();
+    fileMutexes.set(filePath, mutex);
+  }
+  return mutex;
+};
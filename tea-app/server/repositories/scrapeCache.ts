@@ -0,0 +1,121 @@
+import { createHash } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+import { z } from 'zod';
+
+import logger from '../logger';
+import type { FetchedPage } from '../scrapers/types';
+
+// Query parameters that only track where a visitor came from and never change the page
+const TRACKING_PARAMETER_PATTERN = /^(?:utm_\w+|fbclid|gclid|msclkid|mc_cid|mc_eid|_ga)$/i;
+const CACHE_EXTENSION = '.json';
+
+const CacheEntrySchema = z.object({
+  key: z.string(),
+  page: z.object({
+    url: z.string(),
+    html: z.string(),
+    contentType: z.string(),
+    fetchedAt: z.number()
+  })
+});
+
+export interface ScrapeCache {
+  // The cached page for the URL, or undefined if there is none or it is older than the TTL
+  get(url: string): Promise<FetchedPage | undefined>;
+  // Never throws: a page that cannot be cached is simply fetched again next time
+  set(url: string, page: FetchedPage): Promise<void>;
+}
+
+// The cache key for a product URL: no fragment, no tracking parameters, remaining parameters sorted.
+// Hostname case and default ports are already normalized by URL parsing.
+export const normalizeScrapeUrl = (url: string): string => {
+  const parsed = new URL(url.trim());
+  parsed.hash = '';
+  Array.from(parsed.searchParams.keys())
+    .filter(key => TRACKING_PARAMETER_PATTERN.test(key))
+    .forEach(key => parsed.searchParams.delete(key));
+  parsed.searchParams.sort();
+  return parsed.toString();
+};
+
+// Keeps fetched product pages in `cacheDir`, one JSON file per normalized URL, for `ttlMs`.
+// At most `maxEntries` pages taking up `maxBytes` are kept; ttlMs 0 disables the cache.
+export const createScrapeCache = (
+  cacheDir: string,
+  ttlMs: number,
+  maxEntries = 200,
+  maxBytes = 50 * 1024 * 1024
+): ScrapeCache => {
+  const entryPath = (key: string) =>
+    path.join(cacheDir, `${createHash('sha256').update(key).digest('hex')}${CACHE_EXTENSION}`);
+
+  const isExpired = (page: FetchedPage) => Date.now() - page.fetchedAt >= ttlMs;
+
+  // Drops expired entries, then the oldest ones beyond maxEntries or maxBytes
+  const prune = () => {
+    const entries = fs.readdirSync(cacheDir)
+      .filter(file => file.endsWith(CACHE_EXTENSION))
+      .map(file => {
+        const stats = fs.statSync(path.join(cacheDir, file));
+        return { file: path.join(cacheDir, file), modified: stats.mtimeMs, size: stats.size };
+      })
+      .sort((a, b) => b.modified - a.modified);
+
+    let totalBytes = 0;
+    entries
+      .filter((entry, i) => {
+        totalBytes += entry.size;
+        return i >= maxEntries || totalBytes > maxBytes || Date.now() - entry.modified >= ttlMs;
+      })
+      .forEach(entry => fs.rmSync(entry.file, { force: true }));
+  };
+
+  return {
+    get: async (url) => {
+      if (ttlMs <= 0) {
+        return undefined;
+      }
+
+      const key = normalizeScrapeUrl(url);
+      const filePath = entryPath(key);
+      if (!fs.existsSync(filePath)) {
+        return undefined;
+      }
+
+      try {
+        const entry = CacheEntrySchema.parse(JSON.parse(fs.readFileSync(filePath, 'utf8')));
+        if (entry.key !== key || isExpired(entry.page)) {
+          return undefined;
+        }
+        return entry.page;
+      } catch {
+        logger.warn(`Scrape cache entry for ${key} could not be read, ignoring it`);
+        fs.rmSync(filePath, { force: true });
+        return undefined;
+      }
+    },
+
+    set: async (url, page) => {
+      if (ttlMs <= 0) {
+        return;
+      }
+
+      try {
+        if (!fs.existsSync(cacheDir)) {
+          fs.mkdirSync(cacheDir, { recursive: true });
+        }
+
+        const key = normalizeScrapeUrl(url);
+        const filePath = entryPath(key);
+        const tempPath = `${filePath}.tmp`;
+        fs.writeFileSync(tempPath, JSON.stringify({ key, page }), 'utf8');
+        fs.renameSync(tempPath, filePath);
+        prune();
+      } catch (error) {
+        logger.error(`Failed to cache scraped page - ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  };
+};
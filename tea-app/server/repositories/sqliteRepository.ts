@@ -0,0 +1,109 @@
+import Database from 'better-sqlite3';
+import { z } from 'zod';
+
+import logger from '../logger';
+import type { Repository, RepositoryOptions } from './types';
+
+// Stores each entity as a JSON document in its own row, keyed by id.
+// Rows are returned in insertion order to match the YAML backend.
+export const createSqliteRepository = <T extends { id: string }>(
+  db: Database.Database,
+  table: string,
+  schema: z.ZodType<T>,
+  collectionName: string,
+  options: RepositoryOptions<T> = {}
+): Repository<T> => {
+  db.exec(`CREATE TABLE IF NOT EXISTS ${table} (id TEXT PRIMARY KEY, data TEXT NOT NULL)`);
+
+  const selectAll = db.prepare<[], { data: string }>(`SELECT data FROM ${table} ORDER BY rowid`);
+  const selectOne = db.prepare<[string], { data: string }>(`SELECT data FROM ${table} WHERE id = ?`);
+  const insert = db.prepare<[string, string]>(`INSERT INTO ${table} (id, data) VALUES (?, ?)`);
+  const updateOne = db.prepare<[string, string]>(`UPDATE ${table} SET data = ? WHERE id = ?`);
+  const deleteOne = db.prepare<[string]>(`DELETE FROM ${table} WHERE id = ?`);
+  const deleteAll = db.prepare(`DELETE FROM ${table}`);
+
+  const parseRow = (row: { data: string }): T => {
+    try {
+      return schema.parse(JSON.parse(row.data));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        logger.error(`Failed to read ${table} table - validation error in row format`, new Error(JSON.stringify(error.issues)));
+      } else {
+        logger.error(`Failed to read ${table} table - ${error instanceof Error ? error.message : String(error)}`);
+      }
+      throw new Error(`Failed to read ${collectionName} from database`);
+    }
+  };
+
+  const beforeWrite = () => {
+    if (options.onBeforeWrite) {
+      options.onBeforeWrite(selectAll.all().map(parseRow));
+    }
+  };
+
+  // Mutations run inside transactions so each read-modify-write is applied atomically
+  const createTransaction = db.transaction((item: T) => {
+    beforeWrite();
+    insert.run(item.id, JSON.stringify(item));
+  });
+
+  const updateTransaction = db.transaction((id: string, updater: (existing: T) => T): T | undefined => {
+    const row = selectOne.get(id);
+    if (!row) {
+      return undefined;
+    }
+
+    const updated = updater(parseRow(row));
+    beforeWrite();
+    updateOne.run(JSON.stringify(updated), id);
+    return updated;
+  });
+
+  const updateAllTransaction = db.transaction((updater: (existing: T[]) => T[]): T[] => {
+    const updated = updater(selectAll.all().map(parseRow));
+    beforeWrite();
+    deleteAll.run();
+    updated.forEach(item => insert.run(item.id, JSON.stringify(item)));
+    return updated;
+  });
+
+  const deleteTransaction = db.transaction((id: string): boolean => {
+    if (!selectOne.get(id)) {
+      return false;
+    }
+
+    beforeWrite();
+    deleteOne.run(id);
+    return true;
+  });
+
+  const replaceAllTransaction = db.transaction((items: T[]) => {
+    beforeWrite();
+    deleteAll.run();
+    items.forEach(item => insert.run(item.id, JSON.stringify(item)));
+  });
+
+  return {
+    list: async () => selectAll.all().map(parseRow),
+
+    get: async (id) => {
+      const row = selectOne.get(id);
+      return row ? parseRow(row) : undefined;
+    },
+
+    create: async (item) => {
+      createTransaction(item);
+      return item;
+    },
+
+    update: async (id, updater) => updateTransaction(id, updater),
+
+    updateAll: async (updater) => updateAllTransaction(updater),
+
+    delete: async (id) => deleteTransaction(id),
+
+    replaceAll: async (items) => {
+      replaceAllTransaction(items);
+    }
+  };
+};
@@ -0,0 +1,46 @@
+import type { BrewSession, Purchase, TastingNote, Tea, Vendor } from '../../shared/types';
+import type { BackupStore } from './backups';
+import type { ImageStore } from './images';
+import type { ScrapeCache } from './scrapeCache';
+
+// Storage-agnostic access to a collection of entities keyed by id.
+// Every route handler goes through a repository instead of touching the data file directly.
+export interface Repository<T extends { id: string }> {
+  list(): Promise<T[]>;
+  get(id: string): Promise<T | undefined>;
+  create(item: T): Promise<T>;
+  // Read-modify-write of a single entity. Resolves to undefined if the id does not exist.
+  // The updater may throw (e.g. on validation errors), in which case nothing is written.
+  update(id: string, updater: (existing: T) => T): Promise<T | undefined>;
+  // Read-modify-write of the whole collection in one write, for changes that span many entities.
+  // Resolves to the new collection; like update, nothing is written if the updater throws.
+  updateAll(updater: (existing: T[]) => T[]): Promise<T[]>;
+  delete(id: string): Promise<boolean>;
+  // Replaces the whole collection (used for restoring backups and seeding)
+  replaceAll(items: T[]): Promise<void>;
+}
+
+export interface RepositoryOptions<T> {
+  // Called with the current collection right before every write, e.g. to take a backup
+  onBeforeWrite?: (current: T[]) => void;
+}
+
+export type TeaRepository = Repository<Tea>;
+export type BrewSessionRepository = Repository<BrewSession>;
+export type PurchaseRepository = Repository<Purchase>;
+export type VendorRepository = Repository<Vendor>;
+export type TastingNoteRepository = Repository<TastingNote>;
+
+export interface Repositories {
+  teas: TeaRepository;
+  sessions: BrewSessionRepository;
+  purchases: PurchaseRepository;
+  vendors: VendorRepository;
+  tastingNotes: TastingNoteRepository;
+  backups: BackupStore;
+  scrapeCache: ScrapeCache;
+  images: ImageStore;
+}
+
+export const STORAGE_BACKENDS = ['yaml', 'sqlite'] as const;
+export type StorageBackend = typeof STORAGE_BACKENDS[number];
@@ -0,0 +1,140 @@
+import fs from 'fs';
+import path from 'path';
+
+import yaml from 'js-yaml';
+import { z } from 'zod';
+
+import logger from '../logger';
+import { getFileMutex } from './mutex';
+import type { Repository, RepositoryOptions } from './types';
+
+// Stores the whole collection as a YAML array in a single file.
+// Every mutation reads the file, applies the change and rewrites it while holding a per-file
+// mutex, and the file is replaced atomically (write to a temp file, fsync, rename) so a crash
+// mid-write leaves either the old or the new collection on disk.
+export const createYamlRepository = <T extends { id: string }>(
+  filePath: string,
+  schema: z.ZodType<T>,
+  collectionName: string,
+  options: RepositoryOptions<T> = {}
+): Repository<T> => {
+  const fileName = path.basename(filePath);
+  const mutex = getFileMutex(path.resolve(filePath));
+
+  const read = (): T[] => {
+    try {
+      if (!fs.existsSync(filePath)) {
+        logger.debug(`Data file not found at ${filePath}, returning empty collection`);
+        return [];
+      }
+
+      const fileContents = fs.readFileSync(filePath, 'utf8');
+
+      // Validate data read from file
+      const data = yaml.load(fileContents);
+      return z.array(schema).parse(data);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        logger.error(`Failed to read ${fileName} - validation error in file format`, new Error(JSON.stringify(error.issues)));
+      } else {
+        logger.error(`Failed to read ${fileName} - ${error instanceof Error ? error.message : String(error)}`);
+      }
+      throw new Error(`Failed to read ${collectionName} from file`);
+    }
+  };
+
+  const write = (items: T[], previous: T[]): void => {
+    options.onBeforeWrite?.(previous);
+
+    try {
+      const yamlStr = yaml.dump(items);
+
+      // Check if directory exists
+      const dirPath = path.dirname(filePath);
+      if (!fs.existsSync(dirPath)) {
+        try {
+          fs.mkdirSync(dirPath, { recursive: true });
+          logger.debug(`Created directory: ${dirPath}`);
+        } catch (mkdirError) {
+          logger.error(`Failed to write ${fileName} - Failed to create directory ${dirPath}: ${mkdirError instanceof Error ? mkdirError.message : String(mkdirError)}`);
+          throw new Error('Failed to create data directory');
+        }
+      }
+
+      // Write to a temp file in the same directory, then rename over the data file
+      const tempPath = `${filePath}.${process.pid}.tmp`;
+      try {
+        const fd = fs.openSync(tempPath, 'w');
+        try {
+          fs.writeFileSync(fd, yamlStr, 'utf8');
+          fs.fsyncSync(fd);
+        } finally {
+          fs.closeSync(fd);
+        }
+        fs.renameSync(tempPath, filePath);
+      } catch (writeError) {
+        fs.rmSync(tempPath, { force: true });
+        throw writeError;
+      }
+      logger.debug(`Successfully saved ${items.length} items to ${filePath}`);
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message.includes('EACCES')) {
+          logger.error(`Failed to write ${fileName} - Permission denied: Unable to write to data file`);
+          throw new Error('Permission denied: Unable to write to data file');
+        } else if (error.message.includes('ENOSPC')) {
+          logger.error(`Failed to write ${fileName} - Disk full: Unable to save data`);
+          throw new Error(`Disk full: Unable to save ${collectionName}`);
+        }
+      }
+      logger.error(`Failed to write ${fileName} - ${error instanceof Error ? error.message : String(error)}`);
+      throw new Error(`Failed to save ${collectionName} to file`);
+    }
+  };
+
+  return {
+    list: async () => read(),
+
+    get: async (id) => read().find(item => item.id === id),
+
+    create: (item) => mutex.runExclusive(() => {
+      const items = read();
+      write([...items, item], items);
+      return item;
+    }),
+
+    update: (id, updater) => mutex.runExclusive(() => {
+      const items = read();
+      const index = items.findIndex(item => item.id === id);
+      if (index === -1) {
+        return undefined;
+      }
+
+      const updated = updater(items[index]);
+      write(items.map((item, i) => (i === index ? updated : item)), items);
+      return updated;
+    }),
+
+    updateAll: (updater) => mutex.runExclusive(() => {
+      const items = read();
+      const updated = updater(items);
+      write(updated, items);
+      return updated;
+    }),
+
+    delete: (id) => mutex.runExclusive(() => {
+      const items = read();
+      const remaining = items.filter(item => item.id !== id);
+      if (remaining.length === items.length) {
+        return false;
+      }
+
+      write(remaining, items);
+      return true;
+    }),
+
+    replaceAll: (items) => mutex.runExclusive(() => {
+      write(items, read());
+    })
+  };
+};
@@ -0,0 +1,54 @@
+import path from 'path';
+
+import express from 'express';
+
+import logger from '../logger';
+import { getImageUrl } from '../../shared/images';
+import { requireAuth } from '../auth';
+import { IMAGE_MAX_BYTES } from '../images';
+import { isInvalidImageError } from '../repositories';
+import type { Repositories } from '../repositories';
+
+// Stored tea images, mounted at /api/images ahead of the API-wide auth check: <img> tags cannot send
+// the bearer token, so reading an image is public. Ids are content hashes and cannot be guessed.
+export const createImagesRouter = (repositories: Repositories): express.Router => {
+  const router = express.Router();
+
+  // ?size=thumb for the thumbnail
+  router.get('/:id', (req, res) => {
+    const size = req.query.size === 'thumb' ? 'thumb' : 'full';
+    const file = repositories.images.getPath(req.params.id, size);
+    if (!file) {
+      res.status(404).json({ error: 'Image not found' });
+      return;
+    }
+
+    // A stored image never changes; different content gets a different id
+    res.set('Cache-Control', 'private, max-age=31536000, immutable');
+    res.type('image/webp').sendFile(path.resolve(file));
+  });
+
+  // Uploads a photo: the raw image as the body, with its image/* Content-Type
+  router.post('/', requireAuth, express.raw({ type: 'image/*', limit: IMAGE_MAX_BYTES }), async (req, res) => {
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+      res.status(400).json({ error: 'Send the image as the request body with an image/* Content-Type' });
+      return;
+    }
+
+    try {
+      const id = await repositories.images.save(req.body);
+      logger.info(`Image uploaded - id: ${id}, ${Math.round(req.body.length / 1024)} KB`);
+      res.status(201).json({ id, url: getImageUrl(id) });
+    } catch (error) {
+      if (isInvalidImageError(error)) {
+        logger.warn(`Image upload rejected - ${error.message}`);
+        res.status(400).json({ error: error.message });
+        return;
+      }
+      logger.error(`Failed to store image - ${error instanceof Error ? error.message : String(error)}`);
+      res.status(500).json({ error: 'Failed to store image', details: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  return router;
+};
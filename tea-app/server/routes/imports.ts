@@ -0,0 +1,83 @@
+import express from 'express';
+import { z } from 'zod';
+
+import logger from '../logger';
+import { BatchImportEventSchema, BatchImportRequestSchema } from '../../shared/types';
+import { BATCH_IMPORT_CONCURRENCY, forEachWithConcurrency, importTea } from '../importer';
+import type { Repositories } from '../repositories';
+import { formatServerTiming } from '../scrapers';
+
+// Scraping product pages into tea form data, mounted at /api/teas/import
+export const createImportRouter = (repositories: Repositories): express.Router => {
+  const router = express.Router();
+
+  router.post('/', async (req, res) => {
+    logger.info('=== IMPORT ENDPOINT HIT (Axios/Cheerio) ===');
+    // `force` skips the scrape cache and fetches the page again
+    const { url, force } = req.body;
+
+    const outcome = await importTea(repositories, url, force === true);
+    if (Object.keys(outcome.timings).length > 0) {
+      res.set('Server-Timing', formatServerTiming(outcome.timings));
+    }
+
+    if (outcome.ok) {
+      res.json(outcome.tea);
+    } else {
+      res.status(outcome.status).json({ error: outcome.error, ...(outcome.details && { details: outcome.details }) });
+    }
+  });
+
+  // Streams newline-delimited JSON: a BatchImportEvent when each URL starts and when it finishes.
+  // A failed URL does not stop the others.
+  router.post('/batch', async (req, res) => {
+    let request: z.infer<typeof BatchImportRequestSchema>;
+    try {
+      request = BatchImportRequestSchema.parse(req.body);
+    } catch (validationError) {
+      const details = validationError instanceof z.ZodError ? validationError.issues : 'Unknown validation error';
+      logger.warn(`Batch import rejected - ${JSON.stringify(details)}`);
+      res.status(400).json({ error: 'Invalid batch import request', details });
+      return;
+    }
+
+    const { urls, force = false } = request;
+    logger.info(`Batch import of ${urls.length} URLs started`);
+    const startTime = Date.now();
+
+    // Stop starting new imports once the client has gone away
+    let clientGone = false;
+    res.on('close', () => {
+      clientGone = !res.writableEnded;
+    });
+
+    res.status(200).type('application/x-ndjson');
+    res.flushHeaders();
+    const send = (event: z.input<typeof BatchImportEventSchema>) => {
+      if (!clientGone) {
+        res.write(`${JSON.stringify(event)}\n`);
+      }
+    };
+
+    let imported = 0;
+    await forEachWithConcurrency(urls, BATCH_IMPORT_CONCURRENCY, async (url, index) => {
+      if (clientGone) {
+        return;
+      }
+      send({ status: 'started', index, url });
+
+      const outcome = await importTea(repositories, url, force);
+      if (outcome.ok) {
+        imported++;
+        send({ status: 'imported', index, url, tea: outcome.tea });
+      } else {
+        send({ status: 'failed', index, url, error: outcome.details ? `${outcome.error}: ${outcome.details}` : outcome.error });
+      }
+    });
+
+    logger.info(`Batch import finished: ${imported} of ${urls.length} URLs imported (${Date.now() - startTime}ms)${clientGone ? ', client disconnected' : ''}`);
+    res.end();
+  });
+
+  return router;
+};
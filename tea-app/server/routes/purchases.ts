@@ -0,0 +1,133 @@
+import { randomUUID } from 'crypto';
+
+import express from 'express';
+import { z } from 'zod';
+
+import logger from '../logger';
+import { CreatePurchaseSchema, PurchaseSchema, UpdatePurchaseSchema } from '../../shared/types';
+import type { Purchase } from '../../shared/types';
+import type { Repositories } from '../repositories';
+
+const handlePurchaseValidationError = (res: express.Response, validationError: unknown): void => {
+  if (validationError instanceof z.ZodError) {
+    logger.warn(`Purchase validation failed - ${JSON.stringify(validationError.issues)}`);
+    res.status(400).json({ error: 'Invalid purchase data', details: validationError.issues });
+  } else {
+    logger.error(`Purchase validation failed - ${validationError instanceof Error ? validationError.message : String(validationError)}`);
+    res.status(400).json({ error: 'Failed to validate purchase data', details: validationError instanceof Error ? validationError.message : 'Unknown validation error' });
+  }
+};
+
+// Purchases are returned newest first
+const byDateDesc = (a: Purchase, b: Purchase) => b.purchasedAt - a.purchasedAt;
+
+// CRUD for purchases, mounted at /api/purchases.
+// Like sessions, purchases of a deleted tea are kept so restoring the tea brings them back.
+export const createPurchasesRouter = (repositories: Repositories): express.Router => {
+  const router = express.Router();
+
+  router.get('/', async (req, res) => {
+    try {
+      const teaId = typeof req.query.teaId === 'string' ? req.query.teaId : undefined;
+      const purchases = (await repositories.purchases.list())
+        .filter(purchase => teaId === undefined || purchase.teaId === teaId)
+        .sort(byDateDesc);
+      res.json(purchases);
+    } catch (error) {
+      logger.error(`Failed to read purchases - ${error instanceof Error ? error.message : String(error)}`);
+      res.status(500).json({ error: 'Failed to read purchases', details: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  router.get('/:id', async (req, res) => {
+    try {
+      const purchase = await repositories.purchases.get(req.params.id);
+      if (!purchase) {
+        res.status(404).json({ error: 'Purchase not found' });
+        return;
+      }
+      res.json(purchase);
+    } catch (error) {
+      logger.error(`Failed to read purchases - ${error instanceof Error ? error.message : String(error)}`);
+      res.status(500).json({ error: 'Failed to read purchase', details: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  router.post('/', async (req, res) => {
+    try {
+      let purchase: Purchase;
+      try {
+        purchase = PurchaseSchema.parse({ ...CreatePurchaseSchema.parse(req.body ?? {}), id: randomUUID() });
+      } catch (validationError) {
+        handlePurchaseValidationError(res, validationError);
+        return;
+      }
+
+      if (!(await repositories.teas.get(purchase.teaId))) {
+        logger.warn(`Purchase creation failed - tea not found: id ${purchase.teaId}`);
+        res.status(404).json({ error: 'Tea not found' });
+        return;
+      }
+
+      await repositories.purchases.create(purchase);
+      logger.info(`Purchase created - id: ${purchase.id}, tea: ${purchase.teaId}, ${purchase.grams}g for ${purchase.price} ${purchase.currency}`);
+      res.status(201).json(purchase);
+    } catch (error) {
+      logger.error(`Unexpected error in POST /api/purchases: ${error instanceof Error ? error.message : String(error)}`);
+      res.status(500).json({ error: 'An unexpected error occurred while saving purchase', details: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  router.patch('/:id', async (req, res) => {
+    try {
+      const { id } = req.params;
+
+      let updates;
+      try {
+        updates = UpdatePurchaseSchema.parse(req.body ?? {});
+      } catch (validationError) {
+        handlePurchaseValidationError(res, validationError);
+        return;
+      }
+
+      let updated;
+      try {
+        updated = await repositories.purchases.update(id, purchase => PurchaseSchema.parse({ ...purchase, ...updates }));
+      } catch (validationError) {
+        handlePurchaseValidationError(res, validationError);
+        return;
+      }
+
+      if (!updated) {
+        res.status(404).json({ error: 'Purchase not found' });
+        return;
+      }
+
+      logger.info(`Purchase updated - id: ${id}`);
+      res.json(updated);
+    } catch (error) {
+      logger.error(`Unexpected error in PATCH /api/purchases/:id: ${error instanceof Error ? error.message : String(error)}`);
+      res.status(500).json({ error: 'An unexpected error occurred while updating purchase', details: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  router.delete('/:id', async (req, res) => {
+    try {
+      const { id } = req.params;
+
+      if (!(await repositories.purchases.delete(id))) {
+        logger.warn(`Delete failed - purchase not found: id ${id}`);
+        res.status(404).json({ error: 'Purchase not found' });
+        return;
+      }
+
+      logger.info(`Purchase deleted - id: ${id}`);
+      res.status(204).send();
+    } catch (error) {
+      logger.error(`Unexpected error in DELETE /api/purchases/:id: ${error instanceof Error ? error.message : String(error)}`);
+      res.status(500).json({ error: 'An unexpected error occurred while deleting purchase', details: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  return router;
+};
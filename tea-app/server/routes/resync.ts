@@ -0,0 +1,131 @@
+import express from 'express';
+import { z } from 'zod';
+
+import logger from '../logger';
+import { getTeaSyncChanges } from '../../shared/resync';
+import { TeaSyncEventSchema, TeaSyncRequestSchema } from '../../shared/types';
+import type { Tea, TeaSyncResult } from '../../shared/types';
+import { BATCH_IMPORT_CONCURRENCY, forEachWithConcurrency, importTea } from '../importer';
+import type { ImportOutcome } from '../importer';
+import type { Repositories } from '../repositories';
+
+type SyncOutcome =
+  | { ok: true; result: TeaSyncResult }
+  | Extract<ImportOutcome, { ok: false }>;
+
+// Scrapes the tea's website again and compares it with the tea as stored right now
+const checkTea = async (repositories: Repositories, tea: Tea, force: boolean): Promise<SyncOutcome> => {
+  const outcome = await importTea(repositories, tea.website, force);
+  if (!outcome.ok) {
+    return outcome;
+  }
+
+  // The tea may have been edited while its page was being fetched
+  const current = await repositories.teas.get(tea.id) ?? tea;
+  return {
+    ok: true,
+    result: { teaId: tea.id, changes: getTeaSyncChanges(current, outcome.tea), fetchedAt: outcome.tea.fetchedAt }
+  };
+};
+
+// Checking teas against their product pages, mounted at /api/teas.
+// Nothing is written here: the client applies the changes the user picks with PATCH /api/teas/:id.
+export const createResyncRouter = (repositories: Repositories): express.Router => {
+  const router = express.Router();
+
+  // Streams newline-delimited JSON: a TeaSyncEvent when each tea starts and when it finishes.
+  // Teas without a website are skipped; a failed tea does not stop the others.
+  router.post('/resync', async (req, res) => {
+    let request: z.infer<typeof TeaSyncRequestSchema>;
+    try {
+      request = TeaSyncRequestSchema.parse(req.body ?? {});
+    } catch (validationError) {
+      const details = validationError instanceof z.ZodError ? validationError.issues : 'Unknown validation error';
+      logger.warn(`Re-sync rejected - ${JSON.stringify(details)}`);
+      res.status(400).json({ error: 'Invalid re-sync request', details });
+      return;
+    }
+
+    let teas: Tea[];
+    try {
+      teas = (await repositories.teas.list())
+        .filter(tea => tea.website && (!request.teaIds || request.teaIds.includes(tea.id)));
+    } catch (error) {
+      logger.error(`Failed to read tea collection - ${error instanceof Error ? error.message : String(error)}`);
+      res.status(500).json({ error: 'Failed to read tea collection', details: error instanceof Error ? error.message : 'Unknown error' });
+      return;
+    }
+
+    const { force = false } = request;
+    logger.info(`Re-sync of ${teas.length} teas started`);
+    const startTime = Date.now();
+
+    // Stop checking teas once the client has gone away
+    let clientGone = false;
+    res.on('close', () => {
+      clientGone = !res.writableEnded;
+    });
+
+    res.status(200).type('application/x-ndjson');
+    res.flushHeaders();
+    const send = (event: z.input<typeof TeaSyncEventSchema>) => {
+      if (!clientGone) {
+        res.write(`${JSON.stringify(event)}\n`);
+      }
+    };
+
+    let changed = 0;
+    await forEachWithConcurrency(teas, BATCH_IMPORT_CONCURRENCY, async tea => {
+      if (clientGone) {
+        return;
+      }
+      send({ status: 'started', teaId: tea.id });
+
+      const outcome = await checkTea(repositories, tea, force);
+      if (outcome.ok) {
+        if (Object.keys(outcome.result.changes).length > 0) {
+          changed++;
+        }
+        send({ status: 'checked', ...outcome.result });
+      } else {
+        send({ status: 'failed', teaId: tea.id, error: outcome.details ? `${outcome.error}: ${outcome.details}` : outcome.error });
+      }
+    });
+
+    logger.info(`Re-sync finished: ${changed} of ${teas.length} teas have changes (${Date.now() - startTime}ms)${clientGone ? ', client disconnected' : ''}`);
+    res.end();
+  });
+
+  router.post('/:id/resync', async (req, res) => {
+    // `force` skips the scrape cache and fetches the page again
+    const force = req.body?.force === true;
+
+    let tea: Tea | undefined;
+    try {
+      tea = await repositories.teas.get(req.params.id);
+    } catch (error) {
+      logger.error(`Failed to read tea collection - ${error instanceof Error ? error.message : String(error)}`);
+      res.status(500).json({ error: 'Failed to read tea collection', details: error instanceof Error ? error.message : 'Unknown error' });
+      return;
+    }
+
+    if (!tea) {
+      res.status(404).json({ error: 'Tea not found' });
+      return;
+    }
+    if (!tea.website) {
+      res.status(400).json({ error: 'Tea has no website to re-sync from' });
+      return;
+    }
+
+    const outcome = await checkTea(repositories, tea, force);
+    if (outcome.ok) {
+      logger.info(`Re-sync of tea ${tea.id} found ${Object.keys(outcome.result.changes).length} changed fields`);
+      res.json(outcome.result);
+    } else {
+      res.status(outcome.status).json({ error: outcome.error, ...(outcome.details && { details: outcome.details }) });
+    }
+  });
+
+  return router;
+};
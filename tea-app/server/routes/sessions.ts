@@ -0,0 +1,160 @@
+import { randomUUID } from 'crypto';
+
+import express from 'express';
+import { z } from 'zod';
+
+import logger from '../logger';
+import { BrewSessionSchema, CreateBrewSessionSchema, UpdateBrewSessionSchema } from '../../shared/types';
+import type { BrewSession } from '../../shared/types';
+import { getStockGramsUsed, syncConsumption } from '../consumption';
+import type { Repositories } from '../repositories';
+
+const handleSessionValidationError = (res: express.Response, validationError: unknown): void => {
+  if (validationError instanceof z.ZodError) {
+    logger.warn(`Session validation failed - ${JSON.stringify(validationError.issues)}`);
+    res.status(400).json({ error: 'Invalid session data', details: validationError.issues });
+  } else {
+    logger.error(`Session validation failed - ${validationError instanceof Error ? validationError.message : String(validationError)}`);
+    res.status(400).json({ error: 'Failed to validate session data', details: validationError instanceof Error ? validationError.message : 'Unknown validation error' });
+  }
+};
+
+// Sessions are returned newest first
+const byStartDesc = (a: BrewSession, b: BrewSession) => b.startedAt - a.startedAt;
+
+// CRUD for brewing sessions, mounted at /api/sessions.
+// Sessions of a deleted tea are kept, so restoring the tea from a backup brings its history back.
+export const createSessionsRouter = (repositories: Repositories): express.Router => {
+  const router = express.Router();
+
+  router.get('/', async (req, res) => {
+    try {
+      const teaId = typeof req.query.teaId === 'string' ? req.query.teaId : undefined;
+      const sessions = (await repositories.sessions.list())
+        .filter(session => teaId === undefined || session.teaId === teaId)
+        .sort(byStartDesc);
+      res.json(sessions);
+    } catch (error) {
+      logger.error(`Failed to read brewing sessions - ${error instanceof Error ? error.message : String(error)}`);
+      res.status(500).json({ error: 'Failed to read brewing sessions', details: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  router.get('/:id', async (req, res) => {
+    try {
+      const session = await repositories.sessions.get(req.params.id);
+      if (!session) {
+        res.status(404).json({ error: 'Session not found' });
+        return;
+      }
+      res.json(session);
+    } catch (error) {
+      logger.error(`Failed to read brewing sessions - ${error instanceof Error ? error.message : String(error)}`);
+      res.status(500).json({ error: 'Failed to read brewing session', details: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  router.post('/', async (req, res) => {
+    try {
+      let session: BrewSession;
+      try {
+        session = BrewSessionSchema.parse({ ...CreateBrewSessionSchema.parse(req.body ?? {}), id: randomUUID() });
+      } catch (validationError) {
+        handleSessionValidationError(res, validationError);
+        return;
+      }
+
+      if (!(await repositories.teas.get(session.teaId))) {
+        logger.warn(`Session creation failed - tea not found: id ${session.teaId}`);
+        res.status(404).json({ error: 'Tea not found' });
+        return;
+      }
+
+      await repositories.sessions.create(session);
+      if (session.endedAt !== null) {
+        await syncConsumption(repositories, session.teaId, getStockGramsUsed(null, session));
+      }
+
+      logger.info(`Session created - id: ${session.id}, tea: ${session.teaId}, steeps: ${session.steeps.length}`);
+      res.status(201).json(session);
+    } catch (error) {
+      logger.error(`Unexpected error in POST /api/sessions: ${error instanceof Error ? error.message : String(error)}`);
+      res.status(500).json({ error: 'An unexpected error occurred while saving session', details: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  router.patch('/:id', async (req, res) => {
+    try {
+      const { id } = req.params;
+
+      let updates;
+      try {
+        updates = UpdateBrewSessionSchema.parse(req.body ?? {});
+      } catch (validationError) {
+        handleSessionValidationError(res, validationError);
+        return;
+      }
+
+      // The session as it was when the update applied: the same PATCH sent twice ends it only once
+      let previous: BrewSession | undefined;
+      let updated;
+      try {
+        updated = await repositories.sessions.update(id, session => {
+          previous = session;
+          return BrewSessionSchema.parse({ ...session, ...updates });
+        });
+      } catch (validationError) {
+        handleSessionValidationError(res, validationError);
+        return;
+      }
+
+      if (!updated || !previous) {
+        res.status(404).json({ error: 'Session not found' });
+        return;
+      }
+
+      // Ending or re-opening a session changes the tea's consumption count and stock
+      const stockGramsUsed = getStockGramsUsed(previous, updated);
+      if (previous.endedAt !== updated.endedAt || stockGramsUsed !== 0) {
+        await syncConsumption(repositories, updated.teaId, stockGramsUsed);
+      }
+
+      logger.info(`Session updated - id: ${id}`);
+      res.json(updated);
+    } catch (error) {
+      logger.error(`Unexpected error in PATCH /api/sessions/:id: ${error instanceof Error ? error.message : String(error)}`);
+      res.status(500).json({ error: 'An unexpected error occurred while updating session', details: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  router.delete('/:id', async (req, res) => {
+    try {
+      const { id } = req.params;
+
+      const session = await repositories.sessions.get(id);
+      if (!session || !(await repositories.sessions.delete(id))) {
+        logger.warn(`Delete failed - session not found: id ${id}`);
+        res.status(404).json({ error: 'Session not found' });
+        return;
+      }
+
+      if (session.endedAt !== null) {
+        await syncConsumption(repositories, session.teaId, getStockGramsUsed(session, null));
+      }
+
+      // Tasting notes written about the session stay on the tea
+      if ((await repositories.tastingNotes.list()).some(note => note.sessionId === id)) {
+        await repositories.tastingNotes.updateAll(notes =>
+          notes.map(note => (note.sessionId === id ? { ...note, sessionId: null } : note)));
+      }
+
+      logger.info(`Session deleted - id: ${id}`);
+      res.status(204).send();
+    } catch (error) {
+      logger.error(`Unexpected error in DELETE /api/sessions/:id: ${error instanceof Error ? error.message : String(error)}`);
+      res.status(500).json({ error: 'An unexpected error occurred while deleting session', details: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  return router;
+};
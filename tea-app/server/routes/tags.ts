@@ -0,0 +1,115 @@
+import express from 'express';
+import { z } from 'zod';
+
+import logger from '../logger';
+import { MergeTagsSchema, RenameTagSchema } from '../../shared/types';
+import type { Tea } from '../../shared/types';
+import { getTagCounts, isSameTag, replaceTags } from '../../shared/tags';
+import type { Repositories } from '../repositories';
+
+const handleTagValidationError = (res: express.Response, validationError: unknown): void => {
+  if (validationError instanceof z.ZodError) {
+    logger.warn(`Tag validation failed - ${JSON.stringify(validationError.issues)}`);
+    res.status(400).json({ error: 'Invalid tag data', details: validationError.issues });
+  } else {
+    logger.error(`Tag validation failed - ${validationError instanceof Error ? validationError.message : String(validationError)}`);
+    res.status(400).json({ error: 'Failed to validate tag data', details: validationError instanceof Error ? validationError.message : 'Unknown validation error' });
+  }
+};
+
+// Tag management across the whole collection, mounted at /api/tags. Tags live on the teas
+// themselves (see shared/tags.ts); a tea's own tags are changed with PATCH /api/teas/:id.
+export const createTagsRouter = (repositories: Repositories): express.Router => {
+  const router = express.Router();
+
+  // Swaps the `from` tags for `to` on every tea in a single write.
+  // Resolves to false, writing nothing, when no tea has any of the tags.
+  const retag = async (from: string[], to: string | null): Promise<boolean> => {
+    const hasTags = (tea: Tea) => (tea.tags ?? []).some(tag => from.some(f => isSameTag(tag, f)));
+    if (!(await repositories.teas.list()).some(hasTags)) {
+      return false;
+    }
+
+    await repositories.teas.updateAll(teas => teas.map(tea =>
+      hasTags(tea) ? { ...tea, tags: replaceTags(tea.tags ?? [], from, to) } : tea
+    ));
+    return true;
+  };
+
+  router.get('/', async (req, res) => {
+    try {
+      res.json(getTagCounts(await repositories.teas.list()));
+    } catch (error) {
+      logger.error(`Failed to read tags - ${error instanceof Error ? error.message : String(error)}`);
+      res.status(500).json({ error: 'Failed to read tags', details: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  router.post('/merge', async (req, res) => {
+    try {
+      let merge;
+      try {
+        merge = MergeTagsSchema.parse(req.body ?? {});
+      } catch (validationError) {
+        handleTagValidationError(res, validationError);
+        return;
+      }
+
+      if (!(await retag(merge.tags, merge.into))) {
+        res.status(404).json({ error: 'Tag not found' });
+        return;
+      }
+
+      logger.info(`Tags merged - ${merge.tags.map(tag => `"${tag}"`).join(', ')} into "${merge.into}"`);
+      res.json(getTagCounts(await repositories.teas.list()));
+    } catch (error) {
+      logger.error(`Unexpected error in POST /api/tags/merge: ${error instanceof Error ? error.message : String(error)}`);
+      res.status(500).json({ error: 'An unexpected error occurred while merging tags', details: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  router.patch('/:name', async (req, res) => {
+    try {
+      const { name } = req.params;
+
+      let rename;
+      try {
+        rename = RenameTagSchema.parse(req.body ?? {});
+      } catch (validationError) {
+        handleTagValidationError(res, validationError);
+        return;
+      }
+
+      if (!(await retag([name], rename.name))) {
+        res.status(404).json({ error: 'Tag not found' });
+        return;
+      }
+
+      logger.info(`Tag renamed - "${name}" to "${rename.name}"`);
+      res.json(getTagCounts(await repositories.teas.list()));
+    } catch (error) {
+      logger.error(`Unexpected error in PATCH /api/tags/:name: ${error instanceof Error ? error.message : String(error)}`);
+      res.status(500).json({ error: 'An unexpected error occurred while renaming tag', details: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  router.delete('/:name', async (req, res) => {
+    try {
+      const { name } = req.params;
+
+      if (!(await retag([name], null))) {
+        logger.warn(`Delete failed - tag not found: "${name}"`);
+        res.status(404).json({ error: 'Tag not found' });
+        return;
+      }
+
+      logger.info(`Tag deleted - "${name}"`);
+      res.status(204).send();
+    } catch (error) {
+      logger.error(`Unexpected error in DELETE /api/tags/:name: ${error instanceof Error ? error.message : String(error)}`);
+      res.status(500).json({ error: 'An unexpected error occurred while deleting tag', details: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  return router;
+};
@@ -0,0 +1,157 @@
+import { randomUUID } from 'crypto';
+
+import express from 'express';
+import { z } from 'zod';
+
+import logger from '../logger';
+import { CreateTastingNoteSchema, TastingNoteSchema, UpdateTastingNoteSchema } from '../../shared/types';
+import type { TastingNote } from '../../shared/types';
+import type { Repositories } from '../repositories';
+
+const handleTastingNoteValidationError = (res: express.Response, validationError: unknown): void => {
+  if (validationError instanceof z.ZodError) {
+    logger.warn(`Tasting note validation failed - ${JSON.stringify(validationError.issues)}`);
+    res.status(400).json({ error: 'Invalid tasting note data', details: validationError.issues });
+  } else {
+    logger.error(`Tasting note validation failed - ${validationError instanceof Error ? validationError.message : String(validationError)}`);
+    res.status(400).json({ error: 'Failed to validate tasting note data', details: validationError instanceof Error ? validationError.message : 'Unknown validation error' });
+  }
+};
+
+// Tasting notes are returned newest first
+const byCreatedDesc = (a: TastingNote, b: TastingNote) => b.createdAt - a.createdAt;
+
+// CRUD for tasting notes, mounted at /api/tasting-notes. A note's session must be one of its
+// tea's sessions; deleting the session keeps the note on the tea (see routes/sessions.ts).
+export const createTastingNotesRouter = (repositories: Repositories): express.Router => {
+  const router = express.Router();
+
+  const isSessionOfTea = async (sessionId: string, teaId: string): Promise<boolean> =>
+    (await repositories.sessions.get(sessionId))?.teaId === teaId;
+
+  router.get('/', async (req, res) => {
+    try {
+      const teaId = typeof req.query.teaId === 'string' ? req.query.teaId : undefined;
+      const sessionId = typeof req.query.sessionId === 'string' ? req.query.sessionId : undefined;
+      const notes = (await repositories.tastingNotes.list())
+        .filter(note => teaId === undefined || note.teaId === teaId)
+        .filter(note => sessionId === undefined || note.sessionId === sessionId)
+        .sort(byCreatedDesc);
+      res.json(notes);
+    } catch (error) {
+      logger.error(`Failed to read tasting notes - ${error instanceof Error ? error.message : String(error)}`);
+      res.status(500).json({ error: 'Failed to read tasting notes', details: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  router.get('/:id', async (req, res) => {
+    try {
+      const note = await repositories.tastingNotes.get(req.params.id);
+      if (!note) {
+        res.status(404).json({ error: 'Tasting note not found' });
+        return;
+      }
+      res.json(note);
+    } catch (error) {
+      logger.error(`Failed to read tasting notes - ${error instanceof Error ? error.message : String(error)}`);
+      res.status(500).json({ error: 'Failed to read tasting note', details: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  router.post('/', async (req, res) => {
+    try {
+      let note: TastingNote;
+      try {
+        note = TastingNoteSchema.parse({ ...CreateTastingNoteSchema.parse(req.body ?? {}), id: randomUUID(), createdAt: Date.now() });
+      } catch (validationError) {
+        handleTastingNoteValidationError(res, validationError);
+        return;
+      }
+
+      if (!(await repositories.teas.get(note.teaId))) {
+        logger.warn(`Tasting note creation failed - tea not found: id ${note.teaId}`);
+        res.status(404).json({ error: 'Tea not found' });
+        return;
+      }
+
+      if (note.sessionId !== null && !(await isSessionOfTea(note.sessionId, note.teaId))) {
+        logger.warn(`Tasting note creation failed - session ${note.sessionId} not found for tea ${note.teaId}`);
+        res.status(404).json({ error: 'Session not found' });
+        return;
+      }
+
+      await repositories.tastingNotes.create(note);
+      logger.info(`Tasting note created - id: ${note.id}, tea: ${note.teaId}${note.sessionId ? `, session: ${note.sessionId}` : ''}`);
+      res.status(201).json(note);
+    } catch (error) {
+      logger.error(`Unexpected error in POST /api/tasting-notes: ${error instanceof Error ? error.message : String(error)}`);
+      res.status(500).json({ error: 'An unexpected error occurred while saving tasting note', details: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  router.patch('/:id', async (req, res) => {
+    try {
+      const { id } = req.params;
+
+      let updates;
+      try {
+        updates = UpdateTastingNoteSchema.parse(req.body ?? {});
+      } catch (validationError) {
+        handleTastingNoteValidationError(res, validationError);
+        return;
+      }
+
+      if (updates.sessionId) {
+        const current = await repositories.tastingNotes.get(id);
+        if (current && !(await isSessionOfTea(updates.sessionId, current.teaId))) {
+          res.status(404).json({ error: 'Session not found' });
+          return;
+        }
+      }
+
+      // Intensities are merged, so one slider can be changed on its own
+      let updated;
+      try {
+        updated = await repositories.tastingNotes.update(id, note => TastingNoteSchema.parse({
+          ...note,
+          ...updates,
+          intensities: { ...note.intensities, ...updates.intensities }
+        }));
+      } catch (validationError) {
+        handleTastingNoteValidationError(res, validationError);
+        return;
+      }
+
+      if (!updated) {
+        res.status(404).json({ error: 'Tasting note not found' });
+        return;
+      }
+
+      logger.info(`Tasting note updated - id: ${id}`);
+      res.json(updated);
+    } catch (error) {
+      logger.error(`Unexpected error in PATCH /api/tasting-notes/:id: ${error instanceof Error ? error.message : String(error)}`);
+      res.status(500).json({ error: 'An unexpected error occurred while updating tasting note', details: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  router.delete('/:id', async (req, res) => {
+    try {
+      const { id } = req.params;
+
+      if (!(await repositories.tastingNotes.delete(id))) {
+        logger.warn(`Delete failed - tasting note not found: id ${id}`);
+        res.status(404).json({ error: 'Tasting note not found' });
+        return;
+      }
+
+      logger.info(`Tasting note deleted - id: ${id}`);
+      res.status(204).send();
+    } catch (error) {
+      logger.error(`Unexpected error in DELETE /api/tasting-notes/:id: ${error instanceof Error ? error.message : String(error)}`);
+      res.status(500).json({ error: 'An unexpected error occurred while deleting tasting note', details: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  return router;
+};
@@ -0,0 +1,128 @@
+import { randomUUID } from 'crypto';
+
+import express from 'express';
+import { z } from 'zod';
+
+import logger from '../logger';
+import { CreateVendorSchema, UpdateVendorSchema, VendorSchema } from '../../shared/types';
+import type { Vendor } from '../../shared/types';
+import type { Repositories } from '../repositories';
+
+const handleVendorValidationError = (res: express.Response, validationError: unknown): void => {
+  if (validationError instanceof z.ZodError) {
+    logger.warn(`Vendor validation failed - ${JSON.stringify(validationError.issues)}`);
+    res.status(400).json({ error: 'Invalid vendor data', details: validationError.issues });
+  } else {
+    logger.error(`Vendor validation failed - ${validationError instanceof Error ? validationError.message : String(validationError)}`);
+    res.status(400).json({ error: 'Failed to validate vendor data', details: validationError instanceof Error ? validationError.message : 'Unknown validation error' });
+  }
+};
+
+// CRUD for vendors, mounted at /api/vendors. Vendors are listed by name.
+// Most are created by linking a tea's website (see ../vendors.ts); this is for editing their details.
+export const createVendorsRouter = (repositories: Repositories): express.Router => {
+  const router = express.Router();
+
+  router.get('/', async (req, res) => {
+    try {
+      const vendors = (await repositories.vendors.list()).sort((a, b) => a.name.localeCompare(b.name));
+      res.json(vendors);
+    } catch (error) {
+      logger.error(`Failed to read vendors - ${error instanceof Error ? error.message : String(error)}`);
+      res.status(500).json({ error: 'Failed to read vendors', details: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  router.get('/:id', async (req, res) => {
+    try {
+      const vendor = await repositories.vendors.get(req.params.id);
+      if (!vendor) {
+        res.status(404).json({ error: 'Vendor not found' });
+        return;
+      }
+      res.json(vendor);
+    } catch (error) {
+      logger.error(`Failed to read vendors - ${error instanceof Error ? error.message : String(error)}`);
+      res.status(500).json({ error: 'Failed to read vendor', details: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  router.post('/', async (req, res) => {
+    try {
+      let vendor: Vendor;
+      try {
+        vendor = VendorSchema.parse({ ...CreateVendorSchema.parse(req.body ?? {}), id: randomUUID() });
+      } catch (validationError) {
+        handleVendorValidationError(res, validationError);
+        return;
+      }
+
+      await repositories.vendors.create(vendor);
+      logger.info(`Vendor created - id: ${vendor.id}, name: "${vendor.name}"`);
+      res.status(201).json(vendor);
+    } catch (error) {
+      logger.error(`Unexpected error in POST /api/vendors: ${error instanceof Error ? error.message : String(error)}`);
+      res.status(500).json({ error: 'An unexpected error occurred while saving vendor', details: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  router.patch('/:id', async (req, res) => {
+    try {
+      const { id } = req.params;
+
+      let updates;
+      try {
+        updates = UpdateVendorSchema.parse(req.body ?? {});
+      } catch (validationError) {
+        handleVendorValidationError(res, validationError);
+        return;
+      }
+
+      let updated;
+      try {
+        updated = await repositories.vendors.update(id, vendor => VendorSchema.parse({ ...vendor, ...updates }));
+      } catch (validationError) {
+        handleVendorValidationError(res, validationError);
+        return;
+      }
+
+      if (!updated) {
+        res.status(404).json({ error: 'Vendor not found' });
+        return;
+      }
+
+      logger.info(`Vendor updated - id: ${id}, name: "${updated.name}"`);
+      res.json(updated);
+    } catch (error) {
+      logger.error(`Unexpected error in PATCH /api/vendors/:id: ${error instanceof Error ? error.message : String(error)}`);
+      res.status(500).json({ error: 'An unexpected error occurred while updating vendor', details: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  // A vendor that still has teas is kept: the teas would be linked to a new one on the next save
+  router.delete('/:id', async (req, res) => {
+    try {
+      const { id } = req.params;
+
+      const teaCount = (await repositories.teas.list()).filter(tea => tea.vendorId === id).length;
+      if (teaCount > 0) {
+        res.status(409).json({ error: 'Vendor still has teas', details: `${teaCount} teas are linked to this vendor` });
+        return;
+      }
+
+      if (!(await repositories.vendors.delete(id))) {
+        logger.warn(`Delete failed - vendor not found: id ${id}`);
+        res.status(404).json({ error: 'Vendor not found' });
+        return;
+      }
+
+      logger.info(`Vendor deleted - id: ${id}`);
+      res.status(204).send();
+    } catch (error) {
+      logger.error(`Unexpected error in DELETE /api/vendors/:id: ${error instanceof Error ? error.message : String(error)}`);
+      res.status(500).json({ error: 'An unexpected error occurred while deleting vendor', details: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  return router;
+};
@@ -0,0 +1,258 @@
+import type { CheerioAPI } from 'cheerio';
+
+import type { BrewingProfile, CaffeineLevel, Pressing } from '../../shared/types';
+import { parseTemperatureCelsius, parseWaterMl } from '../../shared/brewing';
+import { findTeaType } from '../../shared/teaTypes';
+
+// Text helpers shared by the vendor adapters
+
+type BrewingParameters = Omit<BrewingProfile, 'method'>;
+
+export const EMPTY_BREWING_PARAMETERS: BrewingParameters = {
+  steepTimes: [],
+  temperatureCelsius: null,
+  leafGrams: null,
+  waterMl: null
+};
+
+// Body text of the page, cut off before reviews and product recommendations so
+// caffeine and type keywords from other teas are not picked up
+export const getPageText = ($: CheerioAPI): string => {
+  const bodyText = $('body').text();
+  const reviewPatterns = [
+    /customers?\s+who\s+viewed/i,
+    /customer\s+reviews?/i,
+    /related\s+products?/i,
+    /you\s+may\s+also\s+like/i,
+    /recently\s+viewed/i
+  ];
+
+  let cutoffIndex = bodyText.length;
+  for (const pattern of reviewPatterns) {
+    const match = bodyText.search(pattern);
+    if (match !== -1 && match < cutoffIndex) {
+      cutoffIndex = match;
+    }
+  }
+  return bodyText.substring(0, cutoffIndex);
+};
+
+export const getMetaContent = ($: CheerioAPI, property: string): string =>
+  $(`meta[property="${property}"]`).attr('content')?.trim() ?? '';
+
+// "//cdn.example/a.jpg" or "/img/a.jpg" -> an absolute URL on the page's host; empty if it cannot be resolved
+export const resolvePageUrl = (src: string, pageUrl: string): string => {
+  if (!src) {
+    return '';
+  }
+  try {
+    return new URL(src, pageUrl).href;
+  } catch {
+    return '';
+  }
+};
+
+// "$1,299.00" -> 1299; null if there is no number
+export const parsePrice = (value: string): number | null => {
+  const price = parseFloat(value.replace(/[^\d.]/g, ''));
+  return isNaN(price) ? null : price;
+};
+
+// Vendors show prices with a symbol; "$" is taken as US dollars, which all the adapted shops charge in
+const CURRENCY_SYMBOLS: Record<string, string> = { '$': 'USD', '€': 'EUR', '£': 'GBP' };
+
+// "$9.90" -> { price: 9.9, currency: 'USD' }, "18.00 EUR" -> { price: 18, currency: 'EUR' }
+export const parsePriceText = (text: string): { price: number | null; currency: string } => {
+  const code = text.match(/\b[A-Z]{3}\b/)?.[0];
+  const symbol = Object.keys(CURRENCY_SYMBOLS).find(key => text.includes(key));
+  return {
+    price: parsePrice(text),
+    currency: code ?? (symbol ? CURRENCY_SYMBOLS[symbol] : '')
+  };
+};
+
+// Grams per unit, keyed by unit name and UN/CEFACT code (as used by schema.org QuantitativeValue)
+const GRAMS_PER_UNIT: Record<string, number> = {
+  g: 1, gram: 1, grams: 1, grm: 1,
+  kg: 1000, kgm: 1000,
+  oz: 28.35, ounce: 28.35, ounces: 28.35, onz: 28.35,
+  lb: 453.6, lbs: 453.6, lbr: 453.6
+};
+
+// 2, "oz" -> 56.7; null for an unknown unit
+export const toGrams = (value: number, unit: string): number | null => {
+  const gramsPerUnit = GRAMS_PER_UNIT[unit.toLowerCase()];
+  return gramsPerUnit === undefined ? null : Math.round(value * gramsPerUnit * 10) / 10;
+};
+
+const WEIGHT_PATTERN = String.raw`(\d+(?:\.\d+)?)\s*(kg|g|grams?|oz|ounces?|lbs?)\b`;
+const PACKAGE_WORDS = String.raw`(?:cakes?|bings?|bricks?|tuos?|bags?|pouch(?:es)?|tins?|box(?:es)?|jars?|samples?|packs?|packages?|packets?)`;
+
+// The first weight in the text, e.g. "2023 Impression 357g" -> 357; null if there is none
+export const parseWeightGrams = (text: string): number | null => {
+  const match = text.match(new RegExp(WEIGHT_PATTERN, 'i'));
+  return match ? toGrams(parseFloat(match[1]), match[2]) : null;
+};
+
+// The size a tea is sold in, from text like "A 200g cake", "357 grams cake", "Sold in 50g and 100g bags"
+// (the first size) or "Net weight: 2 oz". Other weights, such as the leaf for one brew, are skipped.
+export const parsePackageGrams = (text: string): number | null => {
+  const packaged = text.match(new RegExp(String.raw`${WEIGHT_PATTERN}(?:\s*(?:,|and|or|\/)\s*\d+(?:\.\d+)?\s*[a-z]*)*[\s-]+${PACKAGE_WORDS}\b`, 'i'));
+  if (packaged) {
+    return parseWeightGrams(packaged[0]);
+  }
+  const labelled = text.match(new RegExp(String.raw`(?:net\s+)?weight\s*:?\s*${WEIGHT_PATTERN}`, 'i'));
+  return labelled ? parseWeightGrams(labelled[0]) : null;
+};
+
+// Parses the "Steeps: rinse, 20s, 25s, ..." (or "3 minutes") text of a brewing table cell into seconds
+export const parseSteepTimes = (cellText: string): number[] => {
+  const colonIndex = cellText.toLowerCase().indexOf('steeps:');
+  const afterColon = colonIndex !== -1 ? cellText.substring(colonIndex + 7) : cellText;
+  const firstLine = afterColon.split('\n')[0].trim();
+  const numberSequence = firstLine.replace(/^[a-z]+\s*,\s*/i, '');
+  const matches = numberSequence.matchAll(/(\d+)\s*(min|s)/gi);
+
+  return Array.from(matches)
+    .map(match => parseInt(match[1]) * (match[2].toLowerCase() === 'min' ? 60 : 1))
+    .filter(num => !isNaN(num) && num >= 3 && num <= 999)
+    .sort((a, b) => a - b);
+};
+
+// The first tea type named in the given texts, checked in order (most specific text first).
+// Empty when none is found.
+export const detectTeaType = (...texts: string[]): string => {
+  for (const text of texts) {
+    const found = findTeaType(text);
+    if (found) {
+      return found;
+    }
+  }
+  return '';
+};
+
+// Checked in order: a "tuo" or "brick" name is more telling than the "cake" its description may mention
+const PRESSING_PATTERNS: Array<[Pressing, RegExp]> = [
+  ['Tuo', /\btuo(?:cha|s)?\b/i],
+  ['Brick', /\bbricks?\b|\bzhuan\b/i],
+  ['Cake', /\bcakes?\b|\bbing(?:\s*cha)?\b/i],
+  ['Loose', /\bloose(?:[\s-]+leaf)?\b|\bmao\s*cha\b/i]
+];
+
+const YEAR_PATTERN = String.raw`(19[5-9]\d|20\d\d)`;
+
+// A labelled line such as "Origin: Fuding, Fujian, China", without the label
+const getLabelledValue = (text: string, labels: string): string => {
+  const match = text.match(new RegExp(String.raw`(?:^|\n|\.)\s*(?:${labels})\s*:\s*([^\n]+)`, 'i'));
+  return match ? match[1].trim().replace(/\s+/g, ' ').replace(/\.$/, '').substring(0, 200) : '';
+};
+
+// "2019 Menghai 7542" names usually start with the year; descriptions label it ("Harvest year: 2018",
+// "Pressed in March 2023"). Years still to come are not a harvest year.
+const parseHarvestYear = (name: string, text: string): number | null => {
+  const found = name.match(new RegExp(String.raw`(?<!\d)${YEAR_PATTERN}(?!\d)`))
+    ?? text.match(new RegExp(String.raw`\b(?:harvest(?:ed)?|production|produced|pressed|picked|vintage)\b[^\n\d]{0,40}${YEAR_PATTERN}(?!\d)`, 'i'));
+  const year = found ? parseInt(found[1]) : null;
+  return year !== null && year <= new Date().getFullYear() ? year : null;
+};
+
+// Origin and aging details of aged teas (pu-erh mostly) from the product name and description:
+// harvest or pressing year, growing region, factory and pressing format. Null where the page says nothing.
+export const extractAgingDetails = (name: string, text: string): {
+  harvestYear: number | null;
+  region: string | null;
+  factory: string | null;
+  pressing: Pressing | null;
+} => {
+  const factory = getLabelledValue(text, 'factory|producer|manufacturer')
+    || (`${name}\n${text}`.match(/\b((?:[A-Z][\w'-]*\s+){1,3}(?:Tea\s+)?Factory)\b/)?.[1] ?? '');
+  const pressing = PRESSING_PATTERNS.find(([, pattern]) => pattern.test(name))
+    ?? PRESSING_PATTERNS.find(([, pattern]) => pattern.test(text));
+
+  return {
+    harvestYear: parseHarvestYear(name, text),
+    region: getLabelledValue(text, 'region|origin|harvest\\s+area|growing\\s+area|area|mountain') || null,
+    factory: factory || null,
+    pressing: pressing?.[0] ?? null
+  };
+};
+
+const caffeineLevelOf = (caffeine: string): CaffeineLevel => {
+  const text = caffeine.toLowerCase();
+
+  // Check for "less than X%" pattern first (treat upper bound as the threshold)
+  const lessMatch = text.match(/less\s+than\s+(\d+)\s*%/);
+  if (lessMatch) {
+    const percentage = parseInt(lessMatch[1]);
+    if (percentage <= 10) return 'Low';
+    if (percentage <= 25) return 'Medium';
+    return 'High';
+  }
+
+  // Check for "about X%" or plain "X%" pattern
+  const percentMatch = text.match(/about\s+(\d+)\s*%|(\d+)\s*%/);
+  if (percentMatch) {
+    const percentage = parseInt(percentMatch[1] || percentMatch[2]);
+    if (percentage < 10) return 'Low';
+    if (percentage < 25) return 'Medium';
+    return 'High';
+  }
+  // Fallback to keyword matching
+  if (text.includes('high')) return 'High';
+  if (text.includes('low')) return 'Low';
+  if (text.includes('medium') || text.includes('moderate')) return 'Medium';
+  // Default to Low if no clear indicator
+  return 'Low';
+};
+
+// Caffeine description from the page text and the level it suggests
+export const extractCaffeine = (text: string): { caffeine: string; caffeineLevel: CaffeineLevel } => {
+  const caffeinePatterns = [
+    // Pattern 1: "Low/Medium/High caffeine" with optional description in parentheses
+    /((?:low|medium|high|very low|very high)\s+caffeine[^.\n]*(?:\([^)]*\))?)/i,
+    // Pattern 2: "Caffeine:" or "Caffeine content:" followed by descriptive text
+    /caffeine(?:\s+content)?[:\s]*([^\n]*?(?:low|medium|high|less|more|very|\d+\s*mg|about|approx)(?:[^\n]*?)?)(?=\n|$|[.!?])/i,
+    // Pattern 3: mg-based patterns
+    /(\d+\s*-?\s*\d*\s*mg.*?caffeine|caffeine[:\s]*\d+\s*-?\s*\d*\s*mg)/i,
+    // Pattern 4: Just look for any line containing caffeine
+    /caffeine[^.\n]*/i
+  ];
+
+  let caffeine = '';
+  for (const pattern of caffeinePatterns) {
+    const match = text.match(pattern);
+    if (match) {
+      let found = match[0] || match[1] || '';
+      found = found.replace(/\s+/g, ' ').trim();
+      found = found.replace(/^caffeine\s+/i, '').trim();
+      if (found.length > 0 && found.length < 200) {
+        caffeine = found;
+        break;
+      }
+    }
+  }
+
+  return { caffeine, caffeineLevel: caffeineLevelOf(caffeine) };
+};
+
+// The brewing instructions paragraph of a free-text product description, so leaf amounts
+// are not confused with the size of the cake or bag. Empty when there is none.
+export const getBrewingSection = (text: string): string => {
+  const start = text.search(/brew(?:ing)?\s+(?:instructions?|guide(?:lines)?|suggestions?|tips|parameters)/i);
+  return start === -1 ? '' : text.substring(start, start + 600);
+};
+
+// Reads free-text instructions such as "Use 7 grams in 100ml of 95°C water. Steeps: 10s, 15s, 20s"
+export const parseBrewingText = (text: string): BrewingParameters => {
+  const lines = text.split(/\n|\.\s/);
+  const steepLine = lines.find(line => /steep/i.test(line) && /\d+\s*(?:s\b|sec|min)/i.test(line));
+  const grams = text.match(/(\d+(?:\.\d+)?)\s*(?:g|grams?)\b/i);
+  const celsius = parseTemperatureCelsius(text);
+
+  return {
+    steepTimes: steepLine ? parseSteepTimes(steepLine) : [],
+    temperatureCelsius: celsius !== null && celsius <= 100 ? celsius : null,
+    leafGrams: grams ? parseFloat(grams[1]) : null,
+    waterMl: parseWaterMl(text)
+  };
+};
@@ -0,0 +1,61 @@
+import { fetchPublicPage, isResponseTooLargeError } from '../ssrf';
+import type { FetchedPage } from './types';
+
+// Limits for downloading product pages. The server runs on a Pi under a 500MB memory limit,
+// so oversized responses are aborted while streaming instead of being loaded into cheerio.
+export interface FetchLimits {
+  timeoutMs: number;
+  maxBytes: number;
+}
+
+export const DEFAULT_FETCH_LIMITS: FetchLimits = {
+  timeoutMs: parseInt(process.env.SCRAPE_TIMEOUT_MS || '15000', 10),
+  maxBytes: parseInt(process.env.SCRAPE_MAX_BYTES || String(5 * 1024 * 1024), 10)
+};
+
+const HTML_CONTENT_TYPES = ['text/html', 'application/xhtml+xml'];
+
+// Errors for pages that were fetched but cannot be scraped carry this code, so the route
+// can answer 400 rather than 500
+const UNSUPPORTED_PAGE_CODE = 'ERR_UNSUPPORTED_PAGE';
+
+const unsupportedPageError = (message: string): NodeJS.ErrnoException =>
+  Object.assign(new Error(message), { code: UNSUPPORTED_PAGE_CODE });
+
+export const isUnsupportedPageError = (error: unknown): error is Error =>
+  error instanceof Error && (error as NodeJS.ErrnoException).code === UNSUPPORTED_PAGE_CODE;
+
+// "text/html; charset=utf-8" -> "text/html"; a missing header is taken as HTML
+export const isHtmlContentType = (contentType: string): boolean => {
+  const mediaType = contentType.split(';')[0].trim().toLowerCase();
+  return mediaType === '' || HTML_CONTENT_TYPES.includes(mediaType);
+};
+
+// Downloads a product page within the limits, rejecting anything that is not HTML
+// from its headers, before the body is downloaded
+export const fetchProductPage = async (
+  url: string,
+  headers: Record<string, string>,
+  limits: FetchLimits = DEFAULT_FETCH_LIMITS
+): Promise<FetchedPage> => {
+  let page: Awaited<ReturnType<typeof fetchPublicPage>>;
+  try {
+    page = await fetchPublicPage(url, {
+      headers,
+      timeout: limits.timeoutMs,
+      maxBytes: limits.maxBytes,
+      checkContentType: contentType => {
+        if (!isHtmlContentType(contentType)) {
+          throw unsupportedPageError(`URL does not point to a web page (${contentType})`);
+        }
+      }
+    });
+  } catch (error) {
+    if (isResponseTooLargeError(error)) {
+      throw unsupportedPageError(`Page is larger than the ${Math.round(limits.maxBytes / 1024)} KB limit`);
+    }
+    throw error;
+  }
+
+  return { url: page.url, html: page.data, contentType: page.contentType, fetchedAt: Date.now() };
+};
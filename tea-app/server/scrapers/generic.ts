@@ -0,0 +1,47 @@
+import {
+  detectTeaType,
+  extractAgingDetails,
+  extractCaffeine,
+  getBrewingSection,
+  getMetaContent,
+  getPageText,
+  parseBrewingText,
+  parsePackageGrams,
+  parseWeightGrams
+} from './common';
+import type { ScraperAdapter } from './types';
+
+// Fallback for shops without an adapter. Most shops publish their products as schema.org
+// structured data, so name, image and description come from the listing; brewing instructions
+// and caffeine are looked for in the description before the rest of the page text, and so is the
+// package size when the structured data has no weight. The vendor is the site's name.
+
+export const genericAdapter: ScraperAdapter = {
+  name: 'Generic',
+  hostnames: [],
+
+  scrape: ($, { url, listing }) => {
+    const name = listing.name || $('h1').first().text().trim() || $('title').text().trim();
+    const image = listing.image || $('main img, article img').first().attr('src') || '';
+    const bodyText = getPageText($);
+
+    const brewing = parseBrewingText(getBrewingSection(listing.description) || getBrewingSection(bodyText));
+    // Descriptions often list steep times without a "brewing instructions" heading
+    const steepTimes = brewing.steepTimes.length > 0 ? brewing.steepTimes : parseBrewingText(listing.description).steepTimes;
+    const descriptionCaffeine = extractCaffeine(listing.description);
+
+    return {
+      name,
+      type: detectTeaType(listing.category, name, listing.description),
+      image,
+      ...brewing,
+      steepTimes,
+      ...(descriptionCaffeine.caffeine ? descriptionCaffeine : extractCaffeine(bodyText)),
+      ...extractAgingDetails(name, listing.description || bodyText),
+      offer: {
+        vendor: getMetaContent($, 'og:site_name') || new URL(url).hostname.replace(/^www\./, ''),
+        packageGrams: parseWeightGrams(name) ?? parsePackageGrams(listing.description) ?? parsePackageGrams(bodyText)
+      }
+    };
+  }
+};
@@ -0,0 +1,98 @@
+import * as cheerio from 'cheerio';
+
+import { resolvePageUrl } from './common';
+import { genericAdapter } from './generic';
+import { readProductListing } from './structuredData';
+import { teavivreAdapter } from './teavivre';
+import { white2teaAdapter } from './white2tea';
+import { yunnanSourcingAdapter } from './yunnanSourcing';
+import { createStageTimer } from './timing';
+import type { StageTimer } from './timing';
+import type { ScrapedTea, ScraperAdapter, ScraperRegistry } from './types';
+
+export type { FetchedPage, ScrapedPage, ScrapedTea, ScraperAdapter, ScraperRegistry } from './types';
+export { DEFAULT_FETCH_LIMITS, fetchProductPage, isHtmlContentType, isUnsupportedPageError } from './fetch';
+export type { FetchLimits } from './fetch';
+export { createStageTimer, formatServerTiming, formatTimings } from './timing';
+export type { StageTimer } from './timing';
+export { genericAdapter } from './generic';
+export { extractAgingDetails, parsePackageGrams } from './common';
+export { readProductListing } from './structuredData';
+export { teavivreAdapter } from './teavivre';
+export { white2teaAdapter } from './white2tea';
+export { yunnanSourcingAdapter } from './yunnanSourcing';
+
+// Vendors with their own adapter; every other shop is read by the generic adapter
+export const SCRAPER_ADAPTERS: ScraperAdapter[] = [teavivreAdapter, yunnanSourcingAdapter, white2teaAdapter];
+
+const DEFAULT_HEADERS: Record<string, string> = {
+  'User-Agent': 'Mozilla/5.0 (compatible; TeaTimer/1.0)',
+  'Accept': 'text/html,application/xhtml+xml,*/*;q=0.8',
+  'Accept-Encoding': 'gzip, deflate, br'
+};
+
+export const createScraperRegistry = (adapters: ScraperAdapter[], fallback: ScraperAdapter): ScraperRegistry => {
+  const byHostname = new Map<string, ScraperAdapter>();
+  for (const adapter of adapters) {
+    for (const hostname of adapter.hostnames) {
+      byHostname.set(hostname.toLowerCase(), adapter);
+    }
+  }
+
+  return {
+    getAdapter: (url) => {
+      // www.teavivre.com -> teavivre.com -> com
+      let hostname = new URL(url).hostname.toLowerCase();
+      while (hostname) {
+        const adapter = byHostname.get(hostname);
+        if (adapter) {
+          return adapter;
+        }
+        const dotIndex = hostname.indexOf('.');
+        hostname = dotIndex === -1 ? '' : hostname.substring(dotIndex + 1);
+      }
+      return fallback;
+    }
+  };
+};
+
+export const scraperRegistry = createScraperRegistry(SCRAPER_ADAPTERS, genericAdapter);
+
+export const getRequestHeaders = (adapter: ScraperAdapter): Record<string, string> => ({
+  ...DEFAULT_HEADERS,
+  ...adapter.headers
+});
+
+// Reads a fetched product page with the given adapter, timing the parse and scrape stages
+export const scrapeTeaPage = (
+  adapter: ScraperAdapter,
+  html: string,
+  url: string,
+  timer: StageTimer = createStageTimer()
+): ScrapedTea => {
+  const { $, listing } = timer.measure('parse', () => {
+    const $ = cheerio.load(html);
+    // JSON-LD lives in <script> tags, so it is read first
+    const listing = readProductListing($, url);
+
+    // Remove scripts and styles for cleaner text extraction
+    $('script').remove();
+    $('style').remove();
+    return { $, listing };
+  });
+
+  const { offer, ...tea } = timer.measure('scrape', () => adapter.scrape($, { url, listing }));
+  return {
+    ...tea,
+    // Adapters fall back to <img src> attributes, which may be relative to the page
+    image: resolvePageUrl(tea.image, url),
+    listing,
+    // Structured data first, it is what the shop publishes for search engines
+    offer: {
+      vendor: offer?.vendor || adapter.name,
+      price: listing.price ?? offer?.price ?? null,
+      currency: listing.currency || offer?.currency || '',
+      packageGrams: listing.packageGrams ?? offer?.packageGrams ?? null
+    }
+  };
+};
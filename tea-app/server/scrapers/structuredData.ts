@@ -0,0 +1,172 @@
+import type { CheerioAPI } from 'cheerio';
+
+import type { ProductListing } from '../../shared/types';
+import { getMetaContent, parsePrice, parseWeightGrams, resolvePageUrl, toGrams } from './common';
+
+// Reads the schema.org Product a shop publishes for search engines: JSON-LD first, then
+// microdata, then OpenGraph tags, field by field. Must run before <script> tags are removed.
+// Image URLs are resolved against the page URL, since shops often publish them protocol- or root-relative.
+
+type ListingSource = Partial<ProductListing>;
+type JsonObject = Record<string, unknown>;
+
+const EMPTY_LISTING: ProductListing = {
+  name: '',
+  image: '',
+  description: '',
+  category: '',
+  price: null,
+  currency: '',
+  brand: '',
+  availability: '',
+  packageGrams: null
+};
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asText = (value: unknown): string =>
+  typeof value === 'string' ? value.trim() : typeof value === 'number' ? String(value) : '';
+
+// "https://schema.org/InStock" -> "InStock"
+const parseAvailability = (value: string): string => value.replace(/^https?:\/\/schema\.org\//i, '');
+
+// Descriptions may carry HTML markup and entities; block ends become line breaks for the text heuristics
+const toPlainText = ($: CheerioAPI, value: string): string =>
+  $('<div>').html(value.replace(/<\/(?:p|div|li|h\d)>|<br\s*\/?>/gi, '$&\n')).text().trim();
+
+// Flattens arrays and @graph containers into a list of JSON-LD nodes
+const collectNodes = (value: unknown): JsonObject[] => {
+  if (Array.isArray(value)) {
+    return value.flatMap(collectNodes);
+  }
+  if (!isObject(value)) {
+    return [];
+  }
+  return [value, ...collectNodes(value['@graph'])];
+};
+
+const isProductNode = (node: JsonObject): boolean => {
+  const type = node['@type'];
+  const types = Array.isArray(type) ? type : [type];
+  return types.includes('Product') || types.includes('ProductGroup');
+};
+
+// A URL string, an ImageObject or a list of either
+const imageUrlOf = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return value.length > 0 ? imageUrlOf(value[0]) : '';
+  }
+  return isObject(value) ? asText(value.url) || asText(value.contentUrl) : asText(value);
+};
+
+// A plain name or a Brand/Organization object
+const nameOf = (value: unknown): string => (isObject(value) ? asText(value.name) : asText(value));
+
+// A QuantitativeValue ({ value: 50, unitCode: "GRM" }) or text such as "50 g"
+const gramsOf = (value: unknown): number | null => {
+  if (!isObject(value)) {
+    return parseWeightGrams(asText(value));
+  }
+  const amount = parseFloat(asText(value.value));
+  return isNaN(amount) ? null : toGrams(amount, asText(value.unitCode) || asText(value.unitText));
+};
+
+const readJsonLd = ($: CheerioAPI): ListingSource => {
+  const nodes = $('script[type="application/ld+json"]').toArray().flatMap(el => {
+    try {
+      return collectNodes(JSON.parse($(el).text()));
+    } catch {
+      // Malformed JSON-LD is common; the other sources still apply
+      return [];
+    }
+  });
+
+  const product = nodes.find(isProductNode);
+  if (!product) {
+    return {};
+  }
+
+  const offers = Array.isArray(product.offers) ? product.offers[0] : product.offers;
+  const offer = isObject(offers) ? offers : {};
+  const priceSpecification = isObject(offer.priceSpecification) ? offer.priceSpecification : {};
+  const price = asText(offer.price) || asText(offer.lowPrice) || asText(priceSpecification.price);
+
+  return {
+    name: asText(product.name),
+    image: imageUrlOf(product.image),
+    description: toPlainText($, asText(product.description)),
+    category: nameOf(product.category),
+    price: parsePrice(price),
+    currency: asText(offer.priceCurrency) || asText(priceSpecification.priceCurrency),
+    brand: nameOf(product.brand),
+    availability: parseAvailability(asText(offer.availability)),
+    packageGrams: gramsOf(product.weight)
+  };
+};
+
+const readMicrodata = ($: CheerioAPI): ListingSource => {
+  const product = $('[itemscope][itemtype*="schema.org/Product"]').first();
+  if (product.length === 0) {
+    return {};
+  }
+
+  // `ownProperty` skips properties of nested items (the brand's name is not the product's name),
+  // offer properties are read from anywhere inside the product
+  const valueOf = (property: string, ownProperty = true): string => {
+    const element = product
+      .find(`[itemprop="${property}"]`)
+      .filter((_, el) => !ownProperty || $(el).parent().closest('[itemscope]').is(product))
+      .first();
+    if (element.length === 0) {
+      return '';
+    }
+    if (element.is('[itemscope]')) {
+      return element.find('[itemprop="name"]').first().text().trim() || element.text().trim();
+    }
+    return (element.attr('content') ?? element.attr('src') ?? element.attr('href') ?? element.text()).trim();
+  };
+
+  return {
+    name: valueOf('name'),
+    image: valueOf('image'),
+    description: valueOf('description'),
+    category: valueOf('category'),
+    price: parsePrice(valueOf('price', false)),
+    currency: valueOf('priceCurrency', false),
+    brand: valueOf('brand'),
+    availability: parseAvailability(valueOf('availability', false)),
+    packageGrams: parseWeightGrams(valueOf('weight'))
+  };
+};
+
+const readOpenGraph = ($: CheerioAPI): ListingSource => ({
+  name: getMetaContent($, 'og:title'),
+  image: getMetaContent($, 'og:image'),
+  description: getMetaContent($, 'og:description'),
+  price: parsePrice(getMetaContent($, 'product:price:amount') || getMetaContent($, 'og:price:amount')),
+  currency: getMetaContent($, 'product:price:currency') || getMetaContent($, 'og:price:currency'),
+  brand: getMetaContent($, 'product:brand'),
+  availability: parseAvailability(getMetaContent($, 'product:availability') || getMetaContent($, 'og:availability')),
+  packageGrams: parseWeightGrams(`${getMetaContent($, 'product:weight:value')} ${getMetaContent($, 'product:weight:units')}`)
+});
+
+export const readProductListing = ($: CheerioAPI, pageUrl: string): ProductListing => {
+  const sources = [readJsonLd($), readMicrodata($), readOpenGraph($)];
+  const pick = <K extends keyof ProductListing>(key: K): ProductListing[K] => {
+    const found = sources.map(source => source[key]).find(value => value !== undefined && value !== null && value !== '');
+    return found ?? EMPTY_LISTING[key];
+  };
+
+  return {
+    name: pick('name'),
+    image: resolvePageUrl(pick('image'), pageUrl),
+    description: pick('description'),
+    category: pick('category'),
+    price: pick('price'),
+    currency: pick('currency'),
+    brand: pick('brand'),
+    availability: pick('availability'),
+    packageGrams: pick('packageGrams')
+  };
+};
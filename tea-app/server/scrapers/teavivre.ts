@@ -0,0 +1,124 @@
+import type { CheerioAPI } from 'cheerio';
+
+import type { BrewingMethod, BrewingProfile } from '../../shared/types';
+import { parseTeaWeightGrams, parseTemperatureCelsius, parseWaterMl } from '../../shared/brewing';
+import { detectTeaType, extractAgingDetails, extractCaffeine, getMetaContent, getPageText, parsePackageGrams, parsePriceText, parseSteepTimes } from './common';
+import type { ScraperAdapter } from './types';
+
+// teavivre.com (Magento): "Categories" info block and a two-column "Recommended Brewing" table,
+// one column per brewing method
+
+// Reads one method's column of the two-column "Recommended Brewing" table
+const parseBrewingColumn = (cells: string[], offset: number): Omit<BrewingProfile, 'method'> => {
+  const column = cells.filter((_, i) => i % 2 === offset).map(text => text.trim());
+  const steepsCell = column.find(text => text.toLowerCase().includes('steeps:'))
+    ?? column.find(text => /\d+\s*min/i.test(text));
+  const temperatureCell = column.filter(text => /\d+\s*℉\s*\/\s*\d+\s*℃/.test(text)).pop();
+  const weightCell = column.filter(text => /\d+\s*g\s*(?:tea)?/i.test(text)).pop();
+  const waterCell = column.filter(text => /\d+\s*ml/i.test(text)).pop();
+
+  return {
+    steepTimes: steepsCell ? parseSteepTimes(steepsCell) : [],
+    temperatureCelsius: temperatureCell ? parseTemperatureCelsius(temperatureCell) : null,
+    leafGrams: weightCell ? parseTeaWeightGrams(weightCell) : null,
+    waterMl: waterCell ? parseWaterMl(waterCell) : null
+  };
+};
+
+// Cell texts of the table following the "Recommended Brewing" heading; empty if there is none
+const getBrewingTableCells = ($: CheerioAPI): string[] => {
+  let cells: string[] = [];
+
+  $('.product-description-title').each((_, el) => {
+    const text = $(el).text();
+    if (text.includes('Recommend') && text.includes('Brew')) {
+      let sibling = $(el).next();
+      while (sibling.length) {
+        if (sibling.is('table')) {
+          cells = $('td', sibling).toArray().map(td => $(td).text());
+          return false; // break loop
+        }
+        sibling = sibling.next();
+      }
+    }
+  });
+
+  return cells;
+};
+
+const parseBrewingProfiles = (cells: string[]): BrewingProfile[] => {
+  const brewingProfiles: BrewingProfile[] = [];
+  const columnOffsets = new Map<BrewingMethod, number>();
+
+  cells.forEach((text, i) => {
+    const lowerText = text.toLowerCase();
+    if (lowerText.includes('chinese gongfu') && !columnOffsets.has('Chinese Gongfu')) {
+      columnOffsets.set('Chinese Gongfu', i % 2);
+    } else if (lowerText.includes('western') && !columnOffsets.has('Western')) {
+      columnOffsets.set('Western', i % 2);
+    }
+  });
+
+  // The Gongfu column has always been the right-hand one; Western takes the other
+  const gongfuOffset = columnOffsets.get('Chinese Gongfu');
+  const westernOffset = columnOffsets.get('Western');
+  if (gongfuOffset === 1) {
+    brewingProfiles.push({ method: 'Chinese Gongfu', ...parseBrewingColumn(cells, gongfuOffset) });
+  }
+  if (westernOffset !== undefined && westernOffset !== gongfuOffset) {
+    brewingProfiles.push({ method: 'Western', ...parseBrewingColumn(cells, westernOffset) });
+  }
+  return brewingProfiles;
+};
+
+export const teavivreAdapter: ScraperAdapter = {
+  name: 'Teavivre',
+  hostnames: ['teavivre.com'],
+  // Their storefront rejects requests without these
+  headers: {
+    'User-Agent': 'PostmanRuntime/7.39.1',
+    'Accept': '*/*',
+    'Cache-Control': 'no-cache',
+    'Postman-Token': '7259037a-7c85-4205-9cbe-d76d2d2f0f8e'
+  },
+
+  scrape: ($) => {
+    const name = $('h1.page-title').text().trim() || $('h1').first().text().trim() || '';
+    const image = getMetaContent($, 'og:image') || $('.gallery-placeholder__image').attr('src') || '';
+    const bodyText = getPageText($);
+
+    const categoriesText = $('.info-title')
+      .filter((_, el) => $(el).text().includes('Categories'))
+      .map((_, el) => $(el).parent().text())
+      .get()
+      .join(' ');
+    const type = detectTeaType(categoriesText, name);
+
+    const cells = getBrewingTableCells($);
+    const brewingProfiles = parseBrewingProfiles(cells);
+
+    // Top-level fields mirror the first profile, falling back to the first steeps row found
+    const primaryProfile = brewingProfiles[0];
+    const firstSteepsCell = cells.find(text => text.toLowerCase().includes('steeps:'));
+    const steepTimes = primaryProfile && primaryProfile.steepTimes.length > 0
+      ? primaryProfile.steepTimes
+      : firstSteepsCell ? parseSteepTimes(firstSteepsCell) : [];
+
+    return {
+      name,
+      type,
+      image,
+      steepTimes,
+      ...extractCaffeine(bodyText),
+      temperatureCelsius: primaryProfile?.temperatureCelsius ?? null,
+      leafGrams: primaryProfile?.leafGrams ?? null,
+      waterMl: primaryProfile?.waterMl ?? null,
+      ...(brewingProfiles.length > 0 && { brewingProfiles }),
+      ...extractAgingDetails(name, bodyText),
+      offer: {
+        ...parsePriceText($('.product-info-price .price').first().text()),
+        packageGrams: parsePackageGrams(bodyText)
+      }
+    };
+  }
+};
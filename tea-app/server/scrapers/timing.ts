@@ -0,0 +1,39 @@
+// Per-stage durations of an import (cache lookup, fetch, parse, scrape), for the log
+// and the Server-Timing response header
+
+export interface StageTimer {
+  // Runs a stage and records its duration; for a promise, once it settles
+  measure<T>(stage: string, run: () => T): T;
+  // Milliseconds per stage, in the order the stages ran
+  getTimings(): Record<string, number>;
+}
+
+export const createStageTimer = (): StageTimer => {
+  const timings: Record<string, number> = {};
+
+  return {
+    measure: (stage, run) => {
+      const start = performance.now();
+      const record = () => {
+        timings[stage] = Math.round(performance.now() - start);
+      };
+
+      const result = run();
+      if (result instanceof Promise) {
+        return result.finally(record) as typeof result;
+      }
+      record();
+      return result;
+    },
+
+    getTimings: () => ({ ...timings })
+  };
+};
+
+// "fetch;dur=812, parse;dur=35"
+export const formatServerTiming = (timings: Record<string, number>): string =>
+  Object.entries(timings).map(([stage, ms]) => `${stage};dur=${ms}`).join(', ');
+
+// "fetch 812ms, parse 35ms"
+export const formatTimings = (timings: Record<string, number>): string =>
+  Object.entries(timings).map(([stage, ms]) => `${stage} ${ms}ms`).join(', ');
@@ -0,0 +1,56 @@
+import type { CheerioAPI } from 'cheerio';
+
+import type { BrewingProfile, CaffeineLevel, Pressing, ProductListing, ProductOffer } from '../../shared/types';
+
+// Tea data read from a product page. `type` is the raw type name (normalized by the import route),
+// the brewing parameters mirror the first of `brewingProfiles` when the page has any.
+export interface ScrapedTea {
+  name: string;
+  type: string;
+  image: string;
+  steepTimes: number[];
+  caffeine: string;
+  caffeineLevel: CaffeineLevel;
+  temperatureCelsius: number | null;
+  leafGrams: number | null;
+  waterMl: number | null;
+  brewingProfiles?: BrewingProfile[];
+  // Origin and aging details, null where the page does not list them
+  harvestYear: number | null;
+  region: string | null;
+  factory: string | null;
+  pressing: Pressing | null;
+  // The page's structured product data, whichever adapter read it
+  listing: ProductListing;
+  // Price and package size for pre-filling a purchase
+  offer: ProductOffer;
+}
+
+// A product page as downloaded, before any scraping. `url` is the final URL after redirects.
+export interface FetchedPage {
+  url: string;
+  html: string;
+  contentType: string;
+  fetchedAt: number;
+}
+
+export interface ScrapedPage {
+  url: string;
+  listing: ProductListing;
+}
+
+// Reads one vendor's product page markup
+export interface ScraperAdapter {
+  name: string;
+  // Hostnames handled by this adapter; subdomains (www., shop.) match as well
+  hostnames: string[];
+  // Extra request headers, for vendors that turn away unknown clients
+  headers?: Record<string, string>;
+  // `offer` fills in what the listing lacks; the vendor defaults to the adapter's name
+  scrape($: CheerioAPI, page: ScrapedPage): Omit<ScrapedTea, 'listing' | 'offer'> & { offer?: Partial<ProductOffer> };
+}
+
+export interface ScraperRegistry {
+  // The adapter registered for the URL's hostname (or a parent domain of it), else the fallback
+  getAdapter(url: string): ScraperAdapter;
+}
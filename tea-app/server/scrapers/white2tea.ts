@@ -0,0 +1,41 @@
+import {
+  detectTeaType,
+  extractAgingDetails,
+  extractCaffeine,
+  getBrewingSection,
+  getMetaContent,
+  parseBrewingText,
+  parsePackageGrams,
+  parsePriceText,
+  parseWeightGrams
+} from './common';
+import type { ScraperAdapter } from './types';
+
+// white2tea.com (Shopify): product names rarely say what the tea is, so the type comes from the
+// Shopify product type or the description; brewing guidelines are a line of the description and
+// the cake size is mentioned in its first lines
+
+export const white2teaAdapter: ScraperAdapter = {
+  name: 'white2tea',
+  hostnames: ['white2tea.com'],
+
+  scrape: ($) => {
+    const name = $('h1.product-single__title').first().text().trim() || getMetaContent($, 'og:title');
+    const image = getMetaContent($, 'og:image') || $('.product-single__photo img').first().attr('src') || '';
+    const productType = $('.product-single__type').text();
+    const description = $('.product-single__description').text();
+
+    return {
+      name,
+      type: detectTeaType(productType, name, description),
+      image,
+      ...parseBrewingText(getBrewingSection(description)),
+      ...extractCaffeine(description),
+      ...extractAgingDetails(name, description),
+      offer: {
+        ...parsePriceText($('.product-single__price').first().text()),
+        packageGrams: parseWeightGrams(name) ?? parsePackageGrams(description)
+      }
+    };
+  }
+};
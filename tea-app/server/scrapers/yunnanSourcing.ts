@@ -0,0 +1,43 @@
+import {
+  detectTeaType,
+  extractAgingDetails,
+  extractCaffeine,
+  getBrewingSection,
+  getMetaContent,
+  getPageText,
+  parseBrewingText,
+  parsePackageGrams,
+  parsePriceText
+} from './common';
+import type { ScraperAdapter } from './types';
+
+// yunnansourcing.com (Shopify): the tea type is in the title ("Raw Pu-erh", "Dian Hong Black Tea")
+// or the collection links; brewing instructions are a paragraph of the product description.
+// Sizes are variants ("357 grams cake", "25 grams sample"), the first one is shown with its price.
+
+export const yunnanSourcingAdapter: ScraperAdapter = {
+  name: 'Yunnan Sourcing',
+  hostnames: ['yunnansourcing.com', 'yunnansourcing.us'],
+
+  scrape: ($) => {
+    const name = $('h1.product-title').first().text().trim()
+      || $('h1[itemprop="name"]').first().text().trim()
+      || getMetaContent($, 'og:title');
+    const image = getMetaContent($, 'og:image') || $('.product-single__photo img').first().attr('src') || '';
+    const description = $('.product-description').text() || $('[itemprop="description"]').text();
+    const collections = $('a[href*="/collections/"]').map((_, el) => $(el).text()).get().join('\n');
+
+    return {
+      name,
+      type: detectTeaType(name, collections),
+      image,
+      ...parseBrewingText(getBrewingSection(description)),
+      ...extractCaffeine(description || getPageText($)),
+      ...extractAgingDetails(name, description),
+      offer: {
+        ...parsePriceText($('.product-price').first().text()),
+        packageGrams: parsePackageGrams($('select[name="id"] option').first().text()) ?? parsePackageGrams(description)
+      }
+    };
+  }
+};
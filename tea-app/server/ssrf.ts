@@ -0,0 +1,304 @@
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import type { Readable } from 'stream';
+
+import axios from 'axios';
+
+// SSRF protection for the import scraper. Checking the URL text alone is not enough:
+// a public name can resolve to a LAN address and a redirect can point into the LAN,
+// so every hop is validated and sockets only connect to addresses checked at lookup time.
+
+// Loopback, private, link-local, carrier-grade NAT, multicast and reserved ranges.
+// IPv4-mapped IPv6 addresses (::ffff:10.0.0.1) are matched against the IPv4 rules. Other IPv6 forms
+// that carry an IPv4 address (IPv4-compatible, NAT64, 6to4, Teredo) can reach any IPv4 host through
+// a gateway, so they are blocked outright.
+const blockedRanges = new net.BlockList();
+([
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4]
+] as const).forEach(([address, prefix]) => blockedRanges.addSubnet(address, prefix, 'ipv4'));
+([
+  ['::', 96],
+  ['64:ff9b::', 96],
+  ['64:ff9b:1::', 48],
+  ['2001::', 32],
+  ['2002::', 16],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8]
+] as const).forEach(([address, prefix]) => blockedRanges.addSubnet(address, prefix, 'ipv6'));
+
+const MAX_REDIRECTS = 5;
+
+// Errors for blocked requests carry this code so the route can answer 400 rather than 500
+const BLOCKED_ERROR_CODE = 'ERR_SSRF_BLOCKED';
+
+const blockedError = (message: string): NodeJS.ErrnoException =>
+  Object.assign(new Error(message), { code: BLOCKED_ERROR_CODE });
+
+// Responses larger than FetchOptions.maxBytes are aborted with this code
+const TOO_LARGE_ERROR_CODE = 'ERR_RESPONSE_TOO_LARGE';
+
+export const isResponseTooLargeError = (error: unknown): error is Error =>
+  error instanceof Error && (error as NodeJS.ErrnoException).code === TOO_LARGE_ERROR_CODE;
+
+// True for errors raised by these checks, also when axios has wrapped them
+export const isBlockedRequestError = (error: unknown): error is Error => {
+  if (!(error instanceof Error)) {
+    return false;
+  }
+  const { code, cause } = error as NodeJS.ErrnoException & { cause?: unknown };
+  return code === BLOCKED_ERROR_CODE || isBlockedRequestError(cause);
+};
+
+// One part of a legacy IPv4 literal: decimal, 0x-prefixed hex or 0-prefixed octal
+const parseIPv4Part = (part: string): number => {
+  if (/^0x[0-9a-f]*$/i.test(part)) {
+    return part.length === 2 ? 0 : parseInt(part.substring(2), 16);
+  }
+  if (/^0[0-7]*$/.test(part)) {
+    return parseInt(part, 8);
+  }
+  return /^[1-9]\d*$/.test(part) ? parseInt(part, 10) : NaN;
+};
+
+// Dotted form of the IPv4 shorthands inet_aton accepts ("2130706433", "0x7f.1", "0177.0.0.1"),
+// which some resolvers and HTTP clients still connect to. Null when the host is not one.
+const parseLegacyIPv4 = (host: string): string | null => {
+  const parts = host.split('.');
+  if (parts.length > 4 || parts.some(part => part === '')) {
+    return null;
+  }
+
+  const numbers = parts.map(parseIPv4Part);
+  const last = numbers.pop() as number;
+  if (isNaN(last) || numbers.some(n => isNaN(n) || n > 255) || last >= 256 ** (4 - numbers.length)) {
+    return null;
+  }
+
+  const value = numbers.reduce((total, n, i) => total + n * 256 ** (3 - i), 0) + last;
+  return [value >>> 24, (value >>> 16) & 255, (value >>> 8) & 255, value & 255].join('.');
+};
+
+// Helper function to check if a hostname is a private/local IP address
+export const isPrivateIP = (hostname: string): boolean => {
+  // IPv6 hosts come bracketed from URL parsing; a trailing dot still names the same host
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, '').replace(/\.$/, '');
+
+  // Check for localhost and loopback aliases
+  if (host === 'localhost' || host === 'localhost.localdomain' || host.endsWith('.localhost')) {
+    return true;
+  }
+
+  if (net.isIPv6(host)) {
+    return blockedRanges.check(host, 'ipv6');
+  }
+
+  const ipv4 = net.isIPv4(host) ? host : parseLegacyIPv4(host);
+  return ipv4 !== null && blockedRanges.check(ipv4, 'ipv4');
+};
+
+// Helper function to validate the URL for SSRF attacks
+export const validateURLForSSRF = (url: string): { valid: boolean; error?: string } => {
+  // Check for empty URL
+  if (!url || typeof url !== 'string' || url.trim() === '') {
+    return { valid: false, error: 'URL cannot be empty' };
+  }
+
+  try {
+    const parsed = new URL(url);
+
+    // Check protocol - only allow http and https
+    if (!['http:', 'https:'].includes(parsed.protocol)) {
+      return { valid: false, error: 'Only HTTP/HTTPS URLs are allowed' };
+    }
+
+    // Check for empty hostname
+    if (!parsed.hostname) {
+      return { valid: false, error: 'Invalid URL format: missing hostname' };
+    }
+
+    // Check for private/local IP addresses
+    if (isPrivateIP(parsed.hostname)) {
+      return { valid: false, error: 'Cannot scrape private/local URLs' };
+    }
+
+    return { valid: true };
+  } catch {
+    return { valid: false, error: 'Invalid URL format' };
+  }
+};
+
+export type HostResolver = (hostname: string) => Promise<dns.LookupAddress[]>;
+
+const systemResolver: HostResolver = hostname => dns.promises.lookup(hostname, { all: true, verbatim: true });
+
+// Resolves a hostname, rejecting it if any of its addresses is private
+export const resolvePublicAddresses = async (
+  hostname: string,
+  resolve: HostResolver = systemResolver
+): Promise<dns.LookupAddress[]> => {
+  const addresses = await resolve(hostname);
+  if (addresses.length === 0) {
+    throw new Error(`No addresses found for ${hostname}`);
+  }
+
+  const privateAddress = addresses.find(({ address }) => isPrivateIP(address));
+  if (privateAddress) {
+    throw blockedError(`Cannot scrape private/local URLs: ${hostname} resolves to ${privateAddress.address}`);
+  }
+  return addresses;
+};
+
+// Socket lookup for the scraper's agents: the connection goes to the addresses checked here,
+// so a second DNS answer (DNS rebinding) cannot swap in a private one
+export const createPinnedLookup = (resolve: HostResolver = systemResolver): net.LookupFunction =>
+  (hostname, options, callback) => {
+    resolvePublicAddresses(hostname, resolve).then(
+      addresses => {
+        if (options.all) {
+          callback(null, addresses);
+        } else {
+          callback(null, addresses[0].address, addresses[0].family);
+        }
+      },
+      (error: NodeJS.ErrnoException) => callback(error, '')
+    );
+  };
+
+// The absolute URL a redirect points to, validated like the URL the user entered
+export const getRedirectTarget = (
+  currentUrl: string,
+  location: string | undefined
+): { valid: boolean; url?: string; error?: string } => {
+  if (!location) {
+    return { valid: false, error: 'Redirect without a Location header' };
+  }
+
+  let target: string;
+  try {
+    target = new URL(location, currentUrl).toString();
+  } catch {
+    return { valid: false, error: 'Invalid redirect URL' };
+  }
+
+  const validation = validateURLForSSRF(target);
+  return validation.valid ? { valid: true, url: target } : { valid: false, error: `Redirect blocked: ${validation.error}` };
+};
+
+interface FetchOptions {
+  headers: Record<string, string>;
+  // Deadline in ms for the whole request: every redirect hop and the body download
+  timeout?: number;
+  // Response size limit in bytes; the download is aborted once it is exceeded
+  maxBytes?: number;
+  // Called with the final response's Content-Type before its body is read; throwing discards the body
+  checkContentType?: (contentType: string) => void;
+  resolve?: HostResolver;
+}
+
+// Reads a response body, aborting once it grows past maxBytes (-1 for no limit)
+const readBody = (stream: Readable, maxBytes: number): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    stream.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (maxBytes >= 0 && size > maxBytes) {
+        stream.destroy(Object.assign(new Error(`Response is larger than ${maxBytes} bytes`), { code: TOO_LARGE_ERROR_CODE }));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    stream.on('end', () => resolve(Buffer.concat(chunks)));
+    stream.on('error', reject);
+  });
+
+// Fetches a URL that already passed validateURLForSSRF, following up to
+// MAX_REDIRECTS redirects itself so each hop is checked before it is requested
+const fetchPublic = async (
+  url: string,
+  { headers, timeout = 30000, maxBytes = -1, checkContentType, resolve = systemResolver }: FetchOptions
+): Promise<{ url: string; data: Buffer; contentType: string }> => {
+  const lookup = createPinnedLookup(resolve);
+  const httpAgent = new http.Agent({ lookup });
+  const httpsAgent = new https.Agent({ lookup });
+  // A per-request timeout would restart on every redirect and every received chunk,
+  // so a slow drip of hops or bytes could hold the request open indefinitely
+  const deadline = new AbortController();
+  const deadlineTimer = setTimeout(() => deadline.abort(), timeout);
+
+  try {
+    let currentUrl = url;
+    for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+      const response = await axios.get<Readable>(currentUrl, {
+        headers,
+        signal: deadline.signal,
+        // The pinned lookup only applies to Node's http adapter
+        adapter: 'http',
+        httpAgent,
+        httpsAgent,
+        // Proxies would do their own lookup, bypassing the pinned one
+        proxy: false,
+        maxRedirects: 0,
+        // Streamed, so the headers are checked before any of the body is downloaded
+        responseType: 'stream',
+        validateStatus: status => status >= 200 && status < 400
+      });
+
+      if (response.status < 300) {
+        const contentType = String(response.headers['content-type'] ?? '');
+        try {
+          checkContentType?.(contentType);
+        } catch (error) {
+          response.data.destroy();
+          throw error;
+        }
+        const abortBody = () => response.data.destroy(new Error('canceled'));
+        deadline.signal.addEventListener('abort', abortBody);
+        try {
+          return { url: currentUrl, data: await readBody(response.data, maxBytes), contentType };
+        } finally {
+          deadline.signal.removeEventListener('abort', abortBody);
+        }
+      }
+
+      response.data.destroy();
+      const redirect = getRedirectTarget(currentUrl, response.headers.location as string | undefined);
+      if (!redirect.valid || !redirect.url) {
+        throw blockedError(redirect.error ?? 'Redirect blocked');
+      }
+      currentUrl = redirect.url;
+    }
+    throw new Error(`Too many redirects (more than ${MAX_REDIRECTS})`);
+  } catch (error) {
+    if (deadline.signal.aborted) {
+      throw new Error(`Request timed out after ${timeout} ms`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(deadlineTimer);
+    httpAgent.destroy();
+    httpsAgent.destroy();
+  }
+};
+
+// Fetches a web page as text
+export const fetchPublicPage = async (url: string, options: FetchOptions) => {
+  const page = await fetchPublic(url, options);
+  return { ...page, data: page.data.toString('utf8') };
+};
+
+// Fetches a binary file such as a product image
+export const fetchPublicFile = (url: string, options: FetchOptions) => fetchPublic(url, options);
@@ -0,0 +1,6 @@
+import { resolveTeaType } from '../shared/teaTypes';
+
+// Normalize tea type to canonical form (handles variations like "pu-er", "Hei Cha", "tisane")
+export const normalizeTeaType = (type: string): string =>
+  // Returned as-is if not recognized (will fail validation with helpful error message)
+  resolveTeaType(type) ?? type;
@@ -0,0 +1,92 @@
+import { randomUUID } from 'crypto';
+
+import logger from './logger';
+import { findVendorForUrl, getVendorHostname } from '../shared/vendors';
+import type { Tea, Vendor } from '../shared/types';
+import { createMutex } from './repositories/mutex';
+import type { Repositories } from './repositories';
+import { genericAdapter, scraperRegistry } from './scrapers';
+
+// Teas are linked to the vendor whose homepage is on the same host as the tea's website.
+// Vendors are created the first time a tea from a new shop is saved, named after the scraper
+// adapter for the shops that have one and after the hostname otherwise.
+
+// Lookups and creation run one at a time so teas saved together (a batch import) share one new vendor
+const linkMutex = createMutex();
+
+const createVendorForUrl = (url: string, hostname: string): Vendor => {
+  const adapter = scraperRegistry.getAdapter(url);
+  const { protocol, host } = new URL(url);
+  return {
+    id: randomUUID(),
+    name: adapter === genericAdapter ? hostname : adapter.name,
+    homepage: `${protocol}//${host}/`,
+    country: '',
+    notes: ''
+  };
+};
+
+// Calls `write` with the vendor id for a tea's website, undefined for teas without an http(s) website.
+// A new vendor is only created once `write` has saved the tea, i.e. resolved to something other than
+// undefined, so a write that fails leaves no vendor behind.
+export const writeWithVendor = <T>(
+  repositories: Repositories,
+  website: string,
+  write: (vendorId: string | undefined) => Promise<T | undefined>
+): Promise<T | undefined> =>
+  linkMutex.runExclusive(async () => {
+    const hostname = getVendorHostname(website);
+    if (hostname === null) {
+      return write(undefined);
+    }
+
+    const existing = findVendorForUrl(await repositories.vendors.list(), website);
+    if (existing) {
+      return write(existing.id);
+    }
+
+    const vendor = createVendorForUrl(website, hostname);
+    const written = await write(vendor.id);
+    if (written !== undefined) {
+      await repositories.vendors.create(vendor);
+      logger.info(`Vendor created - id: ${vendor.id}, name: "${vendor.name}"`);
+    }
+    return written;
+  });
+
+// Resolves to the vendor id for a tea's website, creating the vendor if needed.
+// undefined for teas without an http(s) website.
+export const linkVendor = (repositories: Repositories, website: string): Promise<string | undefined> =>
+  writeWithVendor(repositories, website, async vendorId => vendorId);
+
+// Links the teas saved before vendors existed; run once at startup
+export const linkTeaVendors = async (repositories: Repositories): Promise<number> => {
+  const teas = await repositories.teas.list();
+  const vendorIds = new Map<string, string>();
+  for (const tea of teas) {
+    if (tea.vendorId === undefined && tea.website) {
+      const vendorId = await linkVendor(repositories, tea.website);
+      if (vendorId !== undefined) {
+        vendorIds.set(tea.id, vendorId);
+      }
+    }
+  }
+
+  if (vendorIds.size > 0) {
+    await repositories.teas.replaceAll(teas.map((tea): Tea => {
+      const vendorId = vendorIds.get(tea.id);
+      return vendorId === undefined ? tea : { ...tea, vendorId };
+    }));
+  }
+  return vendorIds.size;
+};
+
+// Sets or clears a tea's vendor
+export const withVendorId = (tea: Tea, vendorId: string | undefined): Tea => {
+  if (vendorId !== undefined) {
+    return { ...tea, vendorId };
+  }
+  const unlinked = { ...tea };
+  delete unlinked.vendorId;
+  return unlinked;
+};
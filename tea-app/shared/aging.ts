@@ -0,0 +1,16 @@
+import type { Tea } from './types';
+
+// Age of a tea counted in calendar years since its harvest year: a 2019 tea is 7 in 2026.
+// null when the harvest year is unknown.
+export const getTeaAge = (tea: Pick<Tea, 'harvestYear'>, now: number = Date.now()): number | null =>
+  tea.harvestYear === null || tea.harvestYear === undefined ? null : Math.max(0, new Date(now).getFullYear() - tea.harvestYear);
+
+// Oldest or youngest vintage first; teas without a harvest year sort last either way
+export const compareVintage = (a: Pick<Tea, 'harvestYear'>, b: Pick<Tea, 'harvestYear'>, order: 'oldest' | 'youngest'): number => {
+  const yearA = a.harvestYear ?? null;
+  const yearB = b.harvestYear ?? null;
+  if (yearA === null || yearB === null) {
+    return (yearA === null ? 1 : 0) - (yearB === null ? 1 : 0);
+  }
+  return order === 'oldest' ? yearA - yearB : yearB - yearA;
+};
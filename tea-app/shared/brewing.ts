@@ -0,0 +1,78 @@
+import type { BrewingProfile, Tea } from './types';
+
+export const celsiusToFahrenheit = (celsius: number): number => Math.round(celsius * 9 / 5 + 32);
+
+export const fahrenheitToCelsius = (fahrenheit: number): number => Math.round((fahrenheit - 32) * 5 / 9);
+
+// Helpers for reading numbers out of free-text brewing instructions (scraped pages, legacy data)
+
+// "5g Tea" -> 5, "2.5 g" -> 2.5; null if no gram amount is found
+export const parseTeaWeightGrams = (teaWeight: string): number | null => {
+  const match = teaWeight.match(/(\d+(?:\.\d+)?)\s*g\b/i);
+  return match ? parseFloat(match[1]) : null;
+};
+
+// "185℉ / 85℃" -> 85, "90°C" -> 90, "195F" -> 91; null if no temperature is found
+export const parseTemperatureCelsius = (temperature: string): number | null => {
+  const celsius = temperature.match(/(\d+(?:\.\d+)?)\s*(?:℃|°\s*C\b|C\b)/i);
+  if (celsius) {
+    return parseFloat(celsius[1]);
+  }
+
+  const fahrenheit = temperature.match(/(\d+(?:\.\d+)?)\s*(?:℉|°\s*F\b|F\b)/i);
+  if (fahrenheit) {
+    return fahrenheitToCelsius(parseFloat(fahrenheit[1]));
+  }
+
+  return null;
+};
+
+// "110ml Gaiwan" -> 110; null if no volume is found
+export const parseWaterMl = (text: string): number | null => {
+  const match = text.match(/(\d+(?:\.\d+)?)\s*ml\b/i);
+  return match ? parseFloat(match[1]) : null;
+};
+
+type ProfileFields = Pick<Tea, 'steepTimes' | 'temperatureCelsius' | 'leafGrams' | 'waterMl' | 'brewingProfiles'>;
+
+// A tea's profiles; teas saved before profiles existed get a Gongfu profile from their top-level fields
+export const getBrewingProfiles = (tea: ProfileFields): BrewingProfile[] =>
+  tea.brewingProfiles && tea.brewingProfiles.length > 0
+    ? tea.brewingProfiles
+    : [{
+        method: 'Chinese Gongfu',
+        steepTimes: tea.steepTimes,
+        temperatureCelsius: tea.temperatureCelsius,
+        leafGrams: tea.leafGrams,
+        waterMl: tea.waterMl
+      }];
+
+// Copies the first profile into the top-level fields (after the profiles were replaced)
+export const mirrorPrimaryProfile = <T extends ProfileFields>(tea: T): T => {
+  const primary = tea.brewingProfiles?.[0];
+  if (!primary) {
+    return tea;
+  }
+  return {
+    ...tea,
+    steepTimes: primary.steepTimes,
+    temperatureCelsius: primary.temperatureCelsius,
+    leafGrams: primary.leafGrams,
+    waterMl: primary.waterMl
+  };
+};
+
+// Copies the top-level fields into the first profile (after only the top-level fields were changed)
+export const updatePrimaryProfile = <T extends ProfileFields>(tea: T): T => {
+  if (!tea.brewingProfiles || tea.brewingProfiles.length === 0) {
+    return tea;
+  }
+  const [primary, ...others] = tea.brewingProfiles;
+  return {
+    ...tea,
+    brewingProfiles: [
+      { ...primary, steepTimes: tea.steepTimes, temperatureCelsius: tea.temperatureCelsius, leafGrams: tea.leafGrams, waterMl: tea.waterMl },
+      ...others
+    ]
+  };
+};
@@ -1,7 +1,63 @@
 // Shared constants for tea application
 
-export const TEA_TYPES = ['Green', 'Black', 'PuEr', 'Yellow', 'White', 'Oolong'] as const;
+// Tea type taxonomy: every type a tea can have, with the other names product pages and hand-edited
+// files use for it. A type with a parent is a kind of that type, and filtering by the parent includes it.
+// A new type only needs an entry here; aliases are matched ignoring case, spaces, hyphens and apostrophes.
+export const TEA_TAXONOMY = [
+  { name: 'Green', aliases: ['green tea', 'lu cha', 'long jing', 'dragon well'] },
+  { name: 'Black', aliases: ['black tea', 'hong cha', 'red tea', 'dian hong'] },
+  { name: 'PuEr', aliases: ['pu-er', 'pu-erh', 'pu-er tea', 'pu-erh tea'] },
+  { name: 'Sheng', parent: 'PuEr', aliases: ['sheng pu-er', 'sheng pu-erh', 'raw pu-er', 'raw pu-erh', 'sheng cha'] },
+  { name: 'Shou', parent: 'PuEr', aliases: ['shou pu-er', 'shou pu-erh', 'shu pu-erh', 'ripe pu-er', 'ripe pu-erh', 'shou cha'] },
+  { name: 'Yellow', aliases: ['yellow tea', 'huang cha'] },
+  { name: 'White', aliases: ['white tea', 'bai cha', 'shou mei', 'bai mu dan', 'white peony', 'silver needle'] },
+  { name: 'Oolong', aliases: ['oolong tea', 'wulong', 'dan cong', 'yan cha', 'tie guan yin'] },
+  { name: 'Dark', aliases: ['dark tea', 'hei cha', 'liu bao', 'fu zhuan', 'fu brick', 'liu an'] },
+  { name: 'Herbal', aliases: ['herbal tea', 'tisane', 'rooibos', 'chamomile', 'peppermint', 'hibiscus'] },
+  { name: 'Blend', aliases: ['blended tea', 'flavored tea', 'flavoured tea', 'masala chai', 'chai'] },
+  { name: 'Jasmine', parent: 'Blend', aliases: ['jasmine tea', 'jasmine pearls'] },
+  { name: 'Earl Grey', parent: 'Blend', aliases: ['earl gray', 'lady grey'] }
+] as const;
+
+export const TEA_TYPES = TEA_TAXONOMY.map(teaType => teaType.name) as [
+  typeof TEA_TAXONOMY[number]['name'],
+  ...typeof TEA_TAXONOMY[number]['name'][]
+];
 
 export const CAFFEINE_LEVELS = ['None', 'Low', 'Medium', 'High'] as const;
 
+// How a tea is sold: pressed into a cake (bing), brick or tuo, or as loose leaf
+export const PRESSING_FORMATS = ['Cake', 'Brick', 'Tuo', 'Loose'] as const;
+
 export const BREWING_METHODS = ['Chinese Gongfu', 'Western'] as const;
+
+// Most product URLs accepted by one batch import
+export const MAX_BATCH_IMPORT_URLS = 50;
+
+// Longest tag a tea can be labelled with
+export const MAX_TAG_LENGTH = 40;
+
+// Built-in flavor wheel: descriptors grouped by their family. Tasting notes pick descriptors;
+// the family is what a tea's flavor profile is summarised by.
+export const FLAVOR_WHEEL = {
+  Floral: ['orchid', 'jasmine', 'rose', 'osmanthus', 'honeysuckle', 'lilac'],
+  Fruity: ['stone fruit', 'citrus', 'berry', 'tropical', 'apple', 'dried fruit'],
+  Sweet: ['honey', 'caramel', 'malt', 'brown sugar', 'vanilla'],
+  Vegetal: ['grassy', 'spinach', 'seaweed', 'bamboo', 'green bean', 'hay'],
+  Nutty: ['chestnut', 'almond', 'toasted rice', 'sesame'],
+  Roasted: ['charcoal', 'toast', 'coffee', 'cocoa', 'roasted grain'],
+  Earthy: ['wet earth', 'forest floor', 'mushroom', 'leather', 'wood'],
+  Spicy: ['cinnamon', 'pepper', 'clove', 'camphor'],
+  Mineral: ['wet stone', 'saline', 'flint'],
+  Smoky: ['pine smoke', 'tobacco', 'campfire']
+} as const;
+
+export const FLAVOR_CATEGORIES = Object.keys(FLAVOR_WHEEL) as (keyof typeof FLAVOR_WHEEL)[];
+
+export const FLAVOR_DESCRIPTORS = Object.values(FLAVOR_WHEEL).flat() as [
+  typeof FLAVOR_WHEEL[keyof typeof FLAVOR_WHEEL][number],
+  ...typeof FLAVOR_WHEEL[keyof typeof FLAVOR_WHEEL][number][]
+];
+
+// Intensities a tasting note can score from 1 (faint) to 5 (intense)
+export const TASTING_INTENSITIES = ['body', 'astringency', 'sweetness', 'aroma'] as const;
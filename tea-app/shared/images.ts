@@ -0,0 +1,16 @@
+// Tea images are stored by the server and served from /api/images/:id. A tea's `image` is either
+// such a path or, for teas whose image could not be downloaded, the vendor's URL.
+
+export const IMAGE_URL_PREFIX = '/api/images/';
+
+export type ImageSize = 'full' | 'thumb';
+
+export const getImageUrl = (id: string): string => `${IMAGE_URL_PREFIX}${id}`;
+
+// The image id of a stored image's path, null for any other URL
+export const getStoredImageId = (image: string): string | null =>
+  image.startsWith(IMAGE_URL_PREFIX) ? image.substring(IMAGE_URL_PREFIX.length) : null;
+
+// Address of an image in the given size; vendor URLs only come in one size
+export const getImageSizeUrl = (image: string, size: ImageSize): string =>
+  size === 'thumb' && getStoredImageId(image) !== null ? `${image}?size=thumb` : image;
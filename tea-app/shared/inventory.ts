@@ -0,0 +1,16 @@
+import type { Tea } from './types';
+
+// A tracked tea is low on stock once it drops to its reorder threshold.
+// Without a threshold, that is when at most one session's worth of leaf (leafGrams) is left.
+export const isLowStock = (tea: Pick<Tea, 'stockGrams' | 'reorderThresholdGrams' | 'leafGrams'>): boolean => {
+  if (tea.stockGrams === null || tea.stockGrams === undefined) {
+    return false;
+  }
+
+  const threshold = tea.reorderThresholdGrams ?? tea.leafGrams;
+  return threshold === null ? tea.stockGrams === 0 : tea.stockGrams <= threshold;
+};
+
+// Subtracts grams from a stock amount, never going below zero
+export const deductStock = (stockGrams: number, grams: number): number =>
+  Math.max(0, Math.round((stockGrams - grams) * 10) / 10);
@@ -0,0 +1,30 @@
+import type { Purchase } from './types';
+
+// What a tea costs, worked out from its purchases
+export interface TeaCost {
+  currency: string;
+  // Total paid divided by the total grams bought
+  perGram: number;
+  // perGram times the leaf used for one session; null when the tea has no leaf amount
+  perSession: number | null;
+}
+
+// Averages every purchase made in the currency of the latest one. Purchases in other currencies are
+// left out, there are no exchange rates to convert them with. null when the tea has no purchases.
+export const getTeaCost = (purchases: Purchase[], leafGrams: number | null): TeaCost | null => {
+  if (purchases.length === 0) {
+    return null;
+  }
+
+  const latest = purchases.reduce((a, b) => (b.purchasedAt > a.purchasedAt ? b : a));
+  const counted = purchases.filter(purchase => purchase.currency === latest.currency);
+  const grams = counted.reduce((total, purchase) => total + purchase.grams, 0);
+  const price = counted.reduce((total, purchase) => total + purchase.price, 0);
+  const perGram = price / grams;
+
+  return {
+    currency: latest.currency,
+    perGram,
+    perSession: leafGrams === null ? null : perGram * leafGrams
+  };
+};
@@ -0,0 +1,50 @@
+import { diffTeaFields } from './teaDiff';
+import { isTeaType } from './teaTypes';
+import type { BrewingProfile, CaffeineLevel, Pressing, Tea, TeaSyncChanges } from './types';
+
+// Tea fields as the import scraper reads them from a product page.
+// The type may be one the scraper did not recognize, usually empty.
+export interface ScrapedTeaFields {
+  name: string;
+  type: string;
+  image: string;
+  steepTimes: number[];
+  caffeine: string;
+  caffeineLevel: CaffeineLevel;
+  temperatureCelsius: number | null;
+  leafGrams: number | null;
+  waterMl: number | null;
+  brewingProfiles?: BrewingProfile[] | undefined;
+  harvestYear: number | null;
+  region: string | null;
+  factory: string | null;
+  pressing: Pressing | null;
+}
+
+/**
+ * The changes a re-scraped product page suggests for a tea: the syncable fields the page has a value for
+ * and that differ from the stored ones. Whatever the page does not say (no steep times, an unknown type)
+ * keeps its stored value instead of being cleared.
+ */
+export const getTeaSyncChanges = (tea: Tea, scraped: ScrapedTeaFields): TeaSyncChanges => {
+  const name = scraped.name.trim();
+  const found: TeaSyncChanges = {
+    ...(name ? { name } : {}),
+    ...(isTeaType(scraped.type) ? { type: scraped.type } : {}),
+    ...(scraped.image ? { image: scraped.image } : {}),
+    ...(scraped.steepTimes.length > 0 ? { steepTimes: scraped.steepTimes } : {}),
+    // The level is derived from the caffeine text, so a page without that text says nothing about it
+    ...(scraped.caffeine ? { caffeine: scraped.caffeine, caffeineLevel: scraped.caffeineLevel } : {}),
+    ...(scraped.temperatureCelsius !== null ? { temperatureCelsius: scraped.temperatureCelsius } : {}),
+    ...(scraped.leafGrams !== null ? { leafGrams: scraped.leafGrams } : {}),
+    ...(scraped.waterMl !== null ? { waterMl: scraped.waterMl } : {}),
+    ...(scraped.brewingProfiles && scraped.brewingProfiles.length > 0 ? { brewingProfiles: scraped.brewingProfiles } : {}),
+    ...(scraped.harvestYear !== null ? { harvestYear: scraped.harvestYear } : {}),
+    ...(scraped.region ? { region: scraped.region } : {}),
+    ...(scraped.factory ? { factory: scraped.factory } : {}),
+    ...(scraped.pressing !== null ? { pressing: scraped.pressing } : {})
+  };
+
+  // A stored image is compared by the URL it was downloaded from
+  return diffTeaFields({ ...tea, image: tea.imageSourceUrl ?? tea.image }, found as Pick<Tea, keyof TeaSyncChanges>);
+};
@@ -0,0 +1,59 @@
+import type { TagCount, Tea } from './types';
+
+// Tags are free-form labels on a tea ("morning", "gift", "aged"). They are compared
+// case-insensitively, so "Smoky" and "smoky" are the same tag; the first spelling wins.
+
+const tagKey = (tag: string): string => tag.toLowerCase();
+
+export const isSameTag = (a: string, b: string): boolean => tagKey(a) === tagKey(b);
+
+// Trimmed, inner whitespace collapsed, without blanks or duplicates
+export const normalizeTags = (tags: string[]): string[] => {
+  const seen = new Set<string>();
+  const normalized: string[] = [];
+  for (const tag of tags.map(t => t.trim().replace(/\s+/g, ' '))) {
+    if (tag !== '' && !seen.has(tagKey(tag))) {
+      seen.add(tagKey(tag));
+      normalized.push(tag);
+    }
+  }
+  return normalized;
+};
+
+// Every tag in the collection with its number of teas, by name
+export const getTagCounts = (teas: Tea[]): TagCount[] => {
+  const counts = new Map<string, TagCount>();
+  for (const tag of teas.flatMap(tea => tea.tags ?? [])) {
+    const count = counts.get(tagKey(tag));
+    if (count) {
+      count.count++;
+    } else {
+      counts.set(tagKey(tag), { name: tag, count: 1 });
+    }
+  }
+  return [...counts.values()].sort((a, b) => a.name.localeCompare(b.name, undefined, { sensitivity: 'base' }));
+};
+
+// 'all': the tea has every selected tag (AND); 'any': at least one of them (OR)
+export type TagMatchMode = 'all' | 'any';
+
+// Always true when no tags are selected
+export const matchesTags = (tea: Tea, selectedTags: string[], mode: TagMatchMode): boolean => {
+  if (selectedTags.length === 0) {
+    return true;
+  }
+  const teaTags = new Set((tea.tags ?? []).map(tagKey));
+  return mode === 'all'
+    ? selectedTags.every(tag => teaTags.has(tagKey(tag)))
+    : selectedTags.some(tag => teaTags.has(tagKey(tag)));
+};
+
+// Replaces the `from` tags in a tea's tags with `to`, in the place of the first one - renaming
+// one tag or merging several. A null `to` removes them.
+export const replaceTags = (tags: string[], from: string[], to: string | null): string[] => {
+  const fromKeys = new Set(from.map(tagKey));
+  if (!tags.some(tag => fromKeys.has(tagKey(tag)))) {
+    return tags;
+  }
+  return normalizeTags(tags.flatMap(tag => (fromKeys.has(tagKey(tag)) ? (to === null ? [] : [to]) : [tag])));
+};
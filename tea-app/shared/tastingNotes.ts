@@ -0,0 +1,64 @@
+import { FLAVOR_CATEGORIES, FLAVOR_WHEEL, TASTING_INTENSITIES } from './constants';
+import type { FlavorDescriptor, TastingIntensities, TastingNote } from './types';
+
+export type FlavorCategory = keyof typeof FLAVOR_WHEEL;
+
+export const getFlavorCategory = (descriptor: FlavorDescriptor): FlavorCategory =>
+  FLAVOR_CATEGORIES.find(category => (FLAVOR_WHEEL[category] as readonly string[]).includes(descriptor)) as FlavorCategory;
+
+export interface FlavorCount<T> {
+  name: T;
+  // Notes that picked the descriptor (or a descriptor of the family)
+  count: number;
+}
+
+// What a tea's tasting notes say about it taken together
+export interface FlavorProfile {
+  noteCount: number;
+  // Most often picked first
+  flavors: FlavorCount<FlavorDescriptor>[];
+  categories: FlavorCount<FlavorCategory>[];
+  // Average over the notes that score each intensity; null when none does
+  intensities: TastingIntensities;
+}
+
+const byCountDesc = <T extends string>(counts: Map<T, number>): FlavorCount<T>[] =>
+  [...counts.entries()]
+    .map(([name, count]) => ({ name, count }))
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+
+// null when the tea has no tasting notes
+export const getFlavorProfile = (notes: TastingNote[]): FlavorProfile | null => {
+  if (notes.length === 0) {
+    return null;
+  }
+
+  const flavors = new Map<FlavorDescriptor, number>();
+  const categories = new Map<FlavorCategory, number>();
+  for (const note of notes) {
+    for (const flavor of new Set(note.flavors)) {
+      flavors.set(flavor, (flavors.get(flavor) ?? 0) + 1);
+    }
+    for (const category of new Set(note.flavors.map(getFlavorCategory))) {
+      categories.set(category, (categories.get(category) ?? 0) + 1);
+    }
+  }
+
+  const average = (values: number[]): number | null =>
+    values.length > 0 ? values.reduce((total, value) => total + value, 0) / values.length : null;
+  const intensities = Object.fromEntries(TASTING_INTENSITIES.map(intensity => [
+    intensity,
+    average(notes.map(note => note.intensities[intensity]).filter((value): value is number => value !== null))
+  ])) as TastingIntensities;
+
+  return {
+    noteCount: notes.length,
+    flavors: byCountDesc(flavors),
+    categories: byCountDesc(categories),
+    intensities
+  };
+};
+
+// Words the collection search matches a tea's flavor profile by: its descriptors and their families
+export const getFlavorSearchTerms = (profile: FlavorProfile | null): string[] =>
+  profile ? [...profile.flavors.map(flavor => flavor.name), ...profile.categories.map(category => category.name.toLowerCase())] : [];
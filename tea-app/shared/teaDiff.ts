@@ -0,0 +1,35 @@
+import type { Tea } from './types';
+
+/**
+ * Returns only the fields of `updated` whose values differ from `original`.
+ * Arrays and objects are compared by value so an unchanged steep time list or brewing profile is not sent.
+ */
+export const diffTeaFields = <K extends keyof Tea>(
+  original: Tea,
+  updated: Pick<Tea, K>
+): Partial<Pick<Tea, K>> => {
+  const changes: Partial<Pick<Tea, K>> = {};
+
+  (Object.keys(updated) as K[]).forEach(key => {
+    if (!isSameValue(original[key], updated[key])) {
+      changes[key] = updated[key];
+    }
+  });
+
+  return changes;
+};
+
+const isSameValue = (a: unknown, b: unknown): boolean => {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((value, i) => isSameValue(value, b[i]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    return [...keys].every(key => isSameValue(a[key], b[key]));
+  }
+  // An optional field that is absent counts as null (e.g. an untracked stock)
+  return (a ?? null) === (b ?? null);
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
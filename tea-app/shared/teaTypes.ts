@@ -0,0 +1,102 @@
+import { TEA_TAXONOMY, TEA_TYPES } from './constants';
+import type { TeaType } from './types';
+
+// Lookups over the tea type taxonomy in constants.ts. Names and aliases are compared without case,
+// spaces, hyphens or apostrophes, so "Pu-erh", "pu erh" and "PUERH" are the same name.
+
+interface TaxonomyEntry {
+  name: TeaType;
+  parent?: TeaType;
+  aliases: readonly string[];
+}
+
+const taxonomy: readonly TaxonomyEntry[] = TEA_TAXONOMY;
+
+const nameKey = (text: string): string => text.toLowerCase().replace(/[\s'_-]+/g, '');
+
+export const isTeaType = (type: string): type is TeaType => (TEA_TYPES as readonly string[]).includes(type);
+
+// The type a name or alias stands for ("pu-erh" is PuEr, "Hei Cha" is Dark); null when it is none
+export const resolveTeaType = (text: string): TeaType | null => {
+  const key = nameKey(text);
+  if (key === '') {
+    return null;
+  }
+  return taxonomy.find(entry => nameKey(entry.name) === key || entry.aliases.some(alias => nameKey(alias) === key))?.name ?? null;
+};
+
+// The category a type belongs to (Sheng and Shou are PuEr); null for a top-level or unknown type
+export const getTeaTypeParent = (type: string): TeaType | null =>
+  taxonomy.find(entry => entry.name === type)?.parent ?? null;
+
+// Whether a type is the category itself or one of its kinds
+export const isTeaTypeWithin = (type: string, category: string): boolean => {
+  for (let current: string | null = type; current !== null; current = getTeaTypeParent(current)) {
+    if (current === category) {
+      return true;
+    }
+  }
+  return false;
+};
+
+// The types to filter a collection by: those of its teas and their categories, in taxonomy order.
+// Types missing from the taxonomy are listed last, alphabetically.
+export const getTypeFilterOptions = (types: string[]): string[] => {
+  const used = new Set<string>();
+  for (const type of types) {
+    for (let current: string | null = type; current !== null; current = getTeaTypeParent(current)) {
+      used.add(current);
+    }
+  }
+  const known = TEA_TYPES.filter(type => used.delete(type));
+  return [...known, ...[...used].sort()];
+};
+
+interface TypeTerm {
+  type: TeaType;
+  isAlias: boolean;
+  pattern: RegExp;
+}
+
+interface TypeMention extends TypeTerm {
+  start: number;
+  end: number;
+}
+
+// Separators in a name may be a space, a hyphen, an apostrophe or missing ("pu-erh" matches "puerh")
+const termPattern = (term: string): RegExp => {
+  const words = term.toLowerCase().split(/[\s'-]+/).map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  return new RegExp(`(?<![a-z0-9])${words.join("[\\s'-]?")}(?![a-z0-9])`, 'i');
+};
+
+const typeTerms: TypeTerm[] = taxonomy.flatMap(entry => [
+  { type: entry.name, isAlias: false, pattern: termPattern(entry.name) },
+  ...entry.aliases.map(alias => ({ type: entry.name, isAlias: true, pattern: termPattern(alias) }))
+]);
+
+const isInside = (inner: TypeMention, outer: TypeMention): boolean =>
+  outer !== inner && outer.start <= inner.start && inner.end <= outer.end && outer.end - outer.start > inner.end - inner.start;
+
+// Kinds of a type before their category, aliases before bare type names, then the longest
+const rankMention = (mention: TypeMention): [number, number, number] =>
+  [getTeaTypeParent(mention.type) === null ? 1 : 0, mention.isAlias ? 0 : 1, mention.start - mention.end];
+
+const compareMentions = (a: TypeMention, b: TypeMention): number => {
+  const rankA = rankMention(a);
+  const rankB = rankMention(b);
+  return rankA[0] - rankB[0] || rankA[1] - rankB[1] || rankA[2] - rankB[2];
+};
+
+// The type a text such as a product name or category mentions, null when it names none. A name
+// inside a longer one does not count ("Shou Mei" is a white tea, not a shou pu-erh), and the most
+// specific type mentioned wins ("Jasmine Green Tea" is Jasmine, "Raw Pu-erh" is Sheng).
+export const findTeaType = (text: string): TeaType | null => {
+  const mentions = typeTerms.flatMap((term): TypeMention[] => {
+    const match = term.pattern.exec(text);
+    return match ? [{ ...term, start: match.index, end: match.index + match[0].length }] : [];
+  });
+  const [best] = mentions
+    .filter(mention => !mentions.some(other => isInside(mention, other)))
+    .sort(compareMentions);
+  return best?.type ?? null;
+};
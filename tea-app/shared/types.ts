@@ -1,5 +1,6 @@
 import { z } from 'zod';
-import { TEA_TYPES, CAFFEINE_LEVELS, BREWING_METHODS } from './constants';
+import { TEA_TYPES, CAFFEINE_LEVELS, PRESSING_FORMATS, BREWING_METHODS, MAX_BATCH_IMPORT_URLS, MAX_TAG_LENGTH, FLAVOR_DESCRIPTORS } from './constants';
+import { normalizeTags } from './tags';
 
 // Strict schema for tea type enum
 export const TeaTypeSchema = z.enum(TEA_TYPES);
@@ -9,25 +10,86 @@ export type TeaType = z.infer<typeof TeaTypeSchema>;
 export const CaffeineLevelSchema = z.enum(CAFFEINE_LEVELS);
 export type CaffeineLevel = z.infer<typeof CaffeineLevelSchema>;
 
+export const PressingSchema = z.enum(PRESSING_FORMATS);
+export type Pressing = z.infer<typeof PressingSchema>;
+
 // Schema for brewing methods
 export const BrewingMethodSchema = z.enum(BREWING_METHODS);
 export type BrewingMethod = z.infer<typeof BrewingMethodSchema>;
 
+// Water temperature in °C, leaf in grams and water volume in ml; null when unknown
+const BrewingParametersShape = {
+  temperatureCelsius: z.number().min(0).max(100).nullable(),
+  leafGrams: z.number().min(0).nullable(),
+  waterMl: z.number().min(0).nullable()
+};
+
+// Origin and aging details, mostly kept for pu-erh and other aged teas; null when unknown.
+// The harvest year is when the leaf was picked or, for pressed teas, when it was pressed.
+const AgingShape = {
+  harvestYear: z.number().int().min(1900).max(2100).nullable().optional(),
+  region: z.string().trim().max(200).nullable().optional(),
+  factory: z.string().trim().max(200).nullable().optional(),
+  pressing: PressingSchema.nullable().optional(),
+  // Where the tea is kept ("pumidor", "Kunming"); the user's own, never read from a product page
+  storageLocation: z.string().trim().max(200).nullable().optional()
+};
+
+// A user-defined label such as "morning" or "aged"
+export const TagSchema = z.string().trim().min(1).max(MAX_TAG_LENGTH);
+
+// Tags as sent by the client, cleaned up and de-duplicated
+const TagListSchema = z.array(TagSchema).transform(normalizeTags);
+
+// Steep times, temperature and leaf weight for one brewing method
+export const BrewingProfileSchema = z.object({
+  method: BrewingMethodSchema,
+  steepTimes: z.array(z.number()),
+  ...BrewingParametersShape
+});
+export type BrewingProfile = z.infer<typeof BrewingProfileSchema>;
+
+// At most one profile per method
+const BrewingProfilesSchema = z.array(BrewingProfileSchema).refine(
+  profiles => new Set(profiles.map(profile => profile.method)).size === profiles.length,
+  { message: 'Only one brewing profile per method is allowed' }
+);
+
 // Complete tea object schema - strict validation
 export const TeaSchema = z.object({
   id: z.string(),
   name: z.string(),
   type: TeaTypeSchema,
+  // A stored image's path (/api/images/:id), or the vendor URL if it could not be downloaded
   image: z.string(),
+  // Where a stored image was downloaded from; set by the server, absent for uploaded photos
+  imageSourceUrl: z.string().optional(),
   steepTimes: z.array(z.number()),
   caffeine: z.string(),
   caffeineLevel: CaffeineLevelSchema,
   website: z.string(),
-  brewingTemperature: z.string(),
-  teaWeight: z.string(),
+  // The vendor the tea is bought from, linked by the website's hostname when the tea is saved
+  vendorId: z.string().optional(),
+  ...BrewingParametersShape,
+  // Profiles keyed by method. The top-level steepTimes, temperatureCelsius, leafGrams and waterMl
+  // mirror the first profile; teas saved before profiles existed have none.
+  brewingProfiles: BrewingProfilesSchema.optional(),
   rating: z.number().min(1).max(10).nullable().optional(),
+  // Inventory in grams; absent or null when the tea's stock is not tracked
+  stockGrams: z.number().min(0).nullable().optional(),
+  reorderThresholdGrams: z.number().min(0).nullable().optional(),
+  // Free-form labels; absent on teas that were never tagged
+  tags: z.array(z.string()).optional(),
+  ...AgingShape,
+  // Derived from the tea's ended brewing sessions and consumedBeforeSessions; see server/consumption.ts
   timesConsumed: z.number().int().min(0).default(0),
-  lastConsumedDate: z.number().nullable().default(null)
+  lastConsumedDate: z.number().nullable().default(null),
+  // Consumption recorded before the session log existed, which no session accounts for.
+  // Absent until the tea's consumption is first derived from its sessions.
+  consumedBeforeSessions: z.object({
+    count: z.number().int().min(0),
+    lastConsumedDate: z.number().nullable()
+  }).optional()
 });
 
 export type Tea = z.infer<typeof TeaSchema>;
@@ -41,16 +103,376 @@ export const CreateTeaSchema = z.object({
   caffeine: z.string().optional().default(''),
   caffeineLevel: CaffeineLevelSchema.optional().default('Low'),
   website: z.string().optional().default(''),
-  brewingTemperature: z.string().optional().default(''),
-  teaWeight: z.string().optional().default(''),
+  vendorId: z.string().optional(),
+  temperatureCelsius: BrewingParametersShape.temperatureCelsius.optional().default(null),
+  leafGrams: BrewingParametersShape.leafGrams.optional().default(null),
+  waterMl: BrewingParametersShape.waterMl.optional().default(null),
+  brewingProfiles: BrewingProfilesSchema.optional(),
   rating: z.number().min(1).max(10).nullable().optional(),
+  stockGrams: z.number().min(0).nullable().optional(),
+  reorderThresholdGrams: z.number().min(0).nullable().optional(),
+  tags: TagListSchema.optional(),
+  ...AgingShape,
   timesConsumed: z.number().int().min(0).optional().default(0),
   lastConsumedDate: z.number().nullable().optional().default(null)
 });
 
 // For stricter TypeScript compatibility with exactOptionalPropertyTypes
 // We define CreateTea to explicitly make these fields optional (with ?)
-export type CreateTea = Omit<z.infer<typeof CreateTeaSchema>, 'timesConsumed' | 'lastConsumedDate'> & {
+export type CreateTea = Omit<z.infer<typeof CreateTeaSchema>, 'timesConsumed' | 'lastConsumedDate' | 'temperatureCelsius' | 'leafGrams' | 'waterMl'> & {
   timesConsumed?: number;
   lastConsumedDate?: number | null;
+  temperatureCelsius?: number | null;
+  leafGrams?: number | null;
+  waterMl?: number | null;
 };
+
+// Shop listing details read from a product page's structured data (JSON-LD, microdata, OpenGraph).
+// Empty strings and null stand for what the page does not say.
+export const ProductListingSchema = z.object({
+  name: z.string(),
+  image: z.string(),
+  description: z.string(),
+  category: z.string(),
+  price: z.number().min(0).nullable(),
+  currency: z.string(),
+  brand: z.string(),
+  // schema.org availability without the URL prefix, e.g. "InStock"
+  availability: z.string(),
+  // The product's weight, converted to grams
+  packageGrams: z.number().min(0).nullable()
+});
+
+export type ProductListing = z.infer<typeof ProductListingSchema>;
+
+// What a product page sells the tea for, to pre-fill a purchase: the structured data's price and
+// weight, completed from the vendor's own markup. Empty strings and null stand for what the page does not say.
+export const ProductOfferSchema = z.object({
+  vendor: z.string(),
+  price: z.number().min(0).nullable(),
+  currency: z.string(),
+  packageGrams: z.number().min(0).nullable()
+});
+
+export type ProductOffer = z.infer<typeof ProductOfferSchema>;
+
+// Response of POST /api/teas/import: form values plus the shop listing they were read from.
+// `fetchedAt` is when the page was downloaded, which is earlier than now for a cached page.
+export const ImportedTeaSchema = CreateTeaSchema.extend({
+  listing: ProductListingSchema,
+  offer: ProductOfferSchema,
+  fetchedAt: z.number(),
+  fromCache: z.boolean()
+});
+
+export type ImportedTea = CreateTea & { listing: ProductListing; offer: ProductOffer; fetchedAt: number; fromCache: boolean };
+
+// Request body of POST /api/teas/import/batch
+export const BatchImportRequestSchema = z.object({
+  urls: z.array(z.string()).min(1).max(MAX_BATCH_IMPORT_URLS),
+  force: z.boolean().optional()
+});
+
+// A tea scraped by a batch import. The type may be one the scraper did not recognize (often empty);
+// it is picked in the review table before the tea is created.
+export const BatchImportedTeaSchema = ImportedTeaSchema.extend({
+  type: z.string()
+});
+
+export type BatchImportedTea = z.infer<typeof BatchImportedTeaSchema>;
+
+// One line of the NDJSON response of POST /api/teas/import/batch, sent when each URL starts and finishes.
+// `index` is the URL's position in the request.
+export const BatchImportEventSchema = z.discriminatedUnion('status', [
+  z.object({ status: z.literal('started'), index: z.number().int(), url: z.string() }),
+  z.object({ status: z.literal('imported'), index: z.number().int(), url: z.string(), tea: BatchImportedTeaSchema }),
+  z.object({ status: z.literal('failed'), index: z.number().int(), url: z.string(), error: z.string() })
+]);
+
+export type BatchImportEvent = z.infer<typeof BatchImportEventSchema>;
+
+// Schema for partial updates (PATCH). Fields are optional without defaults so that
+// omitted fields leave the stored tea untouched. Unknown keys (including `id`) are rejected, and so
+// are timesConsumed and lastConsumedDate, which follow the session log.
+export const UpdateTeaSchema = z.object({
+  name: z.string().optional(),
+  type: TeaTypeSchema.optional(),
+  image: z.string().optional(),
+  steepTimes: z.array(z.number()).optional(),
+  caffeine: z.string().optional(),
+  caffeineLevel: CaffeineLevelSchema.optional(),
+  website: z.string().optional(),
+  vendorId: z.string().optional(),
+  temperatureCelsius: BrewingParametersShape.temperatureCelsius.optional(),
+  leafGrams: BrewingParametersShape.leafGrams.optional(),
+  waterMl: BrewingParametersShape.waterMl.optional(),
+  brewingProfiles: BrewingProfilesSchema.optional(),
+  rating: z.number().min(1).max(10).nullable().optional(),
+  stockGrams: z.number().min(0).nullable().optional(),
+  reorderThresholdGrams: z.number().min(0).nullable().optional(),
+  tags: TagListSchema.optional(),
+  ...AgingShape
+}).strict();
+
+export type UpdateTea = z.infer<typeof UpdateTeaSchema>;
+
+// The fields a re-sync may change, read again from the tea's product page. User-owned fields
+// (rating, stock, storage location, consumption) and the website itself are never touched by a re-sync.
+export const TeaSyncChangesSchema = UpdateTeaSchema.pick({
+  name: true,
+  type: true,
+  image: true,
+  steepTimes: true,
+  caffeine: true,
+  caffeineLevel: true,
+  temperatureCelsius: true,
+  leafGrams: true,
+  waterMl: true,
+  brewingProfiles: true,
+  harvestYear: true,
+  region: true,
+  factory: true,
+  pressing: true
+});
+
+export type TeaSyncChanges = z.infer<typeof TeaSyncChangesSchema>;
+
+// Response of POST /api/teas/:id/resync: what the page says differently from the stored tea,
+// nothing when the tea is up to date. The changes are only applied by a PATCH.
+export const TeaSyncResultSchema = z.object({
+  teaId: z.string(),
+  changes: TeaSyncChangesSchema,
+  fetchedAt: z.number()
+});
+
+export type TeaSyncResult = z.infer<typeof TeaSyncResultSchema>;
+
+// Request body of POST /api/teas/resync; without teaIds every tea with a website is checked
+export const TeaSyncRequestSchema = z.object({
+  teaIds: z.array(z.string()).min(1).optional(),
+  force: z.boolean().optional()
+});
+
+// One line of the NDJSON response of POST /api/teas/resync, sent when each tea starts and finishes
+export const TeaSyncEventSchema = z.discriminatedUnion('status', [
+  z.object({ status: z.literal('started'), teaId: z.string() }),
+  TeaSyncResultSchema.extend({ status: z.literal('checked') }),
+  z.object({ status: z.literal('failed'), teaId: z.string(), error: z.string() })
+]);
+
+export type TeaSyncEvent = z.infer<typeof TeaSyncEventSchema>;
+
+// Response of POST /api/images
+export const StoredImageSchema = z.object({
+  id: z.string(),
+  url: z.string()
+});
+
+export type StoredImage = z.infer<typeof StoredImageSchema>;
+
+// Metadata for a timestamped snapshot of the tea collection
+export const BackupSchema = z.object({
+  id: z.string(),
+  createdAt: z.number(),
+  size: z.number().int().min(0),
+  teaCount: z.number().int().min(0).nullable()
+});
+
+export type Backup = z.infer<typeof BackupSchema>;
+
+// One steep within a brewing session
+export const SteepRecordSchema = z.object({
+  index: z.number().int().min(0),
+  plannedSeconds: z.number().min(0),
+  actualSeconds: z.number().min(0).nullable(),
+  startedAt: z.number().nullable()
+});
+
+export type SteepRecord = z.infer<typeof SteepRecordSchema>;
+
+// A brewing session of a single tea. waterTemperature is in °C.
+export const BrewSessionSchema = z.object({
+  id: z.string(),
+  teaId: z.string(),
+  startedAt: z.number(),
+  endedAt: z.number().nullable(),
+  steeps: z.array(SteepRecordSchema),
+  gramsUsed: z.number().min(0).nullable(),
+  waterTemperature: z.number().nullable(),
+  notes: z.string()
+});
+
+export type BrewSession = z.infer<typeof BrewSessionSchema>;
+
+export const CreateBrewSessionSchema = z.object({
+  teaId: z.string().min(1),
+  startedAt: z.number(),
+  endedAt: z.number().nullable().optional().default(null),
+  steeps: z.array(SteepRecordSchema).optional().default([]),
+  gramsUsed: z.number().min(0).nullable().optional().default(null),
+  waterTemperature: z.number().nullable().optional().default(null),
+  notes: z.string().optional().default('')
+});
+
+export type CreateBrewSession = z.input<typeof CreateBrewSessionSchema>;
+
+// Session details sent with PUT /api/teas/:id/lastConsumed ("All Done")
+export const ConsumeTeaSchema = CreateBrewSessionSchema.omit({ teaId: true, endedAt: true }).partial({ startedAt: true });
+
+export type ConsumeTea = z.input<typeof ConsumeTeaSchema>;
+
+export const UpdateBrewSessionSchema = z.object({
+  startedAt: z.number().optional(),
+  endedAt: z.number().nullable().optional(),
+  steeps: z.array(SteepRecordSchema).optional(),
+  gramsUsed: z.number().min(0).nullable().optional(),
+  waterTemperature: z.number().nullable().optional(),
+  notes: z.string().optional()
+}).strict();
+
+export type UpdateBrewSession = z.infer<typeof UpdateBrewSessionSchema>;
+
+// A package of tea bought from a vendor. purchasedAt is the day of the purchase (local midnight),
+// price is what was paid for the package in `currency` (an ISO 4217 code such as "USD").
+export const PurchaseSchema = z.object({
+  id: z.string(),
+  teaId: z.string(),
+  vendor: z.string(),
+  purchasedAt: z.number(),
+  grams: z.number().positive(),
+  price: z.number().min(0),
+  currency: z.string()
+});
+
+export type Purchase = z.infer<typeof PurchaseSchema>;
+
+export const CreatePurchaseSchema = z.object({
+  teaId: z.string().min(1),
+  vendor: z.string().optional().default(''),
+  purchasedAt: z.number(),
+  grams: z.number().positive(),
+  price: z.number().min(0),
+  currency: z.string().min(1)
+});
+
+export type CreatePurchase = z.input<typeof CreatePurchaseSchema>;
+
+export const UpdatePurchaseSchema = z.object({
+  vendor: z.string().optional(),
+  purchasedAt: z.number().optional(),
+  grams: z.number().positive().optional(),
+  price: z.number().min(0).optional(),
+  currency: z.string().min(1).optional()
+}).strict();
+
+export type UpdatePurchase = z.infer<typeof UpdatePurchaseSchema>;
+
+// A shop teas are bought from. Teas are linked to a vendor by the hostname of their website,
+// matched against the vendor's homepage.
+export const VendorSchema = z.object({
+  id: z.string(),
+  name: z.string().min(1),
+  homepage: z.string(),
+  country: z.string(),
+  notes: z.string()
+});
+
+export type Vendor = z.infer<typeof VendorSchema>;
+
+export const CreateVendorSchema = z.object({
+  name: z.string().min(1),
+  homepage: z.string().optional().default(''),
+  country: z.string().optional().default(''),
+  notes: z.string().optional().default('')
+});
+
+export type CreateVendor = z.input<typeof CreateVendorSchema>;
+
+export const UpdateVendorSchema = z.object({
+  name: z.string().min(1).optional(),
+  homepage: z.string().optional(),
+  country: z.string().optional(),
+  notes: z.string().optional()
+}).strict();
+
+export type UpdateVendor = z.infer<typeof UpdateVendorSchema>;
+
+// A tag with the number of teas labelled with it, as listed by GET /api/tags
+export const TagCountSchema = z.object({
+  name: z.string(),
+  count: z.number().int()
+});
+
+export type TagCount = z.infer<typeof TagCountSchema>;
+
+// Body of PATCH /api/tags/:name. Renaming to an existing tag merges the two.
+export const RenameTagSchema = z.object({
+  name: TagSchema
+}).strict();
+
+// Body of POST /api/tags/merge: every tag in `tags` becomes `into`
+export const MergeTagsSchema = z.object({
+  tags: z.array(TagSchema).min(1),
+  into: TagSchema
+}).strict();
+
+// A descriptor from the built-in flavor wheel (FLAVOR_WHEEL), such as "orchid" or "wet stone"
+export const FlavorDescriptorSchema = z.enum(FLAVOR_DESCRIPTORS);
+export type FlavorDescriptor = z.infer<typeof FlavorDescriptorSchema>;
+
+// 1 (faint) to 5 (intense); null when the note does not score it
+const IntensitySchema = z.number().int().min(1).max(5).nullable();
+
+export const TastingIntensitiesSchema = z.object({
+  body: IntensitySchema,
+  astringency: IntensitySchema,
+  sweetness: IntensitySchema,
+  aroma: IntensitySchema
+});
+
+export type TastingIntensities = z.infer<typeof TastingIntensitiesSchema>;
+
+// A note on one steep, by its index in the session or the tea's steep times
+export const SteepNoteSchema = z.object({
+  index: z.number().int().min(0),
+  note: z.string().min(1)
+});
+
+export type SteepNote = z.infer<typeof SteepNoteSchema>;
+
+// Tasting notes belong to a tea and, when written about a particular brew, to one of its sessions
+export const TastingNoteSchema = z.object({
+  id: z.string(),
+  teaId: z.string(),
+  sessionId: z.string().nullable(),
+  createdAt: z.number(),
+  text: z.string(),
+  flavors: z.array(FlavorDescriptorSchema),
+  intensities: TastingIntensitiesSchema,
+  steepNotes: z.array(SteepNoteSchema)
+});
+
+export type TastingNote = z.infer<typeof TastingNoteSchema>;
+
+const NO_INTENSITIES: TastingIntensities = { body: null, astringency: null, sweetness: null, aroma: null };
+
+export const CreateTastingNoteSchema = z.object({
+  teaId: z.string().min(1),
+  sessionId: z.string().nullable().optional().default(null),
+  text: z.string().optional().default(''),
+  flavors: z.array(FlavorDescriptorSchema).optional().default([]),
+  intensities: TastingIntensitiesSchema.partial().optional().default({}).transform(intensities => ({ ...NO_INTENSITIES, ...intensities })),
+  steepNotes: z.array(SteepNoteSchema).optional().default([])
+});
+
+export type CreateTastingNote = z.input<typeof CreateTastingNoteSchema>;
+
+export const UpdateTastingNoteSchema = z.object({
+  sessionId: z.string().nullable().optional(),
+  text: z.string().optional(),
+  flavors: z.array(FlavorDescriptorSchema).optional(),
+  intensities: TastingIntensitiesSchema.partial().optional(),
+  steepNotes: z.array(SteepNoteSchema).optional()
+}).strict();
+
+export type UpdateTastingNote = z.infer<typeof UpdateTastingNoteSchema>;
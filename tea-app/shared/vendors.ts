@@ -0,0 +1,57 @@
+import type { Purchase, Tea, Vendor } from './types';
+
+// "https://www.Yunnansourcing.com/products/x" -> "yunnansourcing.com".
+// null for anything that is not an http(s) URL, such as an empty website.
+export const getVendorHostname = (url: string): string | null => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    return null;
+  }
+  return parsed.hostname.toLowerCase().replace(/^www\./, '');
+};
+
+// The vendor whose homepage is on the same host as the URL
+export const findVendorForUrl = (vendors: Vendor[], url: string): Vendor | undefined => {
+  const hostname = getVendorHostname(url);
+  return hostname === null ? undefined : vendors.find(vendor => getVendorHostname(vendor.homepage) === hostname);
+};
+
+export interface VendorSpend {
+  currency: string;
+  amount: number;
+}
+
+// What the vendor page shows about the teas bought from one vendor
+export interface VendorSummary {
+  teaCount: number;
+  // Over the rated teas only; null when none of them is rated
+  averageRating: number | null;
+  // Everything paid for the teas, one entry per currency, largest first
+  totalSpend: VendorSpend[];
+}
+
+// `teas` are the vendor's teas; purchases of other teas are ignored
+export const getVendorSummary = (teas: Tea[], purchases: Purchase[]): VendorSummary => {
+  const ratings = teas.map(tea => tea.rating).filter((rating): rating is number => typeof rating === 'number');
+  const teaIds = new Set(teas.map(tea => tea.id));
+
+  const spend = new Map<string, number>();
+  for (const purchase of purchases) {
+    if (teaIds.has(purchase.teaId)) {
+      spend.set(purchase.currency, (spend.get(purchase.currency) ?? 0) + purchase.price);
+    }
+  }
+
+  return {
+    teaCount: teas.length,
+    averageRating: ratings.length > 0 ? ratings.reduce((total, rating) => total + rating, 0) / ratings.length : null,
+    totalSpend: [...spend.entries()]
+      .map(([currency, amount]) => ({ currency, amount }))
+      .sort((a, b) => b.amount - a.amount)
+  };
+};
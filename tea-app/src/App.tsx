@@ -1,31 +1,71 @@
 import { useState, useEffect, useMemo } from 'react'
 import './App.css'
-import type { Tea, CaffeineLevel, TeaType } from './types'
-import { getTeas, createTea, deleteTea, importTeaFromUrl, updateTea, markTeaConsumed, downloadTeasYaml } from './api'
-import { TimerProvider, useTimer } from './TimerContext'
-import { Clock, Plus, X, Coffee, ExternalLink, Star, LogOut, Download } from 'lucide-react'
-import { CAFFEINE_LEVELS, TEA_TYPES } from './types'
+import type { Tea, Vendor, TastingNote, CaffeineLevel, TeaType, Pressing, BrewingMethod, BrewingProfile, ProductListing } from './types'
+import { getTeas, createTea, deleteTea, importTeaFromUrl, updateTea, markTeaConsumed, downloadTeasYaml, uploadImage, getImageSrc, getVendors, getTastingNotes } from './api'
+import { TimerProvider, useTimer, type FinishedTimer } from './TimerContext'
+import { GuidedSessionProvider } from './GuidedSessionContext'
+import { useGuidedSessions, type GuidedSessionState } from './useGuidedSessions'
+import { Clock, Plus, X, Coffee, ExternalLink, Star, LogOut, Download, Pencil, History, Thermometer, ListPlus, RefreshCw, Upload, Tags, Pause, Play } from 'lucide-react'
+import { CAFFEINE_LEVELS, TEA_TYPES, PRESSING_FORMATS, BREWING_METHODS } from './types'
 import { Toaster } from 'sonner'
 import { showSuccess, showError, showInfo } from './utils/toast'
-import { TeaCard, FilterBar, SortControls, LoginPage } from './components'
+import { diffTeaFields } from '../shared/teaDiff'
+import { parseSteepTimeList, parseOptionalNumber } from './utils/formInput'
+import { getBrewingProfiles } from '../shared/brewing'
+import { isLowStock } from '../shared/inventory'
+import { getTeaAge, compareVintage } from '../shared/aging'
+import { formatTeaAge } from './utils/dateFormat'
+import { formatSessionStep } from './utils/guidedSession'
+import { getStoredBrewLogs, storeBrewLogs, recordSteepTime, getBrewedSteeps, type BrewLog } from './utils/brewLog'
+import { getTagCounts, matchesTags, type TagMatchMode } from '../shared/tags'
+import { getFlavorProfile, getFlavorSearchTerms } from '../shared/tastingNotes'
+import { getTypeFilterOptions, isTeaTypeWithin } from '../shared/teaTypes'
+import { formatTemperature, toTemperatureInput, fromTemperatureInput, getStoredTemperatureUnit, storeTemperatureUnit, type TemperatureUnit } from './utils/temperature'
+import { TeaCard, FilterBar, SortControls, LoginPage, BackupsPanel, BulkImportPanel, ResyncPanel, SessionHistory, PurchaseHistory, VendorPanel, TagEditor, TagsPanel, TastingNotes, GuidedSession, type SortOption } from './components'
 import { AuthProvider, useAuth } from './AuthContext'
 
-const TimerOverlay = () => {
-  const { timeLeft, activeTeaName, stopTimer } = useTimer();
+const formatTimeLeft = (timeLeft: number): string =>
+  `${Math.floor(timeLeft / 60)}:${(timeLeft % 60).toString().padStart(2, '0')}`;
+
+// Seconds the nudge buttons add to or take off a running timer
+const TIMER_NUDGE_SECONDS = 5;
 
-  if (timeLeft === null) return null;
+// One row per running timer, so teas brewed side by side each keep their own countdown
+const TimerOverlay = () => {
+  const { timers, stopTimer, pauseTimer, resumeTimer, adjustTimer } = useTimer();
 
-  const minutes = Math.floor(timeLeft / 60);
-  const seconds = timeLeft % 60;
+  if (timers.length === 0) return null;
 
   return (
     <div className="timer-overlay">
-      <div className="timer-info">
-        <Clock size={24} className="text-primary" />
-        <span>{activeTeaName}</span>
-        <span style={{fontVariantNumeric: 'tabular-nums'}}>{minutes}:{seconds.toString().padStart(2, '0')}</span>
-      </div>
-      <button className="cancel-timer" onClick={stopTimer}>Stop</button>
+      {timers.map(timer => (
+        <div key={timer.id} className={`timer-row ${timer.pausedAt !== null ? 'paused' : ''}`}>
+          <div className="timer-info">
+            <Clock size={24} className="text-primary" />
+            <span>{timer.teaName}</span>
+            <span className="timer-steep">{formatSessionStep(timer.steepIndex)}{timer.pausedAt !== null && ' · Paused'}</span>
+            <span style={{fontVariantNumeric: 'tabular-nums'}}>{formatTimeLeft(timer.timeLeft)}</span>
+          </div>
+          <div className="timer-controls">
+            <button className="cancel-timer" onClick={() => adjustTimer(timer.id, -TIMER_NUDGE_SECONDS)} title={`Take off ${TIMER_NUDGE_SECONDS} seconds`}>
+              −{TIMER_NUDGE_SECONDS}s
+            </button>
+            <button className="cancel-timer" onClick={() => adjustTimer(timer.id, TIMER_NUDGE_SECONDS)} title={`Add ${TIMER_NUDGE_SECONDS} seconds`}>
+              +{TIMER_NUDGE_SECONDS}s
+            </button>
+            {timer.pausedAt === null ? (
+              <button className="cancel-timer" onClick={() => pauseTimer(timer.id)} title="Pause">
+                <Pause size={16} />
+              </button>
+            ) : (
+              <button className="cancel-timer" onClick={() => resumeTimer(timer.id)} title="Resume">
+                <Play size={16} />
+              </button>
+            )}
+            <button className="cancel-timer" onClick={() => stopTimer(timer.id)}>Stop</button>
+          </div>
+        </div>
+      ))}
     </div>
   );
 };
@@ -34,30 +74,89 @@ const SidePanel = ({
   tea,
   onClose,
   usedSteepTimes,
+  brewLog,
   onSteepTimeClick,
   onResetUsed,
-  onTeaUpdated
+  onSessionLogged,
+  onTeaUpdated,
+  onEdit,
+  onResync,
+  vendor,
+  onVendorClick,
+  allTags,
+  tastingNotes,
+  onTastingNotesChanged,
+  temperatureUnit
 }: {
   tea: Tea;
   onClose: () => void;
   usedSteepTimes: Set<number>;
+  brewLog: BrewLog | undefined;
   onSteepTimeClick: (idx: number, time: number, teaName: string) => void;
   onResetUsed: () => void;
+  onSessionLogged: () => void;
   onTeaUpdated: () => void;
+  onEdit: () => void;
+  onResync: () => void;
+  vendor: Vendor | undefined;
+  onVendorClick: () => void;
+  allTags: string[];
+  tastingNotes: TastingNote[];
+  onTastingNotesChanged: () => void;
+  temperatureUnit: TemperatureUnit;
 }) => {
   const [isUpdatingRating, setIsUpdatingRating] = useState(false);
+  const [isUpdatingTags, setIsUpdatingTags] = useState(false);
   const [isDoneDrinking, setIsDoneDrinking] = useState(false);
+  const [showSessionForm, setShowSessionForm] = useState(false);
+  const [gramsUsed, setGramsUsed] = useState('');
+  const [waterTemperature, setWaterTemperature] = useState('');
+  const [sessionNotes, setSessionNotes] = useState('');
+  const [selectedMethod, setSelectedMethod] = useState<BrewingMethod | null>(null);
+
+  const { sessions } = useGuidedSessions();
+  const guidedSession = sessions.find(session => session.teaId === tea.id && session.phase.kind !== 'finished');
+  const profiles = getBrewingProfiles(tea);
+  // A running guided session keeps the panel on its method
+  const activeMethod = guidedSession?.method ?? selectedMethod;
+  const activeProfile = profiles.find(profile => profile.method === activeMethod) ?? profiles[0];
+  const age = getTeaAge(tea);
+  const { timers } = useTimer();
+  const runningSteeps = new Map(timers.filter(timer => timer.teaId === tea.id).map(timer => [timer.steepIndex, timer]));
 
   // Reset local state when tea changes
   useEffect(() => {
     setIsDoneDrinking(false);
+    setShowSessionForm(false);
+    setSelectedMethod(null);
   }, [tea.id]);
 
-  const handleMarkConsumed = async () => {
+  // Steep indexes refer to the active profile, so switching methods starts the session over
+  const handleMethodChange = (method: BrewingMethod) => {
+    if (method === activeProfile.method) return;
+    setSelectedMethod(method);
+    setShowSessionForm(false);
+    setIsDoneDrinking(false);
+    onResetUsed();
+  };
+
+  const handleAllDoneClick = () => {
+    setGramsUsed(activeProfile.leafGrams?.toString() ?? '');
+    setWaterTemperature(toTemperatureInput(activeProfile.temperatureCelsius, temperatureUnit));
+    setSessionNotes('');
+    setShowSessionForm(true);
+  };
+
+  const logSession = async (details: { gramsUsed: number | null; waterTemperature: number | null; notes: string }) => {
     setIsDoneDrinking(true);
     try {
-      await markTeaConsumed(tea.id);
+      await markTeaConsumed(tea.id, {
+        ...(brewLog && { startedAt: brewLog.startedAt, steeps: brewLog.steeps }),
+        ...details
+      });
       showSuccess('Tea marked as consumed!');
+      setShowSessionForm(false);
+      onSessionLogged();
       onTeaUpdated();
     } catch (error) {
       console.error('Failed to mark tea as consumed:', error);
@@ -67,19 +166,33 @@ const SidePanel = ({
     }
   };
 
+  const handleMarkConsumed = () => logSession({
+    gramsUsed: gramsUsed.trim() === '' ? null : Number(gramsUsed),
+    waterTemperature: fromTemperatureInput(waterTemperature, temperatureUnit),
+    notes: sessionNotes.trim()
+  });
+
+  // A guided session starts the tea's steeps over
+  const handleGuidedSessionStart = () => {
+    setIsDoneDrinking(false);
+    setShowSessionForm(false);
+    onResetUsed();
+  };
+
   const handleSteepClickLocal = (idx: number, time: number, teaName: string) => {
     onSteepTimeClick(idx, time, teaName);
     // If the last timer is clicked again, reset the "All Done" state
     // This allows the user to mark it consumed again if they brew another round
-    if (idx === tea.steepTimes.length - 1) {
+    if (idx === activeProfile.steepTimes.length - 1) {
       setIsDoneDrinking(false);
     }
   };
 
   // Determine if "All Done" button should be visible
-  // Show button if the last steep time has been used, regardless of timer state
-  const lastSteepIndex = tea.steepTimes.length - 1;
-  const showAllDoneButton = usedSteepTimes.has(lastSteepIndex);
+  // Show button if the last steep time has been used, regardless of timer state,
+  // and keep it as "Done" once the session is logged and the brew log cleared
+  const lastSteepIndex = activeProfile.steepTimes.length - 1;
+  const showAllDoneButton = usedSteepTimes.has(lastSteepIndex) || isDoneDrinking;
 
   const handleRatingClick = async (rating: number | null) => {
     setIsUpdatingRating(true);
@@ -96,17 +209,39 @@ const SidePanel = ({
     }
   };
 
+  const handleTagsChange = async (tags: string[]) => {
+    setIsUpdatingTags(true);
+    try {
+      await updateTea(tea.id, { tags });
+      onTeaUpdated();
+    } catch (error) {
+      console.error('Failed to update tags:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      showError(`Failed to update tags: ${errorMessage}`);
+    } finally {
+      setIsUpdatingTags(false);
+    }
+  };
+
   return (
     <div className="side-panel">
       <div className="side-panel-header">
         <h2>{tea.name}</h2>
+        <button onClick={onEdit} className="close-btn" title="Edit Tea">
+          <Pencil size={18} />
+        </button>
+        {tea.website && (
+          <button onClick={onResync} className="close-btn" title="Re-sync from website">
+            <RefreshCw size={18} />
+          </button>
+        )}
         <button onClick={onClose} className="close-btn">
           <X size={20} />
         </button>
       </div>
 
       <div className="side-panel-content">
-        <img src={tea.image} alt={tea.name} className="side-panel-image" />
+        <img src={getImageSrc(tea.image)} alt={tea.name} className="side-panel-image" />
 
         <div className="side-panel-info">
           <div className="info-row">
@@ -119,16 +254,68 @@ const SidePanel = ({
               {tea.caffeineLevel}
             </span>
           </div>
-          {tea.brewingTemperature && (
+          {activeProfile.temperatureCelsius !== null && (
             <div className="info-row">
               <span className="info-label">Brewing Temp:</span>
-              <span>{tea.brewingTemperature}</span>
+              <span>{formatTemperature(activeProfile.temperatureCelsius, temperatureUnit)}</span>
             </div>
           )}
-          {tea.teaWeight && (
+          {activeProfile.leafGrams !== null && (
             <div className="info-row">
               <span className="info-label">Tea Weight:</span>
-              <span>{tea.teaWeight}</span>
+              <span>{activeProfile.leafGrams}g</span>
+            </div>
+          )}
+          {activeProfile.waterMl !== null && (
+            <div className="info-row">
+              <span className="info-label">Water:</span>
+              <span>{activeProfile.waterMl}ml</span>
+            </div>
+          )}
+          {age !== null && (
+            <div className="info-row">
+              <span className="info-label">Harvest Year:</span>
+              <span>{tea.harvestYear}</span>
+              <span className="age-badge">{formatTeaAge(age)}</span>
+            </div>
+          )}
+          {tea.region && (
+            <div className="info-row">
+              <span className="info-label">Region:</span>
+              <span>{tea.region}</span>
+            </div>
+          )}
+          {tea.factory && (
+            <div className="info-row">
+              <span className="info-label">Factory:</span>
+              <span>{tea.factory}</span>
+            </div>
+          )}
+          {tea.pressing && (
+            <div className="info-row">
+              <span className="info-label">Pressing:</span>
+              <span>{tea.pressing}</span>
+            </div>
+          )}
+          {tea.storageLocation && (
+            <div className="info-row">
+              <span className="info-label">Stored In:</span>
+              <span>{tea.storageLocation}</span>
+            </div>
+          )}
+          {tea.stockGrams !== null && tea.stockGrams !== undefined && (
+            <div className="info-row">
+              <span className="info-label">Stock:</span>
+              <span>{tea.stockGrams}g</span>
+              {isLowStock(tea) && <span className="low-stock-badge">Low stock</span>}
+            </div>
+          )}
+          {vendor && (
+            <div className="info-row">
+              <span className="info-label">Vendor:</span>
+              <button className="vendor-link" onClick={onVendorClick} title="Show all teas from this vendor">
+                {vendor.name}
+              </button>
             </div>
           )}
           {tea.website && (
@@ -177,51 +364,158 @@ const SidePanel = ({
           )}
         </div>
 
+        <div className="tags-section">
+          <h3>Tags</h3>
+          <TagEditor tags={tea.tags ?? []} suggestions={allTags} onChange={handleTagsChange} disabled={isUpdatingTags} />
+        </div>
+
         <div className="steep-times-section">
           <h3>Steep Times</h3>
-          <div className={`steep-times ${tea.steepTimes.length >= 6 ? 'steep-times-many' : ''}`}>
-            {tea.steepTimes.map((time: number, idx: number) => (
-              <button
-                key={idx}
-                className={`steep-time-btn ${usedSteepTimes.has(idx) ? 'used' : ''}`}
-                onClick={() => handleSteepClickLocal(idx, time, tea.name)}
-              >
-                {time}s
-              </button>
-            ))}
+          {profiles.length > 1 && (
+            <div className="brewing-method-switcher">
+              {profiles.map(profile => (
+                <button
+                  key={profile.method}
+                  className={`filter-btn ${profile.method === activeProfile.method ? 'active' : ''}`}
+                  onClick={() => handleMethodChange(profile.method)}
+                  disabled={guidedSession !== undefined && profile.method !== activeProfile.method}
+                  title={guidedSession && profile.method !== activeProfile.method ? 'End the guided session to switch methods' : undefined}
+                >
+                  {profile.method}
+                </button>
+              ))}
+            </div>
+          )}
+          <div className={`steep-times ${activeProfile.steepTimes.length >= 6 ? 'steep-times-many' : ''}`}>
+            {activeProfile.steepTimes.map((time: number, idx: number) => {
+              const timer = runningSteeps.get(idx);
+              return (
+                <button
+                  key={idx}
+                  className={`steep-time-btn ${usedSteepTimes.has(idx) ? 'used' : ''} ${timer ? 'running' : ''}`}
+                  onClick={() => handleSteepClickLocal(idx, time, tea.name)}
+                  title={timer ? `${timer.pausedAt === null ? 'Running' : 'Paused'}, ${formatTimeLeft(timer.timeLeft)} left` : undefined}
+                >
+                  {time}s
+                  {timer && <span className="steep-time-left">{formatTimeLeft(timer.timeLeft)}</span>}
+                </button>
+              );
+            })}
           </div>
+          <GuidedSession
+            key={tea.id}
+            teaId={tea.id}
+            teaName={tea.name}
+            profile={activeProfile}
+            onSessionStart={handleGuidedSessionStart}
+          />
           {usedSteepTimes.size > 0 && (
             <button className="btn-reset-used" onClick={onResetUsed}>
               Reset
             </button>
           )}
-          {showAllDoneButton && (
+          {showAllDoneButton && !showSessionForm && (
             <button
               className="btn-all-done"
-              onClick={handleMarkConsumed}
+              onClick={handleAllDoneClick}
               disabled={isDoneDrinking}
             >
               {isDoneDrinking ? 'Done' : 'All Done'}
             </button>
           )}
+          {showSessionForm && (
+            <div className="session-form">
+              <div className="session-form-row">
+                <label>
+                  Grams used
+                  <input type="number" min="0" step="0.1" value={gramsUsed} onChange={e => setGramsUsed(e.target.value)} />
+                </label>
+                <label>
+                  Water temp (°{temperatureUnit})
+                  <input type="number" value={waterTemperature} onChange={e => setWaterTemperature(e.target.value)} />
+                </label>
+              </div>
+              <label>
+                Notes
+                <textarea rows={2} value={sessionNotes} onChange={e => setSessionNotes(e.target.value)} placeholder="How was it?" />
+              </label>
+              <div className="session-form-row">
+                <button className="btn-reset-used" onClick={() => setShowSessionForm(false)} disabled={isDoneDrinking}>
+                  Cancel
+                </button>
+                <button className="btn-all-done" onClick={handleMarkConsumed} disabled={isDoneDrinking}>
+                  {isDoneDrinking ? 'Saving...' : 'Save Session'}
+                </button>
+              </div>
+            </div>
+          )}
         </div>
+
+        <SessionHistory teaId={tea.id} refreshKey={tea.timesConsumed} onSessionDeleted={onTeaUpdated} temperatureUnit={temperatureUnit} />
+
+        <TastingNotes
+          key={`notes-${tea.id}`}
+          teaId={tea.id}
+          notes={tastingNotes}
+          steepTimes={activeProfile.steepTimes}
+          onChanged={onTastingNotesChanged}
+        />
+
+        <PurchaseHistory key={tea.id} teaId={tea.id} website={tea.website} leafGrams={activeProfile.leafGrams} />
       </div>
     </div>
   );
 };
 
-const TeaForm = ({ onTeaAdded, onClose }: { onTeaAdded: () => void, onClose: () => void }) => {
-  const [name, setName] = useState('');
-  const [type, setType] = useState<TeaType>('Green');
-  const [image, setImage] = useState('');
-  const [steepTimes, setSteepTimes] = useState('');
-  const [caffeine, setCaffeine] = useState('');
-  const [caffeineLevel, setCaffeineLevel] = useState<CaffeineLevel>('Low');
-  const [website, setWebsite] = useState('');
-  const [brewingTemperature, setBrewingTemperature] = useState('');
-  const [teaWeight, setTeaWeight] = useState('');
-  const [importUrl, setImportUrl] = useState('');
+// "Yunnan Sourcing · 42.00 USD · In Stock"; empty when the page had none of these
+const formatListingSummary = (listing: ProductListing): string =>
+  [
+    listing.brand,
+    listing.price !== null ? `${listing.price.toFixed(2)} ${listing.currency}`.trim() : '',
+    listing.availability.replace(/([a-z])([A-Z])/g, '$1 $2')
+  ].filter(Boolean).join(' · ');
+
+// The method that is not the primary one; the form edits one profile of each
+const otherBrewingMethod = (method: BrewingMethod): BrewingMethod =>
+  BREWING_METHODS.find(m => m !== method) ?? method;
+
+// Add/edit form. When `tea` is given the form is pre-filled from it and only changed fields are PATCHed.
+const TeaForm = ({ tea, onTeaSaved, onClose, temperatureUnit }: { tea?: Tea | undefined, onTeaSaved: () => void, onClose: () => void, temperatureUnit: TemperatureUnit }) => {
+  const isEditing = tea !== undefined;
+  const initialProfiles = tea ? getBrewingProfiles(tea) : [];
+  const initialPrimaryMethod = initialProfiles[0]?.method ?? 'Chinese Gongfu';
+  const initialSecondary = initialProfiles.find(profile => profile.method === otherBrewingMethod(initialPrimaryMethod));
+  const [name, setName] = useState(tea?.name ?? '');
+  const [type, setType] = useState<TeaType>(tea?.type ?? 'Green');
+  const [image, setImage] = useState(tea?.image ?? '');
+  const [steepTimes, setSteepTimes] = useState(tea?.steepTimes.join(', ') ?? '');
+  const [caffeine, setCaffeine] = useState(tea?.caffeine ?? '');
+  const [caffeineLevel, setCaffeineLevel] = useState<CaffeineLevel>(tea?.caffeineLevel ?? 'Low');
+  const [website, setWebsite] = useState(tea?.website ?? '');
+  // Temperatures are edited in the display unit and stored in °C
+  const [temperature, setTemperature] = useState(toTemperatureInput(tea?.temperatureCelsius, temperatureUnit));
+  const [leafGrams, setLeafGrams] = useState(tea?.leafGrams?.toString() ?? '');
+  const [waterMl, setWaterMl] = useState(tea?.waterMl?.toString() ?? '');
+  // The top-level steep times, temperature, leaf and water amounts above are the primary profile
+  const [primaryMethod, setPrimaryMethod] = useState<BrewingMethod>(initialPrimaryMethod);
+  const [secondarySteepTimes, setSecondarySteepTimes] = useState(initialSecondary?.steepTimes.join(', ') ?? '');
+  const [secondaryTemperature, setSecondaryTemperature] = useState(toTemperatureInput(initialSecondary?.temperatureCelsius, temperatureUnit));
+  const [secondaryLeafGrams, setSecondaryLeafGrams] = useState(initialSecondary?.leafGrams?.toString() ?? '');
+  const [secondaryWaterMl, setSecondaryWaterMl] = useState(initialSecondary?.waterMl?.toString() ?? '');
+  const secondaryMethod = otherBrewingMethod(primaryMethod);
+  const [stockGrams, setStockGrams] = useState(tea?.stockGrams?.toString() ?? '');
+  const [reorderThresholdGrams, setReorderThresholdGrams] = useState(tea?.reorderThresholdGrams?.toString() ?? '');
+  const [harvestYear, setHarvestYear] = useState(tea?.harvestYear?.toString() ?? '');
+  const [region, setRegion] = useState(tea?.region ?? '');
+  const [factory, setFactory] = useState(tea?.factory ?? '');
+  const [pressing, setPressing] = useState<Pressing | ''>(tea?.pressing ?? '');
+  const [storageLocation, setStorageLocation] = useState(tea?.storageLocation ?? '');
+  const [importUrl, setImportUrl] = useState(tea?.website ?? '');
+  const [importedListing, setImportedListing] = useState<ProductListing | null>(null);
+  // Set when the last import was filled from the server's cached copy of the page
+  const [cachedImport, setCachedImport] = useState<{ url: string, fetchedAt: number } | null>(null);
   const [isImporting, setIsImporting] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -229,14 +523,35 @@ const TeaForm = ({ onTeaAdded, onClose }: { onTeaAdded: () => void, onClose: ()
     setIsSubmitting(true);
 
     try {
-      const times = steepTimes.split(',').map(t => parseInt(t.trim())).filter(t => !isNaN(t));
+      const times = parseSteepTimeList(steepTimes);
+      const secondaryTimes = parseSteepTimeList(secondarySteepTimes);
 
       if (times.length === 0) {
         showError('Please enter at least one steep time.');
         return;
       }
 
-      await createTea({
+      const brewingParameters = {
+        temperatureCelsius: fromTemperatureInput(temperature, temperatureUnit),
+        leafGrams: parseOptionalNumber(leafGrams),
+        waterMl: parseOptionalNumber(waterMl)
+      };
+      const brewingProfiles: BrewingProfile[] = [
+        { method: primaryMethod, steepTimes: times, ...brewingParameters },
+        ...(secondaryTimes.length > 0
+          ? [{
+              method: secondaryMethod,
+              steepTimes: secondaryTimes,
+              temperatureCelsius: fromTemperatureInput(secondaryTemperature, temperatureUnit),
+              leafGrams: parseOptionalNumber(secondaryLeafGrams),
+              waterMl: parseOptionalNumber(secondaryWaterMl)
+            }]
+          : [])
+      ];
+      // A lone primary profile only repeats the top-level fields, so teas without profiles keep none
+      const storeProfiles = brewingProfiles.length > 1 || (tea?.brewingProfiles?.length ?? 0) > 0;
+
+      const formValues = {
         name,
         type,
         image,
@@ -244,15 +559,37 @@ const TeaForm = ({ onTeaAdded, onClose }: { onTeaAdded: () => void, onClose: ()
         caffeine,
         caffeineLevel,
         website,
-        brewingTemperature,
-        teaWeight
-      });
+        ...brewingParameters,
+        // Empty means the stock is not tracked
+        stockGrams: parseOptionalNumber(stockGrams),
+        reorderThresholdGrams: parseOptionalNumber(reorderThresholdGrams),
+        // Empty aging details are unknown
+        harvestYear: parseOptionalNumber(harvestYear),
+        region: region.trim() || null,
+        factory: factory.trim() || null,
+        pressing: pressing || null,
+        storageLocation: storageLocation.trim() || null,
+        ...(storeProfiles && { brewingProfiles })
+      };
 
-      showSuccess('Tea added successfully!');
-      onTeaAdded();
+      if (isEditing) {
+        const changes = diffTeaFields(tea, formValues);
+        if (Object.keys(changes).length === 0) {
+          showInfo('No changes to save');
+          onClose();
+          return;
+        }
+        await updateTea(tea.id, changes);
+        showSuccess('Tea updated successfully!');
+      } else {
+        await createTea(formValues);
+        showSuccess('Tea added successfully!');
+      }
+
+      onTeaSaved();
       onClose();
     } catch (error) {
-      console.error('Failed to create tea:', error);
+      console.error(`Failed to ${isEditing ? 'update' : 'create'} tea:`, error);
       if (error instanceof Error) {
         showError(`Failed to save tea: ${error.message}`);
       } else {
@@ -263,13 +600,33 @@ const TeaForm = ({ onTeaAdded, onClose }: { onTeaAdded: () => void, onClose: ()
     }
   };
 
-  const handleImport = async () => {
-    if (!importUrl) return;
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Lets the same file be picked again
+    e.target.value = '';
+    if (!file) return;
+
+    setIsUploading(true);
+    try {
+      const stored = await uploadImage(file);
+      setImage(stored.url);
+      showInfo('Photo uploaded');
+    } catch (error) {
+      console.error('Failed to upload photo:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      showError(`Failed to upload photo: ${errorMessage}`);
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleImport = async (url = importUrl, force = false) => {
+    if (!url) return;
 
     setIsImporting(true);
 
     try {
-      const data = await importTeaFromUrl(importUrl);
+      const data = await importTeaFromUrl(url, force);
       setName(data.name);
       setType(data.type as TeaType);
       setImage(data.image);
@@ -277,8 +634,23 @@ const TeaForm = ({ onTeaAdded, onClose }: { onTeaAdded: () => void, onClose: ()
       setCaffeine(data.caffeine || '');
       setCaffeineLevel(data.caffeineLevel);
       setWebsite(data.website || '');
-      setBrewingTemperature(data.brewingTemperature);
-      setTeaWeight(data.teaWeight);
+      setTemperature(toTemperatureInput(data.temperatureCelsius, temperatureUnit));
+      setLeafGrams(data.leafGrams?.toString() ?? '');
+      setWaterMl(data.waterMl?.toString() ?? '');
+      const importedPrimaryMethod = data.brewingProfiles?.[0]?.method ?? 'Chinese Gongfu';
+      const importedSecondary = data.brewingProfiles?.find(profile => profile.method === otherBrewingMethod(importedPrimaryMethod));
+      setPrimaryMethod(importedPrimaryMethod);
+      setSecondarySteepTimes(importedSecondary?.steepTimes.join(', ') ?? '');
+      setSecondaryTemperature(toTemperatureInput(importedSecondary?.temperatureCelsius, temperatureUnit));
+      setSecondaryLeafGrams(importedSecondary?.leafGrams?.toString() ?? '');
+      setSecondaryWaterMl(importedSecondary?.waterMl?.toString() ?? '');
+      // The page only fills in the aging details it lists; the storage location is never on it
+      if (data.harvestYear) setHarvestYear(data.harvestYear.toString());
+      if (data.region) setRegion(data.region);
+      if (data.factory) setFactory(data.factory);
+      if (data.pressing) setPressing(data.pressing);
+      setImportedListing(data.listing);
+      setCachedImport(data.fromCache ? { url, fetchedAt: data.fetchedAt } : null);
       setImportUrl('');
       showInfo('Tea information imported');
     } catch (error) {
@@ -297,14 +669,14 @@ const TeaForm = ({ onTeaAdded, onClose }: { onTeaAdded: () => void, onClose: ()
     <div className="modal-overlay" onClick={(e) => e.target === e.currentTarget && onClose()}>
       <div className="form-container">
         <div className="form-header">
-          <h3>Add New Tea</h3>
+          <h3>{isEditing ? 'Edit Tea' : 'Add New Tea'}</h3>
           <button onClick={onClose} className="close-btn"><X size={20} /></button>
         </div>
 
         <div className="form-body">
           <div className="import-section">
             <div className="form-group">
-              <label>Import from URL</label>
+              <label>{isEditing ? 'Refresh from URL' : 'Import from URL'}</label>
               <div className="input-group">
                 <input
                   value={importUrl}
@@ -313,7 +685,7 @@ const TeaForm = ({ onTeaAdded, onClose }: { onTeaAdded: () => void, onClose: ()
                 />
                 <button
                   type="button"
-                  onClick={handleImport}
+                  onClick={() => handleImport()}
                   disabled={isImporting}
                   className="btn-primary"
                   style={{minWidth: '100px'}}
@@ -321,6 +693,23 @@ const TeaForm = ({ onTeaAdded, onClose }: { onTeaAdded: () => void, onClose: ()
                   {isImporting ? 'Importing...' : 'Auto-fill'}
                 </button>
               </div>
+              {importedListing && formatListingSummary(importedListing) && (
+                <p className="import-listing">{formatListingSummary(importedListing)}</p>
+              )}
+              {cachedImport && (
+                <p className="import-listing">
+                  From a copy of the page fetched {new Date(cachedImport.fetchedAt).toLocaleString()}
+                  {' · '}
+                  <button
+                    type="button"
+                    className="btn-refetch"
+                    onClick={() => handleImport(cachedImport.url, true)}
+                    disabled={isImporting}
+                  >
+                    Fetch again
+                  </button>
+                </p>
+              )}
             </div>
           </div>
 
@@ -339,10 +728,17 @@ const TeaForm = ({ onTeaAdded, onClose }: { onTeaAdded: () => void, onClose: ()
             </div>
             <div className="form-group">
               <label>Image URL</label>
-              <input value={image} onChange={e => setImage(e.target.value)} required placeholder="https://..." />
+              <div className="input-group">
+                <input value={image} onChange={e => setImage(e.target.value)} required placeholder="https://... or upload a photo" />
+                <label className={`btn-secondary btn-upload${isUploading ? ' disabled' : ''}`} title="Upload your own photo">
+                  <Upload size={16} /> {isUploading ? 'Uploading...' : 'Upload'}
+                  <input type="file" accept="image/*" onChange={handleUpload} disabled={isUploading} hidden />
+                </label>
+              </div>
+              {image && <img src={getImageSrc(image, 'thumb')} alt="" className="image-preview" />}
             </div>
             <div className="form-group">
-              <label>Steep Times (seconds)</label>
+              <label>Steep Times ({primaryMethod}, seconds)</label>
               <input value={steepTimes} onChange={e => setSteepTimes(e.target.value)} placeholder="60, 120, 180" required />
             </div>
             <div className="form-group">
@@ -362,12 +758,65 @@ const TeaForm = ({ onTeaAdded, onClose }: { onTeaAdded: () => void, onClose: ()
               <input value={website} onChange={e => setWebsite(e.target.value)} placeholder="https://example.com" required />
             </div>
             <div className="form-group">
-              <label>Brewing Temperature (Gongfu Method)</label>
-              <input value={brewingTemperature} onChange={e => setBrewingTemperature(e.target.value)} placeholder="e.g. 185℉ / 85℃" required />
+              <label>Brewing Temperature ({primaryMethod}, °{temperatureUnit})</label>
+              <input type="number" min="0" max={temperatureUnit === 'F' ? 212 : 100} value={temperature} onChange={e => setTemperature(e.target.value)} placeholder={temperatureUnit === 'F' ? 'e.g. 185' : 'e.g. 85'} />
+            </div>
+            <div className="form-group">
+              <label>Leaf (grams, {primaryMethod})</label>
+              <input type="number" min="0" step="0.1" value={leafGrams} onChange={e => setLeafGrams(e.target.value)} placeholder="e.g. 5" />
+            </div>
+            <div className="form-group">
+              <label>Water (ml, {primaryMethod})</label>
+              <input type="number" min="0" value={waterMl} onChange={e => setWaterMl(e.target.value)} placeholder="e.g. 100" />
+            </div>
+            <div className="form-group">
+              <label>Steep Times ({secondaryMethod}, seconds, optional)</label>
+              <input value={secondarySteepTimes} onChange={e => setSecondarySteepTimes(e.target.value)} placeholder="180, 240" />
+            </div>
+            <div className="form-group">
+              <label>Brewing Temperature ({secondaryMethod}, °{temperatureUnit})</label>
+              <input type="number" min="0" max={temperatureUnit === 'F' ? 212 : 100} value={secondaryTemperature} onChange={e => setSecondaryTemperature(e.target.value)} placeholder={temperatureUnit === 'F' ? 'e.g. 185' : 'e.g. 85'} />
+            </div>
+            <div className="form-group">
+              <label>Leaf (grams, {secondaryMethod})</label>
+              <input type="number" min="0" step="0.1" value={secondaryLeafGrams} onChange={e => setSecondaryLeafGrams(e.target.value)} placeholder="e.g. 3" />
+            </div>
+            <div className="form-group">
+              <label>Water (ml, {secondaryMethod})</label>
+              <input type="number" min="0" value={secondaryWaterMl} onChange={e => setSecondaryWaterMl(e.target.value)} placeholder="e.g. 350" />
+            </div>
+            <div className="form-group">
+              <label>Stock (grams)</label>
+              <input type="number" min="0" step="0.1" value={stockGrams} onChange={e => setStockGrams(e.target.value)} placeholder="Leave empty to not track stock" />
+            </div>
+            <div className="form-group">
+              <label>Reorder Threshold (grams)</label>
+              <input type="number" min="0" step="0.1" value={reorderThresholdGrams} onChange={e => setReorderThresholdGrams(e.target.value)} placeholder="Defaults to one session's tea weight" />
+            </div>
+            <div className="form-group">
+              <label>Harvest Year</label>
+              <input type="number" min="1900" max={new Date().getFullYear()} step="1" value={harvestYear} onChange={e => setHarvestYear(e.target.value)} placeholder="Year picked or pressed, e.g. 2019" />
+            </div>
+            <div className="form-group">
+              <label>Region</label>
+              <input value={region} onChange={e => setRegion(e.target.value)} placeholder="e.g. Bulang, Xishuangbanna" />
+            </div>
+            <div className="form-group">
+              <label>Factory</label>
+              <input value={factory} onChange={e => setFactory(e.target.value)} placeholder="e.g. Menghai Tea Factory" />
+            </div>
+            <div className="form-group">
+              <label>Pressing</label>
+              <select value={pressing} onChange={e => setPressing(e.target.value as Pressing | '')}>
+                <option value="">Unknown</option>
+                {PRESSING_FORMATS.map(format => (
+                  <option key={format} value={format}>{format}</option>
+                ))}
+              </select>
             </div>
             <div className="form-group">
-              <label>Tea Weight (Gongfu Method)</label>
-              <input value={teaWeight} onChange={e => setTeaWeight(e.target.value)} placeholder="e.g. 5g Tea" required />
+              <label>Storage Location</label>
+              <input value={storageLocation} onChange={e => setStorageLocation(e.target.value)} placeholder="e.g. Pumidor, top shelf" />
             </div>
             <button type="submit" className="btn-primary" disabled={isSubmitting} style={{marginTop: '0.5rem', width: '100%'}}>
               {isSubmitting ? 'Saving...' : 'Save Tea'}
@@ -402,16 +851,46 @@ const AuthenticatedApp = () => {
 function AppContent() {
   const { logout } = useAuth();
   const [teas, setTeas] = useState<Tea[]>([]);
+  const [vendors, setVendors] = useState<Vendor[]>([]);
+  const [tastingNotes, setTastingNotes] = useState<TastingNote[]>([]);
   const [showForm, setShowForm] = useState(false);
+  const [editingTea, setEditingTea] = useState<Tea | null>(null);
+  const [showBackups, setShowBackups] = useState(false);
+  const [showBulkImport, setShowBulkImport] = useState(false);
+  // Teas being checked against their websites: one from the side panel, or all of them
+  const [resyncingTeas, setResyncingTeas] = useState<Tea[] | null>(null);
+  const [viewingVendorId, setViewingVendorId] = useState<string | null>(null);
+  const [showTags, setShowTags] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedType, setSelectedType] = useState<string | null>(null);
   const [selectedCaffeineLevel, setSelectedCaffeineLevel] = useState<string | null>(null);
-  const [sortBy, setSortBy] = useState<'date' | 'name-asc' | 'name-desc' | 'type' | 'caffeine-asc' | 'caffeine-desc' | 'steeps-asc' | 'steeps-desc'>('date');
-  const [usedSteepTimes, setUsedSteepTimes] = useState<Map<string, Set<number>>>(new Map());
+  const [lowStockOnly, setLowStockOnly] = useState(false);
+  const [selectedVendorId, setSelectedVendorId] = useState<string | null>(null);
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [tagMatchMode, setTagMatchMode] = useState<TagMatchMode>('all');
+  const [temperatureUnit, setTemperatureUnit] = useState<TemperatureUnit>(getStoredTemperatureUnit);
+  const [sortBy, setSortBy] = useState<SortOption>('date');
+  const [brewLogs, setBrewLogs] = useState<Map<string, BrewLog>>(getStoredBrewLogs);
   const [selectedTeaId, setSelectedTeaId] = useState<string | null>(null);
   const [deletingTeaId, setDeletingTeaId] = useState<string | null>(null);
-  const { startTimer } = useTimer();
+  const { startTimer, onTimerFinished } = useTimer();
 
+  useEffect(() => {
+    storeBrewLogs(brewLogs);
+  }, [brewLogs]);
+
+  // A timer that ran out or was stopped records how long its steep really took, nudges included
+  useEffect(() => onTimerFinished(timer => {
+    setBrewLogs(prev => {
+      const log = prev.get(timer.teaId);
+      if (!log) return prev;
+      const newMap = new Map(prev);
+      newMap.set(timer.teaId, recordSteepTime(log, timer.steepIndex, timer.actualSeconds));
+      return newMap;
+    });
+  }), [onTimerFinished]);
+
+  // Saving a tea from a new shop creates its vendor, so vendors are reloaded with the teas
   const fetchTeas = async () => {
     try {
       const data = await getTeas();
@@ -422,10 +901,29 @@ function AppContent() {
       showError(`Failed to load tea collection: ${errorMessage}`);
       setTeas([]);
     }
+    try {
+      setVendors(await getVendors());
+    } catch (error) {
+      console.error('Failed to load vendors:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      showError(`Failed to load vendors: ${errorMessage}`);
+    }
+  };
+
+  // Every tea's notes, for the side panel and for searching by flavor
+  const fetchTastingNotes = async () => {
+    try {
+      setTastingNotes(await getTastingNotes());
+    } catch (error) {
+      console.error('Failed to load tasting notes:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      showError(`Failed to load tasting notes: ${errorMessage}`);
+    }
   };
 
   useEffect(() => {
     fetchTeas();
+    fetchTastingNotes();
   }, []);
 
   const handleDelete = async (id: string, e: React.MouseEvent) => {
@@ -434,11 +932,7 @@ function AppContent() {
       setDeletingTeaId(id);
       try {
         await deleteTea(id);
-        setUsedSteepTimes(prev => {
-          const newMap = new Map(prev);
-          newMap.delete(id);
-          return newMap;
-        });
+        clearBrewLog(id);
         if (selectedTeaId === id) {
           setSelectedTeaId(null);
         }
@@ -455,16 +949,59 @@ function AppContent() {
   };
 
   const handleSteepTimeClick = (timeIdx: number, teaId: string, time: number, teaName: string) => {
-    startTimer(time, teaName, timeIdx);
-    setUsedSteepTimes(prev => {
+    startTimer(time, teaId, teaName, timeIdx);
+    setBrewLogs(prev => {
+      const newMap = new Map(prev);
+      const now = Date.now();
+      const log = newMap.get(teaId) ?? { startedAt: now, steeps: [] };
+      newMap.set(teaId, {
+        ...log,
+        steeps: [...log.steeps, { index: timeIdx, plannedSeconds: time, actualSeconds: null, startedAt: now }]
+      });
+      return newMap;
+    });
+  };
+
+  const clearBrewLog = (teaId: string) => {
+    setBrewLogs(prev => {
       const newMap = new Map(prev);
-      const usedSet = newMap.get(teaId) || new Set<number>();
-      usedSet.add(timeIdx);
-      newMap.set(teaId, usedSet);
+      newMap.delete(teaId);
       return newMap;
     });
   };
 
+  const handleGuidedSteep = (session: GuidedSessionState, steepIndex: number) => {
+    handleSteepTimeClick(steepIndex, session.teaId, session.steepTimes[steepIndex], session.teaName);
+  };
+
+  // A guided session logs itself when its last steep finishes, whether or not its tea is open, with the
+  // leaf and water temperature of its method. The last steep's time is not in the brew log yet.
+  const handleGuidedSessionComplete = async (session: GuidedSessionState, lastSteep: FinishedTimer) => {
+    const log = brewLogs.get(session.teaId);
+    const brewLog = log && recordSteepTime(log, lastSteep.steepIndex, lastSteep.actualSeconds);
+    try {
+      await markTeaConsumed(session.teaId, {
+        ...(brewLog && { startedAt: brewLog.startedAt, steeps: brewLog.steeps }),
+        gramsUsed: session.leafGrams,
+        waterTemperature: session.temperatureCelsius,
+        notes: ''
+      });
+      showSuccess(`${session.teaName} marked as consumed!`);
+      clearBrewLog(session.teaId);
+      await fetchTeas();
+    } catch (error) {
+      console.error('Failed to mark tea as consumed:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      showError(`Failed to log the guided session of ${session.teaName}: ${errorMessage}`);
+    }
+  };
+
+  const toggleTemperatureUnit = () => {
+    const unit = temperatureUnit === 'C' ? 'F' : 'C';
+    storeTemperatureUnit(unit);
+    setTemperatureUnit(unit);
+  };
+
   const handleDownloadYaml = async () => {
     try {
       await downloadTeasYaml();
@@ -475,9 +1012,27 @@ function AppContent() {
     }
   };
 
-  const uniqueTypes = useMemo(() => {
-    return Array.from(new Set(teas.map(tea => tea.type))).sort();
-  }, [teas]);
+  // The teas' types and the categories they belong to, so filtering by PuEr includes Sheng and Shou
+  const uniqueTypes = useMemo(() => getTypeFilterOptions(teas.map(tea => tea.type)), [teas]);
+
+  const allTags = useMemo(() => getTagCounts(teas).map(tag => tag.name), [teas]);
+  // Selected tags that were renamed, merged or removed in the meantime no longer filter
+  const activeTags = useMemo(() => selectedTags.filter(tag => allTags.includes(tag)), [selectedTags, allTags]);
+
+  const notesByTea = useMemo(() => {
+    const byTea = new Map<string, TastingNote[]>();
+    for (const note of tastingNotes) {
+      byTea.set(note.teaId, [...(byTea.get(note.teaId) ?? []), note]);
+    }
+    return byTea;
+  }, [tastingNotes]);
+
+  // Flavor descriptors and families from each tea's tasting notes, matched by the search
+  const flavorTerms = useMemo(() => new Map(
+    [...notesByTea.entries()].map(([teaId, notes]) => [teaId, getFlavorSearchTerms(getFlavorProfile(notes))])
+  ), [notesByTea]);
+
+  const vendorsById = useMemo(() => new Map(vendors.map(vendor => [vendor.id, vendor])), [vendors]);
 
   const caffeineLevelValue = (level: string) => {
     if (level === 'Low') return 1;
@@ -487,12 +1042,19 @@ function AppContent() {
   };
 
   const filteredTeas = useMemo(() => {
+    // Teas without a vendor sort last
+    const vendorName = (tea: Tea) => (tea.vendorId && vendorsById.get(tea.vendorId)?.name) || '\uffff';
+
     return teas.filter(tea => {
       const matchesSearch = tea.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                           tea.type.toLowerCase().includes(searchTerm.toLowerCase());
-      const matchesType = selectedType === null || tea.type === selectedType;
+                           tea.type.toLowerCase().includes(searchTerm.toLowerCase()) ||
+                           (flavorTerms.get(tea.id) ?? []).some(term => term.includes(searchTerm.toLowerCase()));
+      const matchesType = selectedType === null || isTeaTypeWithin(tea.type, selectedType);
       const matchesCaffeine = selectedCaffeineLevel === null || tea.caffeineLevel === selectedCaffeineLevel;
-      return matchesSearch && matchesType && matchesCaffeine;
+      const matchesStock = !lowStockOnly || isLowStock(tea);
+      const matchesVendor = selectedVendorId === null || tea.vendorId === selectedVendorId;
+      const matchesTagFilter = matchesTags(tea, activeTags, tagMatchMode);
+      return matchesSearch && matchesType && matchesCaffeine && matchesStock && matchesVendor && matchesTagFilter;
     }).sort((a, b) => {
       switch (sortBy) {
         case 'name-asc':
@@ -501,6 +1063,8 @@ function AppContent() {
           return b.name.localeCompare(a.name);
         case 'type':
           return a.type.localeCompare(b.type);
+        case 'vendor':
+          return vendorName(a).localeCompare(vendorName(b));
         case 'caffeine-asc':
           return caffeineLevelValue(a.caffeineLevel) - caffeineLevelValue(b.caffeineLevel);
         case 'caffeine-desc':
@@ -509,12 +1073,16 @@ function AppContent() {
           return a.steepTimes.length - b.steepTimes.length;
         case 'steeps-desc':
           return b.steepTimes.length - a.steepTimes.length;
+        case 'vintage-asc':
+          return compareVintage(a, b, 'oldest');
+        case 'vintage-desc':
+          return compareVintage(a, b, 'youngest');
         case 'date':
         default:
           return parseInt(b.id) - parseInt(a.id);
       }
     });
-  }, [teas, searchTerm, selectedType, selectedCaffeineLevel, sortBy]);
+  }, [teas, searchTerm, selectedType, selectedCaffeineLevel, lowStockOnly, selectedVendorId, activeTags, tagMatchMode, sortBy, vendorsById, flavorTerms]);
 
   useEffect(() => {
     // Close side panel if the selected tea is filtered out
@@ -524,87 +1092,137 @@ function AppContent() {
   }, [filteredTeas, selectedTeaId]);
 
   return (
-    <div className="dashboard">
-      <div className="header-actions">
-        <div className="header-title">
-          <div className="logo-icon">
-            <Coffee size={24} />
+    <GuidedSessionProvider onStartSteep={handleGuidedSteep} onComplete={handleGuidedSessionComplete}>
+      <div className="dashboard">
+        <div className="header-actions">
+          <div className="header-title">
+            <div className="logo-icon">
+              <Coffee size={24} />
+            </div>
+            <h1>Tea Collection</h1>
           </div>
-          <h1>Tea Collection</h1>
-        </div>
-
-        <div className="header-controls">
-          <SortControls sortBy={sortBy} onSortChange={setSortBy} />
-          <button onClick={handleDownloadYaml} className="btn-secondary" title="Download YAML">
-            <Download size={18} />
-          </button>
-          <button onClick={() => setShowForm(true)} className="btn-primary btn-add-tea">
-            <Plus size={18} /> Add Tea
-          </button>
-          <button onClick={logout} className="logout-button" title="Logout">
-            <LogOut size={20} />
-          </button>
-        </div>
-      </div>
 
-      {showForm && <TeaForm onTeaAdded={fetchTeas} onClose={() => setShowForm(false)} />}
-
-      <FilterBar
-        searchTerm={searchTerm}
-        onSearchChange={setSearchTerm}
-        selectedType={selectedType}
-        onTypeChange={setSelectedType}
-        selectedCaffeineLevel={selectedCaffeineLevel}
-        onCaffeineLevelChange={setSelectedCaffeineLevel}
-        uniqueTypes={uniqueTypes}
-      />
-
-      <div className="main-layout">
-        {teas.length === 0 ? (
-          <div className="empty-state">
-            <h2>No teas yet</h2>
-            <p>Add your first tea to get started.</p>
-            <button onClick={() => setShowForm(true)} className="btn-primary" style={{marginTop: '1rem'}}>Add Tea</button>
-          </div>
-        ) : (
-          <div className="tea-grid-container">
-            <div className="tea-grid">
-              {filteredTeas.map(tea => (
-                <TeaCard
-                  key={tea.id}
-                  tea={tea}
-                  usedSteepTimes={usedSteepTimes.get(tea.id) || new Set()}
-                  onTeaClick={() => setSelectedTeaId(tea.id)}
-                  onSteepClick={() => {}}
-                  onDeleteClick={handleDelete}
-                  deletingTeaId={deletingTeaId}
-                  isSelected={selectedTeaId === tea.id}
-                />
-              ))}
-            </div>
+          <div className="header-controls">
+            <SortControls sortBy={sortBy} onSortChange={setSortBy} />
+            <button onClick={toggleTemperatureUnit} className="btn-secondary" title="Switch temperature unit">
+              <Thermometer size={18} /> °{temperatureUnit}
+            </button>
+            <button onClick={handleDownloadYaml} className="btn-secondary" title="Download YAML">
+              <Download size={18} />
+            </button>
+            <button onClick={() => setShowBackups(true)} className="btn-secondary" title="Backups">
+              <History size={18} />
+            </button>
+            <button onClick={() => setShowTags(true)} className="btn-secondary" title="Manage tags">
+              <Tags size={18} />
+            </button>
+            <button onClick={() => setShowBulkImport(true)} className="btn-secondary" title="Import several teas from product URLs">
+              <ListPlus size={18} />
+            </button>
+            <button onClick={() => setResyncingTeas(teas)} className="btn-secondary" title="Check all teas for changes on their websites">
+              <RefreshCw size={18} />
+            </button>
+            <button onClick={() => setShowForm(true)} className="btn-primary btn-add-tea">
+              <Plus size={18} /> Add Tea
+            </button>
+            <button onClick={logout} className="logout-button" title="Logout">
+              <LogOut size={20} />
+            </button>
           </div>
-        )}
+        </div>
 
-        {selectedTeaId && filteredTeas.find(t => t.id === selectedTeaId) && (
-          <SidePanel
-            tea={filteredTeas.find(t => t.id === selectedTeaId)!}
-            onClose={() => setSelectedTeaId(null)}
-            usedSteepTimes={usedSteepTimes.get(selectedTeaId) || new Set()}
-            onSteepTimeClick={(idx, time, teaName) => {
-              handleSteepTimeClick(idx, selectedTeaId, time, teaName);
-            }}
-            onResetUsed={() => {
-              setUsedSteepTimes(prev => {
-                const newMap = new Map(prev);
-                newMap.delete(selectedTeaId);
-                return newMap;
-              });
+        {showForm && <TeaForm onTeaSaved={fetchTeas} onClose={() => setShowForm(false)} temperatureUnit={temperatureUnit} />}
+        {showBackups && <BackupsPanel onClose={() => setShowBackups(false)} onRestored={fetchTeas} />}
+        {showTags && <TagsPanel onClose={() => setShowTags(false)} onChanged={fetchTeas} />}
+        {showBulkImport && <BulkImportPanel onClose={() => setShowBulkImport(false)} onImported={fetchTeas} />}
+        {resyncingTeas && <ResyncPanel teas={resyncingTeas} onClose={() => setResyncingTeas(null)} onUpdated={fetchTeas} temperatureUnit={temperatureUnit} />}
+        {viewingVendorId && vendorsById.has(viewingVendorId) && (
+          <VendorPanel
+            key={viewingVendorId}
+            vendor={vendorsById.get(viewingVendorId)!}
+            teas={teas}
+            onClose={() => setViewingVendorId(null)}
+            onUpdated={fetchTeas}
+            onTeaSelect={teaId => {
+              setViewingVendorId(null);
+              setSelectedTeaId(teaId);
             }}
-            onTeaUpdated={fetchTeas}
           />
         )}
+        {editingTea && <TeaForm key={editingTea.id} tea={editingTea} onTeaSaved={fetchTeas} onClose={() => setEditingTea(null)} temperatureUnit={temperatureUnit} />}
+
+        <FilterBar
+          searchTerm={searchTerm}
+          onSearchChange={setSearchTerm}
+          selectedType={selectedType}
+          onTypeChange={setSelectedType}
+          selectedCaffeineLevel={selectedCaffeineLevel}
+          onCaffeineLevelChange={setSelectedCaffeineLevel}
+          lowStockOnly={lowStockOnly}
+          onLowStockChange={setLowStockOnly}
+          vendors={vendors}
+          selectedVendorId={selectedVendorId}
+          onVendorChange={setSelectedVendorId}
+          tags={allTags}
+          selectedTags={activeTags}
+          onSelectedTagsChange={setSelectedTags}
+          tagMatchMode={tagMatchMode}
+          onTagMatchModeChange={setTagMatchMode}
+          uniqueTypes={uniqueTypes}
+        />
+
+        <div className="main-layout">
+          {teas.length === 0 ? (
+            <div className="empty-state">
+              <h2>No teas yet</h2>
+              <p>Add your first tea to get started.</p>
+              <button onClick={() => setShowForm(true)} className="btn-primary" style={{marginTop: '1rem'}}>Add Tea</button>
+            </div>
+          ) : (
+            <div className="tea-grid-container">
+              <div className="tea-grid">
+                {filteredTeas.map(tea => (
+                  <TeaCard
+                    key={tea.id}
+                    tea={tea}
+                    usedSteepTimes={getBrewedSteeps(brewLogs.get(tea.id))}
+                    onTeaClick={() => setSelectedTeaId(tea.id)}
+                    onSteepClick={() => {}}
+                    onDeleteClick={handleDelete}
+                    deletingTeaId={deletingTeaId}
+                    isSelected={selectedTeaId === tea.id}
+                    temperatureUnit={temperatureUnit}
+                  />
+                ))}
+              </div>
+            </div>
+          )}
+
+          {selectedTeaId && filteredTeas.find(t => t.id === selectedTeaId) && (
+            <SidePanel
+              tea={filteredTeas.find(t => t.id === selectedTeaId)!}
+              onClose={() => setSelectedTeaId(null)}
+              usedSteepTimes={getBrewedSteeps(brewLogs.get(selectedTeaId))}
+              brewLog={brewLogs.get(selectedTeaId)}
+              onSteepTimeClick={(idx, time, teaName) => {
+                handleSteepTimeClick(idx, selectedTeaId, time, teaName);
+              }}
+              onResetUsed={() => clearBrewLog(selectedTeaId)}
+              onSessionLogged={() => clearBrewLog(selectedTeaId)}
+              onTeaUpdated={fetchTeas}
+              onEdit={() => setEditingTea(filteredTeas.find(t => t.id === selectedTeaId) ?? null)}
+              onResync={() => setResyncingTeas(teas.filter(t => t.id === selectedTeaId))}
+              vendor={vendorsById.get(filteredTeas.find(t => t.id === selectedTeaId)!.vendorId ?? '')}
+              allTags={allTags}
+              tastingNotes={notesByTea.get(selectedTeaId) ?? []}
+              onTastingNotesChanged={fetchTastingNotes}
+              onVendorClick={() => setViewingVendorId(filteredTeas.find(t => t.id === selectedTeaId)?.vendorId ?? null)}
+              temperatureUnit={temperatureUnit}
+            />
+          )}
+        </div>
       </div>
-    </div>
+    </GuidedSessionProvider>
   );
 }
 
@@ -0,0 +1,152 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { useTimer, type FinishedTimer, type SteepTimer } from './TimerContext';
+import { GuidedSessionContext, type GuidedSessionPhase, type GuidedSessionState } from './useGuidedSessions';
+import { RINSE_STEEP_INDEX, getSessionSteps } from './utils/guidedSession';
+
+interface GuidedSessionProviderProps {
+  children: React.ReactNode;
+  // Starts a steep the way its button does, so it is timed and logged
+  onStartSteep: (session: GuidedSessionState, steepIndex: number) => void;
+  // Called once per session, when its last steep has finished
+  onComplete: (session: GuidedSessionState, lastSteep: FinishedTimer) => void;
+}
+
+const SESSIONS_STORAGE_KEY = 'guided_sessions';
+
+// How often a gap is checked for being over
+const GAP_TICK_INTERVAL_MS = 250;
+
+const isGuidedSession = (value: unknown): value is GuidedSessionState => {
+  const session = value as Partial<GuidedSessionState> | null;
+  return typeof session === 'object' && session !== null &&
+    typeof session.teaId === 'string' && typeof session.teaName === 'string' && typeof session.method === 'string' &&
+    Array.isArray(session.steepTimes) && session.steepTimes.every(time => typeof time === 'number') &&
+    typeof session.settings === 'object' && session.settings !== null &&
+    typeof session.phase === 'object' && session.phase !== null &&
+    ['brewing', 'between', 'finished'].includes(session.phase.kind);
+};
+
+const getSteps = (session: GuidedSessionState): number[] =>
+  getSessionSteps(session.steepTimes.length, session.settings.rinse);
+
+// A session brewing a step whose timer is gone, e.g. one that ran out too long ago to be kept,
+// waits between steps for that step to be started again
+const withStepTimer = (session: GuidedSessionState, timers: SteepTimer[]): GuidedSessionState => {
+  if (session.phase.kind !== 'brewing') return session;
+  const steepIndex = getSteps(session)[session.phase.step];
+  if (timers.some(timer => timer.teaId === session.teaId && timer.steepIndex === steepIndex)) return session;
+  return { ...session, phase: { kind: 'between', step: session.phase.step, startsAt: null } };
+};
+
+// Finished sessions are not brought back
+const readStoredSessions = (timers: SteepTimer[]): GuidedSessionState[] => {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(SESSIONS_STORAGE_KEY) ?? '[]');
+    if (Array.isArray(stored)) {
+      return stored.filter(isGuidedSession)
+        .filter(session => session.phase.kind !== 'finished')
+        .map(session => withStepTimer(session, timers));
+    }
+  } catch {
+    // Unreadable entries are dropped
+  }
+  return [];
+};
+
+export const GuidedSessionProvider = ({ children, onStartSteep, onComplete }: GuidedSessionProviderProps) => {
+  const { timers, startTimer, onTimerFinished } = useTimer();
+  const [sessions, setSessions] = useState<GuidedSessionState[]>(() => readStoredSessions(timers));
+  // The sessions and handlers as last rendered, for the timer listener and the gap interval
+  const sessionsRef = useRef(sessions);
+  const handlers = useRef({ onStartSteep, onComplete });
+
+  useEffect(() => {
+    sessionsRef.current = sessions;
+    handlers.current = { onStartSteep, onComplete };
+  });
+
+  useEffect(() => {
+    const stored = sessions.filter(session => session.phase.kind !== 'finished');
+    if (stored.length > 0) {
+      localStorage.setItem(SESSIONS_STORAGE_KEY, JSON.stringify(stored));
+    } else {
+      localStorage.removeItem(SESSIONS_STORAGE_KEY);
+    }
+  }, [sessions]);
+
+  const setPhase = useCallback((teaId: string, phase: GuidedSessionPhase) => {
+    setSessions(prev => prev.map(session => (session.teaId === teaId ? { ...session, phase } : session)));
+  }, []);
+
+  const runStep = useCallback((session: GuidedSessionState, step: number) => {
+    const steepIndex = getSteps(session)[step];
+    if (steepIndex === undefined) return;
+    if (steepIndex === RINSE_STEEP_INDEX) {
+      startTimer(session.settings.rinseSeconds, session.teaId, session.teaName, RINSE_STEEP_INDEX);
+    } else {
+      handlers.current.onStartSteep(session, steepIndex);
+    }
+    setPhase(session.teaId, { kind: 'brewing', step });
+  }, [startTimer, setPhase]);
+
+  const startSession = useCallback((details: Omit<GuidedSessionState, 'phase'>) => {
+    const session: GuidedSessionState = { ...details, phase: { kind: 'brewing', step: 0 } };
+    setSessions(prev => [...prev.filter(s => s.teaId !== session.teaId), session]);
+    runStep(session, 0);
+  }, [runStep]);
+
+  const startStep = useCallback((teaId: string, step: number) => {
+    const session = sessionsRef.current.find(s => s.teaId === teaId);
+    if (session) {
+      runStep(session, step);
+    }
+  }, [runStep]);
+
+  const endSession = useCallback((teaId: string) => {
+    setSessions(prev => prev.filter(session => session.teaId !== teaId));
+  }, []);
+
+  // Once a step's timer runs out, the next one follows after the gap; a stopped one waits for a restart.
+  // The last one finishes the session, which logs it with the steep time the timer reports.
+  useEffect(() => onTimerFinished(timer => {
+    if (timer.stopped) return;
+    const session = sessionsRef.current.find(s => s.teaId === timer.teaId);
+    if (!session || session.phase.kind !== 'brewing') return;
+    const steps = getSteps(session);
+    const { step } = session.phase;
+    if (steps[step] !== timer.steepIndex) return;
+
+    if (step === steps.length - 1) {
+      setPhase(session.teaId, { kind: 'finished' });
+      handlers.current.onComplete(session, timer);
+      return;
+    }
+    const startsAt = session.settings.autoStart ? Date.now() + session.settings.gapSeconds * 1000 : null;
+    setPhase(session.teaId, { kind: 'between', step: step + 1, startsAt });
+  }), [onTimerFinished, setPhase]);
+
+  // Starts the next step of every session whose gap is over
+  const hasPendingGap = sessions.some(session => session.phase.kind === 'between' && session.phase.startsAt !== null);
+  useEffect(() => {
+    if (!hasPendingGap) return;
+
+    const tick = () => {
+      const current = Date.now();
+      for (const session of sessionsRef.current) {
+        if (session.phase.kind === 'between' && session.phase.startsAt !== null && session.phase.startsAt <= current) {
+          runStep(session, session.phase.step);
+        }
+      }
+    };
+    const interval = setInterval(tick, GAP_TICK_INTERVAL_MS);
+    tick();
+
+    return () => clearInterval(interval);
+  }, [hasPendingGap, runStep]);
+
+  return (
+    <GuidedSessionContext.Provider value={{ sessions, startSession, startStep, endSession }}>
+      {children}
+    </GuidedSessionContext.Provider>
+  );
+};
@@ -1,4 +1,5 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import { useEffect } from 'react';
 import { render, screen, waitFor, act } from '@testing-library/react';
 import { TimerProvider, useTimer } from './TimerContext';
 
@@ -38,15 +39,26 @@ Object.defineProperty(window, 'AudioContext', {
 
 // Test component that uses the timer
 const TestComponent = () => {
-  const { timeLeft, activeTeaName, startTimer, stopTimer } = useTimer();
+  const { timers, startTimer, stopTimer, pauseTimer, resumeTimer, adjustTimer } = useTimer();
+  const [first] = timers;
 
   return (
     <div>
-      <div data-testid="time-left">{timeLeft ?? 'null'}</div>
-      <div data-testid="active-tea">{activeTeaName ?? 'null'}</div>
-      <button onClick={() => startTimer(30, 'Green Tea', 0)}>Start Timer</button>
-      <button onClick={() => startTimer(5, 'Black Tea', 1)}>Start 5s Timer</button>
-      <button onClick={stopTimer}>Stop Timer</button>
+      <div data-testid="time-left">{first?.timeLeft ?? 'null'}</div>
+      <div data-testid="active-tea">{first?.teaName ?? 'null'}</div>
+      <ul>
+        {timers.map(timer => (
+          <li key={timer.id} data-testid="timer-row">{timer.teaName} {timer.steepIndex} {timer.timeLeft}</li>
+        ))}
+      </ul>
+      <button onClick={() => startTimer(30, 'green', 'Green Tea', 0)}>Start Timer</button>
+      <button onClick={() => startTimer(5, 'black', 'Black Tea', 1)}>Start 5s Timer</button>
+      <button onClick={() => startTimer(20, 'green', 'Green Tea', 0)}>Restart Green Steep</button>
+      <button onClick={() => first && stopTimer(first.id)}>Stop Timer</button>
+      <button onClick={() => first && pauseTimer(first.id)}>Pause Timer</button>
+      <button onClick={() => first && resumeTimer(first.id)}>Resume Timer</button>
+      <button onClick={() => first && adjustTimer(first.id, 5)}>Add 5s</button>
+      <button onClick={() => first && adjustTimer(first.id, -5)}>Take Off 5s</button>
     </div>
   );
 };
@@ -54,6 +66,7 @@ const TestComponent = () => {
 describe('TimerContext', () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    localStorage.clear();
   });
 
   afterEach(() => {
@@ -227,7 +240,7 @@ describe('TimerContext', () => {
       }, { timeout: 1000 });
     });
 
-    it('should handle multiple timer starts sequentially', async () => {
+    it('should run timers for different teas side by side', async () => {
       render(
         <TimerProvider>
           <TestComponent />
@@ -246,15 +259,60 @@ describe('TimerContext', () => {
         expect(screen.getByTestId('time-left')).toHaveTextContent('30');
       }, { timeout: 1000 });
 
-      // Start second timer (should override)
+      // Start a second tea alongside the first
       act(() => {
         start5sButton.click();
       });
 
       await waitFor(() => {
-        expect(screen.getByTestId('time-left')).toHaveTextContent('5');
+        expect(screen.getAllByTestId('timer-row')).toHaveLength(2);
+      }, { timeout: 1000 });
+      const rows = screen.getAllByTestId('timer-row');
+      expect(rows[0]).toHaveTextContent('Green Tea 0 30');
+      expect(rows[1]).toHaveTextContent('Black Tea 1 5');
+    });
+
+    it('should restart a steep that is started again', async () => {
+      render(
+        <TimerProvider>
+          <TestComponent />
+        </TimerProvider>
+      );
+
+      act(() => {
+        screen.getByRole('button', { name: /Start Timer/i }).click();
+      });
+      act(() => {
+        screen.getByRole('button', { name: /Restart Green Steep/i }).click();
+      });
+
+      await waitFor(() => {
+        expect(screen.getByTestId('time-left')).toHaveTextContent('20');
+      }, { timeout: 1000 });
+      expect(screen.getAllByTestId('timer-row')).toHaveLength(1);
+    });
+
+    it('should stop one timer and leave the others running', async () => {
+      render(
+        <TimerProvider>
+          <TestComponent />
+        </TimerProvider>
+      );
+
+      act(() => {
+        screen.getByRole('button', { name: /Start Timer/i }).click();
+      });
+      act(() => {
+        screen.getByRole('button', { name: /Start 5s Timer/i }).click();
+      });
+      act(() => {
+        screen.getByRole('button', { name: /Stop Timer/i }).click();
+      });
+
+      await waitFor(() => {
         expect(screen.getByTestId('active-tea')).toHaveTextContent('Black Tea');
       }, { timeout: 1000 });
+      expect(screen.getAllByTestId('timer-row')).toHaveLength(1);
     });
 
     it('should allow restarting timer after stopping', async () => {
@@ -296,11 +354,354 @@ describe('TimerContext', () => {
     });
   });
 
+  describe('Pausing and adjusting', () => {
+    it('should hold the time left while paused and count on after resuming', async () => {
+      render(
+        <TimerProvider>
+          <TestComponent />
+        </TimerProvider>
+      );
+
+      act(() => {
+        screen.getByRole('button', { name: /Start Timer/i }).click();
+      });
+      act(() => {
+        screen.getByRole('button', { name: /Pause Timer/i }).click();
+      });
+
+      await new Promise(resolve => setTimeout(resolve, 1100));
+      expect(screen.getByTestId('time-left')).toHaveTextContent('30');
+
+      act(() => {
+        screen.getByRole('button', { name: /Resume Timer/i }).click();
+      });
+
+      await waitFor(() => {
+        expect(screen.getByTestId('time-left')).toHaveTextContent('29');
+      }, { timeout: 1500 });
+    });
+
+    it('should add and take off time', async () => {
+      render(
+        <TimerProvider>
+          <TestComponent />
+        </TimerProvider>
+      );
+
+      act(() => {
+        screen.getByRole('button', { name: /Start Timer/i }).click();
+      });
+      act(() => {
+        screen.getByRole('button', { name: /Add 5s/i }).click();
+      });
+
+      await waitFor(() => {
+        expect(screen.getByTestId('time-left')).toHaveTextContent('35');
+      }, { timeout: 1000 });
+
+      act(() => {
+        screen.getByRole('button', { name: /Take Off 5s/i }).click();
+      });
+      act(() => {
+        screen.getByRole('button', { name: /Take Off 5s/i }).click();
+      });
+
+      await waitFor(() => {
+        expect(screen.getByTestId('time-left')).toHaveTextContent('25');
+      }, { timeout: 1000 });
+    });
+
+    it('should report the actual steep time of a finished timer', async () => {
+      const onFinished = vi.fn();
+      const ListeningComponent = () => {
+        const { startTimer, adjustTimer, onTimerFinished } = useTimer();
+        useEffect(() => onTimerFinished(onFinished), [onTimerFinished]);
+        return (
+          <div>
+            <button onClick={() => startTimer(2, 'oolong', 'Oolong', 3)}>Start Short Timer</button>
+            <button onClick={() => adjustTimer('oolong:3', -1)}>Shorten Timer</button>
+          </div>
+        );
+      };
+
+      render(
+        <TimerProvider>
+          <ListeningComponent />
+        </TimerProvider>
+      );
+
+      act(() => {
+        screen.getByRole('button', { name: /Start Short Timer/i }).click();
+      });
+      act(() => {
+        screen.getByRole('button', { name: /Shorten Timer/i }).click();
+      });
+
+      await waitFor(() => {
+        expect(onFinished).toHaveBeenCalledTimes(1);
+      }, { timeout: 2000 });
+      expect(onFinished).toHaveBeenCalledWith(expect.objectContaining({
+        teaId: 'oolong',
+        steepIndex: 3,
+        plannedSeconds: 2,
+        actualSeconds: 1,
+        stopped: false
+      }));
+    });
+
+    it('should report how long a stopped timer ran', async () => {
+      const onFinished = vi.fn();
+      const ListeningComponent = () => {
+        const { startTimer, stopTimer, onTimerFinished } = useTimer();
+        useEffect(() => onTimerFinished(onFinished), [onTimerFinished]);
+        return (
+          <div>
+            <button onClick={() => startTimer(30, 'oolong', 'Oolong', 1)}>Start Long Timer</button>
+            <button onClick={() => stopTimer('oolong:1')}>Stop Long Timer</button>
+          </div>
+        );
+      };
+      const startedAt = Date.now();
+      const now = vi.spyOn(Date, 'now').mockReturnValue(startedAt);
+
+      render(
+        <TimerProvider>
+          <ListeningComponent />
+        </TimerProvider>
+      );
+
+      act(() => {
+        screen.getByRole('button', { name: /Start Long Timer/i }).click();
+      });
+      now.mockReturnValue(startedAt + 12_000);
+      act(() => {
+        screen.getByRole('button', { name: /Stop Long Timer/i }).click();
+      });
+      now.mockRestore();
+
+      expect(onFinished).toHaveBeenCalledTimes(1);
+      expect(onFinished).toHaveBeenCalledWith(expect.objectContaining({
+        teaId: 'oolong',
+        steepIndex: 1,
+        plannedSeconds: 30,
+        actualSeconds: 12,
+        stopped: true
+      }));
+    });
+
+    it('should report a running steep that is started again as stopped', async () => {
+      const onFinished = vi.fn();
+      const ListeningComponent = () => {
+        const { startTimer, onTimerFinished } = useTimer();
+        useEffect(() => onTimerFinished(onFinished), [onTimerFinished]);
+        return <button onClick={() => startTimer(30, 'oolong', 'Oolong', 1)}>Start Long Timer</button>;
+      };
+      const startedAt = Date.now();
+      const now = vi.spyOn(Date, 'now').mockReturnValue(startedAt);
+
+      render(
+        <TimerProvider>
+          <ListeningComponent />
+        </TimerProvider>
+      );
+
+      act(() => {
+        screen.getByRole('button', { name: /Start Long Timer/i }).click();
+      });
+      now.mockReturnValue(startedAt + 8_000);
+      act(() => {
+        screen.getByRole('button', { name: /Start Long Timer/i }).click();
+      });
+      now.mockRestore();
+
+      expect(onFinished).toHaveBeenCalledTimes(1);
+      expect(onFinished).toHaveBeenCalledWith(expect.objectContaining({ steepIndex: 1, actualSeconds: 8, stopped: true }));
+    });
+
+    it('should report a timer taken back past zero as finished', async () => {
+      render(
+        <TimerProvider>
+          <TestComponent />
+        </TimerProvider>
+      );
+
+      act(() => {
+        screen.getByRole('button', { name: /Start 5s Timer/i }).click();
+      });
+      act(() => {
+        screen.getByRole('button', { name: /Take Off 5s/i }).click();
+      });
+      act(() => {
+        screen.getByRole('button', { name: /Take Off 5s/i }).click();
+      });
+
+      await waitFor(() => {
+        expect(screen.getByTestId('time-left')).toHaveTextContent('null');
+      }, { timeout: 1000 });
+    });
+
+    it('should finish a paused timer taken back to zero', async () => {
+      const onFinished = vi.fn();
+      const ListeningComponent = () => {
+        const { startTimer, pauseTimer, adjustTimer, onTimerFinished } = useTimer();
+        useEffect(() => onTimerFinished(onFinished), [onTimerFinished]);
+        return (
+          <div>
+            <button onClick={() => startTimer(2, 'oolong', 'Oolong', 3)}>Start Short Timer</button>
+            <button onClick={() => pauseTimer('oolong:3')}>Pause Short Timer</button>
+            <button onClick={() => adjustTimer('oolong:3', -5)}>Take Off 5s</button>
+          </div>
+        );
+      };
+
+      render(
+        <TimerProvider>
+          <ListeningComponent />
+        </TimerProvider>
+      );
+
+      act(() => {
+        screen.getByRole('button', { name: /Start Short Timer/i }).click();
+      });
+      act(() => {
+        screen.getByRole('button', { name: /Pause Short Timer/i }).click();
+      });
+      act(() => {
+        screen.getByRole('button', { name: /Take Off 5s/i }).click();
+      });
+
+      await waitFor(() => {
+        expect(onFinished).toHaveBeenCalledTimes(1);
+      }, { timeout: 1000 });
+      expect(onFinished).toHaveBeenCalledWith(expect.objectContaining({ steepIndex: 3, actualSeconds: 0, stopped: false }));
+    });
+  });
+
+  describe('Timer persistence', () => {
+    const storeTimer = (endsAt: number) => {
+      localStorage.setItem('steep_timers', JSON.stringify([{
+        id: 'stored:2',
+        teaId: 'stored',
+        teaName: 'Stored Tea',
+        steepIndex: 2,
+        plannedSeconds: 60,
+        adjustedSeconds: 0,
+        endsAt,
+        pausedAt: null
+      }]));
+    };
+
+    it('should store the end time while running and remove it when stopped', async () => {
+      render(
+        <TimerProvider>
+          <TestComponent />
+        </TimerProvider>
+      );
+
+      act(() => {
+        screen.getByRole('button', { name: /Start Timer/i }).click();
+      });
+
+      await waitFor(() => {
+        expect(localStorage.getItem('steep_timers')).not.toBeNull();
+      }, { timeout: 1000 });
+      const [stored] = JSON.parse(localStorage.getItem('steep_timers') ?? '[]');
+      expect(stored).toMatchObject({ teaId: 'green', teaName: 'Green Tea', steepIndex: 0 });
+      expect(stored.endsAt).toBeGreaterThan(Date.now() + 29000);
+
+      act(() => {
+        screen.getByRole('button', { name: /Stop Timer/i }).click();
+      });
+
+      await waitFor(() => {
+        expect(localStorage.getItem('steep_timers')).toBeNull();
+      }, { timeout: 1000 });
+    });
+
+    it('should resume a stored timer from its end time', () => {
+      storeTimer(Date.now() + 20000);
+
+      render(
+        <TimerProvider>
+          <TestComponent />
+        </TimerProvider>
+      );
+
+      expect(screen.getByTestId('time-left')).toHaveTextContent('20');
+      expect(screen.getByTestId('active-tea')).toHaveTextContent('Stored Tea');
+    });
+
+    it('should sound the end of a timer that ran out while the page was closed', async () => {
+      storeTimer(Date.now() - 10000);
+
+      render(
+        <TimerProvider>
+          <TestComponent />
+        </TimerProvider>
+      );
+
+      await waitFor(() => {
+        expect(screen.getByTestId('time-left')).toHaveTextContent('null');
+      }, { timeout: 1000 });
+      expect(mockCreateOscillator).toHaveBeenCalled();
+      expect(localStorage.getItem('steep_timers')).toBeNull();
+    });
+
+    it('should drop a timer that ended long ago without sounding it', () => {
+      storeTimer(Date.now() - 60 * 60 * 1000);
+
+      render(
+        <TimerProvider>
+          <TestComponent />
+        </TimerProvider>
+      );
+
+      expect(screen.getByTestId('time-left')).toHaveTextContent('null');
+      expect(mockCreateOscillator).not.toHaveBeenCalled();
+      expect(localStorage.getItem('steep_timers')).toBeNull();
+    });
+
+    it('should keep a paused timer however long ago it was paused', () => {
+      const pausedAt = Date.now() - 60 * 60 * 1000;
+      localStorage.setItem('steep_timers', JSON.stringify([{
+        id: 'stored:0',
+        teaId: 'stored',
+        teaName: 'Paused Tea',
+        steepIndex: 0,
+        plannedSeconds: 30,
+        adjustedSeconds: 0,
+        endsAt: pausedAt + 12000,
+        pausedAt
+      }]));
+
+      render(
+        <TimerProvider>
+          <TestComponent />
+        </TimerProvider>
+      );
+
+      expect(screen.getByTestId('time-left')).toHaveTextContent('12');
+      expect(screen.getByTestId('active-tea')).toHaveTextContent('Paused Tea');
+    });
+
+    it('should ignore a malformed stored timer', () => {
+      localStorage.setItem('steep_timers', '{not json');
+
+      render(
+        <TimerProvider>
+          <TestComponent />
+        </TimerProvider>
+      );
+
+      expect(screen.getByTestId('time-left')).toHaveTextContent('null');
+    });
+  });
+
   describe('useTimer Hook Error Handling', () => {
     it('should throw error when used outside TimerProvider', () => {
       const TestComponentOutsideProvider = () => {
-        const { timeLeft } = useTimer();
-        return <div>{timeLeft}</div>;
+        const { timers } = useTimer();
+        return <div>{timers.length}</div>;
       };
 
       // Suppress the expected error log
@@ -317,13 +718,13 @@ describe('TimerContext', () => {
   describe('Timer context values', () => {
     it('should provide startTimer function', async () => {
       const TestComponentWithCallback = () => {
-        const { startTimer, timeLeft } = useTimer();
+        const { startTimer, timers } = useTimer();
         return (
           <div>
-            <div data-testid="time">{timeLeft ?? 'null'}</div>
+            <div data-testid="time">{timers[0]?.timeLeft ?? 'null'}</div>
             <button
               data-testid="custom-start"
-              onClick={() => startTimer(45, 'Custom Tea', 0)}
+              onClick={() => startTimer(45, 'custom', 'Custom Tea', 0)}
             >
               Custom Start
             </button>
@@ -350,13 +751,13 @@ describe('TimerContext', () => {
 
     it('should provide stopTimer function', async () => {
       const TestComponentWithStopCallback = () => {
-        const { stopTimer, timeLeft } = useTimer();
+        const { stopTimer, timers } = useTimer();
         return (
           <div>
-            <div data-testid="time">{timeLeft ?? 'null'}</div>
+            <div data-testid="time">{timers[0]?.timeLeft ?? 'null'}</div>
             <button
               data-testid="custom-stop"
-              onClick={stopTimer}
+              onClick={() => stopTimer('green:0')}
             >
               Custom Stop
             </button>
@@ -1,11 +1,45 @@
-import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from 'react';
+
+// A running steep, persisted so a reload picks it up again. The remaining time is derived
+// from the end timestamp rather than counted down, so throttled or sleeping tabs do not drift.
+export interface SteepTimer {
+  // One timer per steep of a tea; starting the same steep again restarts it
+  id: string;
+  teaId: string;
+  teaName: string;
+  steepIndex: number;
+  plannedSeconds: number;
+  // Net seconds added or taken off while it ran, so plannedSeconds + adjustedSeconds is how long it steeped
+  adjustedSeconds: number;
+  // While paused, the end it had when it was paused
+  endsAt: number;
+  pausedAt: number | null;
+}
+
+// A timer as handed out by the context, with the whole seconds it has left
+export interface ActiveTimer extends SteepTimer {
+  timeLeft: number;
+}
+
+// A timer that ran out or was stopped, with how long it actually steeped: the planned time plus any
+// nudges, or the time it ran before it was stopped, pauses left out
+export interface FinishedTimer extends SteepTimer {
+  actualSeconds: number;
+  // Stopped before it ran out
+  stopped: boolean;
+}
 
 interface TimerContextType {
-  timeLeft: number | null;
-  activeTeaName: string | null;
-  activeSteepIndex: number | null;
-  startTimer: (seconds: number, teaName: string, steepIndex: number) => void;
-  stopTimer: () => void;
+  // Every running or paused timer, in the order they were started
+  timers: ActiveTimer[];
+  startTimer: (seconds: number, teaId: string, teaName: string, steepIndex: number) => void;
+  stopTimer: (id: string) => void;
+  pauseTimer: (id: string) => void;
+  resumeTimer: (id: string) => void;
+  // Adds seconds to a timer, or takes them off when negative
+  adjustTimer: (id: string, seconds: number) => void;
+  // Calls the listener for every timer that runs out or is stopped; returns the function that removes it
+  onTimerFinished: (listener: (timer: FinishedTimer) => void) => () => void;
 }
 
 const TimerContext = createContext<TimerContextType | undefined>(undefined);
@@ -111,48 +145,193 @@ const playNotificationSound = (type: 'chime' | 'start' | 'end') => {
   }
 };
 
+const TIMERS_STORAGE_KEY = 'steep_timers';
+
+// A timer that ran out while the page was closed still sounds when it is opened this soon after
+const MISSED_TIMER_GRACE_MS = 5 * 60 * 1000;
+
+// How often the remaining time is recomputed; more than once a second so the display never skips
+const TICK_INTERVAL_MS = 250;
+
+// The warning beeps start this many seconds before the end and last until it
+const WARNING_SECONDS = 5;
+
+const getTimerId = (teaId: string, steepIndex: number): string => `${teaId}:${steepIndex}`;
+
+const isSteepTimer = (value: unknown): value is SteepTimer => {
+  const timer = value as Partial<SteepTimer> | null;
+  return typeof timer === 'object' && timer !== null &&
+    typeof timer.id === 'string' && typeof timer.teaId === 'string' && typeof timer.teaName === 'string' &&
+    typeof timer.steepIndex === 'number' && typeof timer.plannedSeconds === 'number' &&
+    typeof timer.adjustedSeconds === 'number' && typeof timer.endsAt === 'number' &&
+    (timer.pausedAt === null || typeof timer.pausedAt === 'number');
+};
+
+// Paused timers are kept however long ago they were paused
+const readStoredTimers = (): SteepTimer[] => {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(TIMERS_STORAGE_KEY) ?? '[]');
+    if (Array.isArray(stored)) {
+      return stored.filter(isSteepTimer).filter(timer => timer.pausedAt !== null || timer.endsAt + MISSED_TIMER_GRACE_MS > Date.now());
+    }
+  } catch {
+    // Unreadable entries are dropped
+  }
+  return [];
+};
+
+const getMsLeft = (timer: SteepTimer, now: number): number =>
+  Math.max(0, timer.endsAt - (timer.pausedAt ?? now));
+
+const getSecondsLeft = (timer: SteepTimer, now: number): number =>
+  Math.ceil(getMsLeft(timer, now) / 1000);
+
 export const TimerProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [timeLeft, setTimeLeft] = useState<number | null>(null);
-  const [activeTeaName, setActiveTeaName] = useState<string | null>(null);
-  const [activeSteepIndex, setActiveSteepIndex] = useState<number | null>(null);
+  const [timers, setTimers] = useState<SteepTimer[]>(readStoredTimers);
+  const [now, setNow] = useState(() => Date.now());
+  // Timers whose warning beeps already played, so each one warns once
+  const warnedIds = useRef(new Set<string>());
+  const finishListeners = useRef(new Set<(timer: FinishedTimer) => void>());
+  // The timers as last rendered, for stopTimer and startTimer to report the one they stop
+  const timersRef = useRef(timers);
 
   useEffect(() => {
-    if (timeLeft === null) return;
-
-    if (timeLeft === 0) {
-      playNotificationSound('end');
-      setActiveTeaName(null);
-      setTimeLeft(null);
-      setActiveSteepIndex(null);
-      return;
+    timersRef.current = timers;
+    if (timers.length > 0) {
+      localStorage.setItem(TIMERS_STORAGE_KEY, JSON.stringify(timers));
+    } else {
+      localStorage.removeItem(TIMERS_STORAGE_KEY);
     }
+  }, [timers]);
 
-    if (timeLeft === 5) {
-      playNotificationSound('start');
-    }
+  // Background tabs run intervals late or not at all, so the clock is read again when the tab is shown.
+  // A deadline that passed in the meantime still sounds the end klaxon.
+  useEffect(() => {
+    if (!timers.some(timer => timer.pausedAt === null)) return;
+
+    // Ticks until the state update lands still see the finished timers; they are only reported once
+    const reported = new Set<string>();
+    const tick = () => {
+      const current = Date.now();
+      const running = timers.filter(timer => timer.pausedAt === null && !reported.has(timer.id));
+      const finished = running.filter(timer => timer.endsAt <= current);
+
+      for (const timer of running) {
+        if (timer.endsAt > current && getSecondsLeft(timer, current) === WARNING_SECONDS && !warnedIds.current.has(timer.id)) {
+          warnedIds.current.add(timer.id);
+          playNotificationSound('start');
+        }
+      }
+
+      if (finished.length > 0) {
+        playNotificationSound('end');
+        const finishedIds = new Set(finished.map(timer => timer.id));
+        setTimers(prev => prev.filter(timer => !finishedIds.has(timer.id)));
+        for (const timer of finished) {
+          reported.add(timer.id);
+          warnedIds.current.delete(timer.id);
+          const actualSeconds = Math.max(0, Math.round(timer.plannedSeconds + timer.adjustedSeconds));
+          finishListeners.current.forEach(listener => listener({ ...timer, actualSeconds, stopped: false }));
+        }
+      }
+      setNow(current);
+    };
+    const interval = setInterval(tick, TICK_INTERVAL_MS);
+    document.addEventListener('visibilitychange', tick);
+    tick();
 
-    const interval = setInterval(() => {
-      setTimeLeft((prev) => (prev !== null && prev > 0 ? prev - 1 : 0));
-    }, 1000);
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', tick);
+    };
+  }, [timers]);
 
-    return () => clearInterval(interval);
-  }, [timeLeft]);
+  // Stopped timers record the time they ran: the planned time and nudges, less what was left
+  const reportStopped = useCallback((timer: SteepTimer) => {
+    const ranMs = (timer.plannedSeconds + timer.adjustedSeconds) * 1000 - getMsLeft(timer, Date.now());
+    const actualSeconds = Math.max(0, Math.round(ranMs / 1000));
+    finishListeners.current.forEach(listener => listener({ ...timer, actualSeconds, stopped: true }));
+  }, []);
 
-  const startTimer = useCallback((seconds: number, teaName: string, steepIndex: number) => {
+  // A steep that is still running when it is started again is reported as stopped first
+  const startTimer = useCallback((seconds: number, teaId: string, teaName: string, steepIndex: number) => {
     playNotificationSound('chime');
-    setTimeLeft(seconds);
-    setActiveTeaName(teaName);
-    setActiveSteepIndex(steepIndex);
+    const startedAt = Date.now();
+    const timer: SteepTimer = {
+      id: getTimerId(teaId, steepIndex),
+      teaId,
+      teaName,
+      steepIndex,
+      plannedSeconds: seconds,
+      adjustedSeconds: 0,
+      endsAt: startedAt + seconds * 1000,
+      pausedAt: null
+    };
+    warnedIds.current.delete(timer.id);
+    const running = timersRef.current.find(t => t.id === timer.id);
+    if (running) {
+      reportStopped(running);
+    }
+    setNow(startedAt);
+    setTimers(prev => prev.some(t => t.id === timer.id)
+      ? prev.map(t => (t.id === timer.id ? timer : t))
+      : [...prev, timer]);
+  }, [reportStopped]);
+
+  const stopTimer = useCallback((id: string) => {
+    warnedIds.current.delete(id);
+    const timer = timersRef.current.find(t => t.id === id);
+    setTimers(prev => prev.filter(t => t.id !== id));
+    if (timer) {
+      reportStopped(timer);
+    }
+  }, [reportStopped]);
+
+  const updateTimer = useCallback((id: string, update: (timer: SteepTimer, current: number) => SteepTimer) => {
+    const current = Date.now();
+    setNow(current);
+    setTimers(prev => prev.map(timer => (timer.id === id ? update(timer, current) : timer)));
   }, []);
 
-  const stopTimer = useCallback(() => {
-    setTimeLeft(null);
-    setActiveTeaName(null);
-    setActiveSteepIndex(null);
+  const pauseTimer = useCallback((id: string) => {
+    updateTimer(id, (timer, current) => (timer.pausedAt === null ? { ...timer, pausedAt: current } : timer));
+  }, [updateTimer]);
+
+  // The time spent paused moves the end back
+  const resumeTimer = useCallback((id: string) => {
+    updateTimer(id, (timer, current) => (timer.pausedAt === null
+      ? timer
+      : { ...timer, endsAt: timer.endsAt + current - timer.pausedAt, pausedAt: null }));
+  }, [updateTimer]);
+
+  // A timer cannot be taken back past zero; taking off all that is left ends it, even while paused
+  const adjustTimer = useCallback((id: string, seconds: number) => {
+    warnedIds.current.delete(id);
+    updateTimer(id, (timer, current) => {
+      const msLeft = getMsLeft(timer, current);
+      const deltaMs = Math.max(seconds * 1000, -msLeft);
+      const pausedAt = deltaMs === -msLeft ? null : timer.pausedAt;
+      return { ...timer, endsAt: timer.endsAt + deltaMs, adjustedSeconds: timer.adjustedSeconds + deltaMs / 1000, pausedAt };
+    });
+  }, [updateTimer]);
+
+  const onTimerFinished = useCallback((listener: (timer: FinishedTimer) => void) => {
+    finishListeners.current.add(listener);
+    return () => {
+      finishListeners.current.delete(listener);
+    };
   }, []);
 
   return (
-    <TimerContext.Provider value={{ timeLeft, activeTeaName, activeSteepIndex, startTimer, stopTimer }}>
+    <TimerContext.Provider value={{
+      timers: timers.map(timer => ({ ...timer, timeLeft: getSecondsLeft(timer, now) })),
+      startTimer,
+      stopTimer,
+      pauseTimer,
+      resumeTimer,
+      adjustTimer,
+      onTimerFinished
+    }}>
       {children}
     </TimerContext.Provider>
   );
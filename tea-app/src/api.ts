@@ -1,8 +1,9 @@
 import axios from 'axios';
 import { z } from 'zod';
 
-import { TeaSchema, CreateTeaSchema } from './types';
-import type { Tea, CreateTea } from './types';
+import { TeaSchema, ImportedTeaSchema, BatchImportEventSchema, TeaSyncResultSchema, TeaSyncEventSchema, StoredImageSchema, BackupSchema, BrewSessionSchema, PurchaseSchema, VendorSchema, TagCountSchema, TastingNoteSchema } from './types';
+import type { Tea, CreateTea, ImportedTea, BatchImportEvent, TeaSyncResult, TeaSyncEvent, StoredImage, Backup, BrewSession, ConsumeTea, Purchase, CreatePurchase, Vendor, UpdateVendor, TagCount, TastingNote, CreateTastingNote } from './types';
+import { getImageSizeUrl, getStoredImageId, type ImageSize } from '../shared/images';
 import { getAuthToken } from './AuthContext';
 
 const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
@@ -44,11 +45,63 @@ export const createTea = async (tea: CreateTea): Promise<Tea> => {
   return TeaSchema.parse(response.data);
 };
 
-export const importTeaFromUrl = async (url: string): Promise<CreateTea> => {
-  const response = await api.post('/teas/import', { url });
+// `force` fetches the page again instead of using the server's cached copy
+export const importTeaFromUrl = async (url: string, force = false): Promise<ImportedTea> => {
+  const response = await api.post('/teas/import', { url, ...(force && { force }) });
   console.log(`response: ${response}`)
   console.log(`response.status: ${response.status}`)
-  return CreateTeaSchema.parse(response.data);
+  return ImportedTeaSchema.parse(response.data);
+};
+
+// Posts to an endpoint that answers with newline-delimited JSON, handing each event to `onEvent` as it arrives
+const postStream = async <T>(url: string, body: object, schema: z.ZodType<T>, onEvent: (event: T) => void): Promise<void> => {
+  let consumed = 0;
+  const handleText = (text: string) => {
+    // Only whole lines; the last one may still be arriving
+    const end = text.lastIndexOf('\n') + 1;
+    text.slice(consumed, end).split('\n').filter(line => line.trim() !== '').forEach(line => {
+      onEvent(schema.parse(JSON.parse(line)));
+    });
+    consumed = Math.max(consumed, end);
+  };
+
+  const response = await api.post(url, body, {
+    responseType: 'text',
+    onDownloadProgress: (progressEvent) => {
+      const xhr = progressEvent.event?.target as XMLHttpRequest | undefined;
+      if (xhr?.responseText) {
+        handleText(xhr.responseText);
+      }
+    }
+  });
+  handleText(`${response.data}\n`);
+};
+
+// Scrapes several product URLs. The server streams one JSON line per event, so `onEvent`
+// is called as each URL starts and finishes; resolves once every URL is done.
+export const importTeasFromUrls = async (urls: string[], onEvent: (event: BatchImportEvent) => void): Promise<void> =>
+  postStream('/teas/import/batch', { urls }, BatchImportEventSchema, onEvent);
+
+// Always fetches the tea's page again; the changes are only applied by updateTea
+export const resyncTea = async (id: string): Promise<TeaSyncResult> => {
+  const response = await api.post(`/teas/${id}/resync`, { force: true });
+  return TeaSyncResultSchema.parse(response.data);
+};
+
+// Checks every tea with a website (or the given ones) for changes on its product page
+export const resyncTeas = async (onEvent: (event: TeaSyncEvent) => void, teaIds?: string[]): Promise<void> =>
+  postStream('/teas/resync', { force: true, ...(teaIds && { teaIds }) }, TeaSyncEventSchema, onEvent);
+
+// Stores a photo on the server; the returned url is used as the tea's image
+export const uploadImage = async (file: File): Promise<StoredImage> => {
+  const response = await api.post('/images', file, { headers: { 'Content-Type': file.type || 'application/octet-stream' } });
+  return StoredImageSchema.parse(response.data);
+};
+
+// Where the browser loads a tea image from: stored images come from the API server, vendor URLs as they are
+export const getImageSrc = (image: string, size: ImageSize = 'full'): string => {
+  const url = getImageSizeUrl(image, size);
+  return getStoredImageId(image) !== null ? url.replace(/^\/api/, API_URL) : url;
 };
 
 export const deleteTea = async (id: string): Promise<void> => {
@@ -60,8 +113,9 @@ export const updateTea = async (id: string, updates: Partial<Tea>): Promise<Tea>
   return TeaSchema.parse(response.data);
 };
 
-export const markTeaConsumed = async (id: string): Promise<Tea> => {
-  const response = await api.put(`/teas/${id}/lastConsumed`);
+// `session` carries the details of the brewing session that just finished
+export const markTeaConsumed = async (id: string, session?: ConsumeTea): Promise<Tea> => {
+  const response = await api.put(`/teas/${id}/lastConsumed`, session);
   return TeaSchema.parse(response.data);
 };
 
@@ -75,3 +129,81 @@ export const downloadTeasYaml = async (): Promise<void> => {
   link.click();
   link.remove();
 };
+
+export const getBackups = async (): Promise<Backup[]> => {
+  const response = await api.get('/backups');
+  return z.array(BackupSchema).parse(response.data);
+};
+
+export const restoreBackup = async (id: string): Promise<Tea[]> => {
+  const response = await api.post(`/backups/${id}/restore`);
+  return z.array(TeaSchema).parse(response.data);
+};
+
+export const getSessions = async (teaId: string): Promise<BrewSession[]> => {
+  const response = await api.get('/sessions', { params: { teaId } });
+  return z.array(BrewSessionSchema).parse(response.data);
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+  await api.delete(`/sessions/${id}`);
+};
+
+// Without a tea id, the purchases of every tea
+export const getPurchases = async (teaId?: string): Promise<Purchase[]> => {
+  const response = await api.get('/purchases', { params: teaId === undefined ? {} : { teaId } });
+  return z.array(PurchaseSchema).parse(response.data);
+};
+
+export const createPurchase = async (purchase: CreatePurchase): Promise<Purchase> => {
+  const response = await api.post('/purchases', purchase);
+  return PurchaseSchema.parse(response.data);
+};
+
+export const deletePurchase = async (id: string): Promise<void> => {
+  await api.delete(`/purchases/${id}`);
+};
+
+export const getVendors = async (): Promise<Vendor[]> => {
+  const response = await api.get('/vendors');
+  return z.array(VendorSchema).parse(response.data);
+};
+
+export const updateVendor = async (id: string, updates: UpdateVendor): Promise<Vendor> => {
+  const response = await api.patch(`/vendors/${id}`, updates);
+  return VendorSchema.parse(response.data);
+};
+
+export const getTags = async (): Promise<TagCount[]> => {
+  const response = await api.get('/tags');
+  return z.array(TagCountSchema).parse(response.data);
+};
+
+export const renameTag = async (name: string, newName: string): Promise<TagCount[]> => {
+  const response = await api.patch(`/tags/${encodeURIComponent(name)}`, { name: newName });
+  return z.array(TagCountSchema).parse(response.data);
+};
+
+export const mergeTags = async (tags: string[], into: string): Promise<TagCount[]> => {
+  const response = await api.post('/tags/merge', { tags, into });
+  return z.array(TagCountSchema).parse(response.data);
+};
+
+export const deleteTag = async (name: string): Promise<void> => {
+  await api.delete(`/tags/${encodeURIComponent(name)}`);
+};
+
+// Without a tea id, the notes of every tea
+export const getTastingNotes = async (teaId?: string): Promise<TastingNote[]> => {
+  const response = await api.get('/tasting-notes', { params: teaId === undefined ? {} : { teaId } });
+  return z.array(TastingNoteSchema).parse(response.data);
+};
+
+export const createTastingNote = async (note: CreateTastingNote): Promise<TastingNote> => {
+  const response = await api.post('/tasting-notes', note);
+  return TastingNoteSchema.parse(response.data);
+};
+
+export const deleteTastingNote = async (id: string): Promise<void> => {
+  await api.delete(`/tasting-notes/${id}`);
+};
@@ -0,0 +1,100 @@
+import { useState, useEffect } from 'react'
+import { X, RotateCcw } from 'lucide-react'
+import type { Backup } from '../types'
+import { getBackups, restoreBackup } from '../api'
+import { showSuccess, showError } from '../utils/toast'
+
+interface BackupsPanelProps {
+  onClose: () => void
+  onRestored: () => void
+}
+
+const formatBackupDate = (timestamp: number): string =>
+  new Date(timestamp).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    second: '2-digit',
+  })
+
+export const BackupsPanel = ({ onClose, onRestored }: BackupsPanelProps) => {
+  const [backups, setBackups] = useState<Backup[] | null>(null)
+  const [restoringId, setRestoringId] = useState<string | null>(null)
+
+  const fetchBackups = async () => {
+    try {
+      setBackups(await getBackups())
+    } catch (error) {
+      console.error('Failed to load backups:', error)
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+      showError(`Failed to load backups: ${errorMessage}`)
+      setBackups([])
+    }
+  }
+
+  useEffect(() => {
+    fetchBackups()
+  }, [])
+
+  const handleRestore = async (backup: Backup) => {
+    if (!confirm(`Restore the collection from ${formatBackupDate(backup.createdAt)}? The current collection will be backed up first.`)) {
+      return
+    }
+
+    setRestoringId(backup.id)
+    try {
+      const teas = await restoreBackup(backup.id)
+      showSuccess(`Restored ${teas.length} teas`)
+      onRestored()
+      await fetchBackups()
+    } catch (error) {
+      console.error('Failed to restore backup:', error)
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+      showError(`Failed to restore backup: ${errorMessage}`)
+    } finally {
+      setRestoringId(null)
+    }
+  }
+
+  return (
+    <div className="modal-overlay" onClick={(e) => e.target === e.currentTarget && onClose()}>
+      <div className="form-container">
+        <div className="form-header">
+          <h3>Backups</h3>
+          <button onClick={onClose} className="close-btn"><X size={20} /></button>
+        </div>
+
+        <div className="form-body">
+          {backups === null && <p className="backups-empty">Loading...</p>}
+          {backups?.length === 0 && (
+            <p className="backups-empty">No backups yet. A snapshot is taken before every change.</p>
+          )}
+          {backups && backups.length > 0 && (
+            <ul className="backups-list">
+              {backups.map(backup => (
+                <li key={backup.id} className="backup-row">
+                  <div className="backup-info">
+                    <span className="backup-date">{formatBackupDate(backup.createdAt)}</span>
+                    <span className="backup-meta">
+                      {backup.teaCount === null ? 'Unreadable' : `${backup.teaCount} teas`} · {(backup.size / 1024).toFixed(1)} KB
+                    </span>
+                  </div>
+                  <button
+                    className="btn-reset-used"
+                    onClick={() => handleRestore(backup)}
+                    disabled={restoringId !== null || backup.teaCount === null}
+                    title="Restore this backup"
+                  >
+                    {restoringId === backup.id ? 'Restoring...' : <><RotateCcw size={14} /> Restore</>}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
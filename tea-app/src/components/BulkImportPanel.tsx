@@ -0,0 +1,261 @@
+import { useState } from 'react'
+import { X, Check, Trash2 } from 'lucide-react'
+import type { BatchImportedTea, BatchImportEvent, CaffeineLevel, TeaType } from '../types'
+import { CAFFEINE_LEVELS, TEA_TYPES, MAX_BATCH_IMPORT_URLS } from '../types'
+import { createTea, importTeasFromUrls } from '../api'
+import { showSuccess, showError } from '../utils/toast'
+import { createImportDraft, getDraftError, parseUrlList, toCreateTea, type ImportDraft } from '../utils/bulkImport'
+
+interface BulkImportPanelProps {
+  onClose: () => void
+  onImported: () => void
+}
+
+type RowStatus = 'queued' | 'fetching' | 'ready' | 'failed' | 'saving' | 'added' | 'discarded'
+
+interface ReviewRow {
+  url: string
+  status: RowStatus
+  error?: string
+  tea?: BatchImportedTea
+  draft?: ImportDraft
+}
+
+const STATUS_LABELS: Record<RowStatus, string> = {
+  queued: 'Waiting',
+  fetching: 'Fetching...',
+  ready: 'Ready',
+  failed: 'Failed',
+  saving: 'Adding...',
+  added: 'Added',
+  discarded: 'Discarded'
+}
+
+const applyEvent = (row: ReviewRow, event: BatchImportEvent): ReviewRow => {
+  switch (event.status) {
+    case 'started':
+      return { ...row, status: 'fetching' }
+    case 'imported':
+      return { url: row.url, status: 'ready', tea: event.tea, draft: createImportDraft(event.tea) }
+    case 'failed':
+      return { url: row.url, status: 'failed', error: event.error }
+  }
+}
+
+// Imports a list of product URLs (e.g. a shop order) into a review table, where each
+// scraped tea can be corrected, then added or discarded
+export const BulkImportPanel = ({ onClose, onImported }: BulkImportPanelProps) => {
+  const [urlText, setUrlText] = useState('')
+  const [rows, setRows] = useState<ReviewRow[]>([])
+  const [isFetching, setIsFetching] = useState(false)
+  const urls = parseUrlList(urlText)
+
+  const updateRow = (index: number, update: (row: ReviewRow) => ReviewRow) =>
+    setRows(prev => prev.map((row, i) => (i === index ? update(row) : row)))
+
+  const handleFetch = async () => {
+    if (urls.length === 0) return
+    if (urls.length > MAX_BATCH_IMPORT_URLS) {
+      showError(`Import at most ${MAX_BATCH_IMPORT_URLS} URLs at a time`)
+      return
+    }
+
+    setRows(urls.map(url => ({ url, status: 'queued' })))
+    setIsFetching(true)
+    try {
+      await importTeasFromUrls(urls, event => updateRow(event.index, row => applyEvent(row, event)))
+      setUrlText('')
+    } catch (error) {
+      console.error('Failed to import teas:', error)
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+      showError(`Bulk import failed: ${errorMessage}`)
+      // URLs the server never got to
+      setRows(prev => prev.map(row =>
+        row.status === 'queued' || row.status === 'fetching' ? { url: row.url, status: 'failed', error: errorMessage } : row
+      ))
+    } finally {
+      setIsFetching(false)
+    }
+  }
+
+  const updateDraft = (index: number, changes: Partial<ImportDraft>) =>
+    updateRow(index, row => (row.draft ? { ...row, draft: { ...row.draft, ...changes } } : row))
+
+  // Discarded rows stay in the list (hidden) so later events still find their row by index
+  const discardRow = (index: number) => updateRow(index, row => ({ url: row.url, status: 'discarded' }))
+
+  // Resolves to whether the tea was created
+  const acceptRow = async (index: number, row: ReviewRow): Promise<boolean> => {
+    if (!row.tea || !row.draft) return false
+    const draftError = getDraftError(row.draft)
+    if (draftError) {
+      showError(`${row.draft.name || row.url}: ${draftError}`)
+      return false
+    }
+
+    updateRow(index, current => ({ ...current, status: 'saving' }))
+    try {
+      await createTea(toCreateTea(row.tea, row.draft))
+      updateRow(index, current => ({ ...current, status: 'added' }))
+      return true
+    } catch (error) {
+      console.error('Failed to create tea:', error)
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+      showError(`Failed to add ${row.draft.name}: ${errorMessage}`)
+      updateRow(index, current => ({ ...current, status: 'ready' }))
+      return false
+    }
+  }
+
+  const handleAccept = async (index: number) => {
+    if (await acceptRow(index, rows[index])) {
+      showSuccess(`Added ${rows[index].draft?.name}`)
+      onImported()
+    }
+  }
+
+  // One at a time, so the collection file sees one write per tea
+  const handleAcceptAll = async () => {
+    let added = 0
+    for (const [index, row] of rows.entries()) {
+      if (row.status === 'ready' && await acceptRow(index, row)) {
+        added++
+      }
+    }
+    if (added > 0) {
+      showSuccess(`Added ${added} ${added === 1 ? 'tea' : 'teas'}`)
+      onImported()
+    }
+  }
+
+  const readyCount = rows.filter(row => row.status === 'ready').length
+  const visibleCount = rows.filter(row => row.status !== 'discarded').length
+
+  return (
+    <div className="modal-overlay" onClick={(e) => e.target === e.currentTarget && onClose()}>
+      <div className="form-container bulk-import-container">
+        <div className="form-header">
+          <h3>Bulk Import</h3>
+          <button onClick={onClose} className="close-btn"><X size={20} /></button>
+        </div>
+
+        <div className="form-body">
+          <div className="form-group">
+            <label htmlFor="bulk-import-urls">Product URLs, one per line</label>
+            <textarea
+              id="bulk-import-urls"
+              value={urlText}
+              onChange={e => setUrlText(e.target.value)}
+              rows={5}
+              placeholder={'https://www.teavivre.com/...\nhttps://yunnansourcing.com/products/...'}
+              disabled={isFetching}
+            />
+          </div>
+          <button
+            type="button"
+            onClick={handleFetch}
+            disabled={isFetching || urls.length === 0}
+            className="btn-primary"
+          >
+            {isFetching ? 'Fetching...' : `Fetch ${urls.length} ${urls.length === 1 ? 'tea' : 'teas'}`}
+          </button>
+
+          {visibleCount > 0 && (
+            <>
+              <table className="bulk-import-table">
+                <thead>
+                  <tr>
+                    <th>Status</th>
+                    <th>Name</th>
+                    <th>Type</th>
+                    <th>Steep times (s)</th>
+                    <th>Caffeine</th>
+                    <th aria-label="Actions"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((row, index) => row.status !== 'discarded' && (
+                    <tr key={row.url} className={`bulk-import-row bulk-import-${row.status}`}>
+                      <td className="bulk-import-status">{STATUS_LABELS[row.status]}</td>
+                      {row.draft ? (
+                        <>
+                          <td>
+                            <input
+                              aria-label="Name"
+                              value={row.draft.name}
+                              onChange={e => updateDraft(index, { name: e.target.value })}
+                              disabled={row.status !== 'ready'}
+                            />
+                          </td>
+                          <td>
+                            <select
+                              aria-label="Type"
+                              value={row.draft.type}
+                              onChange={e => updateDraft(index, { type: e.target.value as TeaType })}
+                              disabled={row.status !== 'ready'}
+                            >
+                              <option value="" disabled>Choose...</option>
+                              {TEA_TYPES.map(teaType => <option key={teaType} value={teaType}>{teaType}</option>)}
+                            </select>
+                          </td>
+                          <td>
+                            <input
+                              aria-label="Steep times"
+                              value={row.draft.steepTimes}
+                              onChange={e => updateDraft(index, { steepTimes: e.target.value })}
+                              disabled={row.status !== 'ready'}
+                            />
+                          </td>
+                          <td>
+                            <select
+                              aria-label="Caffeine"
+                              value={row.draft.caffeineLevel}
+                              onChange={e => updateDraft(index, { caffeineLevel: e.target.value as CaffeineLevel })}
+                              disabled={row.status !== 'ready'}
+                            >
+                              {CAFFEINE_LEVELS.map(level => <option key={level} value={level}>{level}</option>)}
+                            </select>
+                          </td>
+                        </>
+                      ) : (
+                        <td colSpan={4}>
+                          <div className="bulk-import-url">
+                            <span title={row.url}>{row.url}</span>
+                            {row.error && <span className="bulk-import-error">{row.error}</span>}
+                          </div>
+                        </td>
+                      )}
+                      <td>
+                        <div className="bulk-import-actions">
+                          {row.status === 'ready' && (
+                            <button className="btn-reset-used" onClick={() => handleAccept(index)} title="Add this tea">
+                              <Check size={14} />
+                            </button>
+                          )}
+                          {(row.status === 'ready' || row.status === 'failed') && (
+                            <button className="btn-reset-used" onClick={() => discardRow(index)} title="Discard">
+                              <Trash2 size={14} />
+                            </button>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              <button
+                type="button"
+                onClick={handleAcceptAll}
+                disabled={readyCount === 0 || isFetching}
+                className="btn-primary"
+              >
+                Add all ready ({readyCount})
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -17,8 +17,23 @@ describe('FilterBar Component', () => {
     selectedCaffeineLevel: null,
     onCaffeineLevelChange: vi.fn(),
     uniqueTypes: ['Green', 'Black', 'Oolong'],
+    lowStockOnly: false,
+    onLowStockChange: vi.fn(),
+    vendors: [],
+    selectedVendorId: null,
+    onVendorChange: vi.fn(),
+    tags: [],
+    selectedTags: [],
+    onSelectedTagsChange: vi.fn(),
+    tagMatchMode: 'all' as const,
+    onTagMatchModeChange: vi.fn(),
   };
 
+  const vendors = [
+    { id: 'v1', name: 'Teavivre', homepage: 'https://www.teavivre.com/', country: 'China', notes: '' },
+    { id: 'v2', name: 'white2tea', homepage: 'https://white2tea.com/', country: '', notes: '' },
+  ];
+
   describe('Search Input', () => {
     it('should render search input', () => {
       render(<FilterBar {...defaultProps} />);
@@ -173,6 +188,15 @@ describe('FilterBar Component', () => {
       await user.click(blackButton);
       expect(onTypeChange).toHaveBeenCalledWith('Black');
     });
+
+    it('should mark kinds of a type apart from their category', () => {
+      render(<FilterBar {...defaultProps} uniqueTypes={['PuEr', 'Sheng', 'Dark']} />);
+
+      expect(screen.getByRole('button', { name: 'Sheng' })).toHaveClass('filter-subtype');
+      expect(screen.getByRole('button', { name: 'Sheng' })).toHaveAttribute('title', 'A kind of PuEr');
+      expect(screen.getByRole('button', { name: 'PuEr' })).not.toHaveClass('filter-subtype');
+      expect(screen.getByRole('button', { name: 'Dark' })).not.toHaveClass('filter-subtype');
+    });
   });
 
   describe('Caffeine Level Filter Buttons', () => {
@@ -269,6 +293,84 @@ describe('FilterBar Component', () => {
     });
   });
 
+  describe('Low Stock Filter Button', () => {
+    it('should turn the low stock filter on', async () => {
+      const user = userEvent.setup();
+      const onLowStockChange = vi.fn();
+
+      render(<FilterBar {...defaultProps} onLowStockChange={onLowStockChange} />);
+
+      await user.click(screen.getByRole('button', { name: 'Low stock' }));
+
+      expect(onLowStockChange).toHaveBeenCalledWith(true);
+    });
+
+    it('should show as active and turn off when clicked again', async () => {
+      const user = userEvent.setup();
+      const onLowStockChange = vi.fn();
+
+      render(<FilterBar {...defaultProps} lowStockOnly={true} onLowStockChange={onLowStockChange} />);
+
+      const button = screen.getByRole('button', { name: 'Low stock' });
+      expect(button).toHaveClass('active');
+      await user.click(button);
+
+      expect(onLowStockChange).toHaveBeenCalledWith(false);
+    });
+  });
+
+  describe('Vendor Filter', () => {
+    it('should not render without vendors', () => {
+      render(<FilterBar {...defaultProps} />);
+
+      expect(screen.queryByLabelText('Vendor')).not.toBeInTheDocument();
+    });
+
+    it('should select a vendor and go back to all vendors', async () => {
+      const user = userEvent.setup();
+      const onVendorChange = vi.fn();
+
+      render(<FilterBar {...defaultProps} vendors={vendors} selectedVendorId="v1" onVendorChange={onVendorChange} />);
+
+      const select = screen.getByLabelText('Vendor') as HTMLSelectElement;
+      expect(select.value).toBe('v1');
+      await user.selectOptions(select, 'white2tea');
+      await user.selectOptions(select, 'All Vendors');
+
+      expect(onVendorChange).toHaveBeenNthCalledWith(1, 'v2');
+      expect(onVendorChange).toHaveBeenNthCalledWith(2, null);
+    });
+  });
+
+  describe('Tag Filter', () => {
+    it('should add and remove tags from the selection', async () => {
+      const user = userEvent.setup();
+      const onSelectedTagsChange = vi.fn();
+
+      render(<FilterBar {...defaultProps} tags={['aged', 'morning']} selectedTags={['aged']} onSelectedTagsChange={onSelectedTagsChange} />);
+
+      expect(screen.getByRole('button', { name: '#aged' })).toHaveClass('active');
+      await user.click(screen.getByRole('button', { name: '#morning' }));
+      await user.click(screen.getByRole('button', { name: '#aged' }));
+
+      expect(onSelectedTagsChange).toHaveBeenNthCalledWith(1, ['aged', 'morning']);
+      expect(onSelectedTagsChange).toHaveBeenNthCalledWith(2, []);
+    });
+
+    it('should switch between matching all and any tags once several are selected', async () => {
+      const user = userEvent.setup();
+      const onTagMatchModeChange = vi.fn();
+
+      const { rerender } = render(<FilterBar {...defaultProps} tags={['aged', 'morning']} selectedTags={['aged']} />);
+      expect(screen.queryByRole('button', { name: 'Match all' })).not.toBeInTheDocument();
+
+      rerender(<FilterBar {...defaultProps} tags={['aged', 'morning']} selectedTags={['aged', 'morning']} onTagMatchModeChange={onTagMatchModeChange} />);
+      await user.click(screen.getByRole('button', { name: 'Match all' }));
+
+      expect(onTagMatchModeChange).toHaveBeenCalledWith('any');
+    });
+  });
+
   describe('Independent Filters', () => {
     it('should allow selecting type and caffeine level independently', async () => {
       const user = userEvent.setup();
@@ -1,5 +1,8 @@
 import { Search } from 'lucide-react'
 import { CAFFEINE_LEVELS } from '../types'
+import type { Vendor } from '../types'
+import type { TagMatchMode } from '../../shared/tags'
+import { getTeaTypeParent } from '../../shared/teaTypes'
 
 interface FilterBarProps {
   searchTerm: string
@@ -8,7 +11,19 @@ interface FilterBarProps {
   onTypeChange: (type: string | null) => void
   selectedCaffeineLevel: string | null
   onCaffeineLevelChange: (level: string | null) => void
+  // In taxonomy order, each kind of tea (Sheng) after its category (PuEr)
   uniqueTypes: string[]
+  lowStockOnly: boolean
+  onLowStockChange: (lowStockOnly: boolean) => void
+  vendors: Vendor[]
+  selectedVendorId: string | null
+  onVendorChange: (vendorId: string | null) => void
+  // Every tag in the collection
+  tags: string[]
+  selectedTags: string[]
+  onSelectedTagsChange: (tags: string[]) => void
+  tagMatchMode: TagMatchMode
+  onTagMatchModeChange: (mode: TagMatchMode) => void
 }
 
 export const FilterBar = ({
@@ -19,7 +34,23 @@ export const FilterBar = ({
   selectedCaffeineLevel,
   onCaffeineLevelChange,
   uniqueTypes,
+  lowStockOnly,
+  onLowStockChange,
+  vendors,
+  selectedVendorId,
+  onVendorChange,
+  tags,
+  selectedTags,
+  onSelectedTagsChange,
+  tagMatchMode,
+  onTagMatchModeChange,
 }: FilterBarProps) => {
+  const toggleTag = (tag: string) => {
+    onSelectedTagsChange(
+      selectedTags.includes(tag) ? selectedTags.filter((t) => t !== tag) : [...selectedTags, tag]
+    )
+  }
+
   return (
     <>
       <div className="header-controls">
@@ -41,15 +72,19 @@ export const FilterBar = ({
           >
             All Types
           </button>
-          {uniqueTypes.map((type) => (
-            <button
-              key={type}
-              className={`filter-btn ${selectedType === type ? 'active' : ''}`}
-              onClick={() => onTypeChange(type)}
-            >
-              {type}
-            </button>
-          ))}
+          {uniqueTypes.map((type) => {
+            const parent = getTeaTypeParent(type)
+            return (
+              <button
+                key={type}
+                className={`filter-btn ${parent ? 'filter-subtype' : ''} ${selectedType === type ? 'active' : ''}`}
+                onClick={() => onTypeChange(type)}
+                title={parent ? `A kind of ${parent}` : undefined}
+              >
+                {type}
+              </button>
+            )
+          })}
         </div>
 
         <div className="filter-separator"></div>
@@ -75,6 +110,66 @@ export const FilterBar = ({
             </button>
           ))}
         </div>
+
+        <div className="filter-separator"></div>
+
+        <div className="filter-group">
+          <button
+            className={`filter-btn ${lowStockOnly ? 'active' : ''}`}
+            onClick={() => onLowStockChange(!lowStockOnly)}
+          >
+            Low stock
+          </button>
+        </div>
+
+        {vendors.length > 0 && (
+          <>
+            <div className="filter-separator"></div>
+
+            <div className="filter-group">
+              <select
+                value={selectedVendorId ?? ''}
+                onChange={(e) => onVendorChange(e.target.value || null)}
+                className="sort-select"
+                aria-label="Vendor"
+              >
+                <option value="">All Vendors</option>
+                {vendors.map((vendor) => (
+                  <option key={vendor.id} value={vendor.id}>
+                    {vendor.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </>
+        )}
+
+        {tags.length > 0 && (
+          <>
+            <div className="filter-separator"></div>
+
+            <div className="filter-group">
+              {tags.map((tag) => (
+                <button
+                  key={tag}
+                  className={`filter-btn ${selectedTags.includes(tag) ? 'active' : ''}`}
+                  onClick={() => toggleTag(tag)}
+                >
+                  #{tag}
+                </button>
+              ))}
+              {selectedTags.length > 1 && (
+                <button
+                  className="filter-btn"
+                  onClick={() => onTagMatchModeChange(tagMatchMode === 'all' ? 'any' : 'all')}
+                  title="Switch between teas with all of the selected tags and teas with any of them"
+                >
+                  {tagMatchMode === 'all' ? 'Match all' : 'Match any'}
+                </button>
+              )}
+            </div>
+          </>
+        )}
       </div>
     </>
   )
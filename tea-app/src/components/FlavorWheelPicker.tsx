@@ -0,0 +1,37 @@
+import { FLAVOR_CATEGORIES, FLAVOR_WHEEL } from '../types'
+import type { FlavorDescriptor } from '../types'
+
+interface FlavorWheelPickerProps {
+  selected: FlavorDescriptor[]
+  onChange: (flavors: FlavorDescriptor[]) => void
+}
+
+// The built-in flavor wheel as one row of descriptor toggles per family
+export const FlavorWheelPicker = ({ selected, onChange }: FlavorWheelPickerProps) => {
+  const toggle = (flavor: FlavorDescriptor) => {
+    onChange(selected.includes(flavor) ? selected.filter(f => f !== flavor) : [...selected, flavor])
+  }
+
+  return (
+    <div className="flavor-wheel">
+      {FLAVOR_CATEGORIES.map(category => (
+        <div key={category} className={`flavor-family flavor-${category.toLowerCase()}`}>
+          <span className="flavor-family-name">{category}</span>
+          <div className="flavor-descriptors">
+            {FLAVOR_WHEEL[category].map(flavor => (
+              <button
+                key={flavor}
+                type="button"
+                className={`filter-btn ${selected.includes(flavor) ? 'active' : ''}`}
+                onClick={() => toggle(flavor)}
+                aria-pressed={selected.includes(flavor)}
+              >
+                {flavor}
+              </button>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,232 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor, act } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { GuidedSession } from './GuidedSession';
+import { GuidedSessionProvider } from '../GuidedSessionContext';
+import type { FinishedTimer } from '../TimerContext';
+
+// Mock Lucide React icons
+vi.mock('lucide-react', () => ({
+  Play: () => <span data-testid="play-icon" />,
+}));
+
+const timer = vi.hoisted(() => {
+  const listeners = new Set<(finished: FinishedTimer) => void>();
+  return {
+    listeners,
+    context: {
+      timers: [],
+      startTimer: vi.fn(),
+      stopTimer: vi.fn(),
+      onTimerFinished: vi.fn((listener: (finished: FinishedTimer) => void) => {
+        listeners.add(listener);
+        return () => {
+          listeners.delete(listener);
+        };
+      }),
+    },
+  };
+});
+
+vi.mock('../TimerContext', () => ({
+  useTimer: () => timer.context,
+}));
+
+const finishSteep = (steepIndex: number) => {
+  act(() => {
+    timer.listeners.forEach(listener => listener({
+      id: `1:${steepIndex}`,
+      teaId: '1',
+      teaName: 'Test Tea',
+      steepIndex,
+      plannedSeconds: 10,
+      adjustedSeconds: 0,
+      endsAt: 0,
+      pausedAt: null,
+      actualSeconds: 10,
+      stopped: false,
+    }));
+  });
+};
+
+const storeSettings = (settings: object) => {
+  localStorage.setItem('guided_session_settings', JSON.stringify({ rinse: true, rinseSeconds: 5, gapSeconds: 0, autoStart: true, ...settings }));
+};
+
+describe('GuidedSession Component', () => {
+  const onSessionStart = vi.fn();
+  const onStartSteep = vi.fn();
+  const onComplete = vi.fn();
+
+  // The side panel's guided session controls, which may be closed while the session runs
+  const Panel = ({ open = true, steepTimes = [10, 20] }: { open?: boolean; steepTimes?: number[] }) => (
+    <GuidedSessionProvider onStartSteep={onStartSteep} onComplete={onComplete}>
+      {open && (
+        <GuidedSession
+          teaId="1"
+          teaName="Test Tea"
+          profile={{ method: 'Chinese Gongfu', steepTimes, temperatureCelsius: 95, leafGrams: 5, waterMl: 100 }}
+          onSessionStart={onSessionStart}
+        />
+      )}
+    </GuidedSessionProvider>
+  );
+
+  const renderSession = (steepTimes = [10, 20]) => render(<Panel steepTimes={steepTimes} />);
+
+  // The steep indexes started, in order
+  const startedSteeps = () => onStartSteep.mock.calls.map(([, steepIndex]) => steepIndex);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    timer.listeners.clear();
+    localStorage.clear();
+  });
+
+  it('should start with a rinse and then the first steep', async () => {
+    storeSettings({});
+    renderSession();
+
+    await userEvent.click(screen.getByRole('button', { name: /Start session/i }));
+
+    expect(onSessionStart).toHaveBeenCalled();
+    expect(timer.context.startTimer).toHaveBeenCalledWith(5, '1', 'Test Tea', -1);
+    expect(onStartSteep).not.toHaveBeenCalled();
+
+    finishSteep(-1);
+
+    await waitFor(() => {
+      expect(startedSteeps()).toEqual([0]);
+    }, { timeout: 1000 });
+  });
+
+  it('should wait for a click between steeps without auto-start', async () => {
+    storeSettings({ rinse: false, autoStart: false });
+    renderSession();
+
+    await userEvent.click(screen.getByRole('button', { name: /Start session/i }));
+    expect(startedSteeps()).toEqual([0]);
+
+    finishSteep(0);
+
+    expect(screen.getByText(/Pour and reset · Steep 2 of 2/)).toBeInTheDocument();
+    await userEvent.click(screen.getByRole('button', { name: /Start Steep 2/i }));
+    expect(startedSteeps()).toEqual([0, 1]);
+  });
+
+  it('should count down the pour and reset gap', async () => {
+    storeSettings({ rinse: false, gapSeconds: 30 });
+    renderSession();
+
+    await userEvent.click(screen.getByRole('button', { name: /Start session/i }));
+    finishSteep(0);
+
+    expect(screen.getByText('Pour and reset · Steep 2 of 2 in 30s')).toBeInTheDocument();
+    expect(onStartSteep).toHaveBeenCalledTimes(1);
+  });
+
+  it('should complete the session once the last steep finishes', async () => {
+    storeSettings({ rinse: false });
+    renderSession([10]);
+
+    await userEvent.click(screen.getByRole('button', { name: /Start session/i }));
+    finishSteep(0);
+
+    expect(await screen.findByText('Session complete')).toBeInTheDocument();
+    expect(onComplete).toHaveBeenCalledTimes(1);
+    expect(onComplete).toHaveBeenCalledWith(
+      expect.objectContaining({ teaId: '1', leafGrams: 5, temperatureCelsius: 95 }),
+      expect.objectContaining({ steepIndex: 0, actualSeconds: 10 })
+    );
+  });
+
+  it('should carry on and complete while the panel is closed', async () => {
+    storeSettings({ rinse: false });
+    const { rerender } = render(<Panel />);
+
+    await userEvent.click(screen.getByRole('button', { name: /Start session/i }));
+    rerender(<Panel open={false} />);
+
+    finishSteep(0);
+    await waitFor(() => {
+      expect(startedSteeps()).toEqual([0, 1]);
+    }, { timeout: 1000 });
+
+    rerender(<Panel />);
+    expect(screen.getByText(/Steep 2 of 2/)).toBeInTheDocument();
+    rerender(<Panel open={false} />);
+
+    finishSteep(1);
+    expect(onComplete).toHaveBeenCalledTimes(1);
+
+    rerender(<Panel />);
+    expect(screen.getByText('Session complete')).toBeInTheDocument();
+  });
+
+  it('should pick the session up again after a reload', async () => {
+    storeSettings({ rinse: false, autoStart: false });
+    const { unmount } = render(<Panel />);
+
+    await userEvent.click(screen.getByRole('button', { name: /Start session/i }));
+    finishSteep(0);
+    unmount();
+
+    render(<Panel />);
+
+    expect(screen.getByText(/Pour and reset · Steep 2 of 2/)).toBeInTheDocument();
+    await userEvent.click(screen.getByRole('button', { name: /Start Steep 2/i }));
+    finishSteep(1);
+    expect(onComplete).toHaveBeenCalledTimes(1);
+    expect(localStorage.getItem('guided_sessions')).toBeNull();
+  });
+
+  it('should wait between steps after a reload that lost the running timer', async () => {
+    storeSettings({ rinse: false });
+    const { unmount } = render(<Panel />);
+
+    await userEvent.click(screen.getByRole('button', { name: /Start session/i }));
+    unmount();
+
+    // The steep's timer ran out too long ago to be restored
+    render(<Panel />);
+
+    expect(screen.getByText(/Pour and reset · Steep 1 of 2/)).toBeInTheDocument();
+    await userEvent.click(screen.getByRole('button', { name: /Start Steep 1/i }));
+    expect(startedSteeps()).toEqual([0, 0]);
+  });
+
+  it('should wait for a restart when the timer is stopped', async () => {
+    storeSettings({ rinse: false });
+    renderSession([10]);
+
+    await userEvent.click(screen.getByRole('button', { name: /Start session/i }));
+    act(() => {
+      timer.listeners.forEach(listener => listener({
+        id: '1:0', teaId: '1', teaName: 'Test Tea', steepIndex: 0, plannedSeconds: 10, adjustedSeconds: 0,
+        endsAt: 0, pausedAt: null, actualSeconds: 4, stopped: true,
+      }));
+    });
+
+    expect(onComplete).not.toHaveBeenCalled();
+    expect(screen.getByRole('button', { name: /Restart Steep 1/i })).toBeInTheDocument();
+  });
+
+  it('should ignore timers of other steeps', async () => {
+    storeSettings({ rinse: false });
+    renderSession([10]);
+
+    await userEvent.click(screen.getByRole('button', { name: /Start session/i }));
+    finishSteep(3);
+
+    expect(onComplete).not.toHaveBeenCalled();
+    expect(screen.getByRole('button', { name: /End session/i })).toBeInTheDocument();
+  });
+
+  it('should remember the settings', async () => {
+    renderSession();
+
+    await userEvent.click(screen.getByRole('checkbox', { name: /Rinse first/i }));
+
+    expect(JSON.parse(localStorage.getItem('guided_session_settings') ?? '{}').rinse).toBe(false);
+  });
+});
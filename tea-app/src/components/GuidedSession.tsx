@@ -0,0 +1,157 @@
+import { useState, useEffect } from 'react'
+import { Play } from 'lucide-react'
+import { useTimer } from '../TimerContext'
+import { useGuidedSessions } from '../useGuidedSessions'
+import type { BrewingProfile } from '../types'
+import { parseOptionalNumber } from '../utils/formInput'
+import {
+  RINSE_STEEP_INDEX,
+  formatSessionStep,
+  getSessionSteps,
+  getStoredGuidedSessionSettings,
+  storeGuidedSessionSettings,
+  type GuidedSessionSettings
+} from '../utils/guidedSession'
+
+interface GuidedSessionProps {
+  teaId: string
+  teaName: string
+  // The profile a new session walks through; a running one keeps its own
+  profile: BrewingProfile
+  // Clears the steeps brewed before the session
+  onSessionStart: () => void
+}
+
+const GAP_TICK_INTERVAL_MS = 250
+
+// Controls for a tea's guided session. The session itself runs in GuidedSessionProvider,
+// so closing the panel or switching teas does not stop it.
+export const GuidedSession = ({ teaId, teaName, profile, onSessionStart }: GuidedSessionProps) => {
+  const { timers, stopTimer } = useTimer()
+  const { sessions, startSession, startStep, endSession } = useGuidedSessions()
+  const [settings, setSettings] = useState<GuidedSessionSettings>(getStoredGuidedSessionSettings)
+  const [now, setNow] = useState(() => Date.now())
+
+  const session = sessions.find(s => s.teaId === teaId)
+  const phase = session?.phase
+  const steps = session ? getSessionSteps(session.steepTimes.length, session.settings.rinse) : []
+  const currentTimer = phase?.kind === 'brewing'
+    ? timers.find(timer => timer.teaId === teaId && timer.steepIndex === steps[phase.step])
+    : undefined
+  const gapEndsAt = phase?.kind === 'between' ? phase.startsAt : null
+
+  // Counts down the gap on screen; the provider starts the next step when it is over
+  useEffect(() => {
+    if (gapEndsAt === null) return
+    const interval = setInterval(() => setNow(Date.now()), GAP_TICK_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [gapEndsAt])
+
+  const updateSettings = (changes: Partial<GuidedSessionSettings>) => {
+    const updated = { ...settings, ...changes }
+    storeGuidedSessionSettings(updated)
+    setSettings(updated)
+  }
+
+  const handleStart = () => {
+    onSessionStart()
+    startSession({
+      teaId,
+      teaName,
+      method: profile.method,
+      steepTimes: profile.steepTimes,
+      leafGrams: profile.leafGrams,
+      temperatureCelsius: profile.temperatureCelsius,
+      settings
+    })
+  }
+
+  const handleEnd = () => {
+    if (currentTimer) {
+      stopTimer(currentTimer.id)
+    }
+    endSession(teaId)
+  }
+
+  if (profile.steepTimes.length === 0 && !session) {
+    return null
+  }
+
+  if (!session || !phase || phase.kind === 'finished') {
+    return (
+      <div className="guided-session">
+        {phase?.kind === 'finished' && <p className="guided-session-status">Session complete</p>}
+        <div className="guided-session-settings">
+          <label className="guided-session-option">
+            <input type="checkbox" checked={settings.rinse} onChange={e => updateSettings({ rinse: e.target.checked })} />
+            Rinse first
+          </label>
+          {settings.rinse && (
+            <label className="guided-session-option">
+              Rinse
+              <input
+                type="number"
+                min="0"
+                value={settings.rinseSeconds}
+                onChange={e => updateSettings({ rinseSeconds: Math.max(0, parseOptionalNumber(e.target.value) ?? 0) })}
+              />
+              s
+            </label>
+          )}
+          <label className="guided-session-option">
+            Pour and reset
+            <input
+              type="number"
+              min="0"
+              value={settings.gapSeconds}
+              onChange={e => updateSettings({ gapSeconds: Math.max(0, parseOptionalNumber(e.target.value) ?? 0) })}
+            />
+            s
+          </label>
+          <label className="guided-session-option">
+            <input type="checkbox" checked={settings.autoStart} onChange={e => updateSettings({ autoStart: e.target.checked })} />
+            Start next steep automatically
+          </label>
+        </div>
+        <button className="btn-reset-used" onClick={handleStart}>
+          <Play size={14} /> {phase?.kind === 'finished' ? 'Start another session' : 'Start session'}
+        </button>
+      </div>
+    )
+  }
+
+  const stepName = formatSessionStep(steps[phase.step] ?? 0)
+  const ofSteeps = `of ${session.steepTimes.length}`
+
+  return (
+    <div className="guided-session active">
+      {phase.kind === 'brewing' && (
+        <p className="guided-session-status">
+          {stepName}{steps[phase.step] !== RINSE_STEEP_INDEX && ` ${ofSteeps}`}
+          {!currentTimer && ' stopped'}
+        </p>
+      )}
+      {phase.kind === 'between' && (
+        <p className="guided-session-status">
+          Pour and reset · {stepName} {ofSteeps}
+          {phase.startsAt !== null && ` in ${Math.min(session.settings.gapSeconds, Math.max(0, Math.ceil((phase.startsAt - now) / 1000)))}s`}
+        </p>
+      )}
+      <div className="session-form-row">
+        {phase.kind === 'between' && (
+          <button className="btn-reset-used" onClick={() => startStep(teaId, phase.step)}>
+            <Play size={14} /> {phase.startsAt === null ? `Start ${stepName}` : 'Start now'}
+          </button>
+        )}
+        {phase.kind === 'brewing' && !currentTimer && (
+          <button className="btn-reset-used" onClick={() => startStep(teaId, phase.step)}>
+            <Play size={14} /> Restart {stepName}
+          </button>
+        )}
+        <button className="btn-reset-used" onClick={handleEnd}>
+          End session
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,220 @@
+import { useState, useEffect } from 'react'
+import { Trash2, Plus, Download } from 'lucide-react'
+import type { Purchase } from '../types'
+import { getPurchases, createPurchase, deletePurchase, importTeaFromUrl } from '../api'
+import { getTeaCost } from '../../shared/purchases'
+import { showSuccess, showError, showInfo } from '../utils/toast'
+import { parseOptionalNumber } from '../utils/formInput'
+import { formatPrice, toDateInput, fromDateInput } from '../utils/purchases'
+
+interface PurchaseHistoryProps {
+  teaId: string
+  // Product page the form can be pre-filled from
+  website: string
+  // Leaf for one session, for the cost per session
+  leafGrams: number | null
+}
+
+const formatPurchaseDate = (timestamp: number): string =>
+  new Date(timestamp).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  })
+
+export const PurchaseHistory = ({ teaId, website, leafGrams }: PurchaseHistoryProps) => {
+  const [purchases, setPurchases] = useState<Purchase[] | null>(null)
+  const [showForm, setShowForm] = useState(false)
+  const [purchasedAt, setPurchasedAt] = useState('')
+  const [vendor, setVendor] = useState('')
+  const [grams, setGrams] = useState('')
+  const [price, setPrice] = useState('')
+  const [currency, setCurrency] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+  const [isFilling, setIsFilling] = useState(false)
+  const [deletingId, setDeletingId] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchPurchases = async () => {
+      try {
+        setPurchases(await getPurchases(teaId))
+      } catch (error) {
+        console.error('Failed to load purchases:', error)
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+        showError(`Failed to load purchases: ${errorMessage}`)
+        setPurchases([])
+      }
+    }
+
+    fetchPurchases()
+  }, [teaId])
+
+  const cost = purchases ? getTeaCost(purchases, leafGrams) : null
+
+  // A new purchase starts from the last one: same vendor, size and currency
+  const handleAddClick = () => {
+    const last = purchases?.[0]
+    setPurchasedAt(toDateInput(Date.now()))
+    setVendor(last?.vendor ?? '')
+    setGrams(last?.grams.toString() ?? '')
+    setPrice(last?.price.toString() ?? '')
+    setCurrency(last?.currency ?? 'USD')
+    setShowForm(true)
+  }
+
+  const handleFillFromPage = async () => {
+    setIsFilling(true)
+    try {
+      const { offer } = await importTeaFromUrl(website)
+      if (offer.vendor) setVendor(offer.vendor)
+      if (offer.packageGrams !== null) setGrams(offer.packageGrams.toString())
+      if (offer.price !== null) setPrice(offer.price.toString())
+      if (offer.currency) setCurrency(offer.currency)
+      if (offer.price === null && offer.packageGrams === null) {
+        showInfo('The product page lists no price or package size')
+      }
+    } catch (error) {
+      console.error('Failed to read the product page:', error)
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+      showError(`Failed to read the product page: ${errorMessage}`)
+    } finally {
+      setIsFilling(false)
+    }
+  }
+
+  const handleSave = async () => {
+    const date = fromDateInput(purchasedAt)
+    const gramsValue = parseOptionalNumber(grams)
+    const priceValue = parseOptionalNumber(price)
+    if (date === null || gramsValue === null || gramsValue <= 0 || priceValue === null || priceValue < 0 || currency.trim() === '') {
+      showError('Enter a date, the grams bought, the price and its currency')
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      const purchase = await createPurchase({
+        teaId,
+        vendor: vendor.trim(),
+        purchasedAt: date,
+        grams: gramsValue,
+        price: priceValue,
+        currency: currency.trim().toUpperCase(),
+      })
+      showSuccess('Purchase added')
+      setPurchases(prev => [...(prev ?? []), purchase].sort((a, b) => b.purchasedAt - a.purchasedAt))
+      setShowForm(false)
+    } catch (error) {
+      console.error('Failed to add purchase:', error)
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+      showError(`Failed to add purchase: ${errorMessage}`)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async (purchase: Purchase) => {
+    if (!confirm(`Delete the purchase from ${formatPurchaseDate(purchase.purchasedAt)}?`)) {
+      return
+    }
+
+    setDeletingId(purchase.id)
+    try {
+      await deletePurchase(purchase.id)
+      showSuccess('Purchase deleted')
+      setPurchases(prev => prev?.filter(p => p.id !== purchase.id) ?? null)
+    } catch (error) {
+      console.error('Failed to delete purchase:', error)
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+      showError(`Failed to delete purchase: ${errorMessage}`)
+    } finally {
+      setDeletingId(null)
+    }
+  }
+
+  return (
+    <div className="purchase-history">
+      <div className="purchase-history-header">
+        <h3>Purchases</h3>
+        {!showForm && (
+          <button className="btn-reset-used" onClick={handleAddClick} disabled={purchases === null}>
+            <Plus size={14} /> Add
+          </button>
+        )}
+      </div>
+
+      {cost && (
+        <p className="purchase-cost">
+          {formatPrice(cost.perGram, cost.currency)}/g
+          {cost.perSession !== null && ` · ${formatPrice(cost.perSession, cost.currency)} per session`}
+        </p>
+      )}
+
+      {showForm && (
+        <div className="session-form">
+          <div className="session-form-row">
+            <label>
+              Date
+              <input type="date" value={purchasedAt} onChange={e => setPurchasedAt(e.target.value)} />
+            </label>
+            <label>
+              Vendor
+              <input type="text" value={vendor} onChange={e => setVendor(e.target.value)} />
+            </label>
+          </div>
+          <div className="session-form-row">
+            <label>
+              Grams
+              <input type="number" min="0" step="any" value={grams} onChange={e => setGrams(e.target.value)} />
+            </label>
+            <label>
+              Price
+              <input type="number" min="0" step="0.01" value={price} onChange={e => setPrice(e.target.value)} />
+            </label>
+            <label>
+              Currency
+              <input type="text" maxLength={3} value={currency} onChange={e => setCurrency(e.target.value)} placeholder="USD" />
+            </label>
+          </div>
+          <div className="session-form-row">
+            {website && (
+              <button className="btn-reset-used" onClick={handleFillFromPage} disabled={isFilling || isSaving} title="Fill in the vendor, price and package size from the product page">
+                <Download size={14} /> {isFilling ? 'Reading page...' : 'From product page'}
+              </button>
+            )}
+            <button className="btn-reset-used" onClick={() => setShowForm(false)} disabled={isSaving}>
+              Cancel
+            </button>
+            <button className="btn-all-done" onClick={handleSave} disabled={isSaving || isFilling}>
+              {isSaving ? 'Saving...' : 'Save Purchase'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {purchases?.length === 0 && !showForm && <p className="session-empty">No purchases recorded yet.</p>}
+      {purchases && purchases.length > 0 && (
+        <ul className="session-list">
+          {purchases.map(purchase => (
+            <li key={purchase.id} className="session-row">
+              <div className="session-info">
+                <span className="session-date">{formatPurchaseDate(purchase.purchasedAt)}</span>
+                <span className="session-meta">
+                  {[purchase.vendor, `${purchase.grams}g`, formatPrice(purchase.price, purchase.currency)].filter(Boolean).join(' · ')}
+                </span>
+              </div>
+              <button
+                className="session-delete-btn"
+                onClick={() => handleDelete(purchase)}
+                disabled={deletingId !== null}
+                title="Delete purchase"
+              >
+                <Trash2 size={14} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,206 @@
+import { useEffect, useState } from 'react'
+import { X } from 'lucide-react'
+import type { Tea, TeaSyncChanges, TeaSyncEvent } from '../types'
+import { resyncTea, resyncTeas, updateTea } from '../api'
+import { showSuccess, showError } from '../utils/toast'
+import { SYNC_FIELDS, SYNC_FIELD_LABELS, formatSyncValue, getCurrentSyncValue, pickSyncChanges, type SyncField } from '../utils/resync'
+import type { TemperatureUnit } from '../utils/temperature'
+
+interface ResyncPanelProps {
+  // One tea re-syncs just that tea; several run the "check all teas" job
+  teas: Tea[]
+  onClose: () => void
+  onUpdated: () => void
+  temperatureUnit: TemperatureUnit
+}
+
+type CheckStatus = 'queued' | 'checking' | 'checked' | 'failed' | 'applying' | 'applied'
+
+interface TeaCheck {
+  status: CheckStatus
+  changes?: TeaSyncChanges
+  // Fields picked to apply; all suggested changes to start with
+  selected?: Set<SyncField>
+  error?: string
+}
+
+const changedFields = (changes: TeaSyncChanges): SyncField[] => SYNC_FIELDS.filter(field => field in changes)
+
+const checkFromEvent = (event: TeaSyncEvent): TeaCheck => {
+  switch (event.status) {
+    case 'started':
+      return { status: 'checking' }
+    case 'checked':
+      return { status: 'checked', changes: event.changes, selected: new Set(changedFields(event.changes)) }
+    case 'failed':
+      return { status: 'failed', error: event.error }
+  }
+}
+
+// The checks with one tea's check updated; teas not in the panel are ignored
+const withCheck = (checks: Map<string, TeaCheck>, teaId: string, update: (check: TeaCheck) => TeaCheck) => {
+  const check = checks.get(teaId)
+  return check ? new Map(checks).set(teaId, update(check)) : checks
+}
+
+// Scrapes the teas' websites again and lists what changed field by field. Only the changes the
+// user picks are saved; rating, stock and consumption are never part of a re-sync.
+export const ResyncPanel = ({ teas, onClose, onUpdated, temperatureUnit }: ResyncPanelProps) => {
+  // The teas to check are fixed when the panel opens, so refreshing the collection does not restart it
+  const [{ checkedTeas, isSingleTea }] = useState(() => ({
+    checkedTeas: teas.filter(tea => tea.website),
+    isSingleTea: teas.length === 1
+  }))
+  const [checks, setChecks] = useState<Map<string, TeaCheck>>(
+    () => new Map(checkedTeas.map(tea => [tea.id, { status: 'queued' }]))
+  )
+  const [isChecking, setIsChecking] = useState(checkedTeas.length > 0)
+
+  const updateCheck = (teaId: string, update: (check: TeaCheck) => TeaCheck) =>
+    setChecks(prev => withCheck(prev, teaId, update))
+
+  useEffect(() => {
+    const runChecks = async () => {
+      if (checkedTeas.length === 0) return
+      try {
+        if (isSingleTea) {
+          const [tea] = checkedTeas
+          setChecks(prev => withCheck(prev, tea.id, () => ({ status: 'checking' })))
+          const result = await resyncTea(tea.id)
+          setChecks(prev => withCheck(prev, tea.id, () => checkFromEvent({ status: 'checked', ...result })))
+        } else {
+          await resyncTeas(event => setChecks(prev => withCheck(prev, event.teaId, () => checkFromEvent(event))))
+        }
+      } catch (error) {
+        console.error('Failed to re-sync teas:', error)
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+        showError(`Re-sync failed: ${errorMessage}`)
+        // Teas the server never got to
+        setChecks(prev => new Map([...prev].map(([teaId, check]) => [
+          teaId,
+          check.status === 'queued' || check.status === 'checking' ? { status: 'failed', error: errorMessage } : check
+        ])))
+      } finally {
+        setIsChecking(false)
+      }
+    }
+
+    runChecks()
+  }, [checkedTeas, isSingleTea])
+
+  const toggleField = (teaId: string, field: SyncField) =>
+    updateCheck(teaId, check => {
+      const selected = new Set(check.selected)
+      if (selected.has(field)) {
+        selected.delete(field)
+      } else {
+        selected.add(field)
+      }
+      return { ...check, selected }
+    })
+
+  const handleApply = async (tea: Tea, check: TeaCheck) => {
+    if (!check.changes || !check.selected || check.selected.size === 0) return
+
+    updateCheck(tea.id, current => ({ ...current, status: 'applying' }))
+    try {
+      await updateTea(tea.id, pickSyncChanges(check.changes, check.selected))
+      updateCheck(tea.id, current => ({ ...current, status: 'applied' }))
+      showSuccess(`Updated ${tea.name}`)
+      onUpdated()
+    } catch (error) {
+      console.error('Failed to apply re-synced changes:', error)
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+      showError(`Failed to update ${tea.name}: ${errorMessage}`)
+      updateCheck(tea.id, current => ({ ...current, status: 'checked' }))
+    }
+  }
+
+  const entries = checkedTeas.map(tea => ({ tea, check: checks.get(tea.id) ?? { status: 'queued' as const } }))
+  const withChanges = entries.filter(({ check }) => check.changes && changedFields(check.changes).length > 0)
+  const upToDate = entries.filter(({ check }) => check.status === 'checked' && check.changes && changedFields(check.changes).length === 0)
+  const failed = entries.filter(({ check }) => check.status === 'failed')
+  const pending = entries.filter(({ check }) => check.status === 'queued' || check.status === 'checking').length
+
+  return (
+    <div className="modal-overlay" onClick={(e) => e.target === e.currentTarget && onClose()}>
+      <div className="form-container resync-container">
+        <div className="form-header">
+          <h3>{isSingleTea ? `Re-sync ${teas[0].name}` : 'Check Teas for Changes'}</h3>
+          <button onClick={onClose} className="close-btn"><X size={20} /></button>
+        </div>
+
+        <div className="form-body">
+          {checkedTeas.length === 0 && <p className="resync-summary">No teas with a website to check.</p>}
+          {isChecking && checkedTeas.length > 0 && (
+            <p className="resync-summary">
+              Checking {isSingleTea ? checkedTeas[0].website : `${checkedTeas.length - pending} of ${checkedTeas.length} teas`}...
+            </p>
+          )}
+          {!isChecking && withChanges.length === 0 && failed.length === 0 && checkedTeas.length > 0 && (
+            <p className="resync-summary">{isSingleTea ? 'This tea is up to date.' : 'All teas are up to date.'}</p>
+          )}
+
+          {withChanges.map(({ tea, check }) => (
+            <div key={tea.id} className={`resync-tea resync-${check.status}`}>
+              {!isSingleTea && <h4>{tea.name}</h4>}
+              <table className="bulk-import-table">
+                <thead>
+                  <tr>
+                    <th aria-label="Apply"></th>
+                    <th>Field</th>
+                    <th>Current</th>
+                    <th>From website</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {changedFields(check.changes!).map(field => (
+                    <tr key={field}>
+                      <td>
+                        <input
+                          type="checkbox"
+                          aria-label={`Apply ${SYNC_FIELD_LABELS[field]}`}
+                          checked={check.selected?.has(field) ?? false}
+                          onChange={() => toggleField(tea.id, field)}
+                          disabled={check.status !== 'checked'}
+                        />
+                      </td>
+                      <td>{SYNC_FIELD_LABELS[field]}</td>
+                      <td className="resync-value">{formatSyncValue(field, getCurrentSyncValue(tea, field), temperatureUnit)}</td>
+                      <td className="resync-value">{formatSyncValue(field, check.changes![field], temperatureUnit)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <button
+                type="button"
+                onClick={() => handleApply(tea, check)}
+                disabled={check.status !== 'checked' || !check.selected || check.selected.size === 0}
+                className="btn-primary"
+              >
+                {check.status === 'applying' ? 'Applying...' : check.status === 'applied' ? 'Applied' : 'Apply selected'}
+              </button>
+            </div>
+          ))}
+
+          {failed.length > 0 && (
+            <ul className="resync-list">
+              {failed.map(({ tea, check }) => (
+                <li key={tea.id}>
+                  {!isSingleTea && <span>{tea.name}: </span>}
+                  <span className="bulk-import-error">{check.error}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {!isSingleTea && upToDate.length > 0 && (
+            <p className="resync-summary">
+              Up to date: {upToDate.map(({ tea }) => tea.name).join(', ')}
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,117 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { SessionHistory } from './SessionHistory';
+import { getSessions, deleteSession } from '../api';
+import type { BrewSession } from '../types';
+
+// Mock Lucide React icons
+vi.mock('lucide-react', () => ({
+  Trash2: () => <div data-testid="trash-icon">Trash</div>,
+}));
+
+vi.mock('../api', () => ({
+  getSessions: vi.fn(),
+  deleteSession: vi.fn(),
+}));
+
+vi.mock('../utils/toast', () => ({
+  showSuccess: vi.fn(),
+  showError: vi.fn(),
+}));
+
+const createMockSession = (overrides?: Partial<BrewSession>): BrewSession => ({
+  id: 's1',
+  teaId: '1',
+  startedAt: new Date('2026-01-20T09:00:00').getTime(),
+  endedAt: new Date('2026-01-20T09:30:00').getTime(),
+  steeps: [
+    { index: 0, plannedSeconds: 30, actualSeconds: null, startedAt: null },
+    { index: 1, plannedSeconds: 45, actualSeconds: null, startedAt: null },
+  ],
+  gramsUsed: 5,
+  waterTemperature: 85,
+  notes: '',
+  ...overrides,
+});
+
+describe('SessionHistory Component', () => {
+  beforeEach(() => {
+    vi.mocked(getSessions).mockReset();
+    vi.mocked(deleteSession).mockReset();
+  });
+
+  it('should load the sessions of the given tea', async () => {
+    vi.mocked(getSessions).mockResolvedValue([createMockSession({ notes: 'Sweet finish' })]);
+
+    render(<SessionHistory teaId="1" refreshKey={0} onSessionDeleted={vi.fn()} />);
+
+    expect(await screen.findByText('2 steeps · 5g · 85°C')).toBeInTheDocument();
+    expect(screen.getByText('Sweet finish')).toBeInTheDocument();
+    expect(getSessions).toHaveBeenCalledWith('1');
+  });
+
+  it('should show the water temperature in the selected unit', async () => {
+    vi.mocked(getSessions).mockResolvedValue([createMockSession()]);
+
+    render(<SessionHistory teaId="1" refreshKey={0} onSessionDeleted={vi.fn()} temperatureUnit="F" />);
+
+    expect(await screen.findByText('2 steeps · 5g · 185°F')).toBeInTheDocument();
+  });
+
+  it('should omit grams and temperature when not recorded', async () => {
+    vi.mocked(getSessions).mockResolvedValue([
+      createMockSession({ steeps: [], gramsUsed: null, waterTemperature: null }),
+    ]);
+
+    render(<SessionHistory teaId="1" refreshKey={0} onSessionDeleted={vi.fn()} />);
+
+    expect(await screen.findByText('0 steeps')).toBeInTheDocument();
+  });
+
+  it('should show how much longer or shorter the steeps ran than planned', async () => {
+    vi.mocked(getSessions).mockResolvedValue([
+      createMockSession({
+        id: 's1',
+        steeps: [
+          { index: 0, plannedSeconds: 30, actualSeconds: 40, startedAt: null },
+          { index: 1, plannedSeconds: 45, actualSeconds: 50, startedAt: null },
+          { index: 2, plannedSeconds: 60, actualSeconds: null, startedAt: null },
+        ],
+      }),
+      createMockSession({
+        id: 's2',
+        steeps: [{ index: 0, plannedSeconds: 30, actualSeconds: 25, startedAt: null }],
+      }),
+    ]);
+
+    render(<SessionHistory teaId="1" refreshKey={0} onSessionDeleted={vi.fn()} />);
+
+    expect(await screen.findByText('3 steeps · +15s over plan · 5g · 85°C')).toBeInTheDocument();
+    expect(screen.getByText('1 steep · 5s under plan · 5g · 85°C')).toBeInTheDocument();
+  });
+
+  it('should show an empty state', async () => {
+    vi.mocked(getSessions).mockResolvedValue([]);
+
+    render(<SessionHistory teaId="1" refreshKey={0} onSessionDeleted={vi.fn()} />);
+
+    expect(await screen.findByText('No sessions logged yet.')).toBeInTheDocument();
+  });
+
+  it('should delete a session after confirmation', async () => {
+    const user = userEvent.setup();
+    const onSessionDeleted = vi.fn();
+    vi.mocked(getSessions).mockResolvedValue([createMockSession()]);
+    vi.mocked(deleteSession).mockResolvedValue();
+    vi.spyOn(window, 'confirm').mockReturnValue(true);
+
+    render(<SessionHistory teaId="1" refreshKey={0} onSessionDeleted={onSessionDeleted} />);
+
+    await user.click(await screen.findByTitle('Delete session'));
+
+    expect(deleteSession).toHaveBeenCalledWith('s1');
+    await waitFor(() => expect(onSessionDeleted).toHaveBeenCalled());
+    expect(await screen.findByText('No sessions logged yet.')).toBeInTheDocument();
+  });
+});
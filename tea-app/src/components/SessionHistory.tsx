@@ -0,0 +1,117 @@
+import { useState, useEffect } from 'react'
+import { Trash2 } from 'lucide-react'
+import type { BrewSession } from '../types'
+import { getSessions, deleteSession } from '../api'
+import { showSuccess, showError } from '../utils/toast'
+import { formatTemperature, type TemperatureUnit } from '../utils/temperature'
+
+interface SessionHistoryProps {
+  teaId: string
+  // Bump to reload after a session has been logged elsewhere
+  refreshKey: number
+  onSessionDeleted: () => void
+  temperatureUnit?: TemperatureUnit
+}
+
+const formatSessionDate = (timestamp: number): string =>
+  new Date(timestamp).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  })
+
+// How much longer or shorter the timed steeps ran than planned, e.g. "+12s over plan"; null when
+// no steep recorded its actual time or they all ran as planned
+const formatSteepDrift = (session: BrewSession): string | null => {
+  const drift = session.steeps.reduce((sum, steep) =>
+    steep.actualSeconds === null ? sum : sum + steep.actualSeconds - steep.plannedSeconds, 0)
+  if (drift === 0) {
+    return null
+  }
+  return drift > 0 ? `+${drift}s over plan` : `${-drift}s under plan`
+}
+
+const formatSessionDetails = (session: BrewSession, temperatureUnit: TemperatureUnit): string => {
+  const details = [`${session.steeps.length} ${session.steeps.length === 1 ? 'steep' : 'steeps'}`]
+  const drift = formatSteepDrift(session)
+  if (drift !== null) {
+    details.push(drift)
+  }
+  if (session.gramsUsed !== null) {
+    details.push(`${session.gramsUsed}g`)
+  }
+  if (session.waterTemperature !== null) {
+    details.push(formatTemperature(session.waterTemperature, temperatureUnit))
+  }
+  return details.join(' · ')
+}
+
+export const SessionHistory = ({ teaId, refreshKey, onSessionDeleted, temperatureUnit = 'C' }: SessionHistoryProps) => {
+  const [sessions, setSessions] = useState<BrewSession[] | null>(null)
+  const [deletingId, setDeletingId] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchSessions = async () => {
+      try {
+        setSessions(await getSessions(teaId))
+      } catch (error) {
+        console.error('Failed to load brewing sessions:', error)
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+        showError(`Failed to load brewing sessions: ${errorMessage}`)
+        setSessions([])
+      }
+    }
+
+    fetchSessions()
+  }, [teaId, refreshKey])
+
+  const handleDelete = async (session: BrewSession) => {
+    if (!confirm(`Delete the session from ${formatSessionDate(session.startedAt)}?`)) {
+      return
+    }
+
+    setDeletingId(session.id)
+    try {
+      await deleteSession(session.id)
+      showSuccess('Session deleted')
+      setSessions(prev => prev?.filter(s => s.id !== session.id) ?? null)
+      onSessionDeleted()
+    } catch (error) {
+      console.error('Failed to delete session:', error)
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+      showError(`Failed to delete session: ${errorMessage}`)
+    } finally {
+      setDeletingId(null)
+    }
+  }
+
+  return (
+    <div className="session-history">
+      <h3>Session History</h3>
+      {sessions?.length === 0 && <p className="session-empty">No sessions logged yet.</p>}
+      {sessions && sessions.length > 0 && (
+        <ul className="session-list">
+          {sessions.map(session => (
+            <li key={session.id} className="session-row">
+              <div className="session-info">
+                <span className="session-date">{formatSessionDate(session.startedAt)}</span>
+                <span className="session-meta">{formatSessionDetails(session, temperatureUnit)}</span>
+                {session.notes && <span className="session-notes">{session.notes}</span>}
+              </div>
+              <button
+                className="session-delete-btn"
+                onClick={() => handleDelete(session)}
+                disabled={deletingId !== null}
+                title="Delete session"
+              >
+                <Trash2 size={14} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -1,4 +1,4 @@
-type SortOption = 'date' | 'name-asc' | 'name-desc' | 'type' | 'caffeine-asc' | 'caffeine-desc' | 'steeps-asc' | 'steeps-desc'
+export type SortOption = 'date' | 'name-asc' | 'name-desc' | 'type' | 'vendor' | 'caffeine-asc' | 'caffeine-desc' | 'steeps-asc' | 'steeps-desc' | 'vintage-asc' | 'vintage-desc'
 
 interface SortControlsProps {
   sortBy: SortOption
@@ -16,10 +16,13 @@ export const SortControls = ({ sortBy, onSortChange }: SortControlsProps) => {
       <option value="name-asc">Name (A-Z)</option>
       <option value="name-desc">Name (Z-A)</option>
       <option value="type">Tea Type</option>
+      <option value="vendor">Vendor</option>
       <option value="caffeine-asc">Caffeine (Low to High)</option>
       <option value="caffeine-desc">Caffeine (High to Low)</option>
       <option value="steeps-asc">Steeps (Fewest First)</option>
       <option value="steeps-desc">Steeps (Most First)</option>
+      <option value="vintage-asc">Vintage (Oldest First)</option>
+      <option value="vintage-desc">Vintage (Youngest First)</option>
     </select>
   )
 }
@@ -0,0 +1,51 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { TagEditor } from './TagEditor';
+
+// Mock Lucide React icons
+vi.mock('lucide-react', () => ({
+  X: () => <div data-testid="x-icon">X</div>,
+}));
+
+describe('TagEditor Component', () => {
+  it('should add a typed tag on Enter', async () => {
+    const user = userEvent.setup();
+    const onChange = vi.fn();
+
+    render(<TagEditor tags={['morning']} suggestions={[]} onChange={onChange} />);
+
+    await user.type(screen.getByPlaceholderText('Add tag...'), '  smoky {Enter}');
+
+    expect(onChange).toHaveBeenCalledWith(['morning', 'smoky']);
+  });
+
+  it('should not add a tag the tea already has', async () => {
+    const user = userEvent.setup();
+    const onChange = vi.fn();
+
+    render(<TagEditor tags={['Smoky']} suggestions={[]} onChange={onChange} />);
+
+    await user.type(screen.getByPlaceholderText('Add tag...'), 'smoky,');
+
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it('should remove a tag', async () => {
+    const user = userEvent.setup();
+    const onChange = vi.fn();
+
+    render(<TagEditor tags={['morning', 'gift']} suggestions={[]} onChange={onChange} />);
+
+    await user.click(screen.getByTitle('Remove tag "morning"'));
+
+    expect(onChange).toHaveBeenCalledWith(['gift']);
+  });
+
+  it('should only suggest tags the tea does not have', () => {
+    const { container } = render(<TagEditor tags={['aged']} suggestions={['Aged', 'gift']} onChange={vi.fn()} />);
+
+    const options = Array.from(container.querySelectorAll('datalist option')).map(option => option.getAttribute('value'));
+    expect(options).toEqual(['gift']);
+  });
+});
@@ -0,0 +1,66 @@
+import { useState } from 'react'
+import { X } from 'lucide-react'
+import { isSameTag, normalizeTags } from '../../shared/tags'
+
+interface TagEditorProps {
+  tags: string[]
+  // Tags used elsewhere in the collection, offered while typing
+  suggestions: string[]
+  onChange: (tags: string[]) => void
+  disabled?: boolean
+}
+
+// Tags as removable chips plus an input; Enter or a comma adds what was typed
+export const TagEditor = ({ tags, suggestions, onChange, disabled = false }: TagEditorProps) => {
+  const [input, setInput] = useState('')
+
+  const addTag = () => {
+    const next = normalizeTags([...tags, input])
+    setInput('')
+    if (next.length !== tags.length) {
+      onChange(next)
+    }
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault()
+      addTag()
+    } else if (e.key === 'Backspace' && input === '' && tags.length > 0) {
+      onChange(tags.slice(0, -1))
+    }
+  }
+
+  const unusedSuggestions = suggestions.filter(suggestion => !tags.some(tag => isSameTag(tag, suggestion)))
+
+  return (
+    <div className="tag-editor">
+      {tags.map(tag => (
+        <span key={tag} className="tag-chip">
+          {tag}
+          <button
+            className="tag-remove-btn"
+            onClick={() => onChange(tags.filter(t => t !== tag))}
+            disabled={disabled}
+            title={`Remove tag "${tag}"`}
+          >
+            <X size={12} />
+          </button>
+        </span>
+      ))}
+      <input
+        className="tag-input"
+        value={input}
+        onChange={e => setInput(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onBlur={() => input.trim() && addTag()}
+        placeholder="Add tag..."
+        list="tag-suggestions"
+        disabled={disabled}
+      />
+      <datalist id="tag-suggestions">
+        {unusedSuggestions.map(suggestion => <option key={suggestion} value={suggestion} />)}
+      </datalist>
+    </div>
+  )
+}
@@ -0,0 +1,131 @@
+import { useState, useEffect } from 'react'
+import { X, Pencil, Trash2, Merge } from 'lucide-react'
+import type { TagCount } from '../types'
+import { getTags, renameTag, mergeTags, deleteTag } from '../api'
+import { showSuccess, showError } from '../utils/toast'
+
+interface TagsPanelProps {
+  onClose: () => void
+  // Called after tags were changed on the teas
+  onChanged: () => void
+}
+
+export const TagsPanel = ({ onClose, onChanged }: TagsPanelProps) => {
+  const [tags, setTags] = useState<TagCount[] | null>(null)
+  const [selected, setSelected] = useState<string[]>([])
+  const [isBusy, setIsBusy] = useState(false)
+
+  useEffect(() => {
+    const fetchTags = async () => {
+      try {
+        setTags(await getTags())
+      } catch (error) {
+        console.error('Failed to load tags:', error)
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+        showError(`Failed to load tags: ${errorMessage}`)
+        setTags([])
+      }
+    }
+
+    fetchTags()
+  }, [])
+
+  // Runs a change that responds with the new tag list, or null for a delete
+  const applyChange = async (change: () => Promise<TagCount[] | null>, successMessage: string, failureMessage: string) => {
+    setIsBusy(true)
+    try {
+      const updated = await change()
+      setTags(updated ?? await getTags())
+      setSelected([])
+      showSuccess(successMessage)
+      onChanged()
+    } catch (error) {
+      console.error(`${failureMessage}:`, error)
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+      showError(`${failureMessage}: ${errorMessage}`)
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const handleRename = (tag: TagCount) => {
+    const name = prompt(`Rename "${tag.name}" to:`, tag.name)?.trim()
+    if (!name || name === tag.name) {
+      return
+    }
+    applyChange(() => renameTag(tag.name, name), `Renamed "${tag.name}" to "${name}"`, 'Failed to rename tag')
+  }
+
+  const handleDelete = (tag: TagCount) => {
+    if (!confirm(`Remove "${tag.name}" from ${tag.count} ${tag.count === 1 ? 'tea' : 'teas'}?`)) {
+      return
+    }
+    applyChange(async () => {
+      await deleteTag(tag.name)
+      return null
+    }, `Deleted "${tag.name}"`, 'Failed to delete tag')
+  }
+
+  const handleMerge = () => {
+    const into = prompt(`Merge ${selected.map(tag => `"${tag}"`).join(', ')} into:`, selected[0])?.trim()
+    if (!into) {
+      return
+    }
+    applyChange(() => mergeTags(selected, into), `Merged ${selected.length} tags into "${into}"`, 'Failed to merge tags')
+  }
+
+  const toggleSelected = (name: string) => {
+    setSelected(prev => (prev.includes(name) ? prev.filter(tag => tag !== name) : [...prev, name]))
+  }
+
+  return (
+    <div className="modal-overlay" onClick={(e) => e.target === e.currentTarget && onClose()}>
+      <div className="form-container">
+        <div className="form-header">
+          <h3>Tags</h3>
+          <button onClick={onClose} className="close-btn"><X size={20} /></button>
+        </div>
+
+        <div className="form-body">
+          {tags === null && <p className="backups-empty">Loading...</p>}
+          {tags?.length === 0 && (
+            <p className="backups-empty">No tags yet. Add them to a tea in its side panel.</p>
+          )}
+          {tags && tags.length > 0 && (
+            <>
+              <ul className="backups-list">
+                {tags.map(tag => (
+                  <li key={tag.name} className="backup-row">
+                    <label className="tag-select">
+                      <input
+                        type="checkbox"
+                        checked={selected.includes(tag.name)}
+                        onChange={() => toggleSelected(tag.name)}
+                        disabled={isBusy}
+                      />
+                      <span className="backup-info">
+                        <span className="backup-date">{tag.name}</span>
+                        <span className="backup-meta">{tag.count} {tag.count === 1 ? 'tea' : 'teas'}</span>
+                      </span>
+                    </label>
+                    <div className="tag-actions">
+                      <button className="btn-reset-used" onClick={() => handleRename(tag)} disabled={isBusy} title="Rename tag">
+                        <Pencil size={14} />
+                      </button>
+                      <button className="btn-reset-used" onClick={() => handleDelete(tag)} disabled={isBusy} title="Delete tag">
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+              <button className="btn-primary" onClick={handleMerge} disabled={isBusy || selected.length < 2}>
+                <Merge size={16} /> Merge selected
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,85 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { TastingNotes } from './TastingNotes';
+import { getSessions, createTastingNote } from '../api';
+import type { TastingNote } from '../types';
+
+// Mock Lucide React icons
+vi.mock('lucide-react', () => ({
+  Trash2: () => <div data-testid="trash-icon">Trash</div>,
+  Plus: () => <div data-testid="plus-icon">Plus</div>,
+}));
+
+vi.mock('../api', () => ({
+  getSessions: vi.fn(),
+  createTastingNote: vi.fn(),
+  deleteTastingNote: vi.fn(),
+}));
+
+vi.mock('../utils/toast', () => ({
+  showSuccess: vi.fn(),
+  showError: vi.fn(),
+}));
+
+const createMockNote = (overrides?: Partial<TastingNote>): TastingNote => ({
+  id: 'n1',
+  teaId: '1',
+  sessionId: null,
+  createdAt: new Date('2026-01-20T09:00:00').getTime(),
+  text: '',
+  flavors: [],
+  intensities: { body: null, astringency: null, sweetness: null, aroma: null },
+  steepNotes: [],
+  ...overrides,
+});
+
+describe('TastingNotes Component', () => {
+  beforeEach(() => {
+    vi.mocked(getSessions).mockReset().mockResolvedValue([]);
+    vi.mocked(createTastingNote).mockReset();
+  });
+
+  it('should show the flavor profile of the tea\'s notes', () => {
+    render(
+      <TastingNotes
+        teaId="1"
+        notes={[
+          createMockNote({ flavors: ['orchid', 'honey'], intensities: { body: 4, astringency: null, sweetness: null, aroma: null } }),
+          createMockNote({ id: 'n2', flavors: ['orchid'], text: 'Long finish' }),
+        ]}
+        steepTimes={[20, 30]}
+        onChanged={vi.fn()}
+      />
+    );
+
+    expect(screen.getByText('Floral · Sweet')).toBeInTheDocument();
+    expect(screen.getByText('Body')).toBeInTheDocument();
+    expect(screen.getByText('4.0')).toBeInTheDocument();
+    expect(screen.getByText('Long finish')).toBeInTheDocument();
+  });
+
+  it('should save a note with flavors, intensities and steep notes', async () => {
+    const user = userEvent.setup();
+    const onChanged = vi.fn();
+    vi.mocked(createTastingNote).mockResolvedValue(createMockNote());
+
+    render(<TastingNotes teaId="1" notes={[]} steepTimes={[20, 30]} onChanged={onChanged} />);
+
+    await user.click(screen.getByRole('button', { name: /Add/ }));
+    await user.click(screen.getByRole('button', { name: 'jasmine' }));
+    fireEvent.change(screen.getByLabelText(/Sweetness/), { target: { value: '3' } });
+    await user.type(screen.getByLabelText('Steep 2 (30s)'), 'Opens up');
+    await user.click(screen.getByRole('button', { name: 'Save Note' }));
+
+    expect(createTastingNote).toHaveBeenCalledWith({
+      teaId: '1',
+      sessionId: null,
+      text: '',
+      flavors: ['jasmine'],
+      intensities: { body: null, astringency: null, sweetness: 3, aroma: null },
+      steepNotes: [{ index: 1, note: 'Opens up' }],
+    });
+    expect(onChanged).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,233 @@
+import { useState } from 'react'
+import { Trash2, Plus } from 'lucide-react'
+import { TASTING_INTENSITIES } from '../types'
+import type { BrewSession, FlavorDescriptor, TastingIntensities, TastingNote } from '../types'
+import { getSessions, createTastingNote, deleteTastingNote } from '../api'
+import { getFlavorProfile } from '../../shared/tastingNotes'
+import { showSuccess, showError } from '../utils/toast'
+import { FlavorWheelPicker } from './FlavorWheelPicker'
+
+interface TastingNotesProps {
+  teaId: string
+  // The tea's notes, newest first
+  notes: TastingNote[]
+  // Steep times of the active brewing profile, for per-steep notes on notes without a session
+  steepTimes: number[]
+  onChanged: () => void
+}
+
+const NO_INTENSITIES: TastingIntensities = { body: null, astringency: null, sweetness: null, aroma: null }
+
+const formatNoteDate = (timestamp: number): string =>
+  new Date(timestamp).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  })
+
+const capitalize = (text: string): string => text.charAt(0).toUpperCase() + text.slice(1)
+
+export const TastingNotes = ({ teaId, notes, steepTimes, onChanged }: TastingNotesProps) => {
+  const [showForm, setShowForm] = useState(false)
+  const [sessions, setSessions] = useState<BrewSession[]>([])
+  const [sessionId, setSessionId] = useState('')
+  const [text, setText] = useState('')
+  const [flavors, setFlavors] = useState<FlavorDescriptor[]>([])
+  const [intensities, setIntensities] = useState<TastingIntensities>(NO_INTENSITIES)
+  const [steepNotes, setSteepNotes] = useState<string[]>([])
+  const [isSaving, setIsSaving] = useState(false)
+  const [deletingId, setDeletingId] = useState<string | null>(null)
+
+  const profile = getFlavorProfile(notes)
+  const session = sessions.find(s => s.id === sessionId)
+  // A session's own steeps, or the steep times the tea is brewed with
+  const steepLabels = session && session.steeps.length > 0
+    ? session.steeps.map(steep => `${steep.plannedSeconds}s`)
+    : steepTimes.map(time => `${time}s`)
+
+  const handleAddClick = async () => {
+    setSessionId('')
+    setText('')
+    setFlavors([])
+    setIntensities(NO_INTENSITIES)
+    setSteepNotes([])
+    setShowForm(true)
+    try {
+      setSessions(await getSessions(teaId))
+    } catch (error) {
+      console.error('Failed to load sessions:', error)
+      setSessions([])
+    }
+  }
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    try {
+      await createTastingNote({
+        teaId,
+        sessionId: sessionId || null,
+        text: text.trim(),
+        flavors,
+        intensities,
+        steepNotes: steepNotes
+          .map((note, index) => ({ index, note: note?.trim() ?? '' }))
+          .filter(steepNote => steepNote.note !== '' && steepNote.index < steepLabels.length),
+      })
+      showSuccess('Tasting note added')
+      setShowForm(false)
+      onChanged()
+    } catch (error) {
+      console.error('Failed to add tasting note:', error)
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+      showError(`Failed to add tasting note: ${errorMessage}`)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async (note: TastingNote) => {
+    if (!confirm(`Delete the tasting note from ${formatNoteDate(note.createdAt)}?`)) {
+      return
+    }
+
+    setDeletingId(note.id)
+    try {
+      await deleteTastingNote(note.id)
+      showSuccess('Tasting note deleted')
+      onChanged()
+    } catch (error) {
+      console.error('Failed to delete tasting note:', error)
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+      showError(`Failed to delete tasting note: ${errorMessage}`)
+    } finally {
+      setDeletingId(null)
+    }
+  }
+
+  return (
+    <div className="tasting-notes">
+      <div className="purchase-history-header">
+        <h3>Tasting Notes</h3>
+        {!showForm && (
+          <button className="btn-reset-used" onClick={handleAddClick}>
+            <Plus size={14} /> Add
+          </button>
+        )}
+      </div>
+
+      {profile && (
+        <div className="flavor-profile">
+          {profile.categories.length > 0 && (
+            <p className="flavor-profile-flavors">
+              {profile.categories.map(category => category.name).join(' · ')}
+              <span className="session-meta"> — {profile.flavors.slice(0, 6).map(flavor => flavor.name).join(', ')}</span>
+            </p>
+          )}
+          <div className="intensity-bars">
+            {TASTING_INTENSITIES.filter(intensity => profile.intensities[intensity] !== null).map(intensity => (
+              <div key={intensity} className="intensity-bar">
+                <span className="intensity-label">{capitalize(intensity)}</span>
+                <meter min={0} max={5} value={profile.intensities[intensity] ?? 0} />
+                <span className="intensity-value">{profile.intensities[intensity]?.toFixed(1)}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {showForm && (
+        <div className="session-form">
+          {sessions.length > 0 && (
+            <label>
+              Session
+              <select value={sessionId} onChange={e => setSessionId(e.target.value)}>
+                <option value="">The tea in general</option>
+                {sessions.map(s => (
+                  <option key={s.id} value={s.id}>
+                    {formatNoteDate(s.startedAt)} · {s.steeps.length} {s.steeps.length === 1 ? 'steep' : 'steeps'}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+          <FlavorWheelPicker selected={flavors} onChange={setFlavors} />
+          <div className="intensity-sliders">
+            {TASTING_INTENSITIES.map(intensity => (
+              <label key={intensity}>
+                {capitalize(intensity)}: {intensities[intensity] ?? '—'}
+                <input
+                  type="range"
+                  min={0}
+                  max={5}
+                  value={intensities[intensity] ?? 0}
+                  onChange={e => {
+                    const value = Number(e.target.value)
+                    setIntensities(prev => ({ ...prev, [intensity]: value === 0 ? null : value }))
+                  }}
+                />
+              </label>
+            ))}
+          </div>
+          <label>
+            Notes
+            <textarea value={text} onChange={e => setText(e.target.value)} rows={2} placeholder="How did it taste?" />
+          </label>
+          {steepLabels.map((label, index) => (
+            <label key={index}>
+              Steep {index + 1} ({label})
+              <input
+                type="text"
+                value={steepNotes[index] ?? ''}
+                onChange={e => {
+                  const value = e.target.value
+                  setSteepNotes(prev => {
+                    const next = [...prev]
+                    next[index] = value
+                    return next
+                  })
+                }}
+              />
+            </label>
+          ))}
+          <div className="session-form-row">
+            <button className="btn-reset-used" onClick={() => setShowForm(false)} disabled={isSaving}>
+              Cancel
+            </button>
+            <button className="btn-all-done" onClick={handleSave} disabled={isSaving}>
+              {isSaving ? 'Saving...' : 'Save Note'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {notes.length === 0 && !showForm && <p className="session-empty">No tasting notes yet.</p>}
+      {notes.length > 0 && (
+        <ul className="session-list">
+          {notes.map(note => (
+            <li key={note.id} className="session-row">
+              <div className="session-info">
+                <span className="session-date">
+                  {formatNoteDate(note.createdAt)}
+                  {note.sessionId && <span className="session-meta"> · brewing session</span>}
+                </span>
+                {note.flavors.length > 0 && <span className="session-meta">{note.flavors.join(', ')}</span>}
+                {note.text && <span className="session-notes">{note.text}</span>}
+                {note.steepNotes.map(steepNote => (
+                  <span key={steepNote.index} className="session-notes">Steep {steepNote.index + 1}: {steepNote.note}</span>
+                ))}
+              </div>
+              <button
+                className="session-delete-btn"
+                onClick={() => handleDelete(note)}
+                disabled={deletingId !== null}
+                title="Delete tasting note"
+              >
+                <Trash2 size={14} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
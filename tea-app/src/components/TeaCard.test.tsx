@@ -20,8 +20,9 @@ const createMockTea = (overrides?: Partial<Tea>): Tea => ({
   caffeine: 'Some',
   caffeineLevel: 'Medium',
   website: 'https://example.com',
-  brewingTemperature: '170°F',
-  teaWeight: '2.5g',
+  temperatureCelsius: 77,
+  leafGrams: 2.5,
+  waterMl: null,
   timesConsumed: 0,
   lastConsumedDate: null,
   ...overrides,
@@ -84,7 +85,7 @@ describe('TeaCard Component', () => {
     });
 
     it('should render brewing temperature when available', () => {
-      const tea = createMockTea({ brewingTemperature: '195°F' });
+      const tea = createMockTea({ temperatureCelsius: 90 });
 
       render(
         <TeaCard
@@ -98,11 +99,30 @@ describe('TeaCard Component', () => {
         />
       );
 
-      expect(screen.getByText('195°F')).toBeInTheDocument();
+      expect(screen.getByText('90°C')).toBeInTheDocument();
+    });
+
+    it('should render brewing temperature in Fahrenheit when selected', () => {
+      const tea = createMockTea({ temperatureCelsius: 90 });
+
+      render(
+        <TeaCard
+          tea={tea}
+          usedSteepTimes={new Set()}
+          onTeaClick={vi.fn()}
+          onSteepClick={vi.fn()}
+          onDeleteClick={vi.fn()}
+          deletingTeaId={null}
+          isSelected={false}
+          temperatureUnit="F"
+        />
+      );
+
+      expect(screen.getByText('194°F')).toBeInTheDocument();
     });
 
     it('should render tea weight when available', () => {
-      const tea = createMockTea({ teaWeight: '3.5g' });
+      const tea = createMockTea({ leafGrams: 3.5, waterMl: 100 });
 
       render(
         <TeaCard
@@ -117,6 +137,7 @@ describe('TeaCard Component', () => {
       );
 
       expect(screen.getByText('3.5g')).toBeInTheDocument();
+      expect(screen.getByText('100ml')).toBeInTheDocument();
     });
 
     it('should render steep count', () => {
@@ -177,6 +198,81 @@ describe('TeaCard Component', () => {
     });
   });
 
+  describe('Stock badge', () => {
+    const renderCard = (tea: Tea) =>
+      render(
+        <TeaCard
+          tea={tea}
+          usedSteepTimes={new Set()}
+          onTeaClick={vi.fn()}
+          onSteepClick={vi.fn()}
+          onDeleteClick={vi.fn()}
+          deletingTeaId={null}
+          isSelected={false}
+        />
+      );
+
+    it('should not show a badge when stock is not tracked', () => {
+      renderCard(createMockTea());
+
+      expect(screen.queryByText('Low stock')).not.toBeInTheDocument();
+    });
+
+    it('should show a badge at or below the reorder threshold', () => {
+      renderCard(createMockTea({ stockGrams: 20, reorderThresholdGrams: 25 }));
+
+      expect(screen.getByText('Low stock')).toBeInTheDocument();
+    });
+
+    it('should fall back to one session of tea weight without a threshold', () => {
+      const { unmount } = renderCard(createMockTea({ stockGrams: 10, leafGrams: 2.5 }));
+      expect(screen.queryByText('Low stock')).not.toBeInTheDocument();
+      unmount();
+
+      renderCard(createMockTea({ stockGrams: 2, leafGrams: 2.5 }));
+      expect(screen.getByText('Low stock')).toBeInTheDocument();
+    });
+
+    it('should show out of stock when empty', () => {
+      renderCard(createMockTea({ stockGrams: 0 }));
+
+      expect(screen.getByText('Out of stock')).toBeInTheDocument();
+    });
+  });
+
+  describe('Age badge', () => {
+    const renderCard = (tea: Tea) =>
+      render(
+        <TeaCard
+          tea={tea}
+          usedSteepTimes={new Set()}
+          onTeaClick={vi.fn()}
+          onSteepClick={vi.fn()}
+          onDeleteClick={vi.fn()}
+          deletingTeaId={null}
+          isSelected={false}
+        />
+      );
+
+    it('should not show a badge without a harvest year', () => {
+      const { container } = renderCard(createMockTea());
+
+      expect(container.querySelector('.age-badge')).not.toBeInTheDocument();
+    });
+
+    it('should show the years since the harvest', () => {
+      renderCard(createMockTea({ harvestYear: new Date().getFullYear() - 7 }));
+
+      expect(screen.getByText('7 yrs')).toHaveAttribute('title', `Harvested ${new Date().getFullYear() - 7}`);
+    });
+
+    it('should call a tea from this year new', () => {
+      renderCard(createMockTea({ harvestYear: new Date().getFullYear() }));
+
+      expect(screen.getByText('New')).toBeInTheDocument();
+    });
+  });
+
   describe('Website button', () => {
     it('should render website button when website URL is provided', () => {
       const tea = createMockTea({ website: 'https://example.com' });
@@ -360,8 +456,8 @@ describe('TeaCard Component', () => {
   describe('Edge cases', () => {
     it('should render with minimal tea data', () => {
       const tea = createMockTea({
-        brewingTemperature: '',
-        teaWeight: '',
+        temperatureCelsius: null,
+        leafGrams: null,
         website: '',
       });
 
@@ -1,6 +1,10 @@
 import type { Tea } from '../types'
 import { Trash2, ExternalLink } from 'lucide-react'
-import { formatLastConsumedDate } from '../utils/dateFormat'
+import { formatLastConsumedDate, formatTeaAge } from '../utils/dateFormat'
+import { isLowStock } from '../../shared/inventory'
+import { getTeaAge } from '../../shared/aging'
+import { formatTemperature, type TemperatureUnit } from '../utils/temperature'
+import { getImageSrc } from '../api'
 
 interface TeaCardProps {
   tea: Tea
@@ -10,6 +14,7 @@ interface TeaCardProps {
   onDeleteClick: (teaId: string, e: React.MouseEvent) => void
   deletingTeaId: string | null
   isSelected: boolean
+  temperatureUnit?: TemperatureUnit
 }
 
 export const TeaCard = ({
@@ -18,14 +23,17 @@ export const TeaCard = ({
   onDeleteClick,
   deletingTeaId,
   isSelected,
+  temperatureUnit = 'C',
 }: TeaCardProps) => {
+  const age = getTeaAge(tea)
+
   return (
     <div
       className={`tea-card ${isSelected ? 'selected' : ''}`}
       onClick={onTeaClick}
     >
       <div className="tea-image-container">
-        <img src={tea.image} alt={tea.name} loading="lazy" />
+        <img src={getImageSrc(tea.image, 'thumb')} alt={tea.name} loading="lazy" />
         <div className="image-buttons">
           {tea.website && (
             <a
@@ -60,6 +68,16 @@ export const TeaCard = ({
                   {tea.caffeineLevel} Caffeine
                 </span>
               )}
+              {age !== null && (
+                <span className="age-badge" title={`Harvested ${tea.harvestYear}`}>
+                  {formatTeaAge(age)}
+                </span>
+              )}
+              {isLowStock(tea) && (
+                <span className="low-stock-badge">
+                  {tea.stockGrams === 0 ? 'Out of stock' : 'Low stock'}
+                </span>
+              )}
             </div>
             <div className="tea-stats">
               <span className="stat-text">
@@ -67,11 +85,14 @@ export const TeaCard = ({
               </span>
             </div>
             <div className="tea-brewing-info">
-              {tea.brewingTemperature && (
-                <span className="brewing-temp">{tea.brewingTemperature}</span>
+              {tea.temperatureCelsius !== null && (
+                <span className="brewing-temp">{formatTemperature(tea.temperatureCelsius, temperatureUnit)}</span>
+              )}
+              {tea.leafGrams !== null && (
+                <span className="tea-weight">{tea.leafGrams}g</span>
               )}
-              {tea.teaWeight && (
-                <span className="tea-weight">{tea.teaWeight}</span>
+              {tea.waterMl !== null && (
+                <span className="water-volume">{tea.waterMl}ml</span>
               )}
               <span className="steep-count">{tea.steepTimes.length} steeps</span>
             </div>
@@ -0,0 +1,137 @@
+import { useState, useEffect } from 'react'
+import { X, ExternalLink } from 'lucide-react'
+import type { Purchase, Tea, Vendor } from '../types'
+import { getPurchases, updateVendor } from '../api'
+import { getVendorSummary } from '../../shared/vendors'
+import { showSuccess, showError } from '../utils/toast'
+import { formatPrice } from '../utils/purchases'
+
+interface VendorPanelProps {
+  vendor: Vendor
+  // The whole collection; the panel lists the vendor's teas
+  teas: Tea[]
+  onClose: () => void
+  onUpdated: () => void
+  onTeaSelect: (teaId: string) => void
+}
+
+export const VendorPanel = ({ vendor, teas, onClose, onUpdated, onTeaSelect }: VendorPanelProps) => {
+  const [purchases, setPurchases] = useState<Purchase[] | null>(null)
+  const [name, setName] = useState(vendor.name)
+  const [homepage, setHomepage] = useState(vendor.homepage)
+  const [country, setCountry] = useState(vendor.country)
+  const [notes, setNotes] = useState(vendor.notes)
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    const fetchPurchases = async () => {
+      try {
+        setPurchases(await getPurchases())
+      } catch (error) {
+        console.error('Failed to load purchases:', error)
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+        showError(`Failed to load purchases: ${errorMessage}`)
+        setPurchases([])
+      }
+    }
+
+    fetchPurchases()
+  }, [])
+
+  const vendorTeas = teas.filter(tea => tea.vendorId === vendor.id).sort((a, b) => a.name.localeCompare(b.name))
+  const summary = getVendorSummary(vendorTeas, purchases ?? [])
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (name.trim() === '') {
+      showError('A vendor needs a name')
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      await updateVendor(vendor.id, {
+        name: name.trim(),
+        homepage: homepage.trim(),
+        country: country.trim(),
+        notes: notes.trim(),
+      })
+      showSuccess('Vendor saved')
+      onUpdated()
+    } catch (error) {
+      console.error('Failed to save vendor:', error)
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+      showError(`Failed to save vendor: ${errorMessage}`)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="modal-overlay" onClick={(e) => e.target === e.currentTarget && onClose()}>
+      <div className="form-container">
+        <div className="form-header">
+          <h3>{vendor.name}</h3>
+          <button onClick={onClose} className="close-btn"><X size={20} /></button>
+        </div>
+
+        <div className="form-body">
+          <p className="vendor-summary">
+            {summary.teaCount} {summary.teaCount === 1 ? 'tea' : 'teas'}
+            {summary.averageRating !== null && ` · average rating ${summary.averageRating.toFixed(1)}/10`}
+            {purchases === null
+              ? ' · loading spend...'
+              : ` · spent ${summary.totalSpend.length > 0 ? summary.totalSpend.map(spend => formatPrice(spend.amount, spend.currency)).join(' + ') : 'nothing recorded'}`}
+          </p>
+
+          <form onSubmit={handleSave} className="form-fields">
+            <div className="form-group">
+              <label>Name</label>
+              <input value={name} onChange={e => setName(e.target.value)} required />
+            </div>
+            <div className="form-group">
+              <label>Homepage</label>
+              <div className="input-group">
+                <input value={homepage} onChange={e => setHomepage(e.target.value)} placeholder="https://" />
+                {vendor.homepage && (
+                  <a href={vendor.homepage} target="_blank" rel="noopener noreferrer" className="website-link" title="Visit homepage">
+                    <ExternalLink size={16} />
+                  </a>
+                )}
+              </div>
+            </div>
+            <div className="form-group">
+              <label>Country</label>
+              <input value={country} onChange={e => setCountry(e.target.value)} />
+            </div>
+            <div className="form-group">
+              <label>Notes</label>
+              <textarea value={notes} onChange={e => setNotes(e.target.value)} rows={3} />
+            </div>
+            <button type="submit" className="btn-primary" disabled={isSaving}>
+              {isSaving ? 'Saving...' : 'Save Vendor'}
+            </button>
+          </form>
+
+          {vendorTeas.length > 0 && (
+            <ul className="backups-list">
+              {vendorTeas.map(tea => (
+                <li key={tea.id} className="backup-row">
+                  <div className="backup-info">
+                    <span className="backup-date">{tea.name}</span>
+                    <span className="backup-meta">
+                      {[tea.type, tea.rating ? `${tea.rating}/10` : ''].filter(Boolean).join(' · ')}
+                    </span>
+                  </div>
+                  <button className="btn-reset-used" onClick={() => onTeaSelect(tea.id)} title="Show this tea">
+                    Show
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,4 +1,16 @@
 export { TeaCard } from './TeaCard'
 export { FilterBar } from './FilterBar'
 export { SortControls } from './SortControls'
+export type { SortOption } from './SortControls'
 export { LoginPage } from './LoginPage'
+export { BackupsPanel } from './BackupsPanel'
+export { SessionHistory } from './SessionHistory'
+export { PurchaseHistory } from './PurchaseHistory'
+export { BulkImportPanel } from './BulkImportPanel'
+export { ResyncPanel } from './ResyncPanel'
+export { VendorPanel } from './VendorPanel'
+export { TagEditor } from './TagEditor'
+export { TagsPanel } from './TagsPanel'
+export { FlavorWheelPicker } from './FlavorWheelPicker'
+export { TastingNotes } from './TastingNotes'
+export { GuidedSession } from './GuidedSession'
@@ -3,17 +3,65 @@ export {
   TeaTypeSchema,
   TeaSchema,
   CaffeineLevelSchema,
+  PressingSchema,
   BrewingMethodSchema,
+  BrewingProfileSchema,
   CreateTeaSchema,
+  ProductListingSchema,
+  ProductOfferSchema,
+  ImportedTeaSchema,
+  BatchImportEventSchema,
+  UpdateTeaSchema,
+  TeaSyncResultSchema,
+  TeaSyncEventSchema,
+  StoredImageSchema,
+  BackupSchema,
+  SteepRecordSchema,
+  BrewSessionSchema,
+  PurchaseSchema,
+  VendorSchema,
+  TagCountSchema,
+  TastingNoteSchema,
   type Tea,
   type TeaType,
   type CaffeineLevel,
+  type Pressing,
   type BrewingMethod,
-  type CreateTea
+  type BrewingProfile,
+  type CreateTea,
+  type ProductListing,
+  type ProductOffer,
+  type ImportedTea,
+  type BatchImportEvent,
+  type BatchImportedTea,
+  type UpdateTea,
+  type TeaSyncChanges,
+  type TeaSyncResult,
+  type TeaSyncEvent,
+  type StoredImage,
+  type Backup,
+  type SteepRecord,
+  type BrewSession,
+  type ConsumeTea,
+  type Purchase,
+  type CreatePurchase,
+  type Vendor,
+  type UpdateVendor,
+  type TagCount,
+  type FlavorDescriptor,
+  type TastingIntensities,
+  type SteepNote,
+  type TastingNote,
+  type CreateTastingNote
 } from '../shared/types';
 
 export {
   TEA_TYPES,
   CAFFEINE_LEVELS,
-  BREWING_METHODS
+  PRESSING_FORMATS,
+  BREWING_METHODS,
+  MAX_BATCH_IMPORT_URLS,
+  FLAVOR_WHEEL,
+  FLAVOR_CATEGORIES,
+  TASTING_INTENSITIES
 } from '../shared/constants';
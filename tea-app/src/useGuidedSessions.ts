@@ -0,0 +1,44 @@
+import { createContext, useContext } from 'react';
+import type { BrewingMethod } from './types';
+import type { GuidedSessionSettings } from './utils/guidedSession';
+
+// Steps are positions in the session's steps. While brewing, the step's timer runs; between steps
+// the pot is poured and reset, and the next step starts at startsAt or, without auto-start, on a click.
+export type GuidedSessionPhase =
+  | { kind: 'brewing'; step: number }
+  | { kind: 'between'; step: number; startsAt: number | null }
+  | { kind: 'finished' };
+
+// A tea's guided session. It lives in GuidedSessionProvider rather than in the side panel, and is persisted
+// like the timers, so it carries on with the panel closed, another tea open, or after a reload.
+export interface GuidedSessionState {
+  teaId: string;
+  teaName: string;
+  // The brewing profile it walks through; the session is logged with its leaf and water temperature
+  method: BrewingMethod;
+  steepTimes: number[];
+  leafGrams: number | null;
+  temperatureCelsius: number | null;
+  // As they were when the session started
+  settings: GuidedSessionSettings;
+  phase: GuidedSessionPhase;
+}
+
+interface GuidedSessionContextType {
+  // Every tea's session that is running or has just finished
+  sessions: GuidedSessionState[];
+  startSession: (session: Omit<GuidedSessionState, 'phase'>) => void;
+  // Starts a step of a tea's session now, skipping what is left of the gap or restarting a stopped timer
+  startStep: (teaId: string, step: number) => void;
+  endSession: (teaId: string) => void;
+}
+
+export const GuidedSessionContext = createContext<GuidedSessionContextType | undefined>(undefined);
+
+export const useGuidedSessions = () => {
+  const context = useContext(GuidedSessionContext);
+  if (!context) {
+    throw new Error('useGuidedSessions must be used within a GuidedSessionProvider');
+  }
+  return context;
+};
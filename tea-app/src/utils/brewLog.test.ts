@@ -0,0 +1,56 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { getStoredBrewLogs, storeBrewLogs, recordSteepTime, getBrewedSteeps, type BrewLog } from './brewLog';
+
+const log: BrewLog = {
+  startedAt: 1000,
+  steeps: [
+    { index: 0, plannedSeconds: 10, actualSeconds: 10, startedAt: 1000 },
+    { index: 1, plannedSeconds: 15, actualSeconds: null, startedAt: 2000 },
+  ],
+};
+
+describe('Brew Log Utilities', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should keep the brew logs across reloads', () => {
+    storeBrewLogs(new Map([['1', log]]));
+
+    expect(getStoredBrewLogs()).toEqual(new Map([['1', log]]));
+  });
+
+  it('should remove the entry once no tea has a brew log', () => {
+    storeBrewLogs(new Map([['1', log]]));
+    storeBrewLogs(new Map());
+
+    expect(localStorage.getItem('brew_logs')).toBeNull();
+  });
+
+  it('should ignore unreadable stored brew logs', () => {
+    localStorage.setItem('brew_logs', JSON.stringify({ 1: { startedAt: 'yesterday', steeps: [] } }));
+    expect(getStoredBrewLogs().size).toBe(0);
+
+    localStorage.setItem('brew_logs', '{broken');
+    expect(getStoredBrewLogs().size).toBe(0);
+  });
+
+  it('should record the time of the latest brew of a steep', () => {
+    const rebrewed: BrewLog = { ...log, steeps: [...log.steeps, { index: 1, plannedSeconds: 15, actualSeconds: null, startedAt: 3000 }] };
+
+    const recorded = recordSteepTime(rebrewed, 1, 12);
+
+    expect(recorded.steeps.map(steep => steep.actualSeconds)).toEqual([10, null, 12]);
+  });
+
+  it('should leave the log alone for a steep it does not have', () => {
+    expect(recordSteepTime(log, -1, 5)).toBe(log);
+  });
+
+  it('should list the steeps brewed so far once each', () => {
+    const rebrewed: BrewLog = { ...log, steeps: [...log.steeps, { index: 1, plannedSeconds: 15, actualSeconds: null, startedAt: 3000 }] };
+
+    expect(getBrewedSteeps(rebrewed)).toEqual(new Set([0, 1]));
+    expect(getBrewedSteeps(undefined).size).toBe(0);
+  });
+});
@@ -0,0 +1,54 @@
+import { z } from 'zod';
+import { SteepRecordSchema } from '../types';
+
+// The steeps brewed since a tea's session started, sent with "All Done" and then cleared.
+// Stored next to the running timers, so a reload mid-session keeps both.
+const BrewLogSchema = z.object({
+  startedAt: z.number(),
+  steeps: z.array(SteepRecordSchema)
+});
+
+export type BrewLog = z.infer<typeof BrewLogSchema>;
+
+const BREW_LOGS_KEY = 'brew_logs';
+
+/**
+ * Reads the brew logs by tea id; an unreadable entry is dropped.
+ */
+export const getStoredBrewLogs = (): Map<string, BrewLog> => {
+  try {
+    const stored = z.record(z.string(), BrewLogSchema).safeParse(JSON.parse(localStorage.getItem(BREW_LOGS_KEY) ?? '{}'));
+    return new Map(stored.success ? Object.entries(stored.data) : []);
+  } catch {
+    return new Map();
+  }
+};
+
+export const storeBrewLogs = (logs: Map<string, BrewLog>): void => {
+  if (logs.size > 0) {
+    localStorage.setItem(BREW_LOGS_KEY, JSON.stringify(Object.fromEntries(logs)));
+  } else {
+    localStorage.removeItem(BREW_LOGS_KEY);
+  }
+};
+
+/**
+ * Records how long the latest brew of a steep actually took. Returns the log unchanged
+ * when the steep is not in it, e.g. for a rinse.
+ */
+export const recordSteepTime = (log: BrewLog, steepIndex: number, actualSeconds: number): BrewLog => {
+  const steepIdx = log.steeps.map(steep => steep.index).lastIndexOf(steepIndex);
+  if (steepIdx === -1) {
+    return log;
+  }
+  return {
+    ...log,
+    steeps: log.steeps.map((steep, idx) => (idx === steepIdx ? { ...steep, actualSeconds } : steep))
+  };
+};
+
+/**
+ * The indexes of the steeps brewed so far, which the steep buttons mark as used.
+ */
+export const getBrewedSteeps = (log: BrewLog | undefined): Set<number> =>
+  new Set(log?.steeps.map(steep => steep.index));
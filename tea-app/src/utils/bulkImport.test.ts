@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { createImportDraft, getDraftError, parseUrlList, toCreateTea } from './bulkImport';
+import type { BatchImportedTea } from '../types';
+
+const createImportedTea = (overrides?: Partial<BatchImportedTea>): BatchImportedTea => ({
+  name: 'Jin Jun Mei',
+  type: 'Black',
+  image: 'https://leafandkettle.example/images/jin-jun-mei.jpg',
+  steepTimes: [10, 15, 20],
+  caffeine: 'Medium caffeine',
+  caffeineLevel: 'Medium',
+  website: 'https://leafandkettle.example/products/jin-jun-mei',
+  temperatureCelsius: 90,
+  leafGrams: 5,
+  waterMl: 100,
+  timesConsumed: 0,
+  lastConsumedDate: null,
+  listing: {
+    name: 'Jin Jun Mei',
+    image: '',
+    description: '',
+    category: '',
+    price: 24.5,
+    currency: 'USD',
+    brand: '',
+    availability: '',
+    packageGrams: null,
+  },
+  offer: {
+    vendor: 'leafandkettle.example',
+    price: 24.5,
+    currency: 'USD',
+    packageGrams: null,
+  },
+  fetchedAt: 1760000000000,
+  fromCache: false,
+  ...overrides,
+});
+
+describe('parseUrlList', () => {
+  it('should read one URL per line and skip blank lines', () => {
+    expect(parseUrlList('https://a.example/1\n\n  https://b.example/2  \n')).toEqual([
+      'https://a.example/1',
+      'https://b.example/2',
+    ]);
+  });
+
+  it('should skip text that is not an http(s) URL and repeated URLs', () => {
+    expect(parseUrlList('Order #1234 https://a.example/1 ftp://a.example/file https://a.example/1')).toEqual([
+      'https://a.example/1',
+    ]);
+  });
+});
+
+describe('createImportDraft', () => {
+  it('should copy the reviewable fields', () => {
+    expect(createImportDraft(createImportedTea())).toEqual({
+      name: 'Jin Jun Mei',
+      type: 'Black',
+      steepTimes: '10, 15, 20',
+      caffeineLevel: 'Medium',
+    });
+  });
+
+  it('should leave an unrecognized type to be picked', () => {
+    expect(createImportDraft(createImportedTea({ type: '' })).type).toBe('');
+    expect(createImportDraft(createImportedTea({ type: 'Coffee' })).type).toBe('');
+  });
+});
+
+describe('getDraftError', () => {
+  const draft = createImportDraft(createImportedTea());
+
+  it('should accept a complete draft', () => {
+    expect(getDraftError(draft)).toBeNull();
+  });
+
+  it('should require a name, a type and steep times', () => {
+    expect(getDraftError({ ...draft, name: '  ' })).toBe('Enter a name');
+    expect(getDraftError({ ...draft, type: '' })).toBe('Choose a tea type');
+    expect(getDraftError({ ...draft, steepTimes: 'rinse' })).toBe('Enter at least one steep time');
+  });
+});
+
+describe('toCreateTea', () => {
+  it('should apply the edited fields and keep the scraped ones', () => {
+    const tea = createImportedTea();
+    const created = toCreateTea(tea, { name: ' Golden Eyebrow ', type: 'Black', steepTimes: '8, 12', caffeineLevel: 'High' });
+
+    expect(created).toMatchObject({
+      name: 'Golden Eyebrow',
+      type: 'Black',
+      steepTimes: [8, 12],
+      caffeineLevel: 'High',
+      image: tea.image,
+      website: tea.website,
+      temperatureCelsius: 90,
+      leafGrams: 5,
+      waterMl: 100,
+    });
+    expect(created).not.toHaveProperty('brewingProfiles');
+  });
+
+  it('should copy edited steep times into the first brewing profile', () => {
+    const tea = createImportedTea({
+      brewingProfiles: [
+        { method: 'Chinese Gongfu', steepTimes: [10, 15, 20], temperatureCelsius: 90, leafGrams: 5, waterMl: 100 },
+        { method: 'Western', steepTimes: [120, 180], temperatureCelsius: 90, leafGrams: 3, waterMl: 350 },
+      ],
+    });
+    const created = toCreateTea(tea, { ...createImportDraft(tea), steepTimes: '5, 10' });
+
+    expect(created.brewingProfiles?.map(profile => profile.steepTimes)).toEqual([[5, 10], [120, 180]]);
+  });
+});
@@ -0,0 +1,54 @@
+import type { BatchImportedTea, CaffeineLevel, CreateTea, TeaType } from '../types';
+import { updatePrimaryProfile } from '../../shared/brewing';
+import { isTeaType } from '../../shared/teaTypes';
+import { parseSteepTimeList } from './formInput';
+
+// The fields of a scraped tea that can be corrected in the review table before it is created
+export interface ImportDraft {
+  name: string;
+  // Empty until picked when the scraper did not recognize the type
+  type: TeaType | '';
+  steepTimes: string;
+  caffeineLevel: CaffeineLevel;
+}
+
+// Product URLs from pasted text, one per line or separated by spaces. Anything that is not
+// an http(s) URL is skipped and repeated URLs are only imported once.
+export const parseUrlList = (text: string): string[] =>
+  Array.from(new Set(text.split(/\s+/).filter(entry => /^https?:\/\/\S+$/i.test(entry))));
+
+export const createImportDraft = (tea: BatchImportedTea): ImportDraft => ({
+  name: tea.name,
+  type: isTeaType(tea.type) ? tea.type : '',
+  steepTimes: tea.steepTimes.join(', '),
+  caffeineLevel: tea.caffeineLevel
+});
+
+// What keeps a draft from being created; null when it is ready
+export const getDraftError = (draft: ImportDraft): string | null => {
+  if (draft.name.trim() === '') return 'Enter a name';
+  if (draft.type === '') return 'Choose a tea type';
+  if (parseSteepTimeList(draft.steepTimes).length === 0) return 'Enter at least one steep time';
+  return null;
+};
+
+// The tea to create from a scraped tea and its reviewed draft (which must have no draft error).
+// Edited steep times also go into the first brewing profile, which the server treats as authoritative.
+export const toCreateTea = (tea: BatchImportedTea, draft: ImportDraft): CreateTea =>
+  updatePrimaryProfile({
+    name: draft.name.trim(),
+    type: draft.type as TeaType,
+    image: tea.image,
+    steepTimes: parseSteepTimeList(draft.steepTimes),
+    caffeine: tea.caffeine,
+    caffeineLevel: draft.caffeineLevel,
+    website: tea.website,
+    temperatureCelsius: tea.temperatureCelsius,
+    leafGrams: tea.leafGrams,
+    waterMl: tea.waterMl,
+    harvestYear: tea.harvestYear ?? null,
+    region: tea.region ?? null,
+    factory: tea.factory ?? null,
+    pressing: tea.pressing ?? null,
+    ...(tea.brewingProfiles && tea.brewingProfiles.length > 0 && { brewingProfiles: tea.brewingProfiles })
+  });
@@ -27,3 +27,13 @@ export const formatLastConsumedDate = (timestamp: number | null): string => {
     year: 'numeric'
   });
 };
+
+/**
+ * Formats a tea's age in years for its age badge: "New" in its harvest year, then "1 yr", "7 yrs".
+ */
+export const formatTeaAge = (years: number): string => {
+  if (years === 0) {
+    return 'New';
+  }
+  return `${years} ${years === 1 ? 'yr' : 'yrs'}`;
+};
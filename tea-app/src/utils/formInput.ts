@@ -0,0 +1,7 @@
+// "10, 15, 20" -> [10, 15, 20]; entries that are not numbers are dropped
+export const parseSteepTimeList = (value: string): number[] =>
+  value.split(',').map(t => parseInt(t.trim())).filter(t => !isNaN(t));
+
+// Empty number inputs mean "not set"
+export const parseOptionalNumber = (value: string): number | null =>
+  value.trim() === '' ? null : Number(value);
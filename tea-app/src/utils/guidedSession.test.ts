@@ -0,0 +1,43 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  RINSE_STEEP_INDEX,
+  DEFAULT_GUIDED_SESSION_SETTINGS,
+  getStoredGuidedSessionSettings,
+  storeGuidedSessionSettings,
+  getSessionSteps,
+  formatSessionStep,
+} from './guidedSession';
+
+describe('Guided Session Utilities', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should put the rinse before the steeps', () => {
+    expect(getSessionSteps(3, true)).toEqual([RINSE_STEEP_INDEX, 0, 1, 2]);
+    expect(getSessionSteps(2, false)).toEqual([0, 1]);
+  });
+
+  it('should name the rinse and the steeps', () => {
+    expect(formatSessionStep(RINSE_STEEP_INDEX)).toBe('Rinse');
+    expect(formatSessionStep(0)).toBe('Steep 1');
+  });
+
+  it('should default the settings until some are stored', () => {
+    expect(getStoredGuidedSessionSettings()).toEqual(DEFAULT_GUIDED_SESSION_SETTINGS);
+
+    storeGuidedSessionSettings({ rinse: false, rinseSeconds: 8, gapSeconds: 20, autoStart: false });
+
+    expect(getStoredGuidedSessionSettings()).toEqual({ rinse: false, rinseSeconds: 8, gapSeconds: 20, autoStart: false });
+  });
+
+  it('should replace invalid stored settings with the defaults', () => {
+    localStorage.setItem('guided_session_settings', JSON.stringify({ rinse: 'yes', gapSeconds: -5, autoStart: false }));
+
+    expect(getStoredGuidedSessionSettings()).toEqual({ ...DEFAULT_GUIDED_SESSION_SETTINGS, autoStart: false });
+
+    localStorage.setItem('guided_session_settings', '{broken');
+
+    expect(getStoredGuidedSessionSettings()).toEqual(DEFAULT_GUIDED_SESSION_SETTINGS);
+  });
+});
@@ -0,0 +1,61 @@
+// Settings and steps of a guided session, which walks through a tea's steeps in order
+
+// The steep index a rinse is timed under; it is not a steep and is not logged
+export const RINSE_STEEP_INDEX = -1;
+
+export interface GuidedSessionSettings {
+  // Pour off a quick rinse before the first steep
+  rinse: boolean;
+  rinseSeconds: number;
+  // Time to pour and reset the pot between steeps
+  gapSeconds: number;
+  // Start the next steep once the gap is over instead of waiting for a click
+  autoStart: boolean;
+}
+
+export const DEFAULT_GUIDED_SESSION_SETTINGS: GuidedSessionSettings = {
+  rinse: true,
+  rinseSeconds: 5,
+  gapSeconds: 10,
+  autoStart: true
+};
+
+const GUIDED_SESSION_SETTINGS_KEY = 'guided_session_settings';
+
+const isSeconds = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+/**
+ * Reads the last used session settings; missing or invalid ones fall back to the defaults.
+ */
+export const getStoredGuidedSessionSettings = (): GuidedSessionSettings => {
+  try {
+    const stored = (JSON.parse(localStorage.getItem(GUIDED_SESSION_SETTINGS_KEY) ?? '{}') ?? {}) as Partial<Record<keyof GuidedSessionSettings, unknown>>;
+    return {
+      rinse: typeof stored.rinse === 'boolean' ? stored.rinse : DEFAULT_GUIDED_SESSION_SETTINGS.rinse,
+      rinseSeconds: isSeconds(stored.rinseSeconds) ? stored.rinseSeconds : DEFAULT_GUIDED_SESSION_SETTINGS.rinseSeconds,
+      gapSeconds: isSeconds(stored.gapSeconds) ? stored.gapSeconds : DEFAULT_GUIDED_SESSION_SETTINGS.gapSeconds,
+      autoStart: typeof stored.autoStart === 'boolean' ? stored.autoStart : DEFAULT_GUIDED_SESSION_SETTINGS.autoStart
+    };
+  } catch {
+    return DEFAULT_GUIDED_SESSION_SETTINGS;
+  }
+};
+
+export const storeGuidedSessionSettings = (settings: GuidedSessionSettings): void => {
+  localStorage.setItem(GUIDED_SESSION_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+/**
+ * The steps of a session as steep indexes: the rinse when there is one, then every steep in order.
+ */
+export const getSessionSteps = (steepCount: number, rinse: boolean): number[] => [
+  ...(rinse ? [RINSE_STEEP_INDEX] : []),
+  ...Array.from({ length: steepCount }, (_, index) => index)
+];
+
+/**
+ * A step's name, e.g. "Rinse" or "Steep 2".
+ */
+export const formatSessionStep = (steepIndex: number): string =>
+  steepIndex === RINSE_STEEP_INDEX ? 'Rinse' : `Steep ${steepIndex + 1}`;
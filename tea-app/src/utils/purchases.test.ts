@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { formatPrice, toDateInput, fromDateInput } from './purchases';
+
+describe('formatPrice', () => {
+  it('should format an amount in its currency', () => {
+    expect(formatPrice(24.5, 'USD')).toBe('$24.50');
+    expect(formatPrice(18, 'EUR')).toBe('€18.00');
+  });
+
+  it('should keep a third decimal for amounts below one', () => {
+    expect(formatPrice(0.125, 'USD')).toBe('$0.125');
+    expect(formatPrice(0.2, 'USD')).toBe('$0.20');
+  });
+
+  it('should show a currency that is not a code after the number', () => {
+    expect(formatPrice(3, 'dollars')).toBe('3.00 dollars');
+  });
+});
+
+describe('date inputs', () => {
+  it('should round-trip a day through a date input', () => {
+    const timestamp = fromDateInput('2026-03-14');
+
+    expect(timestamp).toBe(new Date(2026, 2, 14).getTime());
+    expect(toDateInput(timestamp as number)).toBe('2026-03-14');
+  });
+
+  it('should return null for an empty or malformed date', () => {
+    expect(fromDateInput('')).toBeNull();
+    expect(fromDateInput('14/03/2026')).toBeNull();
+  });
+});
@@ -0,0 +1,30 @@
+// Formatting and form helpers for the purchase history
+
+// "$24.50", "€0.125" - small amounts such as a price per gram keep a third decimal.
+// Currencies that are not ISO 4217 codes are shown after the number.
+export const formatPrice = (amount: number, currency: string): string => {
+  const maximumFractionDigits = amount > 0 && amount < 1 ? 3 : 2;
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency, minimumFractionDigits: 2, maximumFractionDigits }).format(amount);
+  } catch {
+    return `${amount.toFixed(maximumFractionDigits)} ${currency}`.trim();
+  }
+};
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+// A timestamp as the value of a date input ("2026-03-14"), in local time
+export const toDateInput = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+// A date input's value as local midnight; null for an empty or invalid date
+export const fromDateInput = (value: string): number | null => {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) {
+    return null;
+  }
+  const timestamp = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])).getTime();
+  return isNaN(timestamp) ? null : timestamp;
+};
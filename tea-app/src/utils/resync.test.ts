@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { formatSyncValue, pickSyncChanges } from './resync';
+
+describe('formatSyncValue', () => {
+  it('should show missing values as a dash', () => {
+    expect(formatSyncValue('temperatureCelsius', null, 'C')).toBe('—');
+    expect(formatSyncValue('caffeine', '', 'C')).toBe('—');
+    expect(formatSyncValue('brewingProfiles', undefined, 'C')).toBe('—');
+  });
+
+  it('should format brewing parameters with their units', () => {
+    expect(formatSyncValue('steepTimes', [10, 15, 20], 'C')).toBe('10, 15, 20s');
+    expect(formatSyncValue('temperatureCelsius', 85, 'F')).toBe('185°F');
+    expect(formatSyncValue('leafGrams', 5, 'C')).toBe('5 g');
+    expect(formatSyncValue('waterMl', 110, 'C')).toBe('110 ml');
+  });
+
+  it('should list each brewing profile', () => {
+    const profiles = [
+      { method: 'Chinese Gongfu', steepTimes: [10, 15], temperatureCelsius: 85, leafGrams: 5, waterMl: 110 },
+      { method: 'Western', steepTimes: [120], temperatureCelsius: null, leafGrams: null, waterMl: null }
+    ];
+
+    expect(formatSyncValue('brewingProfiles', profiles, 'C')).toBe('Chinese Gongfu: 10, 15s, 85°C, 5 g, 110 ml; Western: 120s');
+  });
+});
+
+describe('pickSyncChanges', () => {
+  it('should keep only the picked fields', () => {
+    const changes = { image: 'https://example.com/new.jpg', steepTimes: [20, 30], temperatureCelsius: 95 };
+
+    expect(pickSyncChanges(changes, new Set(['steepTimes', 'name'] as const))).toEqual({ steepTimes: [20, 30] });
+  });
+});
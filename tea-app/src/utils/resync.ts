@@ -0,0 +1,64 @@
+import type { BrewingProfile, Tea, TeaSyncChanges } from '../types';
+import { formatTemperature, type TemperatureUnit } from './temperature';
+
+export type SyncField = keyof TeaSyncChanges;
+
+// Review table labels, in the order the fields are listed
+export const SYNC_FIELD_LABELS: Record<SyncField, string> = {
+  name: 'Name',
+  type: 'Type',
+  image: 'Image',
+  steepTimes: 'Steep times',
+  caffeine: 'Caffeine',
+  caffeineLevel: 'Caffeine level',
+  temperatureCelsius: 'Temperature',
+  leafGrams: 'Leaf',
+  waterMl: 'Water',
+  brewingProfiles: 'Brewing profiles',
+  harvestYear: 'Harvest year',
+  region: 'Region',
+  factory: 'Factory',
+  pressing: 'Pressing'
+};
+
+export const SYNC_FIELDS = Object.keys(SYNC_FIELD_LABELS) as SyncField[];
+
+const formatSteepTimes = (steepTimes: number[]): string => `${steepTimes.join(', ')}s`;
+
+const formatProfile = (profile: BrewingProfile, unit: TemperatureUnit): string =>
+  [
+    `${profile.method}: ${formatSteepTimes(profile.steepTimes)}`,
+    profile.temperatureCelsius !== null && formatTemperature(profile.temperatureCelsius, unit),
+    profile.leafGrams !== null && `${profile.leafGrams} g`,
+    profile.waterMl !== null && `${profile.waterMl} ml`
+  ].filter(Boolean).join(', ');
+
+// A stored or suggested field value as shown in the review table; "—" when there is none
+export const formatSyncValue = (field: SyncField, value: unknown, unit: TemperatureUnit): string => {
+  if (value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0)) {
+    return '—';
+  }
+
+  switch (field) {
+    case 'steepTimes':
+      return formatSteepTimes(value as number[]);
+    case 'temperatureCelsius':
+      return formatTemperature(value as number, unit);
+    case 'leafGrams':
+      return `${value} g`;
+    case 'waterMl':
+      return `${value} ml`;
+    case 'brewingProfiles':
+      return (value as BrewingProfile[]).map(profile => formatProfile(profile, unit)).join('; ');
+    default:
+      return String(value);
+  }
+};
+
+// The stored value a suggested change replaces; for a stored image, the URL it was downloaded from
+export const getCurrentSyncValue = (tea: Tea, field: SyncField): unknown =>
+  field === 'image' ? tea.imageSourceUrl ?? tea.image : tea[field];
+
+// Only the picked changes, ready to be sent as a PATCH
+export const pickSyncChanges = (changes: TeaSyncChanges, fields: ReadonlySet<SyncField>): Partial<Tea> =>
+  Object.fromEntries(Object.entries(changes).filter(([field, value]) => fields.has(field as SyncField) && value !== undefined));
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { diffTeaFields } from '../../shared/teaDiff';
+import type { Tea } from '../types';
+
+const createMockTea = (overrides?: Partial<Tea>): Tea => ({
+  id: '1',
+  name: 'Green Tea',
+  type: 'Green',
+  image: 'https://example.com/image.jpg',
+  steepTimes: [30, 45, 60],
+  caffeine: 'Some',
+  caffeineLevel: 'Medium',
+  website: 'https://example.com',
+  temperatureCelsius: 77,
+  leafGrams: 2.5,
+  waterMl: null,
+  timesConsumed: 3,
+  lastConsumedDate: null,
+  ...overrides,
+});
+
+describe('diffTeaFields', () => {
+  it('should return an empty object when nothing changed', () => {
+    const tea = createMockTea();
+
+    expect(diffTeaFields(tea, { name: tea.name, steepTimes: [30, 45, 60] })).toEqual({});
+  });
+
+  it('should return only the changed fields', () => {
+    const tea = createMockTea();
+
+    const changes = diffTeaFields(tea, {
+      name: 'Dragon Well',
+      type: 'Green',
+      leafGrams: 3,
+    });
+
+    expect(changes).toEqual({ name: 'Dragon Well', leafGrams: 3 });
+  });
+
+  it('should detect changed steep times', () => {
+    const tea = createMockTea();
+
+    expect(diffTeaFields(tea, { steepTimes: [30, 45, 90] })).toEqual({ steepTimes: [30, 45, 90] });
+    expect(diffTeaFields(tea, { steepTimes: [30, 45] })).toEqual({ steepTimes: [30, 45] });
+  });
+
+  it('should compare brewing profiles by value', () => {
+    const profile = { method: 'Western' as const, steepTimes: [180], temperatureCelsius: 90, leafGrams: 3, waterMl: 350 };
+    const tea = createMockTea({ brewingProfiles: [profile] });
+
+    expect(diffTeaFields(tea, { brewingProfiles: [{ ...profile }] })).toEqual({});
+    expect(diffTeaFields(tea, { brewingProfiles: [{ ...profile, leafGrams: 4 }] }))
+      .toEqual({ brewingProfiles: [{ ...profile, leafGrams: 4 }] });
+  });
+
+  it('should treat an absent optional field as null', () => {
+    const tea = createMockTea();
+
+    expect(diffTeaFields(tea, { stockGrams: null })).toEqual({});
+    expect(diffTeaFields(tea, { stockGrams: 100 })).toEqual({ stockGrams: 100 });
+  });
+
+  it('should not include fields that were not passed in', () => {
+    const tea = createMockTea();
+
+    const changes = diffTeaFields(tea, { caffeineLevel: 'High' });
+
+    expect(changes).toEqual({ caffeineLevel: 'High' });
+    expect(changes).not.toHaveProperty('timesConsumed');
+    expect(changes).not.toHaveProperty('lastConsumedDate');
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  formatTemperature,
+  toTemperatureInput,
+  fromTemperatureInput,
+  getStoredTemperatureUnit,
+  storeTemperatureUnit,
+} from './temperature';
+
+describe('Temperature Utilities', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should format Celsius as stored', () => {
+    expect(formatTemperature(85, 'C')).toBe('85°C');
+  });
+
+  it('should convert to Fahrenheit for display', () => {
+    expect(formatTemperature(85, 'F')).toBe('185°F');
+    expect(formatTemperature(100, 'F')).toBe('212°F');
+  });
+
+  it('should round-trip form input through the display unit', () => {
+    expect(toTemperatureInput(85, 'F')).toBe('185');
+    expect(fromTemperatureInput('185', 'F')).toBe(85);
+    expect(fromTemperatureInput('90', 'C')).toBe(90);
+  });
+
+  it('should treat empty input as not set', () => {
+    expect(toTemperatureInput(null, 'C')).toBe('');
+    expect(fromTemperatureInput('  ', 'F')).toBeNull();
+  });
+
+  it('should default to Celsius and remember the chosen unit', () => {
+    expect(getStoredTemperatureUnit()).toBe('C');
+
+    storeTemperatureUnit('F');
+
+    expect(getStoredTemperatureUnit()).toBe('F');
+  });
+});
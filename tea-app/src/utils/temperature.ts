@@ -0,0 +1,42 @@
+import { celsiusToFahrenheit, fahrenheitToCelsius } from '../../shared/brewing';
+
+export type TemperatureUnit = 'C' | 'F';
+
+const TEMPERATURE_UNIT_KEY = 'temperature_unit';
+
+/**
+ * Reads the preferred display unit; temperatures are always stored in °C.
+ */
+export const getStoredTemperatureUnit = (): TemperatureUnit =>
+  localStorage.getItem(TEMPERATURE_UNIT_KEY) === 'F' ? 'F' : 'C';
+
+export const storeTemperatureUnit = (unit: TemperatureUnit): void => {
+  localStorage.setItem(TEMPERATURE_UNIT_KEY, unit);
+};
+
+/**
+ * Converts a stored °C value to the display unit, e.g. 85 → "185°F".
+ */
+export const formatTemperature = (celsius: number, unit: TemperatureUnit): string =>
+  unit === 'F' ? `${celsiusToFahrenheit(celsius)}°F` : `${celsius}°C`;
+
+/**
+ * Converts a stored °C value to a form input value in the display unit.
+ */
+export const toTemperatureInput = (celsius: number | null | undefined, unit: TemperatureUnit): string => {
+  if (celsius === null || celsius === undefined) {
+    return '';
+  }
+  return String(unit === 'F' ? celsiusToFahrenheit(celsius) : celsius);
+};
+
+/**
+ * Converts a form input value in the display unit back to °C. Empty input means not set.
+ */
+export const fromTemperatureInput = (value: string, unit: TemperatureUnit): number | null => {
+  if (value.trim() === '') {
+    return null;
+  }
+  const number = Number(value);
+  return unit === 'F' ? fahrenheitToCelsius(number) : number;
+};